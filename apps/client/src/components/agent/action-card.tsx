@@ -1,9 +1,10 @@
-import { useState } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Badge } from "../ui/badge";
 import { cn } from "../../lib/utils";
-import type { AgentActionType, AgentActionStatus } from "../../lib/api";
+import { parseAnsi, type AnsiStyle } from "../../lib/ansi";
+import type { AgentActionType, AgentActionStatus, NetworkAccess, CommandOutputChunk } from "../../lib/api";
 import {
   FileText,
   FolderOpen,
@@ -18,6 +19,11 @@ import {
   AlertCircle,
   ChevronDown,
   ChevronUp,
+  Search,
+  FileDiff,
+  Play,
+  ScrollText,
+  Square,
 } from "lucide-react";
 
 interface ActionCardProps {
@@ -25,7 +31,15 @@ interface ActionCardProps {
   type: AgentActionType;
   params: Record<string, unknown>;
   status: AgentActionStatus;
-  result?: { success: boolean; output?: string; error?: string } | null;
+  result?: {
+    success: boolean;
+    output?: string;
+    error?: string;
+    networkAccess?: NetworkAccess;
+    outputChunks?: CommandOutputChunk[];
+  } | null;
+  // Output streamed while the command runs, replaced by result.outputChunks once it finishes
+  liveOutput?: CommandOutputChunk[];
   onApprove?: () => void;
   onReject?: () => void;
   isAwaitingApproval?: boolean;
@@ -34,20 +48,30 @@ interface ActionCardProps {
 const actionIcons: Record<AgentActionType, React.ComponentType<{ className?: string }>> = {
   readFile: FileText,
   listDirectory: FolderOpen,
+  searchFiles: Search,
   writeFile: FilePlus,
   editFile: FileEdit,
   deleteFile: Trash2,
+  applyPatch: FileDiff,
   executeCommand: Terminal,
+  startProcess: Play,
+  readProcessOutput: ScrollText,
+  stopProcess: Square,
   completeTask: CheckCircle2,
 };
 
 const actionLabels: Record<AgentActionType, string> = {
   readFile: "Read File",
   listDirectory: "List Directory",
+  searchFiles: "Search Files",
   writeFile: "Write File",
   editFile: "Edit File",
   deleteFile: "Delete File",
+  applyPatch: "Apply Patch",
   executeCommand: "Execute Command",
+  startProcess: "Start Process",
+  readProcessOutput: "Read Process Output",
+  stopProcess: "Stop Process",
   completeTask: "Complete Task",
 };
 
@@ -60,12 +84,73 @@ const statusColors: Record<AgentActionStatus, string> = {
   failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
 };
 
+function ansiStyleToCss(style: AnsiStyle): React.CSSProperties {
+  return {
+    color: style.foreground,
+    backgroundColor: style.background,
+    fontWeight: style.bold ? "bold" : undefined,
+    opacity: style.dim ? 0.7 : undefined,
+    fontStyle: style.italic ? "italic" : undefined,
+    textDecoration: style.underline ? "underline" : undefined,
+  };
+}
+
+// Terminal-style view of a command's output. Follows new output while scrolled to the bottom,
+// and stays put once the user scrolls up to read.
+function CommandTerminal({ chunks, running }: { chunks: CommandOutputChunk[]; running: boolean }) {
+  const containerRef = useRef<HTMLPreElement>(null);
+  const followRef = useRef(true);
+
+  const segments = useMemo(() => {
+    let style: AnsiStyle = {};
+    return chunks.flatMap((chunk) => {
+      const parsed = parseAnsi(chunk.text, style);
+      style = parsed.style;
+      return parsed.segments.map((segment) => ({ ...segment, stream: chunk.stream }));
+    });
+  }, [chunks]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container && followRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [segments]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (container) {
+      followRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 16;
+    }
+  };
+
+  return (
+    <pre
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="mt-2 p-2 rounded bg-zinc-950 text-zinc-200 text-xs font-mono overflow-auto max-h-64 whitespace-pre-wrap break-all"
+    >
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={segment.stream === "stderr" && !segment.style.foreground ? "text-red-300" : undefined}
+          style={ansiStyleToCss(segment.style)}
+        >
+          {segment.text}
+        </span>
+      ))}
+      {running && <span className="inline-block w-2 h-3 bg-zinc-400 animate-pulse align-middle" />}
+    </pre>
+  );
+}
+
 export function ActionCard({
   id,
   type,
   params,
   status,
   result,
+  liveOutput,
   onApprove,
   onReject,
   isAwaitingApproval,
@@ -80,6 +165,24 @@ export function ActionCard({
         return <code className="text-xs">{params.path as string}</code>;
       case "listDirectory":
         return <code className="text-xs">{params.path as string}</code>;
+      case "searchFiles": {
+        const include = params.include as string[] | undefined;
+        const exclude = params.exclude as string[] | undefined;
+        return (
+          <div className="space-y-1">
+            <code className="text-xs block bg-muted p-1 rounded">
+              {params.regex ? `/${params.query as string}/` : (params.query as string)}
+            </code>
+            {(!!include?.length || !!exclude?.length) && (
+              <p className="text-xs text-muted-foreground">
+                {include?.length ? `in ${include.join(", ")}` : ""}
+                {include?.length && exclude?.length ? "; " : ""}
+                {exclude?.length ? `excluding ${exclude.join(", ")}` : ""}
+              </p>
+            )}
+          </div>
+        );
+      }
       case "writeFile":
         return (
           <div className="space-y-2">
@@ -113,7 +216,19 @@ export function ActionCard({
             )}
           </div>
         );
+      case "applyPatch":
+        return (
+          <div className="space-y-2">
+            <p className="text-xs">{params.description as string}</p>
+            {expanded && (
+              <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-48">
+                {params.patch as string}
+              </pre>
+            )}
+          </div>
+        );
       case "executeCommand":
+      case "startProcess":
         return (
           <div className="space-y-1">
             <code className="text-xs block bg-muted p-1 rounded">
@@ -122,6 +237,9 @@ export function ActionCard({
             <p className="text-xs text-muted-foreground">{params.description as string}</p>
           </div>
         );
+      case "readProcessOutput":
+      case "stopProcess":
+        return <code className="text-xs">{params.processId as string}</code>;
       case "completeTask":
         return <p className="text-xs">{params.summary as string}</p>;
       default:
@@ -129,7 +247,17 @@ export function ActionCard({
     }
   };
 
-  const hasExpandableContent = type === "writeFile" || type === "editFile";
+  // Search results are one match per line, show a count until expanded
+  const searchMatchCount =
+    type === "searchFiles" && result?.success && result.output
+      ? result.output.split("\n").filter((line) => /^.+:\d+: /.test(line)).length
+      : null;
+
+  const outputChunks = result?.outputChunks ?? liveOutput;
+  const showTerminal = type === "executeCommand" && (status === "executing" || !!outputChunks?.length);
+
+  const hasExpandableContent =
+    type === "writeFile" || type === "editFile" || type === "applyPatch" || (searchMatchCount !== null && searchMatchCount > 0);
 
   return (
     <Card className={cn(
@@ -148,6 +276,11 @@ export function ActionCard({
               {status === "executing" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
               {status}
             </Badge>
+            {result?.networkAccess && result.networkAccess !== "full" && (
+              <Badge variant="outline" className="text-xs" title="Network access the command ran with">
+                {result.networkAccess === "none" ? "no network" : "localhost only"}
+              </Badge>
+            )}
           </div>
           {hasExpandableContent && (
             <Button
@@ -168,6 +301,8 @@ export function ActionCard({
       <CardContent className="p-3 pt-2">
         {renderParams()}
 
+        {showTerminal && <CommandTerminal chunks={outputChunks ?? []} running={status === "executing"} />}
+
         {result && (
           <div className={cn(
             "mt-2 p-2 rounded text-xs",
@@ -175,11 +310,25 @@ export function ActionCard({
               ? "bg-green-50 dark:bg-green-900/20"
               : "bg-red-50 dark:bg-red-900/20"
           )}>
-            {result.success ? (
+            {result.success && searchMatchCount !== null && searchMatchCount > 0 ? (
+              <div className="space-y-2">
+                <div className="flex items-start gap-2">
+                  <Check className="h-3 w-3 text-green-600 dark:text-green-400 mt-0.5" />
+                  <span className="text-green-800 dark:text-green-200">
+                    {searchMatchCount} match{searchMatchCount !== 1 ? "es" : ""}
+                  </span>
+                </div>
+                {expanded && (
+                  <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-48">
+                    {result.output}
+                  </pre>
+                )}
+              </div>
+            ) : result.success ? (
               <div className="flex items-start gap-2">
                 <Check className="h-3 w-3 text-green-600 dark:text-green-400 mt-0.5" />
                 <span className="text-green-800 dark:text-green-200">
-                  {result.output || "Success"}
+                  {showTerminal ? "Success" : result.output || "Success"}
                 </span>
               </div>
             ) : (
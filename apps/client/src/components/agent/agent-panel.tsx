@@ -1,22 +1,34 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Badge } from "../ui/badge";
 import { Textarea } from "../ui/textarea";
+import { Switch } from "../ui/switch";
+import { Label } from "../ui/label";
 import { cn } from "../../lib/utils";
 import {
   agentAPI,
+  parseAgentAction,
   type Task,
   type Project,
+  type AgentAction,
   type AgentExecutionStatus,
   type AgentActionType,
   type AgentActionStatus,
+  type AgentActionParsed,
+  type CommandOutputChunk,
+  type ExecutionPlan,
+  type PlanReview,
+  type ReviewIssue,
+  type ProviderFailover,
 } from "../../lib/api";
 import type { AgentReasoningStep } from "@open-dev/shared";
 import { ActionCard } from "./action-card";
 import { ReasoningDisplay } from "./reasoning-display";
 import { ToolApprovalSettingsDialog } from "./tool-approval-settings";
+import { SandboxLimitsDialog } from "./sandbox-limits-settings";
 import { FileChangesPreview } from "./file-changes-preview";
+import { ExecutionPlanPanel } from "./plan-review";
 import {
   Bot,
   Play,
@@ -31,6 +43,10 @@ import {
   List,
   MessageCircleQuestion,
   Send,
+  RotateCcw,
+  Square,
+  Hourglass,
+  Gauge,
 } from "lucide-react";
 
 interface AgentPanelProps {
@@ -46,7 +62,17 @@ interface ActionState {
   type: AgentActionType;
   params: Record<string, unknown>;
   status: AgentActionStatus;
-  result?: { success: boolean; output?: string; error?: string };
+  result?: NonNullable<AgentActionParsed["result"]>;
+  // Output of a running command, streamed as commandOutput events
+  liveOutput?: CommandOutputChunk[];
+}
+
+// Actions shown in the diff preview instead of as cards
+const FILE_ACTION_TYPES: AgentActionType[] = ["writeFile", "editFile", "deleteFile", "applyPatch"];
+
+interface QueueState {
+  position: number;
+  etaSeconds: number | null;
 }
 
 interface ActivityLogEntry {
@@ -63,6 +89,38 @@ interface QuestionState {
   context?: string;
 }
 
+// Statuses where the execution's loop is (or is about to be) running on the server
+function isActiveStatus(status: AgentExecutionStatus | null): boolean {
+  return status === "queued" || status === "analyzing" || status === "executing";
+}
+
+function formatWait(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
+// Describe what a cancelled execution used before it was stopped
+function formatUsageSummary(usage: {
+  elapsedTimeSeconds: number;
+  tokensUsed: number;
+  costUsd: number;
+  stepsCount: number;
+  commandsCount: number;
+}): string {
+  const cost = usage.costUsd > 0 ? `, $${usage.costUsd.toFixed(4)}` : "";
+  return `Stopped after ${usage.elapsedTimeSeconds}s, ${usage.stepsCount} steps, ${usage.tokensUsed} tokens${cost}, ${usage.commandsCount} commands`;
+}
+
+function toActionState(action: AgentAction): ActionState {
+  const parsed = parseAgentAction(action);
+  return {
+    id: parsed.id,
+    type: parsed.actionType,
+    params: parsed.actionParams,
+    status: parsed.status,
+    result: parsed.result ?? undefined,
+  };
+}
+
 export function AgentPanel({
   project,
   task,
@@ -74,6 +132,8 @@ export function AgentPanel({
   const [status, setStatus] = useState<AgentExecutionStatus | null>(null);
   const [actions, setActions] = useState<ActionState[]>([]);
   const [agentText, setAgentText] = useState("");
+  // Text of the model step currently being streamed, shown live until it is parsed into reasoning steps
+  const [streamingText, setStreamingText] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(false);
   const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
@@ -83,12 +143,17 @@ export function AgentPanel({
   const [pendingQuestion, setPendingQuestion] = useState<QuestionState | null>(null);
   const [questionResponse, setQuestionResponse] = useState("");
   const [isSubmittingAnswer, setIsSubmittingAnswer] = useState(false);
+  const [queueState, setQueueState] = useState<QueueState | null>(null);
+  // Start the next execution in plan_first mode
+  const [planFirst, setPlanFirst] = useState(false);
+  const [plan, setPlan] = useState<ExecutionPlan | null>(null);
+  const [isReviewingPlan, setIsReviewingPlan] = useState(false);
 
   // Check if there are file-changing actions (for diff view)
   const hasFileActions = useMemo(
     () =>
       actions.some((a) =>
-        ["writeFile", "editFile", "deleteFile"].includes(a.type)
+        FILE_ACTION_TYPES.includes(a.type)
       ),
     [actions]
   );
@@ -97,7 +162,7 @@ export function AgentPanel({
   const nonFileActions = useMemo(
     () =>
       actions.filter(
-        (a) => !["writeFile", "editFile", "deleteFile"].includes(a.type)
+        (a) => !FILE_ACTION_TYPES.includes(a.type)
       ),
     [actions]
   );
@@ -116,6 +181,71 @@ export function AgentPanel({
     ]);
   }, []);
 
+  // Add a reasoning step, or replace a streamed step that is still growing
+  const upsertReasoningStep = useCallback((step: AgentReasoningStep) => {
+    setReasoningSteps((prev) => {
+      if (prev.some((s) => s.id === step.id)) {
+        return prev.map((s) => (s.id === step.id ? step : s));
+      }
+      return [...prev, step];
+    });
+  }, []);
+
+  // Reattach to the task's latest execution so a reload or server restart doesn't lose its state
+  useEffect(() => {
+    let cancelled = false;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+    const restore = async () => {
+      const latest = await agentAPI.getLatestExecution(project.id, task.id);
+      if (cancelled || !latest) return;
+
+      const { execution } = latest;
+      setExecutionId(execution.id);
+      setStatus(execution.status);
+      setActions(latest.actions.map(toActionState));
+      setPlan(execution.plan ? JSON.parse(execution.plan) : null);
+      if (execution.errorMessage && (execution.status === "failed" || execution.status === "interrupted")) {
+        setError(execution.errorMessage);
+      }
+
+      if (execution.status === "awaiting_question") {
+        const [question] = await agentAPI.getPendingQuestions(execution.id);
+        if (!cancelled && question) {
+          setPendingQuestion({
+            id: question.id,
+            question: question.question,
+            context: question.context ?? undefined,
+          });
+        }
+      }
+
+      // The loop is still running on the server (or about to be recovered), follow it until it settles
+      if (isActiveStatus(execution.status)) {
+        pollTimer = setInterval(async () => {
+          const current = await agentAPI.getExecution(execution.id).catch(() => null);
+          if (cancelled || !current) return;
+          const nextStatus = current.execution.status;
+          if (!isActiveStatus(nextStatus)) {
+            clearInterval(pollTimer);
+            setStatus(nextStatus);
+            setActions(current.actions.map(toActionState));
+            if (current.execution.errorMessage) {
+              setError(current.execution.errorMessage);
+            }
+          }
+        }, 5000);
+      }
+    };
+
+    restore().catch((err) => console.error("[AgentPanel] Failed to restore execution:", err));
+
+    return () => {
+      cancelled = true;
+      clearInterval(pollTimer);
+    };
+  }, [project.id, task.id]);
+
   // Check if working directory is configured (handle null/undefined/false)
   const needsWorkingDirectory =
     !project.workingDirectory || project.workingDirectoryConfirmed !== true;
@@ -136,12 +266,14 @@ export function AgentPanel({
     setError(null);
     setActions([]);
     setAgentText("");
+    setStreamingText("");
     setActivityLog([]);
     setReasoningSteps([]);
-    addLogEntry("status", "Starting agent execution...");
+    setPlan(null);
+    addLogEntry("status", planFirst ? "Starting agent execution in plan-first mode..." : "Starting agent execution...");
 
     try {
-      const response = await agentAPI.startExecutionFetch(project.id, task.id);
+      const response = await agentAPI.startExecutionFetch(project.id, task.id, planFirst ? "plan_first" : "default");
 
       if (!response.ok) {
         const err = await response.json();
@@ -185,7 +317,13 @@ export function AgentPanel({
                 case "status":
                   setExecutionId(data.executionId);
                   setStatus(data.status);
-                  addLogEntry("status", `Status: ${data.status.replace("_", " ")}`);
+                  if (data.status !== "queued") {
+                    setQueueState(null);
+                  }
+                  addLogEntry("status", `Status: ${data.status.replace(/_/g, " ")}`);
+                  if (data.status === "cancelled" && data.usage) {
+                    addLogEntry("status", formatUsageSummary(data.usage));
+                  }
                   break;
                 case "action":
                   setActions((prev) => {
@@ -214,7 +352,9 @@ export function AgentPanel({
                       data.type === "writeFile" ? `Proposing to write: ${data.params?.path}` :
                       data.type === "editFile" ? `Proposing to edit: ${data.params?.path}` :
                       data.type === "deleteFile" ? `Proposing to delete: ${data.params?.path}` :
+                      data.type === "applyPatch" ? `Proposing patch: ${data.params?.description}` :
                       data.type === "executeCommand" ? `Proposing command: ${data.params?.command}` :
+                      data.type === "startProcess" ? `Proposing to start: ${data.params?.command}` :
                       data.type === "completeTask" ? `Proposing to complete task` :
                       `Action: ${data.type}`;
                     addLogEntry("action", actionLabel);
@@ -226,23 +366,88 @@ export function AgentPanel({
                     } else if (data.type === "listDirectory") {
                       const items = data.result?.output?.split("\n").length || 0;
                       addLogEntry("list", `Listed directory: ${data.params?.path} (${items} items)`);
+                    } else if (data.type === "searchFiles") {
+                      addLogEntry("read", `Searched files for: ${data.params?.query}`);
+                    } else if (data.type === "startProcess") {
+                      addLogEntry("action", `Started process: ${data.params?.command}`);
+                    } else if (data.type === "stopProcess") {
+                      addLogEntry("action", `Stopped process ${data.params?.processId}`);
                     }
                   }
                   break;
                 case "text":
                   setAgentText((prev) => prev + data.content);
-                  // Log thinking snippets (only log substantial chunks to avoid noise)
-                  if (data.content && data.content.trim().length > 0) {
+                  if (data.delta) {
+                    // Streamed chunk - render live instead of logging every token
+                    setStreamingText((prev) => prev + data.content);
+                  } else if (data.content && data.content.trim().length > 0) {
+                    // Log thinking snippets (only log substantial chunks to avoid noise)
                     addLogEntry("text", "Agent thinking...", data.content);
                   }
                   break;
                 case "reasoning":
                   // Add reasoning step from the server
                   if (data.step) {
-                    setReasoningSteps((prev) => [...prev, data.step]);
-                    addLogEntry("text", `[${data.step.type.toUpperCase()}] ${data.step.content.slice(0, 50)}...`);
+                    upsertReasoningStep(data.step);
+                    if (data.partial === undefined) {
+                      // Steps parsed from a finished model step replace its live text
+                      setStreamingText("");
+                    }
+                    if (!data.partial) {
+                      addLogEntry("text", `[${data.step.type.toUpperCase()}] ${data.step.content.slice(0, 50)}...`);
+                    }
                   }
                   break;
+                case "toolCall":
+                  setStreamingText("");
+                  addLogEntry("action", `Calling ${data.toolName}`);
+                  break;
+                case "queue":
+                  setQueueState({ position: data.position, etaSeconds: data.etaSeconds });
+                  break;
+                case "conflict":
+                  addLogEntry("error", `${data.path} is being changed by another execution`);
+                  break;
+                case "audit":
+                  addLogEntry("error", `Blocked: ${data.message}`);
+                  break;
+                case "verification":
+                  addLogEntry(
+                    data.success ? "status" : "error",
+                    `Verification ${data.success ? "passed" : "failed"}: ${data.command}`,
+                    data.success ? undefined : data.output
+                  );
+                  break;
+                case "verificationExhausted":
+                  addLogEntry("error", `Verification still failing after ${data.maxRetries} ${data.maxRetries === 1 ? "retry" : "retries"}, completing without passing checks: ${data.command}`);
+                  break;
+                case "failover":
+                  addLogEntry(
+                    "error",
+                    `Step ${data.step} failed over to ${data.providerName}`,
+                    data.failovers.map((failover: ProviderFailover) => `${failover.providerName}: ${failover.error}`).join("\n")
+                  );
+                  break;
+                case "review":
+                  addLogEntry(
+                    data.verdict === "approve" ? "status" : "error",
+                    `Review round ${data.round}: ${data.verdict === "approve" ? "approved" : "changes requested"}`,
+                    [data.summary, ...data.issues.map((issue: ReviewIssue) =>
+                      `[${issue.severity}] ${issue.line === null ? issue.file : `${issue.file}:${issue.line}`}: ${issue.message}`
+                    )].join("\n")
+                  );
+                  break;
+                case "plan":
+                  setPlan(data.plan);
+                  addLogEntry("question", `Plan submitted with ${data.plan.steps.length} steps`);
+                  break;
+                case "planStep":
+                  setPlan((prev) => prev && {
+                    ...prev,
+                    steps: prev.steps.map((step) => (step.id === data.stepId ? { ...step, status: data.status } : step)),
+                  });
+                  addLogEntry("status", `Plan step ${data.stepId}: ${data.status.replace("_", " ")}`);
+                  break;
                 case "question":
                   // Agent is asking a clarifying question
                   setPendingQuestion({
@@ -258,6 +463,7 @@ export function AgentPanel({
                   addLogEntry("error", `Error: ${data.error}`);
                   break;
                 case "done":
+                  setStreamingText("");
                   addLogEntry("status", "Agent finished analyzing");
                   break;
               }
@@ -273,7 +479,7 @@ export function AgentPanel({
     } finally {
       setIsStarting(false);
     }
-  }, [project.id, task.id, needsWorkingDirectory, onSetupWorkingDirectory, addLogEntry]);
+  }, [project.id, task.id, planFirst, needsWorkingDirectory, onSetupWorkingDirectory, addLogEntry, upsertReasoningStep]);
 
   // Approve an action
   const approveAction = async (actionId: string) => {
@@ -338,70 +544,8 @@ export function AgentPanel({
         throw new Error(err.error || "Failed to execute actions");
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) return;
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              const eventLine = lines[lines.indexOf(line) - 1];
-              const eventType = eventLine?.startsWith("event: ")
-                ? eventLine.slice(7)
-                : null;
-
-              if (!eventType) continue;
-
-              switch (eventType) {
-                case "status":
-                  setStatus(data.status);
-                  break;
-                case "executing":
-                  setActions((prev) =>
-                    prev.map((a) =>
-                      a.id === data.actionId ? { ...a, status: "executing" } : a
-                    )
-                  );
-                  break;
-                case "actionComplete":
-                  setActions((prev) =>
-                    prev.map((a) =>
-                      a.id === data.actionId
-                        ? {
-                            ...a,
-                            status: data.success ? "completed" : "failed",
-                            result: data.result,
-                          }
-                        : a
-                    )
-                  );
-                  break;
-                case "taskCompleted":
-                  onTaskUpdated();
-                  break;
-                case "error":
-                  setError(data.error);
-                  setStatus("failed");
-                  break;
-              }
-            } catch {
-              // Ignore parse errors
-            }
-          }
-        }
-      }
+      // Approved background processes continue the agent, so the stream can carry agent events too
+      await processResumeStream(response);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to execute actions");
     }
@@ -419,6 +563,190 @@ export function AgentPanel({
     }
   };
 
+  // Process the SSE stream of a resumed or retried execution
+  const processResumeStream = async (response: Response) => {
+    const reader = response.body?.getReader();
+    if (!reader) return;
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (line.startsWith("data: ")) {
+          try {
+            const data = JSON.parse(line.slice(6));
+
+            const eventLine = lines[lines.indexOf(line) - 1];
+            const eventType = eventLine?.startsWith("event: ")
+              ? eventLine.slice(7)
+              : null;
+
+            if (!eventType) continue;
+
+            switch (eventType) {
+              case "status":
+                setExecutionId(data.executionId);
+                setStatus(data.status);
+                if (data.status !== "queued") {
+                  setQueueState(null);
+                }
+                addLogEntry("status", `Status: ${data.status.replace(/_/g, " ")}`);
+                if (data.status === "cancelled" && data.usage) {
+                  addLogEntry("status", formatUsageSummary(data.usage));
+                }
+                break;
+              case "action":
+                setActions((prev) => {
+                  const existing = prev.find((a) => a.id === data.id);
+                  if (existing) {
+                    return prev.map((a) =>
+                      a.id === data.id
+                        ? { ...a, status: data.status, result: data.result }
+                        : a
+                    );
+                  }
+                  return [
+                    ...prev,
+                    {
+                      id: data.id,
+                      type: data.type,
+                      params: data.params,
+                      status: data.status,
+                      result: data.result,
+                    },
+                  ];
+                });
+                break;
+              case "question":
+                setPendingQuestion({
+                  id: data.id,
+                  question: data.question,
+                  context: data.context,
+                });
+                addLogEntry("question", `Question: ${data.question}`);
+                break;
+              case "text":
+                setAgentText((prev) => prev + data.content);
+                if (data.delta) {
+                  setStreamingText((prev) => prev + data.content);
+                }
+                break;
+              case "reasoning":
+                if (data.step) {
+                  upsertReasoningStep(data.step);
+                  if (data.partial === undefined) {
+                    setStreamingText("");
+                  }
+                }
+                break;
+              case "toolCall":
+                setStreamingText("");
+                addLogEntry("action", `Calling ${data.toolName}`);
+                break;
+              case "queue":
+                setQueueState({ position: data.position, etaSeconds: data.etaSeconds });
+                break;
+              case "conflict":
+                addLogEntry("error", `${data.path} is being changed by another execution`);
+                break;
+              case "audit":
+                addLogEntry("error", `Blocked: ${data.message}`);
+                break;
+              case "verification":
+                addLogEntry(
+                  data.success ? "status" : "error",
+                  `Verification ${data.success ? "passed" : "failed"}: ${data.command}`,
+                  data.success ? undefined : data.output
+                );
+                break;
+              case "verificationExhausted":
+                addLogEntry("error", `Verification still failing after ${data.maxRetries} ${data.maxRetries === 1 ? "retry" : "retries"}, completing without passing checks: ${data.command}`);
+                break;
+              case "failover":
+                addLogEntry(
+                  "error",
+                  `Step ${data.step} failed over to ${data.providerName}`,
+                  data.failovers.map((failover: ProviderFailover) => `${failover.providerName}: ${failover.error}`).join("\n")
+                );
+                break;
+              case "review":
+                addLogEntry(
+                  data.verdict === "approve" ? "status" : "error",
+                  `Review round ${data.round}: ${data.verdict === "approve" ? "approved" : "changes requested"}`,
+                  [data.summary, ...data.issues.map((issue: ReviewIssue) =>
+                    `[${issue.severity}] ${issue.line === null ? issue.file : `${issue.file}:${issue.line}`}: ${issue.message}`
+                  )].join("\n")
+                );
+                break;
+              case "plan":
+                setPlan(data.plan);
+                addLogEntry("question", `Plan submitted with ${data.plan.steps.length} steps`);
+                break;
+              case "planStep":
+                setPlan((prev) => prev && {
+                  ...prev,
+                  steps: prev.steps.map((step) => (step.id === data.stepId ? { ...step, status: data.status } : step)),
+                });
+                addLogEntry("status", `Plan step ${data.stepId}: ${data.status.replace("_", " ")}`);
+                break;
+              case "executing":
+                setActions((prev) =>
+                  prev.map((a) =>
+                    a.id === data.actionId ? { ...a, status: "executing" } : a
+                  )
+                );
+                break;
+              case "commandOutput":
+                setActions((prev) =>
+                  prev.map((a) =>
+                    a.id === data.actionId
+                      ? { ...a, liveOutput: [...(a.liveOutput ?? []), { stream: data.stream, text: data.text }] }
+                      : a
+                  )
+                );
+                break;
+              case "actionComplete":
+                setActions((prev) =>
+                  prev.map((a) =>
+                    a.id === data.actionId
+                      ? {
+                          ...a,
+                          status: data.success ? "completed" : "failed",
+                          result: data.result,
+                          liveOutput: undefined,
+                        }
+                      : a
+                  )
+                );
+                break;
+              case "taskCompleted":
+                onTaskUpdated();
+                break;
+              case "error":
+                setError(data.error);
+                setStatus("failed");
+                break;
+              case "done":
+                setStreamingText("");
+                addLogEntry("status", "Agent finished");
+                break;
+            }
+          } catch {
+            // Ignore parse errors
+          }
+        }
+      }
+    }
+  };
+
   // Submit answer to a question and resume execution
   const submitAnswer = async () => {
     if (!executionId || !pendingQuestion || !questionResponse.trim()) return;
@@ -442,89 +770,63 @@ export function AgentPanel({
       }
 
       // Process the SSE stream from resumed execution
-      const reader = response.body?.getReader();
-      if (!reader) return;
+      await processResumeStream(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit answer");
+    } finally {
+      setIsSubmittingAnswer(false);
+    }
+  };
 
-      const decoder = new TextDecoder();
-      let buffer = "";
+  // Approve the plan with the user's edits, or send it back with feedback, and resume the agent
+  const submitPlanReview = async (review: PlanReview) => {
+    if (!executionId) return;
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    setIsReviewingPlan(true);
+    setError(null);
+    try {
+      const response = await agentAPI.reviewPlanFetch(executionId, review);
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || "Failed to review plan");
+      }
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
+      setPlan((prev) => prev && (review.approved
+        ? { ...prev, steps: review.steps ?? prev.steps, status: "approved", feedback: review.feedback || null }
+        : { ...prev, status: "revising", feedback: review.feedback || null }));
+      addLogEntry("status", review.approved ? "Plan approved" : `Requested plan changes: ${review.feedback?.slice(0, 50)}`);
 
-              const eventLine = lines[lines.indexOf(line) - 1];
-              const eventType = eventLine?.startsWith("event: ")
-                ? eventLine.slice(7)
-                : null;
+      await processResumeStream(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review plan");
+    } finally {
+      setIsReviewingPlan(false);
+    }
+  };
 
-              if (!eventType) continue;
+  // Retry a failed, cancelled or interrupted execution, continuing from its stored transcript
+  const retryExecution = async () => {
+    if (!executionId) return;
 
-              switch (eventType) {
-                case "status":
-                  setExecutionId(data.executionId);
-                  setStatus(data.status);
-                  addLogEntry("status", `Status: ${data.status.replace("_", " ")}`);
-                  break;
-                case "action":
-                  setActions((prev) => {
-                    const existing = prev.find((a) => a.id === data.id);
-                    if (existing) {
-                      return prev.map((a) =>
-                        a.id === data.id
-                          ? { ...a, status: data.status, result: data.result }
-                          : a
-                      );
-                    }
-                    return [
-                      ...prev,
-                      {
-                        id: data.id,
-                        type: data.type,
-                        params: data.params,
-                        status: data.status,
-                        result: data.result,
-                      },
-                    ];
-                  });
-                  break;
-                case "question":
-                  setPendingQuestion({
-                    id: data.id,
-                    question: data.question,
-                    context: data.context,
-                  });
-                  addLogEntry("question", `Question: ${data.question}`);
-                  break;
-                case "text":
-                  setAgentText((prev) => prev + data.content);
-                  break;
-                case "error":
-                  setError(data.error);
-                  setStatus("failed");
-                  break;
-                case "done":
-                  addLogEntry("status", "Agent finished");
-                  break;
-              }
-            } catch {
-              // Ignore parse errors
-            }
-          }
-        }
+    setIsStarting(true);
+    setError(null);
+    setStreamingText("");
+    addLogEntry("status", status === "interrupted" ? "Resuming execution..." : "Retrying execution...");
+
+    try {
+      const response = await agentAPI.retryExecution(executionId);
+
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || "Failed to retry execution");
       }
+
+      await processResumeStream(response);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to submit answer");
+      setError(err instanceof Error ? err.message : "Failed to retry execution");
     } finally {
-      setIsSubmittingAnswer(false);
+      setIsStarting(false);
     }
   };
 
@@ -546,12 +848,15 @@ export function AgentPanel({
                 variant="secondary"
                 className={cn(
                   "text-xs",
+                  status === "queued" && "bg-slate-100 text-slate-800",
                   status === "analyzing" && "bg-blue-100 text-blue-800",
                   status === "awaiting_approval" && "bg-yellow-100 text-yellow-800",
+                  status === "awaiting_plan_approval" && "bg-yellow-100 text-yellow-800",
                   status === "executing" && "bg-purple-100 text-purple-800",
                   status === "completed" && "bg-green-100 text-green-800",
                   status === "failed" && "bg-red-100 text-red-800",
-                  status === "cancelled" && "bg-gray-100 text-gray-800"
+                  status === "cancelled" && "bg-gray-100 text-gray-800",
+                  status === "interrupted" && "bg-orange-100 text-orange-800"
                 )}
               >
                 {status === "analyzing" && (
@@ -560,11 +865,22 @@ export function AgentPanel({
                 {status === "executing" && (
                   <Loader2 className="h-3 w-3 mr-1 animate-spin" />
                 )}
-                {status.replace("_", " ")}
+                {status.replace(/_/g, " ")}
               </Badge>
             )}
           </div>
           <div className="flex items-center gap-1">
+            {isActiveStatus(status) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={cancelExecution}
+                title="Stop Agent"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            )}
             <ToolApprovalSettingsDialog
               projectId={project.id}
               trigger={
@@ -573,6 +889,14 @@ export function AgentPanel({
                 </Button>
               }
             />
+            <SandboxLimitsDialog
+              projectId={project.id}
+              trigger={
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Sandbox Limits">
+                  <Gauge className="h-4 w-4" />
+                </Button>
+              }
+            />
             <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
               <X className="h-4 w-4" />
             </Button>
@@ -605,6 +929,12 @@ export function AgentPanel({
             <p className="text-sm text-muted-foreground mb-4">
               The AI agent will analyze your task and propose file changes.
             </p>
+            <div className="flex items-center gap-2 mb-4">
+              <Switch id="plan-first" checked={planFirst} onCheckedChange={setPlanFirst} />
+              <Label htmlFor="plan-first" className="text-sm cursor-pointer">
+                Plan first: approve the agent's plan before it changes anything
+              </Label>
+            </div>
             <Button onClick={startAgent} disabled={isStarting}>
               {isStarting ? (
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -616,6 +946,18 @@ export function AgentPanel({
           </div>
         )}
 
+        {status === "queued" && (
+          <div className="flex items-start gap-2 p-3 mb-4 bg-slate-50 dark:bg-slate-900/20 text-slate-800 dark:text-slate-200 rounded-md">
+            <Hourglass className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">
+              Waiting for another execution to finish
+              {queueState && ` (#${queueState.position} in queue`}
+              {queueState?.etaSeconds != null && `, about ${formatWait(queueState.etaSeconds)}`}
+              {queueState && ")"}
+            </span>
+          </div>
+        )}
+
         {error && (
           <div className="flex items-start gap-2 p-3 mb-4 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 rounded-md">
             <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
@@ -623,11 +965,28 @@ export function AgentPanel({
           </div>
         )}
 
+        {/* Submitted plan: editable while it awaits approval, then shows each step's progress */}
+        {plan && (
+          <div className="mb-4">
+            <ExecutionPlanPanel
+              plan={plan}
+              onApprove={
+                status === "awaiting_plan_approval"
+                  ? (steps, notes) => submitPlanReview({ approved: true, steps, feedback: notes })
+                  : undefined
+              }
+              onRequestChanges={(feedback) => submitPlanReview({ approved: false, feedback })}
+              isSubmitting={isReviewingPlan}
+            />
+          </div>
+        )}
+
         {/* Agent Reasoning Display - Shows the agent's thought process */}
-        {reasoningSteps.length > 0 && (
+        {(reasoningSteps.length > 0 || streamingText) && (
           <div className="mb-4">
             <ReasoningDisplay
               steps={reasoningSteps}
+              streamingText={streamingText}
               isExpanded={isReasoningExpanded}
               onToggleExpand={() => setIsReasoningExpanded(!isReasoningExpanded)}
             />
@@ -706,6 +1065,7 @@ export function AgentPanel({
             {hasFileActions && viewMode === "diff" && (
               <FileChangesPreview
                 projectId={project.id}
+                executionId={executionId}
                 actions={actions}
                 isAwaitingApproval={isAwaitingApproval}
                 onApprove={approveAction}
@@ -716,7 +1076,7 @@ export function AgentPanel({
                     .filter(
                       (a) =>
                         a.status === "proposed" &&
-                        ["writeFile", "editFile", "deleteFile"].includes(a.type)
+                        FILE_ACTION_TYPES.includes(a.type)
                     )
                     .map((a) => a.id);
                   for (const id of ids) {
@@ -737,6 +1097,7 @@ export function AgentPanel({
                     params={action.params}
                     status={action.status}
                     result={action.result}
+                    liveOutput={action.liveOutput}
                     isAwaitingApproval={isAwaitingApproval}
                     onApprove={() => approveAction(action.id)}
                     onReject={() => rejectAction(action.id)}
@@ -750,7 +1111,7 @@ export function AgentPanel({
               <div className="space-y-3">
                 {actions
                   .filter((a) =>
-                    ["writeFile", "editFile", "deleteFile"].includes(a.type)
+                    FILE_ACTION_TYPES.includes(a.type)
                   )
                   .map((action) => (
                     <ActionCard
@@ -760,6 +1121,7 @@ export function AgentPanel({
                       params={action.params}
                       status={action.status}
                       result={action.result}
+                      liveOutput={action.liveOutput}
                       isAwaitingApproval={isAwaitingApproval}
                       onApprove={() => approveAction(action.id)}
                       onReject={() => rejectAction(action.id)}
@@ -770,6 +1132,15 @@ export function AgentPanel({
           </div>
         )}
 
+        {status === "interrupted" && (
+          <div className="flex items-start gap-2 p-3 mt-4 bg-orange-50 dark:bg-orange-900/20 text-orange-800 dark:text-orange-200 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">
+              The server restarted while the agent was working. Resume to continue from where it left off.
+            </span>
+          </div>
+        )}
+
         {status === "completed" && (
           <div className="flex items-center gap-2 p-3 mt-4 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 rounded-md">
             <CheckCircle2 className="h-4 w-4" />
@@ -801,11 +1172,23 @@ export function AgentPanel({
         </div>
       )}
 
-      {(status === "completed" || status === "failed" || status === "cancelled") && (
+      {(status === "completed" || status === "failed" || status === "cancelled" || status === "interrupted") && (
         <div className="p-4 pt-0 flex-shrink-0 border-t">
-          <Button className="w-full" variant="outline" onClick={onClose}>
-            Close
-          </Button>
+          <div className="flex gap-2">
+            {(status === "failed" || status === "cancelled" || status === "interrupted") && executionId && (
+              <Button className="flex-1" onClick={retryExecution} disabled={isStarting}>
+                {isStarting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                {status === "interrupted" ? "Resume" : "Retry"}
+              </Button>
+            )}
+            <Button className="flex-1" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
         </div>
       )}
     </Card>
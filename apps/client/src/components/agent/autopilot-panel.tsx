@@ -0,0 +1,390 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Switch } from "../ui/switch";
+import { Label } from "../ui/label";
+import {
+  autopilotAPI,
+  DEFAULT_AUTO_APPROVAL_POLICY,
+  type AutoApprovalPolicy,
+  type AutopilotRun,
+  type AutopilotRunStatus,
+  type AutopilotTaskEvent,
+  type AutopilotExecutionEvent,
+  type Task,
+} from "../../lib/api";
+import {
+  Rocket,
+  X,
+  Play,
+  Square,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  PauseCircle,
+  XCircle,
+} from "lucide-react";
+
+interface AutopilotPanelProps {
+  projectId: string;
+  tasks: Task[];
+  onTasksChanged: () => void;
+  onClose: () => void;
+}
+
+interface LogEntry {
+  id: string;
+  message: string;
+  tone: "info" | "success" | "warning" | "error";
+}
+
+const POLICY_OPTIONS: Array<{ key: keyof AutoApprovalPolicy; label: string; description: string }> = [
+  {
+    key: "approveFileChanges",
+    label: "Approve file changes",
+    description: "Write, edit and delete files without asking",
+  },
+  {
+    key: "approveCommands",
+    label: "Approve commands",
+    description: "Run proposed shell commands and background processes without asking",
+  },
+  {
+    key: "approveTaskCompletion",
+    label: "Approve task completion",
+    description: "Let the agent move tasks to validation",
+  },
+  {
+    key: "acceptValidation",
+    label: "Accept validation",
+    description: "Mark tasks done instead of pausing for review",
+  },
+];
+
+const STATUS_BADGES: Record<AutopilotRunStatus, { variant: "secondary" | "warning" | "success" | "destructive" | "outline"; label: string; icon: React.ReactNode }> = {
+  running: { variant: "secondary", label: "Running", icon: <Loader2 className="h-3 w-3 animate-spin" /> },
+  paused: { variant: "warning", label: "Paused", icon: <PauseCircle className="h-3 w-3" /> },
+  completed: { variant: "success", label: "Completed", icon: <CheckCircle2 className="h-3 w-3" /> },
+  failed: { variant: "destructive", label: "Failed", icon: <XCircle className="h-3 w-3" /> },
+  cancelled: { variant: "outline", label: "Cancelled", icon: <AlertCircle className="h-3 w-3" /> },
+};
+
+const LOG_TONES: Record<LogEntry["tone"], string> = {
+  info: "text-muted-foreground",
+  success: "text-green-600",
+  warning: "text-yellow-600",
+  error: "text-red-600",
+};
+
+export function AutopilotPanel({ projectId, tasks, onTasksChanged, onClose }: AutopilotPanelProps) {
+  const [policy, setPolicy] = useState<AutoApprovalPolicy>(DEFAULT_AUTO_APPROVAL_POLICY);
+  const [run, setRun] = useState<AutopilotRun | null>(null);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // The board's refresh callback changes every render, keep the latest without restarting the stream
+  const onTasksChangedRef = useRef(onTasksChanged);
+  onTasksChangedRef.current = onTasksChanged;
+
+  const unfinishedTasks = tasks.filter((t) => t.status !== "done");
+  const isActive = run?.status === "running" || run?.status === "paused";
+
+  const addLog = useCallback((message: string, tone: LogEntry["tone"] = "info") => {
+    setLog((prev) => [
+      ...prev,
+      { id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, message, tone },
+    ]);
+  }, []);
+
+  // Load the policy and the latest run
+  useEffect(() => {
+    autopilotAPI.getPolicy(projectId)
+      .then((data) => setPolicy({ ...DEFAULT_AUTO_APPROVAL_POLICY, ...data }))
+      .catch((err) => console.error("Failed to load auto-approval policy:", err));
+
+    autopilotAPI.listRuns(projectId)
+      .then(([latest]) => setRun(latest ?? null))
+      .catch((err) => console.error("Failed to load autopilot runs:", err));
+  }, [projectId]);
+
+  // Select every unfinished task by default
+  useEffect(() => {
+    setSelectedTaskIds(new Set(tasks.filter((t) => t.status !== "done").map((t) => t.id)));
+  }, [tasks.length]);
+
+  // Follow the active run's progress
+  const runId = isActive ? run?.id : undefined;
+  useEffect(() => {
+    if (!runId) return;
+
+    let cancelled = false;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+    const follow = async () => {
+      const response = await autopilotAPI.streamEvents(runId);
+      reader = response.body?.getReader();
+      if (!reader) return;
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (!cancelled) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop() || "";
+
+        for (const message of messages) {
+          const eventType = message.match(/^event: (.*)$/m)?.[1];
+          const rawData = message.match(/^data: (.*)$/m)?.[1];
+          if (!eventType || !rawData) continue;
+
+          const data = JSON.parse(rawData);
+          switch (eventType) {
+            case "run":
+              setRun(data as AutopilotRun);
+              break;
+            case "task": {
+              const event = data as AutopilotTaskEvent;
+              if (event.status === "started") {
+                addLog(`Started: ${event.taskTitle}`);
+              } else if (event.status === "completed") {
+                addLog(`Completed: ${event.taskTitle}`, "success");
+              } else {
+                addLog(`Paused on ${event.taskTitle}: ${event.message ?? ""}`, "warning");
+              }
+              onTasksChangedRef.current();
+              break;
+            }
+            case "execution": {
+              const event = data as AutopilotExecutionEvent;
+              const payload = event.event === "status" ? (event.data as { status?: string }) : null;
+              if (payload?.status) {
+                addLog(`Agent ${payload.status.replace("_", " ")}`);
+              } else if (event.event === "error") {
+                addLog(`Agent error: ${(event.data as { error?: string }).error ?? "unknown"}`, "error");
+              }
+              break;
+            }
+          }
+        }
+      }
+    };
+
+    follow().catch((err) => {
+      if (!cancelled) console.error("[AutopilotPanel] Stream failed:", err);
+    });
+
+    return () => {
+      cancelled = true;
+      reader?.cancel().catch(() => {});
+    };
+  }, [runId, addLog]);
+
+  const togglePolicy = async (key: keyof AutoApprovalPolicy) => {
+    const next = { ...policy, [key]: !policy[key] };
+    setPolicy(next);
+    try {
+      await autopilotAPI.updatePolicy(projectId, next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save policy");
+    }
+  };
+
+  const toggleTask = (taskId: string) => {
+    setSelectedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const runAction = async (action: () => Promise<AutopilotRun>, fallbackError: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setRun(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startRun = () => {
+    setLog([]);
+    return runAction(
+      () => autopilotAPI.start(projectId, Array.from(selectedTaskIds)),
+      "Failed to start autopilot"
+    );
+  };
+
+  const taskTitle = (taskId: string | null) =>
+    tasks.find((t) => t.id === taskId)?.title ?? "Unknown task";
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="p-4 pb-2 flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Rocket className="h-5 w-5" />
+            <CardTitle className="text-base">Autopilot</CardTitle>
+            {run && (
+              <Badge variant={STATUS_BADGES[run.status].variant} className="gap-1">
+                {STATUS_BADGES[run.status].icon}
+                {STATUS_BADGES[run.status].label}
+              </Badge>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Runs the agent on each task in dependency order, pausing when a task needs you.
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-4 pt-2 flex-1 overflow-y-auto space-y-4">
+        {error && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Auto-approval policy */}
+        <div className="space-y-3">
+          <div className="text-xs font-medium text-muted-foreground">Auto-approval policy</div>
+          {POLICY_OPTIONS.map((option) => (
+            <div key={option.key} className="flex items-center justify-between gap-4">
+              <div className="flex-1">
+                <Label htmlFor={`autopilot-${option.key}`} className="text-sm font-medium cursor-pointer">
+                  {option.label}
+                </Label>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </div>
+              <Switch
+                id={`autopilot-${option.key}`}
+                checked={policy[option.key]}
+                onCheckedChange={() => togglePolicy(option.key)}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Active run progress */}
+        {run && isActive && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Progress</div>
+            <div className="text-sm">
+              {run.completedTaskIds.length} task{run.completedTaskIds.length !== 1 ? "s" : ""} completed
+              {run.taskIds && ` of ${run.taskIds.length}`}
+            </div>
+            {run.currentTaskId && (
+              <div className="text-sm">
+                <span className="text-muted-foreground">Current: </span>
+                {taskTitle(run.currentTaskId)}
+              </div>
+            )}
+            {run.status === "paused" && run.pauseReason && (
+              <div className="flex items-start gap-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-md">
+                <PauseCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span className="text-sm">{run.pauseReason}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Finished run summary */}
+        {run && !isActive && (
+          <div className="text-sm text-muted-foreground">
+            Last run {STATUS_BADGES[run.status].label.toLowerCase()} with {run.completedTaskIds.length} task
+            {run.completedTaskIds.length !== 1 ? "s" : ""} completed.
+            {run.status === "failed" && run.pauseReason && (
+              <p className="text-red-600 mt-1">{run.pauseReason}</p>
+            )}
+          </div>
+        )}
+
+        {/* Task selection for a new run */}
+        {!isActive && unfinishedTasks.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Tasks to run</div>
+            <div className="bg-muted/50 rounded-md p-2 max-h-60 overflow-y-auto space-y-1">
+              {unfinishedTasks.map((task) => (
+                <label key={task.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedTaskIds.has(task.id)}
+                    onChange={() => toggleTask(task.id)}
+                  />
+                  <span className="truncate">{task.title}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Activity */}
+        {log.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground">Activity</div>
+            <div className="bg-muted/50 rounded-md p-2 max-h-48 overflow-y-auto space-y-1">
+              {log.map((entry) => (
+                <div key={entry.id} className={`text-xs ${LOG_TONES[entry.tone]}`}>
+                  {entry.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <div className="p-4 pt-0 flex-shrink-0 border-t">
+        <div className="flex gap-2">
+          {!isActive && (
+            <Button
+              className="flex-1"
+              onClick={startRun}
+              disabled={isBusy || selectedTaskIds.size === 0}
+            >
+              {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Rocket className="h-4 w-4 mr-2" />}
+              Start Autopilot
+            </Button>
+          )}
+          {run && run.status === "paused" && (
+            <Button
+              className="flex-1"
+              onClick={() => runAction(() => autopilotAPI.resume(run.id), "Failed to resume run")}
+              disabled={isBusy}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          )}
+          {run && isActive && (
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => runAction(() => autopilotAPI.cancel(run.id), "Failed to cancel run")}
+              disabled={isBusy}
+            >
+              <Square className="h-4 w-4 mr-2" />
+              Cancel Run
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -3,12 +3,25 @@ import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Badge } from "../ui/badge";
 import { cn } from "../../lib/utils";
+import { ExecutionPlanPanel } from "./plan-review";
 import {
+  agentAPI,
   executionHistoryAPI,
   type ExecutionHistoryDetail,
+  type ExecutionWorktree,
+  type AgentTranscriptMessage,
+  type WorktreeAction,
+  type WorktreeStatus,
   type AgentExecutionStatus,
   type AgentActionType,
   type AgentActionStatus,
+  type PathBlockReason,
+  type VerificationRun,
+  type ExecutionReview,
+  type ReviewIssueSeverity,
+  type ExecutionStep,
+  type ExecutionStepPhase,
+  type ExecutionUsage,
 } from "../../lib/api";
 import {
   ArrowLeft,
@@ -25,10 +38,32 @@ import {
   Folder,
   Terminal,
   CheckSquare,
+  Search,
+  FileDiff,
   ChevronDown,
   ChevronRight,
+  History,
+  Undo2,
+  GitBranch,
+  GitMerge,
+  MessagesSquare,
+  ShieldAlert,
+  Play,
+  ScrollText,
+  Square,
+  ListChecks,
+  ScanSearch,
+  Server,
+  Gauge,
 } from "lucide-react";
 
+const PATH_BLOCK_REASON_LABELS: Record<PathBlockReason, string> = {
+  outside_working_directory: "Outside working directory",
+  symlink_escape: "Symlink escape",
+  protected: "Protected path",
+  denied_by_rule: "Denied by path rule",
+};
+
 interface ExecutionDetailViewProps {
   executionId: string;
   onBack: () => void;
@@ -37,22 +72,30 @@ interface ExecutionDetailViewProps {
 
 const STATUS_LABELS: Record<AgentExecutionStatus, string> = {
   pending: "Pending",
+  queued: "Queued",
   analyzing: "Analyzing",
   awaiting_approval: "Awaiting Approval",
+  awaiting_question: "Awaiting Answer",
+  awaiting_plan_approval: "Awaiting Plan Approval",
   executing: "Executing",
   completed: "Completed",
   failed: "Failed",
   cancelled: "Cancelled",
+  interrupted: "Interrupted",
 };
 
 const STATUS_BADGES: Record<AgentExecutionStatus, { variant: "default" | "secondary" | "destructive" | "outline" | "success" | "warning" }> = {
   pending: { variant: "secondary" },
+  queued: { variant: "secondary" },
   analyzing: { variant: "secondary" },
   awaiting_approval: { variant: "warning" },
+  awaiting_question: { variant: "warning" },
+  awaiting_plan_approval: { variant: "warning" },
   executing: { variant: "secondary" },
   completed: { variant: "success" },
   failed: { variant: "destructive" },
   cancelled: { variant: "outline" },
+  interrupted: { variant: "warning" },
 };
 
 const ACTION_ICONS: Record<AgentActionType, React.ReactNode> = {
@@ -60,8 +103,13 @@ const ACTION_ICONS: Record<AgentActionType, React.ReactNode> = {
   writeFile: <FileText className="h-4 w-4" />,
   editFile: <Edit3 className="h-4 w-4" />,
   deleteFile: <Trash2 className="h-4 w-4" />,
+  applyPatch: <FileDiff className="h-4 w-4" />,
   listDirectory: <Folder className="h-4 w-4" />,
+  searchFiles: <Search className="h-4 w-4" />,
   executeCommand: <Terminal className="h-4 w-4" />,
+  startProcess: <Play className="h-4 w-4" />,
+  readProcessOutput: <ScrollText className="h-4 w-4" />,
+  stopProcess: <Square className="h-4 w-4" />,
   completeTask: <CheckSquare className="h-4 w-4" />,
 };
 
@@ -70,8 +118,13 @@ const ACTION_LABELS: Record<AgentActionType, string> = {
   writeFile: "Write File",
   editFile: "Edit File",
   deleteFile: "Delete File",
+  applyPatch: "Apply Patch",
   listDirectory: "List Directory",
+  searchFiles: "Search Files",
   executeCommand: "Execute Command",
+  startProcess: "Start Process",
+  readProcessOutput: "Read Process Output",
+  stopProcess: "Stop Process",
   completeTask: "Complete Task",
 };
 
@@ -84,6 +137,493 @@ const ACTION_STATUS_COLORS: Record<AgentActionStatus, string> = {
   failed: "text-red-600 bg-red-50",
 };
 
+const WORKTREE_STATUS_LABELS: Record<WorktreeStatus, string> = {
+  active: "Active",
+  merged: "Merged",
+  kept: "Branch kept",
+  discarded: "Discarded",
+};
+
+const WORKTREE_ACTION_CONFIRMATIONS: Record<WorktreeAction, string> = {
+  merge: "Merge this branch into the current branch of your working directory?",
+  keep: "Commit the changes and keep the branch? The worktree will be removed.",
+  discard: "Discard this branch and all of its changes?",
+};
+
+function diffLineClass(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return "text-muted-foreground";
+  if (line.startsWith("+")) return "text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/20";
+  if (line.startsWith("-")) return "text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20";
+  if (line.startsWith("@@")) return "text-blue-600 dark:text-blue-300";
+  if (line.startsWith("diff --git")) return "font-semibold mt-2";
+  return "";
+}
+
+function WorktreeSection({
+  executionId,
+  worktree,
+  isRunning,
+  onResolved,
+  onError,
+}: {
+  executionId: string;
+  worktree: ExecutionWorktree;
+  isRunning: boolean;
+  onResolved: () => Promise<void>;
+  onError: (message: string) => void;
+}) {
+  const [diff, setDiff] = useState<string | null>(null);
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+  const [pendingAction, setPendingAction] = useState<WorktreeAction | null>(null);
+
+  const hasBranch = worktree.status === "active" || worktree.status === "kept";
+
+  const toggleDiff = async () => {
+    if (diff !== null) {
+      setDiff(null);
+      return;
+    }
+
+    setIsLoadingDiff(true);
+    try {
+      const result = await agentAPI.getWorktreeDiff(executionId);
+      setDiff(result.diff);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to load diff");
+    } finally {
+      setIsLoadingDiff(false);
+    }
+  };
+
+  const handleAction = async (action: WorktreeAction) => {
+    if (!confirm(WORKTREE_ACTION_CONFIRMATIONS[action])) {
+      return;
+    }
+
+    setPendingAction(action);
+    try {
+      await agentAPI.resolveWorktree(executionId, action);
+      setDiff(null);
+      await onResolved();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update branch");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm min-w-0">
+          <GitBranch className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <span className="font-mono text-xs truncate">{worktree.branch}</span>
+          <Badge variant={worktree.status === "discarded" ? "outline" : "secondary"}>
+            {WORKTREE_STATUS_LABELS[worktree.status]}
+          </Badge>
+        </div>
+        {hasBranch && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={toggleDiff}
+            disabled={isLoadingDiff}
+          >
+            {isLoadingDiff && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            {diff !== null ? "Hide diff" : "Show diff"}
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Based on {worktree.baseCommit.slice(0, 8)}
+      </p>
+
+      {worktree.status === "active" && (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            className="h-7"
+            onClick={() => handleAction("merge")}
+            disabled={isRunning || pendingAction !== null}
+          >
+            {pendingAction === "merge" ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <GitMerge className="h-3 w-3 mr-1" />
+            )}
+            Merge into current branch
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={() => handleAction("keep")}
+            disabled={isRunning || pendingAction !== null}
+          >
+            {pendingAction === "keep" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Keep branch
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-destructive"
+            onClick={() => handleAction("discard")}
+            disabled={isRunning || pendingAction !== null}
+          >
+            {pendingAction === "discard" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Discard
+          </Button>
+        </div>
+      )}
+
+      {diff !== null && (
+        <pre className="text-xs bg-background rounded p-2 overflow-x-auto max-h-96 overflow-y-auto">
+          {diff.trim() === "" ? (
+            <span className="text-muted-foreground">No changes</span>
+          ) : (
+            diff.split("\n").map((line, i) => (
+              <div key={i} className={diffLineClass(line)}>
+                {line || " "}
+              </div>
+            ))
+          )}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+const TRANSCRIPT_ROLE_COLORS: Record<AgentTranscriptMessage["role"], string> = {
+  system: "text-gray-600 bg-gray-50",
+  user: "text-blue-600 bg-blue-50",
+  assistant: "text-purple-600 bg-purple-50",
+  tool: "text-green-600 bg-green-50",
+};
+
+// Render one part of a model message (text, tool call or tool result) as plain text
+function formatTranscriptPart(part: { type: string; [key: string]: unknown }): string {
+  switch (part.type) {
+    case "text":
+    case "reasoning":
+      return String(part.text ?? "");
+    case "tool-call":
+      return `→ ${part.toolName}(${JSON.stringify(part.input)})`;
+    case "tool-result": {
+      const output = part.output as { value?: unknown } | undefined;
+      const value = typeof output?.value === "string" ? output.value : JSON.stringify(output?.value ?? output);
+      return `← ${part.toolName}: ${value}`;
+    }
+    default:
+      return JSON.stringify(part);
+  }
+}
+
+function TranscriptSection({ executionId }: { executionId: string }) {
+  const [messages, setMessages] = useState<AgentTranscriptMessage[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    if (messages !== null) {
+      setMessages(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setMessages(await agentAPI.getTranscript(executionId));
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load transcript");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <MessagesSquare className="h-4 w-4" />
+          Model Transcript
+        </h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={toggle}
+          disabled={isLoading}
+        >
+          {isLoading && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {messages !== null ? "Hide" : "Show"}
+        </Button>
+      </div>
+
+      {loadError && <p className="text-xs text-red-600">{loadError}</p>}
+
+      {messages !== null && (
+        <div className="space-y-2">
+          {messages.length === 0 && (
+            <p className="text-xs text-muted-foreground">No transcript was recorded for this execution.</p>
+          )}
+          {messages.map((entry) => (
+            <div key={entry.id} className="border rounded-lg p-2">
+              <span className={cn("text-xs px-2 py-0.5 rounded", TRANSCRIPT_ROLE_COLORS[entry.role])}>
+                {entry.role}
+              </span>
+              <pre className="mt-2 text-xs whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                {typeof entry.message.content === "string"
+                  ? entry.message.content
+                  : entry.message.content.map(formatTranscriptPart).join("\n")}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VerificationSection({ runs }: { runs: VerificationRun[] }) {
+  const [expandedRuns, setExpandedRuns] = useState<Set<string>>(new Set());
+
+  const toggleRun = (runId: string) => {
+    setExpandedRuns((prev) => {
+      const next = new Set(prev);
+      if (next.has(runId)) {
+        next.delete(runId);
+      } else {
+        next.add(runId);
+      }
+      return next;
+    });
+  };
+
+  const attempts = [...new Set(runs.map((run) => run.attempt))];
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-3">
+      <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+        <ListChecks className="h-4 w-4" />
+        Verification ({attempts.length} {attempts.length === 1 ? "attempt" : "attempts"})
+      </h4>
+      <div className="space-y-2">
+        {attempts.map((attempt) => {
+          const attemptRuns = runs.filter((run) => run.attempt === attempt);
+          const passed = attemptRuns.every((run) => run.success);
+          return (
+            <div key={attempt}>
+              <div className="text-xs font-medium mb-1 flex items-center gap-1">
+                Attempt {attempt}
+                <Badge variant="outline" className={cn("text-xs", passed ? "text-green-600" : "text-red-600")}>
+                  {passed ? "Passed" : "Failed"}
+                </Badge>
+              </div>
+              <div className="space-y-1">
+                {attemptRuns.map((run) => (
+                  <div key={run.id} className="bg-background rounded">
+                    <button
+                      className="w-full flex items-center gap-2 px-2 py-1 text-xs text-left"
+                      onClick={() => toggleRun(run.id)}
+                    >
+                      {expandedRuns.has(run.id) ? (
+                        <ChevronDown className="h-3 w-3 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="h-3 w-3 flex-shrink-0" />
+                      )}
+                      {run.success ? (
+                        <CheckCircle2 className="h-3 w-3 text-green-600 flex-shrink-0" />
+                      ) : (
+                        <XCircle className="h-3 w-3 text-red-600 flex-shrink-0" />
+                      )}
+                      <span className="font-mono truncate flex-1">{run.command}</span>
+                      {!run.success && (
+                        <span className="text-muted-foreground">
+                          {run.exitCode === null ? "no exit code" : `exit ${run.exitCode}`}
+                        </span>
+                      )}
+                      <span className="text-muted-foreground">{formatDuration(run.durationMs)}</span>
+                    </button>
+                    {expandedRuns.has(run.id) && (
+                      <pre className="px-2 pb-2 text-xs whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+                        {run.output || "(no output)"}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Which providers answered the execution's model calls, and where the chain had to fail over
+const STEP_PHASE_LABELS: Record<ExecutionStepPhase, string> = {
+  exploration: "Exploration",
+  editing: "Editing",
+  review: "Review",
+};
+
+function ProviderStepsSection({ steps }: { steps: ExecutionStep[] }) {
+  // Steps grouped by phase and model, so what each phase used can be compared
+  const stepGroups = new Map<string, {
+    phase: ExecutionStepPhase | null;
+    name: string;
+    model: string;
+    count: number;
+    inputTokens: number;
+    outputTokens: number;
+    // null while none of the group's steps had a price
+    costUsd: number | null;
+  }>();
+  for (const step of steps) {
+    const key = `${step.phase}:${step.aiProviderId}:${step.model}`;
+    const entry = stepGroups.get(key) ?? {
+      phase: step.phase,
+      name: step.providerName,
+      model: step.model,
+      count: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: null,
+    };
+    entry.count++;
+    entry.inputTokens += step.inputTokens ?? 0;
+    entry.outputTokens += step.outputTokens ?? 0;
+    if (step.costUsd !== null) entry.costUsd = (entry.costUsd ?? 0) + step.costUsd;
+    stepGroups.set(key, entry);
+  }
+  const failedOver = steps.filter((step) => step.failovers.length > 0);
+  const pricedSteps = steps.filter((step) => step.costUsd !== null);
+  const totalCost = pricedSteps.reduce((total, step) => total + step.costUsd!, 0);
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-3">
+      <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+        <Server className="h-4 w-4" />
+        Providers ({steps.length} {steps.length === 1 ? "step" : "steps"}
+        {pricedSteps.length > 0 && `, $${totalCost.toFixed(4)}`})
+      </h4>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {[...stepGroups.entries()].map(([key, entry]) => (
+          <Badge key={key} variant="secondary" className="text-xs font-normal">
+            {entry.phase && <span className="font-medium mr-1">{STEP_PHASE_LABELS[entry.phase]}</span>}
+            {entry.name} <span className="font-mono text-muted-foreground ml-1">{entry.model}</span>: {entry.count}
+            <span className="text-muted-foreground ml-1">
+              ({entry.inputTokens.toLocaleString()} in, {entry.outputTokens.toLocaleString()} out
+              {entry.costUsd !== null && `, $${entry.costUsd.toFixed(4)}`})
+            </span>
+          </Badge>
+        ))}
+      </div>
+      {failedOver.length > 0 && (
+        <div className="space-y-1">
+          {failedOver.map((step) => (
+            <div key={step.id} className="bg-background rounded px-2 py-1 text-xs">
+              <span className="font-medium">Step {step.step}</span> answered by {step.providerName} after{" "}
+              {step.failovers.map((failover, index) => (
+                <span key={index} className="text-red-600">
+                  {index > 0 && ", "}
+                  {failover.providerName} failed ({failover.error})
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UsageSection({ usage }: { usage: ExecutionUsage }) {
+  // Each counter of the last run against its limit, a limit of 0 is off
+  const rows = [
+    { label: "Time", used: `${usage.elapsedTimeSeconds}s`, limit: usage.limits.maxExecutionTimeSeconds, unit: "s", percentage: usage.percentages.time },
+    { label: "Tokens", used: usage.tokensUsed.toLocaleString(), limit: usage.limits.maxTokens, unit: "", percentage: usage.percentages.tokens },
+    { label: "Cost", used: `$${usage.costUsd.toFixed(4)}`, limit: usage.limits.maxCostUsd, unit: "$", percentage: usage.percentages.cost },
+    { label: "Steps", used: `${usage.stepsCount}`, limit: usage.limits.maxSteps, unit: "", percentage: usage.percentages.steps },
+    { label: "Commands", used: `${usage.commandsCount}`, limit: usage.limits.maxCommands, unit: "", percentage: usage.percentages.commands },
+    { label: "File operations", used: `${usage.fileOperationsCount}`, limit: usage.limits.maxFileOperations, unit: "", percentage: usage.percentages.fileOperations },
+  ];
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-3">
+      <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+        <Gauge className="h-4 w-4" />
+        Usage
+      </h4>
+      <div className="space-y-1">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-muted-foreground">{row.label}</span>
+            <span className="font-mono">
+              {row.used}
+              {row.limit > 0 && (
+                <span className={cn("ml-1", row.percentage >= 80 ? "text-amber-600" : "text-muted-foreground")}>
+                  / {row.unit === "$" ? `$${row.limit}` : `${row.limit}${row.unit}`} ({row.percentage}%)
+                </span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const REVIEW_SEVERITY_COLORS: Record<ReviewIssueSeverity, string> = {
+  blocker: "text-red-600",
+  major: "text-orange-600",
+  minor: "text-muted-foreground",
+};
+
+function ReviewSection({ reviews }: { reviews: ExecutionReview[] }) {
+  return (
+    <div className="bg-muted/50 rounded-lg p-3">
+      <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+        <ScanSearch className="h-4 w-4" />
+        Review ({reviews.length} {reviews.length === 1 ? "round" : "rounds"})
+      </h4>
+      <div className="space-y-2">
+        {reviews.map((review) => (
+          <div key={review.id} className="space-y-1">
+            <div className="text-xs font-medium flex items-center gap-1">
+              Round {review.round}
+              <Badge
+                variant="outline"
+                className={cn("text-xs", review.verdict === "approve" ? "text-green-600" : "text-red-600")}
+              >
+                {review.verdict === "approve" ? "Approved" : "Changes requested"}
+              </Badge>
+            </div>
+            <p className="text-xs">{review.summary}</p>
+            {review.issues.length > 0 && (
+              <ul className="space-y-1">
+                {review.issues.map((issue, index) => (
+                  <li key={index} className="bg-background rounded px-2 py-1 text-xs flex items-start gap-2">
+                    <span className={cn("font-medium uppercase flex-shrink-0", REVIEW_SEVERITY_COLORS[issue.severity])}>
+                      {issue.severity}
+                    </span>
+                    <span className="font-mono text-muted-foreground flex-shrink-0">
+                      {issue.line === null ? issue.file : `${issue.file}:${issue.line}`}
+                    </span>
+                    <span className="flex-1">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
@@ -109,6 +649,7 @@ export function ExecutionDetailView({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedActions, setExpandedActions] = useState<Set<string>>(new Set());
+  const [isRollingBack, setIsRollingBack] = useState(false);
 
   const loadDetail = useCallback(async () => {
     setLoading(true);
@@ -149,6 +690,25 @@ export function ExecutionDetailView({
     setExpandedActions(new Set());
   };
 
+  const handleRollback = async () => {
+    if (!confirm("Restore the working directory to its state before this execution? Changes made since then will be lost.")) {
+      return;
+    }
+
+    setIsRollingBack(true);
+    setError(null);
+    try {
+      await agentAPI.rollback(executionId);
+      await loadDetail();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to roll back changes");
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const isRunning = detail?.execution.status === "analyzing" || detail?.execution.status === "executing";
+
   return (
     <Card className="h-full flex flex-col">
       <CardHeader className="p-4 pb-2 flex-shrink-0">
@@ -226,6 +786,86 @@ export function ExecutionDetailView({
               )}
             </div>
 
+            {/* Worktree branch */}
+            {detail.worktree && (
+              <WorktreeSection
+                executionId={executionId}
+                worktree={detail.worktree}
+                isRunning={isRunning}
+                onResolved={loadDetail}
+                onError={setError}
+              />
+            )}
+
+            {/* Checkpoint */}
+            {detail.checkpoint && (
+              <div className="flex items-center justify-between gap-2 bg-muted/50 rounded-lg p-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <History className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    {detail.checkpoint.kind === "git" ? "Git checkpoint" : "Snapshot"} from{" "}
+                    {formatDateTime(detail.checkpoint.createdAt)}
+                  </span>
+                  {detail.checkpoint.restoredAt && (
+                    <span className="text-xs text-muted-foreground">
+                      (restored {formatDateTime(detail.checkpoint.restoredAt)})
+                    </span>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7"
+                  onClick={handleRollback}
+                  disabled={isRollingBack || isRunning}
+                >
+                  {isRollingBack ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Undo2 className="h-3 w-3 mr-1" />
+                  )}
+                  Roll back changes
+                </Button>
+              </div>
+            )}
+
+            {/* Blocked paths */}
+            {detail.auditEntries.length > 0 && (
+              <div className="bg-orange-50 dark:bg-orange-900/20 rounded-lg p-3">
+                <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+                  <ShieldAlert className="h-4 w-4 text-orange-600" />
+                  Blocked Paths ({detail.auditEntries.length})
+                </h4>
+                <div className="space-y-1">
+                  {detail.auditEntries.map((entry) => (
+                    <div key={entry.id} className="text-xs flex items-center gap-2" title={entry.message}>
+                      <span className="text-muted-foreground">{formatDateTime(entry.createdAt)}</span>
+                      <span>{ACTION_LABELS[entry.actionType]}</span>
+                      <span className="font-mono truncate">{entry.path}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {PATH_BLOCK_REASON_LABELS[entry.reason]}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Plan of a plan_first execution, with each step's progress */}
+            {detail.plan && <ExecutionPlanPanel plan={detail.plan} />}
+
+            {/* Verification command results */}
+            {detail.verificationRuns.length > 0 && <VerificationSection runs={detail.verificationRuns} />}
+
+            {/* Usage of the last run against its sandbox limits */}
+            {detail.usage && <UsageSection usage={detail.usage} />}
+
+            {/* Providers that answered each model call */}
+            {detail.steps.length > 0 && <ProviderStepsSection steps={detail.steps} />}
+
+            {/* Reviewer verdicts on the changes */}
+            {detail.reviews.length > 0 && <ReviewSection reviews={detail.reviews} />}
+
             {/* Summary stats */}
             <div className="grid grid-cols-3 gap-2 text-center">
               <div className="bg-muted/50 rounded-lg p-2">
@@ -267,6 +907,9 @@ export function ExecutionDetailView({
               </div>
             </div>
 
+            {/* Stored model transcript */}
+            <TranscriptSection executionId={executionId} />
+
             {/* Actions list */}
             <div>
               <div className="flex items-center justify-between mb-2">
@@ -2,11 +2,18 @@ import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
 import { cn } from "../../lib/utils";
 import {
+  agentAPI,
   executionHistoryAPI,
   type ExecutionHistoryItem,
+  type ExecutionHistoryFilters,
+  type ExecutionHistorySortKey,
   type ExecutionHistoryStats,
+  type ExecutionUsage,
+  type ExecutionQueue,
   type AgentExecutionStatus,
 } from "../../lib/api";
 import {
@@ -20,6 +27,9 @@ import {
   AlertCircle,
   X,
   Bot,
+  Hourglass,
+  ArrowDown,
+  ArrowUp,
 } from "lucide-react";
 
 interface ExecutionHistoryPanelProps {
@@ -30,30 +40,113 @@ interface ExecutionHistoryPanelProps {
 
 const STATUS_LABELS: Record<AgentExecutionStatus, string> = {
   pending: "Pending",
+  queued: "Queued",
   analyzing: "Analyzing",
   awaiting_approval: "Awaiting Approval",
+  awaiting_question: "Awaiting Answer",
+  awaiting_plan_approval: "Awaiting Plan Approval",
   executing: "Executing",
   completed: "Completed",
   failed: "Failed",
   cancelled: "Cancelled",
+  interrupted: "Interrupted",
 };
 
 const STATUS_BADGES: Record<AgentExecutionStatus, { variant: "default" | "secondary" | "destructive" | "outline" | "success" | "warning"; icon: React.ReactNode }> = {
   pending: { variant: "secondary", icon: <Clock className="h-3 w-3" /> },
+  queued: { variant: "secondary", icon: <Hourglass className="h-3 w-3" /> },
   analyzing: { variant: "secondary", icon: <Loader2 className="h-3 w-3 animate-spin" /> },
   awaiting_approval: { variant: "warning", icon: <Clock className="h-3 w-3" /> },
+  awaiting_question: { variant: "warning", icon: <Clock className="h-3 w-3" /> },
+  awaiting_plan_approval: { variant: "warning", icon: <Clock className="h-3 w-3" /> },
   executing: { variant: "secondary", icon: <Loader2 className="h-3 w-3 animate-spin" /> },
   completed: { variant: "success", icon: <CheckCircle2 className="h-3 w-3" /> },
   failed: { variant: "destructive", icon: <XCircle className="h-3 w-3" /> },
   cancelled: { variant: "outline", icon: <AlertCircle className="h-3 w-3" /> },
+  interrupted: { variant: "warning", icon: <AlertCircle className="h-3 w-3" /> },
 };
 
+const SORT_OPTIONS: Array<{ value: ExecutionHistorySortKey; label: string }> = [
+  { value: "createdAt", label: "Date" },
+  { value: "tokens", label: "Tokens" },
+  { value: "steps", label: "Steps" },
+  { value: "commands", label: "Commands" },
+  { value: "duration", label: "Duration" },
+];
+
+type UsageFilterKey = "minTokens" | "minSteps" | "minCommands" | "minDurationSeconds";
+
+const USAGE_FILTER_OPTIONS: Array<{ value: UsageFilterKey; label: string }> = [
+  { value: "minTokens", label: "Min tokens" },
+  { value: "minSteps", label: "Min steps" },
+  { value: "minCommands", label: "Min commands" },
+  { value: "minDurationSeconds", label: "Min seconds" },
+];
+
+const USAGE_LIMIT_LABELS: Record<keyof ExecutionUsage["percentages"], string> = {
+  time: "time",
+  tokens: "token",
+  cost: "cost",
+  fileOperations: "file operation",
+  commands: "command",
+  steps: "step",
+};
+
+// The limit an execution came closest to, null when no limit was on
+function getClosestLimit(usage: ExecutionUsage): { label: string; percentage: number } | null {
+  const [key, percentage] = Object.entries(usage.percentages).reduce((closest, entry) =>
+    entry[1] > closest[1] ? entry : closest
+  );
+  if (percentage === 0) return null;
+  return { label: USAGE_LIMIT_LABELS[key as keyof ExecutionUsage["percentages"]], percentage };
+}
+
+function formatTokens(tokens: number): string {
+  return tokens < 1000 ? `${tokens}` : `${(tokens / 1000).toFixed(1)}k`;
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
   return `${(ms / 60000).toFixed(1)}m`;
 }
 
+function formatCost(usd: number): string {
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+// Where the project's model spend went: the most expensive tasks and the last days
+function CostBreakdown({ stats }: { stats: ExecutionHistoryStats }) {
+  return (
+    <div className="grid grid-cols-2 gap-4 mt-2 text-xs">
+      <div>
+        <div className="font-medium mb-1">Top tasks</div>
+        {stats.costByTask.slice(0, 5).map((task) => (
+          <div key={task.taskId} className="flex justify-between gap-2 text-muted-foreground">
+            <span className="truncate">{task.taskTitle}</span>
+            <span className="font-mono">{formatCost(task.costUsd)}</span>
+          </div>
+        ))}
+      </div>
+      <div>
+        <div className="font-medium mb-1">Last days</div>
+        {stats.costByDay.slice(-7).map((day) => (
+          <div key={day.date} className="flex justify-between gap-2 text-muted-foreground">
+            <span>{day.date}</span>
+            <span className="font-mono">{formatCost(day.costUsd)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return "unknown wait";
+  if (seconds < 60) return `~${seconds}s`;
+  return `~${Math.round(seconds / 60)}m`;
+}
+
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -78,19 +171,33 @@ export function ExecutionHistoryPanel({
 }: ExecutionHistoryPanelProps) {
   const [executions, setExecutions] = useState<ExecutionHistoryItem[]>([]);
   const [stats, setStats] = useState<ExecutionHistoryStats | null>(null);
+  const [showCosts, setShowCosts] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<AgentExecutionStatus | "all">("all");
+  const [sortBy, setSortBy] = useState<ExecutionHistorySortKey>("createdAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [usageFilterKey, setUsageFilterKey] = useState<UsageFilterKey>("minTokens");
+  const [usageFilterValue, setUsageFilterValue] = useState("");
+  const [queue, setQueue] = useState<ExecutionQueue | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
 
   const loadHistory = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
+      const filters: ExecutionHistoryFilters = {
+        status: statusFilter === "all" ? undefined : statusFilter,
+        limit: 50,
+        sortBy,
+        sortOrder,
+      };
+      const minimum = Number(usageFilterValue);
+      if (usageFilterValue && minimum > 0) {
+        filters[usageFilterKey] = minimum;
+      }
       const [executionsData, statsData] = await Promise.all([
-        executionHistoryAPI.list(projectId, {
-          status: statusFilter === "all" ? undefined : statusFilter,
-          limit: 50,
-        }),
+        executionHistoryAPI.list(projectId, filters),
         executionHistoryAPI.getStats(projectId),
       ]);
       setExecutions(executionsData);
@@ -100,12 +207,41 @@ export function ExecutionHistoryPanel({
     } finally {
       setLoading(false);
     }
-  }, [projectId, statusFilter]);
+  }, [projectId, statusFilter, sortBy, sortOrder, usageFilterKey, usageFilterValue]);
 
   useEffect(() => {
     loadHistory();
   }, [loadHistory]);
 
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await agentAPI.getQueue(projectId));
+    } catch {
+      // The queue is a live view, keep the last known state until the next poll
+    }
+  }, [projectId]);
+
+  // Poll the queue while the panel is open
+  useEffect(() => {
+    loadQueue();
+    const timer = setInterval(loadQueue, 5000);
+    return () => clearInterval(timer);
+  }, [loadQueue]);
+
+  const handleCancel = async (executionId: string) => {
+    setCancellingId(executionId);
+    try {
+      await agentAPI.cancel(executionId);
+      await Promise.all([loadQueue(), loadHistory()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel execution");
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const queueEntries = queue ? [...queue.running, ...queue.queued] : [];
+
   const filterOptions: Array<{ value: AgentExecutionStatus | "all"; label: string }> = [
     { value: "all", label: "All" },
     { value: "completed", label: "Completed" },
@@ -147,8 +283,18 @@ export function ExecutionHistoryPanel({
             {stats.avgDuration && (
               <span>Avg: {formatDuration(stats.avgDuration)}</span>
             )}
+            {stats.totalCostUsd > 0 && (
+              <button
+                type="button"
+                className="hover:text-foreground"
+                onClick={() => setShowCosts((show) => !show)}
+              >
+                Cost: {formatCost(stats.totalCostUsd)}
+              </button>
+            )}
           </div>
         )}
+        {stats && showCosts && stats.totalCostUsd > 0 && <CostBreakdown stats={stats} />}
 
         {/* Filter buttons */}
         <div className="flex flex-wrap gap-1 mt-3">
@@ -164,6 +310,39 @@ export function ExecutionHistoryPanel({
             </Button>
           ))}
         </div>
+
+        {/* Sort and usage filter */}
+        <div className="flex items-center gap-1 mt-2">
+          <Select
+            className="h-7 w-28 text-xs"
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as ExecutionHistorySortKey)}
+            options={SORT_OPTIONS}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 w-7 p-0"
+            title={sortOrder === "desc" ? "Highest first" : "Lowest first"}
+            onClick={() => setSortOrder((order) => (order === "desc" ? "asc" : "desc"))}
+          >
+            {sortOrder === "desc" ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />}
+          </Button>
+          <Select
+            className="h-7 w-32 text-xs"
+            value={usageFilterKey}
+            onChange={(e) => setUsageFilterKey(e.target.value as UsageFilterKey)}
+            options={USAGE_FILTER_OPTIONS}
+          />
+          <Input
+            type="number"
+            min={0}
+            className="h-7 w-20 text-xs"
+            placeholder="Any"
+            value={usageFilterValue}
+            onChange={(e) => setUsageFilterValue(e.target.value)}
+          />
+        </div>
       </CardHeader>
 
       <CardContent className="p-4 pt-2 flex-1 overflow-y-auto">
@@ -174,6 +353,60 @@ export function ExecutionHistoryPanel({
           </div>
         )}
 
+        {/* Running and queued executions */}
+        {queue && queueEntries.length > 0 && (
+          <div className="mb-4 space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="font-medium">Queue</span>
+              <span>
+                {queue.running.length}/{queue.maxConcurrentExecutions} running
+                {queue.queued.length > 0 && `, ${queue.queued.length} waiting`}
+              </span>
+            </div>
+            {queueEntries.map((entry) => (
+              <div
+                key={entry.executionId}
+                className="flex items-center justify-between gap-2 p-2 border rounded-lg"
+              >
+                <div className="flex-1 min-w-0">
+                  <button
+                    className="font-medium text-sm truncate hover:underline text-left block w-full"
+                    onClick={() => onViewDetail(entry.executionId)}
+                  >
+                    {entry.taskTitle}
+                  </button>
+                  <div className="flex items-center gap-2 mt-0.5 text-xs text-muted-foreground">
+                    {entry.position === null ? (
+                      <span className="flex items-center gap-1">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Running since {formatDate(entry.since)}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1">
+                        <Hourglass className="h-3 w-3" />
+                        #{entry.position} in queue, {formatEta(entry.etaSeconds)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => handleCancel(entry.executionId)}
+                  disabled={cancellingId === entry.executionId}
+                >
+                  {cancellingId === entry.executionId ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    "Cancel"
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {loading && executions.length === 0 && (
           <div className="flex items-center justify-center py-8">
             <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
@@ -194,11 +427,13 @@ export function ExecutionHistoryPanel({
           <div className="space-y-2">
             {executions.map((execution) => {
               const statusConfig = STATUS_BADGES[execution.status];
-              const duration =
-                execution.completedAt && execution.createdAt
+              const duration = execution.usage
+                ? execution.usage.elapsedTimeSeconds * 1000
+                : execution.completedAt && execution.createdAt
                   ? new Date(execution.completedAt).getTime() -
                     new Date(execution.createdAt).getTime()
                   : null;
+              const closestLimit = execution.usage ? getClosestLimit(execution.usage) : null;
 
               return (
                 <button
@@ -229,6 +464,22 @@ export function ExecutionHistoryPanel({
                           </span>
                         )}
                       </div>
+                      {execution.usage && (
+                        <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+                          <span>{formatTokens(execution.usage.tokensUsed)} tokens</span>
+                          <span>
+                            {execution.usage.stepsCount} step{execution.usage.stepsCount !== 1 ? "s" : ""}
+                          </span>
+                          <span>
+                            {execution.usage.commandsCount} command{execution.usage.commandsCount !== 1 ? "s" : ""}
+                          </span>
+                          {closestLimit && (
+                            <span className={cn(closestLimit.percentage >= 80 && "text-amber-600")}>
+                              {closestLimit.percentage}% of {closestLimit.label} limit
+                            </span>
+                          )}
+                        </div>
+                      )}
                       {execution.errorMessage && (
                         <p className="text-xs text-red-600 mt-1 truncate">
                           {execution.errorMessage}
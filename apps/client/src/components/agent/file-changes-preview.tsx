@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
-import { agentAPI, type AgentActionType, type AgentActionStatus } from "../../lib/api";
+import { agentAPI, type AgentActionType, type AgentActionStatus, type PatchPreview } from "../../lib/api";
 import { MultiFileDiffPreview, type FileChange, type FileChangeOperation } from "../diff";
 import { cn } from "../../lib/utils";
 import { Button } from "../ui/button";
@@ -16,6 +16,8 @@ interface ActionState {
 
 interface FileChangesPreviewProps {
   projectId: string;
+  // Read originals from this execution's worktree when it runs isolated
+  executionId?: string | null;
   actions: ActionState[];
   isAwaitingApproval: boolean;
   onApprove: (actionId: string) => void;
@@ -27,6 +29,18 @@ interface FileChangesPreviewProps {
 
 type ViewMode = "diff" | "list";
 
+// Map action status to FileChange status
+function toChangeStatus(status: AgentActionStatus): FileChange["status"] {
+  switch (status) {
+    case "approved":
+      return "approved";
+    case "rejected":
+      return "rejected";
+    default:
+      return "pending";
+  }
+}
+
 /**
  * FileChangesPreview component
  * Displays file changes from agent actions with diff view support
@@ -34,6 +48,7 @@ type ViewMode = "diff" | "list";
  */
 export function FileChangesPreview({
   projectId,
+  executionId,
   actions,
   isAwaitingApproval,
   onApprove,
@@ -46,6 +61,7 @@ export function FileChangesPreview({
   const [originalContents, setOriginalContents] = useState<
     Record<string, { content: string; exists: boolean }>
   >({});
+  const [patchPreviews, setPatchPreviews] = useState<Record<string, PatchPreview>>({});
   const [isLoadingContents, setIsLoadingContents] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
 
@@ -58,6 +74,13 @@ export function FileChangesPreview({
     [actions]
   );
 
+  // Patches can touch several files, the server works out what each one changes
+  const patchActions = useMemo(
+    () => actions.filter((a) => a.type === "applyPatch"),
+    [actions]
+  );
+  const patchKey = patchActions.map((a) => a.id).join(",");
+
   // Get unique file paths that need original content fetched
   const filePaths = useMemo(() => {
     const paths = new Set<string>();
@@ -79,7 +102,7 @@ export function FileChangesPreview({
       setLoadError(null);
 
       try {
-        const contents = await agentAPI.readFileContents(projectId, filePaths);
+        const contents = await agentAPI.readFileContents(projectId, filePaths, executionId ?? undefined);
         setOriginalContents(contents);
       } catch (err) {
         console.error("Failed to fetch file contents:", err);
@@ -98,11 +121,37 @@ export function FileChangesPreview({
     };
 
     fetchContents();
-  }, [projectId, filePaths]);
+  }, [projectId, executionId, filePaths]);
+
+  // Fetch per-file previews for patches
+  useEffect(() => {
+    if (patchActions.length === 0) return;
+
+    const fetchPreviews = async () => {
+      const previews: Record<string, PatchPreview> = {};
+      await Promise.all(
+        patchActions.map(async (action) => {
+          try {
+            previews[action.id] = await agentAPI.previewPatch(
+              projectId,
+              action.params.patch as string,
+              executionId ?? undefined
+            );
+          } catch (err) {
+            setLoadError(err instanceof Error ? err.message : "Failed to preview patch");
+          }
+        })
+      );
+      setPatchPreviews(previews);
+    };
+
+    fetchPreviews();
+    // patchKey stands in for patchActions so status updates don't refetch
+  }, [projectId, executionId, patchKey]);
 
   // Convert actions to FileChange format for diff preview
   const fileChanges: FileChange[] = useMemo(() => {
-    return fileActions.map((action) => {
+    const singleFileChanges = fileActions.map((action) => {
       const path = action.params.path as string;
       const original = originalContents[path] || { content: "", exists: false };
 
@@ -130,32 +179,44 @@ export function FileChangesPreview({
           newContent = "";
       }
 
-      // Map action status to FileChange status
-      let status: FileChange["status"];
-      switch (action.status) {
-        case "proposed":
-          status = "pending";
-          break;
-        case "approved":
-          status = "approved";
-          break;
-        case "rejected":
-          status = "rejected";
-          break;
-        default:
-          status = "pending";
-      }
-
       return {
         id: action.id,
         path,
         operation,
         originalContent: original.content,
         newContent,
-        status,
+        status: toChangeStatus(action.status),
       };
     });
-  }, [fileActions, originalContents]);
+
+    const patchChanges = patchActions.flatMap((action): FileChange[] => {
+      const preview = patchPreviews[action.id];
+      if (!preview) return [];
+
+      // Once applied the patch no longer matches the files, only flag problems before that
+      const failures = preview.files.flatMap((file) => [
+        ...(file.error ? [`${file.path}: ${file.error}`] : []),
+        ...file.hunks.filter((h) => !h.applied).map((h) => `${file.path}: hunk ${h.index} ${h.header} does not apply`),
+      ]);
+      const canStillApply = action.status === "proposed" || action.status === "approved";
+
+      return preview.files.map((file) => ({
+        id: `${action.id}:${file.path}`,
+        path: file.oldPath ? `${file.oldPath} → ${file.path}` : file.path,
+        operation: file.operation,
+        originalContent: file.originalContent,
+        newContent: file.newContent,
+        status: toChangeStatus(action.status),
+        changeSet: {
+          id: action.id,
+          label: (action.params.description as string) || "Patch",
+          error: canStillApply && failures.length > 0 ? failures.join("\n") : undefined,
+        },
+      }));
+    });
+
+    return [...singleFileChanges, ...patchChanges];
+  }, [fileActions, originalContents, patchActions, patchPreviews]);
 
   // Handle approve for a specific file change
   const handleApprove = (id: string) => {
@@ -174,16 +235,18 @@ export function FileChangesPreview({
 
   // Handle reject all file changes
   const handleRejectAll = () => {
-    const pendingIds = fileChanges
-      .filter((c) => c.status === "pending")
-      .map((c) => c.id);
+    const pendingIds = new Set(
+      fileChanges
+        .filter((c) => c.status === "pending")
+        .map((c) => c.changeSet?.id ?? c.id)
+    );
     for (const id of pendingIds) {
       onReject(id);
     }
   };
 
   // If no file actions, return null
-  if (fileActions.length === 0) {
+  if (fileActions.length === 0 && patchActions.length === 0) {
     return null;
   }
 
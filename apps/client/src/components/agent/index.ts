@@ -3,6 +3,9 @@ export { ActionCard } from "./action-card";
 export { WorkingDirectorySetup } from "./working-directory-setup";
 export { DirectoryBrowser } from "./directory-browser";
 export { ToolApprovalSettingsDialog } from "./tool-approval-settings";
+export { SandboxLimitsDialog } from "./sandbox-limits-settings";
 export { ReasoningDisplay } from "./reasoning-display";
+export { ExecutionPlanPanel } from "./plan-review";
 export { ExecutionHistoryPanel } from "./execution-history-panel";
 export { ExecutionDetailView } from "./execution-detail-view";
+export { AutopilotPanel } from "./autopilot-panel";
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { cn } from "../../lib/utils";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Textarea } from "../ui/textarea";
+import type { ExecutionPlan, PlanStep, PlanStepStatus } from "../../lib/api";
+import {
+  ClipboardList,
+  Circle,
+  Loader2,
+  CheckCircle2,
+  SkipForward,
+  Ban,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Undo2,
+  AlertTriangle,
+  FileText,
+  Terminal,
+  Check,
+  MessageSquare,
+} from "lucide-react";
+
+interface ExecutionPlanPanelProps {
+  plan: ExecutionPlan;
+  // Provided while the plan awaits approval, the steps can only be edited then
+  onApprove?: (steps: PlanStep[], notes: string) => void;
+  onRequestChanges?: (feedback: string) => void;
+  isSubmitting?: boolean;
+}
+
+const STEP_STATUS_ICONS: Record<PlanStepStatus, React.ReactNode> = {
+  pending: <Circle className="h-4 w-4 text-muted-foreground" />,
+  in_progress: <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />,
+  completed: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  skipped: <SkipForward className="h-4 w-4 text-muted-foreground" />,
+  rejected: <Ban className="h-4 w-4 text-red-600" />,
+};
+
+const PLAN_STATUS_LABELS: Record<ExecutionPlan["status"], string> = {
+  awaiting_approval: "Awaiting approval",
+  approved: "Approved",
+  revising: "Revising",
+};
+
+/**
+ * A plan_first execution's plan. While it awaits approval its steps can be edited, reordered and
+ * rejected before approving it, or it can be sent back with feedback; afterwards it shows each
+ * step's progress.
+ */
+export function ExecutionPlanPanel({ plan, onApprove, onRequestChanges, isSubmitting }: ExecutionPlanPanelProps) {
+  const [steps, setSteps] = useState<PlanStep[]>(plan.steps);
+  const [feedback, setFeedback] = useState("");
+  const isEditable = plan.status === "awaiting_approval" && !!onApprove;
+
+  // A revised plan or progress updates replace the local copy
+  useEffect(() => {
+    setSteps(plan.steps);
+  }, [plan]);
+
+  const updateStep = (id: string, changes: Partial<PlanStep>) => {
+    setSteps((prev) => prev.map((step) => (step.id === id ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps((prev) => {
+      const next = [...prev];
+      const [step] = next.splice(index, 1);
+      next.splice(index + direction, 0, step!);
+      return next;
+    });
+  };
+
+  const finishedCount = steps.filter((step) => step.status === "completed" || step.status === "skipped").length;
+  const activeCount = steps.filter((step) => step.status !== "rejected").length;
+  const hasActiveSteps = activeCount > 0;
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ClipboardList className="h-4 w-4" />
+          Plan
+        </div>
+        <div className="flex items-center gap-2">
+          {plan.status === "approved" && (
+            <span className="text-xs text-muted-foreground">
+              {finishedCount}/{activeCount} steps done
+            </span>
+          )}
+          <Badge variant="secondary" className="text-xs">
+            {PLAN_STATUS_LABELS[plan.status]}
+          </Badge>
+        </div>
+      </div>
+
+      <p className="text-sm">{plan.summary}</p>
+
+      <ol className="space-y-2">
+        {steps.map((step, index) => {
+          const isRejected = step.status === "rejected";
+          return (
+            <li key={step.id} className={cn("flex items-start gap-2 rounded-md bg-muted/50 p-2", isRejected && "opacity-60")}>
+              <span className="mt-0.5 flex-shrink-0">{STEP_STATUS_ICONS[step.status]}</span>
+              <div className="flex-1 min-w-0 space-y-1">
+                {isEditable && !isRejected ? (
+                  <Textarea
+                    value={step.description}
+                    rows={2}
+                    className="text-sm"
+                    onChange={(e) => updateStep(step.id, { description: e.target.value })}
+                  />
+                ) : (
+                  <p className={cn("text-sm", isRejected && "line-through")}>
+                    <span className="text-muted-foreground mr-1">{index + 1}.</span>
+                    {step.description}
+                  </p>
+                )}
+                {step.files.length > 0 && (
+                  <div className="flex items-start gap-1 text-xs text-muted-foreground">
+                    <FileText className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    <span className="font-mono break-all">{step.files.join(", ")}</span>
+                  </div>
+                )}
+                {step.commands.length > 0 && (
+                  <div className="flex items-start gap-1 text-xs text-muted-foreground">
+                    <Terminal className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    <span className="font-mono break-all">{step.commands.join("; ")}</span>
+                  </div>
+                )}
+              </div>
+              {isEditable && (
+                <div className="flex flex-col gap-0.5 flex-shrink-0">
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1 text-xs"
+                    onClick={() => updateStep(step.id, { status: isRejected ? "pending" : "rejected" })}
+                    title={isRejected ? "Keep this step" : "Reject this step"}
+                  >
+                    {isRejected ? <Undo2 className="h-3 w-3" /> : <X className="h-3 w-3" />}
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {plan.risks.length > 0 && (
+        <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/20 p-2 text-xs text-yellow-800 dark:text-yellow-200">
+          <div className="flex items-center gap-1 font-medium mb-1">
+            <AlertTriangle className="h-3 w-3" />
+            Risks
+          </div>
+          <ul className="list-disc ml-4 space-y-0.5">
+            {plan.risks.map((risk, index) => (
+              <li key={index}>{risk}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {plan.feedback && !isEditable && (
+        <p className="text-xs text-muted-foreground">
+          <MessageSquare className="h-3 w-3 inline mr-1" />
+          {plan.feedback}
+        </p>
+      )}
+
+      {isEditable && (
+        <div className="space-y-2 border-t pt-3">
+          <Textarea
+            value={feedback}
+            rows={2}
+            className="text-sm"
+            placeholder="Notes for the agent, or what to change when requesting a new plan"
+            onChange={(e) => setFeedback(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => onRequestChanges?.(feedback.trim())}
+              disabled={isSubmitting || !feedback.trim()}
+            >
+              Request Changes
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => onApprove?.(steps, feedback.trim())}
+              disabled={isSubmitting || !hasActiveSteps || steps.some((step) => !step.description.trim())}
+            >
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+              Approve Plan
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
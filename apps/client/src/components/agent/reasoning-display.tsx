@@ -11,10 +11,13 @@ import {
   ChevronDown,
   ChevronUp,
   Sparkles,
+  Loader2,
 } from "lucide-react";
 
 interface ReasoningDisplayProps {
   steps: AgentReasoningStep[];
+  // Partial model output that is still streaming in
+  streamingText?: string;
   isExpanded?: boolean;
   onToggleExpand?: () => void;
 }
@@ -134,12 +137,28 @@ function ReasoningStep({ step }: { step: AgentReasoningStep }) {
   );
 }
 
+function StreamingOutput({ text }: { text: string }) {
+  return (
+    <div className="rounded-lg border border-dashed p-3 bg-muted/30">
+      <div className="flex items-center gap-2 mb-1 text-xs font-medium text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        <span>Generating</span>
+      </div>
+      <p className="text-sm text-foreground whitespace-pre-wrap break-words">
+        {text}
+        <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+      </p>
+    </div>
+  );
+}
+
 export function ReasoningDisplay({
   steps,
+  streamingText,
   isExpanded = true,
   onToggleExpand,
 }: ReasoningDisplayProps) {
-  if (steps.length === 0) {
+  if (steps.length === 0 && !streamingText) {
     return null;
   }
 
@@ -180,6 +199,7 @@ export function ReasoningDisplay({
           {steps.map((step) => (
             <ReasoningStep key={step.id} step={step} />
           ))}
+          {streamingText && <StreamingOutput text={streamingText} />}
         </div>
       )}
     </div>
@@ -0,0 +1,240 @@
+import { useState, useEffect, cloneElement, isValidElement } from "react";
+import { Gauge } from "lucide-react";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { Textarea } from "../ui/textarea";
+import { agentAPI, type SandboxLimits, type NetworkAccess } from "../../lib/api";
+
+interface SandboxLimitsDialogProps {
+  projectId: string;
+  trigger?: React.ReactElement;
+}
+
+type NumericLimitKey = {
+  [K in keyof SandboxLimits]: SandboxLimits[K] extends number ? K : never;
+}[keyof SandboxLimits];
+
+interface LimitConfig {
+  key: NumericLimitKey;
+  label: string;
+  description: string;
+  // Decimal limits like costs take fractional steps
+  step?: number;
+}
+
+const EXECUTION_LIMITS: LimitConfig[] = [
+  { key: "maxExecutionTimeSeconds", label: "Execution Time (s)", description: "Wall-clock time for the whole execution" },
+  { key: "maxTokens", label: "Tokens", description: "Prompt and completion tokens across all steps" },
+  { key: "maxSteps", label: "Steps", description: "Model rounds before the agent stops" },
+  { key: "maxCostUsd", label: "Cost (USD)", description: "Spend on models priced in the provider settings", step: 0.01 },
+  { key: "maxFileOperations", label: "File Operations", description: "Writes, edits, deletes and patches" },
+  { key: "maxFileSizeBytes", label: "File Size (bytes)", description: "Largest file the agent may write" },
+  { key: "maxCommands", label: "Commands", description: "Shell commands per execution" },
+];
+
+const COMMAND_LIMITS: LimitConfig[] = [
+  { key: "commandTimeoutSeconds", label: "Command Timeout (s)", description: "Kills the command and its children" },
+  { key: "maxCommandOutputBytes", label: "Output Cap (bytes)", description: "Kept of stdout and of stderr, head and tail" },
+  { key: "commandCpuSeconds", label: "CPU Time (s)", description: "Per command, Linux only" },
+  { key: "commandMemoryMb", label: "Memory (MB)", description: "Address space per command, Linux only" },
+];
+
+const NETWORK_ACCESS_OPTIONS: { value: NetworkAccess; label: string }[] = [
+  { value: "full", label: "Full network access" },
+  { value: "localhost", label: "Loopback only" },
+  { value: "none", label: "No network" },
+];
+
+function LimitInput({
+  config,
+  value,
+  onChange,
+}: {
+  config: LimitConfig;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={config.key} className="text-sm font-medium">{config.label}</Label>
+      <Input
+        id={config.key}
+        type="number"
+        min={0}
+        step={config.step}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      />
+      <p className="text-xs text-muted-foreground">{config.description}</p>
+    </div>
+  );
+}
+
+export function SandboxLimitsDialog({ projectId, trigger }: SandboxLimitsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [limits, setLimits] = useState<SandboxLimits | null>(null);
+  // Edited as text so blank lines can be typed, they are dropped from the saved list
+  const [envText, setEnvText] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Load limits when dialog opens
+  useEffect(() => {
+    if (open) {
+      setLoading(true);
+      setSaveError(null);
+      agentAPI
+        .getSandboxLimits(projectId)
+        .then((data) => {
+          setLimits(data);
+          setEnvText(data.commandEnvAllowList.join("\n"));
+        })
+        .catch((err) => {
+          console.error("Failed to load sandbox limits:", err);
+        })
+        .finally(() => {
+          setLoading(false);
+        });
+    }
+  }, [open, projectId]);
+
+  const setLimit = <K extends keyof SandboxLimits>(key: K, value: SandboxLimits[K]) => {
+    setLimits((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleEnvTextChange = (value: string) => {
+    setEnvText(value);
+    setLimit("commandEnvAllowList", value.split("\n").map((line) => line.trim()).filter(Boolean));
+  };
+
+  const handleSave = async () => {
+    if (!limits) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await agentAPI.updateSandboxLimits(projectId, limits);
+      setOpen(false);
+    } catch (err) {
+      console.error("Failed to save sandbox limits:", err);
+      setSaveError(err instanceof Error ? err.message : "Failed to save limits");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTriggerClick = () => setOpen(true);
+
+  const defaultTrigger = (
+    <Button variant="ghost" size="sm" onClick={handleTriggerClick}>
+      <Gauge className="h-4 w-4 mr-2" />
+      Sandbox Limits
+    </Button>
+  );
+
+  // Clone the trigger element and add onClick handler
+  const triggerElement = trigger && isValidElement(trigger)
+    ? cloneElement(trigger, { onClick: handleTriggerClick } as React.HTMLAttributes<HTMLElement>)
+    : defaultTrigger;
+
+  return (
+    <>
+      {triggerElement}
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sandbox Limits</DialogTitle>
+          <DialogDescription>
+            Limit what a single agent execution and each of its commands may use.
+            A limit of 0 disables it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !limits ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Loading limits...
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              {EXECUTION_LIMITS.map((config) => (
+                <LimitInput
+                  key={config.key}
+                  config={config}
+                  value={limits[config.key]}
+                  onChange={(value) => setLimit(config.key, value)}
+                />
+              ))}
+            </div>
+
+            <div className="space-y-4 border-t pt-4">
+              <Label className="text-sm font-medium">Commands</Label>
+              <div className="grid grid-cols-2 gap-4">
+                {COMMAND_LIMITS.map((config) => (
+                  <LimitInput
+                    key={config.key}
+                    config={config}
+                    value={limits[config.key]}
+                    onChange={(value) => setLimit(config.key, value)}
+                  />
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="network-access" className="text-sm font-medium">Network Access</Label>
+                <Select
+                  id="network-access"
+                  value={limits.networkAccess}
+                  options={NETWORK_ACCESS_OPTIONS}
+                  onChange={(e) => setLimit("networkAccess", e.target.value as NetworkAccess)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Isolation uses Linux network namespaces. Loopback only gives each command its own
+                  localhost, so services running on the host aren't reachable. Commands fail with an
+                  error when the host can't isolate them.
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="env-allow-list" className="text-sm font-medium">Environment Allow-List</Label>
+                <Textarea
+                  id="env-allow-list"
+                  value={envText}
+                  rows={5}
+                  className="font-mono text-xs"
+                  onChange={(e) => handleEnvTextChange(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Variables passed through to commands, one per line. Everything else, such as API keys,
+                  is removed.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || !limits}>
+            {saving ? "Saving..." : "Save Limits"}
+          </Button>
+        </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, cloneElement, isValidElement } from "react";
-import { Settings, FileText, FolderOpen, FileEdit, Trash2, Terminal, CheckCircle } from "lucide-react";
+import { Settings, FileText, FolderOpen, FileEdit, Trash2, Terminal, CheckCircle, Search, FileDiff, Plus, ArrowUp, ArrowDown, X } from "lucide-react";
 import { Button } from "../ui/button";
 import {
   Dialog,
@@ -11,15 +11,37 @@ import {
 } from "../ui/dialog";
 import { Switch } from "../ui/switch";
 import { Label } from "../ui/label";
-import { agentAPI, type ToolApprovalSettings, DEFAULT_TOOL_APPROVAL_SETTINGS } from "../../lib/api";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { Textarea } from "../ui/textarea";
+import {
+  agentAPI,
+  aiProvidersAPI,
+  type AIProvider,
+  type ToolApprovalSettings,
+  type CommandPolicyRule,
+  type CommandPolicyDecision,
+  type PathApprovalRule,
+  type VerificationSettings,
+  type ReviewerSettings,
+  type ModelRoutingPhase,
+  type ModelRoutingSettings,
+  DEFAULT_TOOL_APPROVAL_SETTINGS,
+  DEFAULT_PROTECTED_PATHS,
+  DEFAULT_VERIFICATION_SETTINGS,
+  DEFAULT_REVIEWER_SETTINGS,
+  DEFAULT_MODEL_ROUTING_SETTINGS,
+} from "../../lib/api";
 
 interface ToolApprovalSettingsDialogProps {
   projectId: string;
   trigger?: React.ReactElement;
 }
 
+type ToolApprovalKey = Exclude<keyof ToolApprovalSettings, "pathRules" | "protectedPaths">;
+
 interface ToolConfig {
-  key: keyof ToolApprovalSettings;
+  key: ToolApprovalKey;
   label: string;
   description: string;
   icon: React.ReactNode;
@@ -39,6 +61,12 @@ const TOOL_CONFIGS: ToolConfig[] = [
     description: "List files and folders in a directory",
     icon: <FolderOpen className="h-4 w-4" />,
   },
+  {
+    key: "searchFiles",
+    label: "Search Files",
+    description: "Search file contents for text or a regular expression",
+    icon: <Search className="h-4 w-4" />,
+  },
   {
     key: "writeFile",
     label: "Write File",
@@ -60,10 +88,17 @@ const TOOL_CONFIGS: ToolConfig[] = [
     icon: <Trash2 className="h-4 w-4" />,
     dangerous: true,
   },
+  {
+    key: "applyPatch",
+    label: "Apply Patch",
+    description: "Apply a unified diff across one or more files",
+    icon: <FileDiff className="h-4 w-4" />,
+    dangerous: true,
+  },
   {
     key: "executeCommand",
     label: "Execute Command",
-    description: "Run shell commands in the working directory",
+    description: "Run shell commands and start background processes in the working directory",
     icon: <Terminal className="h-4 w-4" />,
     dangerous: true,
   },
@@ -75,22 +110,546 @@ const TOOL_CONFIGS: ToolConfig[] = [
   },
 ];
 
+const MATCH_TYPE_OPTIONS = [
+  { value: "glob", label: "Glob" },
+  { value: "regex", label: "Regex" },
+];
+
+const POLICY_ACTION_OPTIONS = [
+  { value: "allow", label: "Allow" },
+  { value: "require_approval", label: "Require approval" },
+  { value: "deny", label: "Deny" },
+];
+
+const POLICY_ACTION_LABELS: Record<CommandPolicyRule["action"], string> = {
+  allow: "Runs immediately",
+  require_approval: "Requires approval",
+  deny: "Denied",
+};
+
+function createRule(): CommandPolicyRule {
+  return { id: crypto.randomUUID(), pattern: "", matchType: "glob", action: "allow" };
+}
+
+interface ProtectedPathsEditorProps {
+  paths: string[];
+  onChange: (paths: string[]) => void;
+}
+
+function ProtectedPathsEditor({ paths, onChange }: ProtectedPathsEditorProps) {
+  // Edited as text so blank lines can be typed, they are dropped from the saved list.
+  // The editor mounts once settings have loaded, so the initial paths are the saved ones.
+  const [text, setText] = useState(paths.join("\n"));
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    onChange(value.split("\n").map((line) => line.trim()).filter(Boolean));
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="protected-paths" className="text-sm font-medium">Protected Paths</Label>
+        <Button variant="ghost" size="sm" onClick={() => handleTextChange(DEFAULT_PROTECTED_PATHS.join("\n"))}>
+          Reset to Defaults
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Globs, one per line, that no tool may read or change. Blocked attempts are recorded in the
+        execution's log.
+      </p>
+      <Textarea
+        id="protected-paths"
+        value={text}
+        rows={5}
+        className="font-mono text-xs"
+        onChange={(e) => handleTextChange(e.target.value)}
+      />
+    </div>
+  );
+}
+
+interface VerificationEditorProps {
+  settings: VerificationSettings;
+  onChange: (settings: VerificationSettings) => void;
+}
+
+function VerificationEditor({ settings, onChange }: VerificationEditorProps) {
+  // Edited as text like the protected paths, blank lines are dropped from the saved list
+  const [text, setText] = useState(settings.commands.join("\n"));
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    onChange({ ...settings, commands: value.split("\n").map((line) => line.trim()).filter(Boolean) });
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <Label htmlFor="verification-commands" className="text-sm font-medium">Verification Commands</Label>
+      <p className="text-xs text-muted-foreground">
+        Commands, one per line, run in order when the agent completes a task. If one fails, its output
+        goes back to the agent to fix before the task can complete.
+      </p>
+      <Textarea
+        id="verification-commands"
+        value={text}
+        rows={3}
+        placeholder={"bun run typecheck\nbun test"}
+        className="font-mono text-xs"
+        onChange={(e) => handleTextChange(e.target.value)}
+      />
+      <div className="flex items-center gap-3">
+        <Label htmlFor="verification-retries" className="text-xs">Max retries</Label>
+        <Input
+          id="verification-retries"
+          type="number"
+          min={0}
+          value={settings.maxRetries}
+          className="w-20 h-8 text-xs"
+          onChange={(e) => onChange({ ...settings, maxRetries: Math.max(0, parseInt(e.target.value) || 0) })}
+        />
+        <span className="text-xs text-muted-foreground">
+          Failed checks handed back to the agent before completion goes ahead anyway
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface ReviewerEditorProps {
+  settings: ReviewerSettings;
+  providers: AIProvider[];
+  onChange: (settings: ReviewerSettings) => void;
+}
+
+function ReviewerEditor({ settings, providers, onChange }: ReviewerEditorProps) {
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="reviewer-enabled" className="text-sm font-medium">Reviewer</Label>
+          <p className="text-xs text-muted-foreground">
+            A second model reviews the changes against the task and guidelines, with read-only tools, once
+            verification passes. Its verdict is attached to the execution.
+          </p>
+        </div>
+        <Switch
+          id="reviewer-enabled"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+        />
+      </div>
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="reviewer-provider" className="text-xs">Provider</Label>
+            <Select
+              id="reviewer-provider"
+              value={settings.aiProviderId ?? ""}
+              className="h-8 text-xs"
+              onChange={(e) => onChange({ ...settings, aiProviderId: e.target.value || null })}
+              options={[
+                { value: "", label: "Review route or project provider" },
+                ...providers.map((provider) => ({ value: provider.id, label: provider.name })),
+              ]}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reviewer-rounds" className="text-xs">Rounds handed back</Label>
+            <Input
+              id="reviewer-rounds"
+              type="number"
+              min={0}
+              value={settings.maxRounds}
+              className="h-8 text-xs"
+              onChange={(e) => onChange({ ...settings, maxRounds: Math.max(0, parseInt(e.target.value) || 0) })}
+            />
+          </div>
+          <p className="col-span-2 text-xs text-muted-foreground">
+            Requested changes go back to the agent this many times, 0 only attaches the verdict for you.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const ROUTING_PHASES: { phase: ModelRoutingPhase; label: string; description: string }[] = [
+  { phase: "chat", label: "Chat", description: "Planning conversations about the project's tasks" },
+  { phase: "exploration", label: "Exploration", description: "Agent steps that can only read files, search and ask questions" },
+  { phase: "editing", label: "Editing", description: "Agent steps from the first change to a file or command on" },
+  { phase: "review", label: "Review", description: "The reviewer pass, unless the reviewer has its own provider" },
+];
+
+interface ModelRoutingEditorProps {
+  settings: ModelRoutingSettings;
+  providers: AIProvider[];
+  onChange: (settings: ModelRoutingSettings) => void;
+}
+
+function ModelRoutingEditor({ settings, providers, onChange }: ModelRoutingEditorProps) {
+  const setProvider = (phase: ModelRoutingPhase, aiProviderId: string) =>
+    onChange({ ...settings, [phase]: aiProviderId ? { aiProviderId, model: null } : null });
+
+  const setModel = (phase: ModelRoutingPhase, model: string) => {
+    const route = settings[phase];
+    if (route) onChange({ ...settings, [phase]: { ...route, model: model || null } });
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <Label className="text-sm font-medium">Model Routing</Label>
+      <p className="text-xs text-muted-foreground">
+        Send each kind of model call to its own provider and model, e.g. a cheaper model for exploring.
+        Routed calls fail over to the project's providers.
+      </p>
+      {ROUTING_PHASES.map(({ phase, label, description }) => {
+        const route = settings[phase];
+        const provider = providers.find((p) => p.id === route?.aiProviderId);
+        return (
+          <div key={phase} className="grid grid-cols-[1fr_10rem_10rem] items-center gap-2">
+            <div>
+              <Label htmlFor={`routing-${phase}`} className="text-xs">{label}</Label>
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+            <Select
+              id={`routing-${phase}`}
+              value={route?.aiProviderId ?? ""}
+              className="h-8 text-xs"
+              onChange={(e) => setProvider(phase, e.target.value)}
+              options={[
+                { value: "", label: "Project providers" },
+                ...providers.map((p) => ({ value: p.id, label: p.name })),
+              ]}
+            />
+            <Input
+              value={route?.model ?? ""}
+              placeholder={provider?.model ?? "Model"}
+              disabled={!route}
+              className="h-8 text-xs"
+              onChange={(e) => setModel(phase, e.target.value)}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface PathRulesEditorProps {
+  rules: PathApprovalRule[];
+  onChange: (rules: PathApprovalRule[]) => void;
+}
+
+function PathRulesEditor({ rules, onChange }: PathRulesEditorProps) {
+  const updateRule = (id: string, changes: Partial<PathApprovalRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + direction, 0, rule!);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <Label className="text-sm font-medium">Path Rules</Label>
+        <p className="text-xs text-muted-foreground">
+          Ordered glob rules for paths in the working directory, the first matching rule wins. Allow and
+          require approval override the file tool settings above for changes, deny also blocks reads.
+          Patterns without a slash match file names at any depth, e.g. src/**, **/*.test.ts, .env*, .git/**.
+        </p>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">No rules yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule, index) => (
+            <div key={rule.id} className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground w-5 text-right">{index + 1}.</span>
+              <Input
+                value={rule.pattern}
+                placeholder="src/**"
+                className="font-mono text-xs"
+                onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+              />
+              <div className="w-40 shrink-0">
+                <Select
+                  value={rule.action}
+                  options={POLICY_ACTION_OPTIONS}
+                  onChange={(e) => updateRule(rule.id, { action: e.target.value as PathApprovalRule["action"] })}
+                />
+              </div>
+              <Input
+                value={rule.reason ?? ""}
+                placeholder="Reason"
+                className="text-xs"
+                onChange={(e) => updateRule(rule.id, { reason: e.target.value || undefined })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move up"
+                disabled={index === 0}
+                onClick={() => moveRule(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move down"
+                disabled={index === rules.length - 1}
+                onClick={() => moveRule(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Remove rule"
+                onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, { id: crypto.randomUUID(), pattern: "", action: "require_approval" }])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Path Rule
+      </Button>
+    </div>
+  );
+}
+
+interface CommandPolicyEditorProps {
+  projectId: string;
+  rules: CommandPolicyRule[];
+  onChange: (rules: CommandPolicyRule[]) => void;
+  // Whether commands no rule decides require approval
+  fallbackRequiresApproval: boolean;
+}
+
+function CommandPolicyEditor({ projectId, rules, onChange, fallbackRequiresApproval }: CommandPolicyEditorProps) {
+  const [testCommand, setTestCommand] = useState("");
+  const [testResult, setTestResult] = useState<CommandPolicyDecision | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const updateRule = (id: string, changes: Partial<CommandPolicyRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+    setTestResult(null);
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + direction, 0, rule!);
+    onChange(next);
+    setTestResult(null);
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter((rule) => rule.id !== id));
+    setTestResult(null);
+  };
+
+  // Test the rules as edited, before they are saved
+  const handleTest = async () => {
+    if (!testCommand.trim()) return;
+    setTesting(true);
+    setTestError(null);
+    try {
+      setTestResult(await agentAPI.testCommandPolicy(projectId, testCommand, rules));
+    } catch (err) {
+      setTestResult(null);
+      setTestError(err instanceof Error ? err.message : "Failed to test command");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const matchedIndex = testResult?.rule ? rules.findIndex((rule) => rule.id === testResult.rule!.id) : -1;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <Label className="text-sm font-medium">Command Policy</Label>
+        <p className="text-xs text-muted-foreground">
+          Ordered rules for shell commands, the first matching rule wins. Glob patterns match the whole
+          command (* matches anything), regex patterns match anywhere unless anchored. Chained commands
+          (&amp;&amp;, ||, ;, |) are only allowed when every part is allowed. Commands no rule matches use
+          the Execute Command setting above.
+        </p>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">No rules yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule, index) => (
+            <div
+              key={rule.id}
+              className={`space-y-2 rounded-md border p-2 ${index === matchedIndex ? "border-primary" : ""}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground w-5 text-right">{index + 1}.</span>
+                <div className="w-24 shrink-0">
+                  <Select
+                    value={rule.matchType}
+                    options={MATCH_TYPE_OPTIONS}
+                    onChange={(e) => updateRule(rule.id, { matchType: e.target.value as CommandPolicyRule["matchType"] })}
+                  />
+                </div>
+                <Input
+                  value={rule.pattern}
+                  placeholder={rule.matchType === "glob" ? "bun test*" : "^git push\\b"}
+                  className="font-mono text-xs"
+                  onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                />
+                <div className="w-40 shrink-0">
+                  <Select
+                    value={rule.action}
+                    options={POLICY_ACTION_OPTIONS}
+                    onChange={(e) => updateRule(rule.id, { action: e.target.value as CommandPolicyRule["action"] })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2 pl-7">
+                <Input
+                  value={rule.reason ?? ""}
+                  placeholder="Reason (shown to the agent when denied)"
+                  className="text-xs"
+                  onChange={(e) => updateRule(rule.id, { reason: e.target.value || undefined })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveRule(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Move down"
+                  disabled={index === rules.length - 1}
+                  onClick={() => moveRule(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Remove rule" onClick={() => removeRule(rule.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => onChange([...rules, createRule()])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Rule
+      </Button>
+
+      <div className="space-y-2">
+        <Label htmlFor="test-command" className="text-xs">Test a command</Label>
+        <div className="flex gap-2">
+          <Input
+            id="test-command"
+            value={testCommand}
+            placeholder="bun test && git push"
+            className="font-mono text-xs"
+            onChange={(e) => {
+              setTestCommand(e.target.value);
+              setTestResult(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleTest();
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={handleTest} disabled={testing || !testCommand.trim()}>
+            {testing ? "Testing..." : "Test"}
+          </Button>
+        </div>
+        {testError && <p className="text-xs text-destructive">{testError}</p>}
+        {testResult && (
+          <p className="text-xs">
+            {testResult.action ? (
+              <>
+                <span className={testResult.action === "deny" ? "text-destructive font-medium" : "font-medium"}>
+                  {POLICY_ACTION_LABELS[testResult.action]}
+                </span>
+                {" by rule "}
+                {matchedIndex + 1}
+                {testResult.matchedText && testResult.matchedText !== testCommand.trim() && (
+                  <> (matched <code className="bg-muted px-1 rounded">{testResult.matchedText}</code>)</>
+                )}
+                {testResult.rule?.reason && <span className="text-muted-foreground">: {testResult.rule.reason}</span>}
+              </>
+            ) : (
+              <>
+                <span className="font-medium">
+                  {fallbackRequiresApproval ? POLICY_ACTION_LABELS.require_approval : POLICY_ACTION_LABELS.allow}
+                </span>
+                <span className="text-muted-foreground"> (no rule decides, using the Execute Command setting)</span>
+              </>
+            )}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function ToolApprovalSettingsDialog({
   projectId,
   trigger,
 }: ToolApprovalSettingsDialogProps) {
   const [open, setOpen] = useState(false);
   const [settings, setSettings] = useState<ToolApprovalSettings>(DEFAULT_TOOL_APPROVAL_SETTINGS);
+  const [commandRules, setCommandRules] = useState<CommandPolicyRule[]>([]);
+  const [verification, setVerification] = useState<VerificationSettings>(DEFAULT_VERIFICATION_SETTINGS);
+  const [reviewer, setReviewer] = useState<ReviewerSettings>(DEFAULT_REVIEWER_SETTINGS);
+  const [routing, setRouting] = useState<ModelRoutingSettings>(DEFAULT_MODEL_ROUTING_SETTINGS);
+  const [providers, setProviders] = useState<AIProvider[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   // Load settings when dialog opens
   useEffect(() => {
     if (open) {
       setLoading(true);
-      agentAPI.getToolApprovalSettings(projectId)
-        .then((data) => {
+      setSaveError(null);
+      Promise.all([
+        agentAPI.getToolApprovalSettings(projectId),
+        agentAPI.getCommandPolicy(projectId),
+        agentAPI.getVerificationSettings(projectId),
+        agentAPI.getReviewerSettings(projectId),
+        agentAPI.getModelRouting(projectId),
+        aiProvidersAPI.list(),
+      ])
+        .then(([data, policy, verificationSettings, reviewerSettings, modelRouting, providerList]) => {
           setSettings({ ...DEFAULT_TOOL_APPROVAL_SETTINGS, ...data });
+          setCommandRules(policy.rules);
+          setVerification(verificationSettings);
+          setReviewer(reviewerSettings);
+          setRouting(modelRouting);
+          setProviders(providerList);
         })
         .catch((err) => {
           console.error("Failed to load tool approval settings:", err);
@@ -101,7 +660,7 @@ export function ToolApprovalSettingsDialog({
     }
   }, [open, projectId]);
 
-  const handleToggle = (key: keyof ToolApprovalSettings) => {
+  const handleToggle = (key: ToolApprovalKey) => {
     setSettings((prev) => ({
       ...prev,
       [key]: !prev[key],
@@ -110,11 +669,18 @@ export function ToolApprovalSettingsDialog({
 
   const handleSave = async () => {
     setSaving(true);
+    setSaveError(null);
     try {
+      // Save the policy first so an invalid rule doesn't leave the settings half saved
+      await agentAPI.updateCommandPolicy(projectId, { rules: commandRules });
       await agentAPI.updateToolApprovalSettings(projectId, settings);
+      await agentAPI.updateVerificationSettings(projectId, verification);
+      await agentAPI.updateReviewerSettings(projectId, reviewer);
+      await agentAPI.updateModelRouting(projectId, routing);
       setOpen(false);
     } catch (err) {
       console.error("Failed to save tool approval settings:", err);
+      setSaveError(err instanceof Error ? err.message : "Failed to save settings");
     } finally {
       setSaving(false);
     }
@@ -138,7 +704,7 @@ export function ToolApprovalSettingsDialog({
     <>
       {triggerElement}
       <Dialog open={open} onOpenChange={setOpen}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Tool Approval Settings</DialogTitle>
           <DialogDescription>
@@ -186,9 +752,34 @@ export function ToolApprovalSettingsDialog({
                 </div>
               </div>
             ))}
+
+            <ProtectedPathsEditor
+              paths={settings.protectedPaths ?? DEFAULT_PROTECTED_PATHS}
+              onChange={(protectedPaths) => setSettings((prev) => ({ ...prev, protectedPaths }))}
+            />
+
+            <PathRulesEditor
+              rules={settings.pathRules ?? []}
+              onChange={(pathRules) => setSettings((prev) => ({ ...prev, pathRules }))}
+            />
+
+            <CommandPolicyEditor
+              projectId={projectId}
+              rules={commandRules}
+              onChange={setCommandRules}
+              fallbackRequiresApproval={settings.executeCommand ?? true}
+            />
+
+            <VerificationEditor settings={verification} onChange={setVerification} />
+
+            <ReviewerEditor settings={reviewer} providers={providers} onChange={setReviewer} />
+
+            <ModelRoutingEditor settings={routing} providers={providers} onChange={setRouting} />
           </div>
         )}
 
+        {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+
         <DialogFooter>
           <Button variant="outline" onClick={() => setOpen(false)}>
             Cancel
@@ -19,6 +19,8 @@ import {
   XCircle,
   Eye,
   EyeOff,
+  FileDiff,
+  AlertCircle,
 } from "lucide-react";
 
 export type FileChangeOperation = "create" | "modify" | "delete";
@@ -30,6 +32,13 @@ export interface FileChange {
   originalContent: string;
   newContent: string;
   status: "pending" | "approved" | "rejected";
+  // Changes from one multi-file action (e.g. a patch) are approved and rejected together
+  changeSet?: {
+    id: string;
+    label: string;
+    // Set when part of the change set cannot be applied
+    error?: string;
+  };
 }
 
 interface MultiFileDiffPreviewProps {
@@ -188,6 +197,82 @@ function FileChangeCard({
   );
 }
 
+/**
+ * Changes that are approved or rejected as one unit, shown under a shared header
+ */
+function ChangeSetGroup({
+  changeSet,
+  changes,
+  onApprove,
+  onReject,
+  isReadOnly,
+  defaultExpanded,
+  viewMode,
+}: {
+  changeSet: NonNullable<FileChange["changeSet"]>;
+  changes: FileChange[];
+  onApprove: () => void;
+  onReject: () => void;
+  isReadOnly?: boolean;
+  defaultExpanded: boolean;
+  viewMode: "unified" | "split";
+}) {
+  const status = changes[0]?.status ?? "pending";
+
+  return (
+    <div className="space-y-2 p-2 border rounded-lg">
+      <div className="flex items-center justify-between gap-2 px-1">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileDiff className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <span className="text-sm font-medium truncate" title={changeSet.label}>
+            {changeSet.label}
+          </span>
+          <Badge variant="secondary" className="text-xs">
+            {changes.length} file{changes.length !== 1 ? "s" : ""}
+          </Badge>
+        </div>
+        {status !== "pending" && (
+          <Badge variant="secondary" className={cn("text-xs", statusColors[status])}>
+            {status}
+          </Badge>
+        )}
+      </div>
+
+      {changeSet.error && (
+        <div className="flex items-start gap-2 p-2 text-xs bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 rounded">
+          <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          <pre className="whitespace-pre-wrap">{changeSet.error}</pre>
+        </div>
+      )}
+
+      {changes.map((change) => (
+        <FileChangeCard
+          key={change.id}
+          change={change}
+          onApprove={onApprove}
+          onReject={onReject}
+          isReadOnly
+          defaultExpanded={defaultExpanded}
+          viewMode={viewMode}
+        />
+      ))}
+
+      {!isReadOnly && status === "pending" && (
+        <div className="flex gap-2 px-1">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onReject}>
+            <X className="h-3 w-3 mr-1" />
+            Reject All Files
+          </Button>
+          <Button size="sm" className="h-7 text-xs" onClick={onApprove}>
+            <Check className="h-3 w-3 mr-1" />
+            Approve All Files
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Multi-file diff preview component
  * Displays all proposed file changes with unified diff views
@@ -233,6 +318,17 @@ export function MultiFileDiffPreview({
     ? changes
     : changes.filter((c) => c.status !== "rejected");
 
+  // Keep change sets together, in the position of their first file
+  const groups: Array<{ changeSet?: FileChange["changeSet"]; changes: FileChange[] }> = [];
+  for (const change of visibleChanges) {
+    const existing = change.changeSet && groups.find((g) => g.changeSet?.id === change.changeSet!.id);
+    if (existing) {
+      existing.changes.push(change);
+    } else {
+      groups.push({ changeSet: change.changeSet, changes: [change] });
+    }
+  }
+
   if (changes.length === 0) {
     return (
       <div className={cn("text-center text-muted-foreground p-4", className)}>
@@ -320,17 +416,30 @@ export function MultiFileDiffPreview({
 
       {/* File changes list */}
       <div className="space-y-3">
-        {visibleChanges.map((change) => (
-          <FileChangeCard
-            key={change.id}
-            change={change}
-            onApprove={() => onApprove(change.id)}
-            onReject={() => onReject(change.id)}
-            isReadOnly={isReadOnly}
-            defaultExpanded={expandAll}
-            viewMode={viewMode}
-          />
-        ))}
+        {groups.map(({ changeSet, changes: groupChanges }) =>
+          changeSet ? (
+            <ChangeSetGroup
+              key={changeSet.id}
+              changeSet={changeSet}
+              changes={groupChanges}
+              onApprove={() => onApprove(changeSet.id)}
+              onReject={() => onReject(changeSet.id)}
+              isReadOnly={isReadOnly}
+              defaultExpanded={expandAll}
+              viewMode={viewMode}
+            />
+          ) : (
+            <FileChangeCard
+              key={groupChanges[0]!.id}
+              change={groupChanges[0]!}
+              onApprove={() => onApprove(groupChanges[0]!.id)}
+              onReject={() => onReject(groupChanges[0]!.id)}
+              isReadOnly={isReadOnly}
+              defaultExpanded={expandAll}
+              viewMode={viewMode}
+            />
+          )
+        )}
       </div>
 
       {/* Batch actions footer */}
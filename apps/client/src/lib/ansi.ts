@@ -0,0 +1,110 @@
+/**
+ * ANSI escape code parsing for showing command output with its colors
+ */
+
+export interface AnsiStyle {
+  foreground?: string;
+  background?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// Standard and bright colors, readable on the terminal panel's dark background
+const COLORS = [
+  "#4b5563", "#f87171", "#4ade80", "#facc15", "#60a5fa", "#e879f9", "#22d3ee", "#e5e7eb",
+  "#9ca3af", "#fca5a5", "#86efac", "#fde047", "#93c5fd", "#f0abfc", "#67e8f9", "#ffffff",
+];
+
+// Any CSI sequence (colors, cursor movement, clearing) or OSC sequence such as a window title
+const ESCAPE_PATTERN = /\x1b\[([0-9;?]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+/**
+ * Color from the 256-color palette: the 16 standard colors, a 6x6x6 cube, then a grayscale ramp
+ */
+function color256(index: number): string | undefined {
+  if (index < 16) return COLORS[index];
+  if (index < 232) {
+    const value = index - 16;
+    const level = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+    return `rgb(${level(Math.floor(value / 36))}, ${level(Math.floor(value / 6) % 6)}, ${level(value % 6)})`;
+  }
+  if (index < 256) {
+    const gray = 8 + (index - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+  }
+  return undefined;
+}
+
+/**
+ * Apply SGR parameters (the numbers in "\x1b[...m") to a style, returning the new style
+ */
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+  const next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i]!;
+    if (code === 0) {
+      for (const key of Object.keys(next) as (keyof AnsiStyle)[]) delete next[key];
+    } else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code >= 30 && code <= 37) next.foreground = COLORS[code - 30];
+    else if (code === 39) delete next.foreground;
+    else if (code >= 40 && code <= 47) next.background = COLORS[code - 40];
+    else if (code === 49) delete next.background;
+    else if (code >= 90 && code <= 97) next.foreground = COLORS[code - 90 + 8];
+    else if (code >= 100 && code <= 107) next.background = COLORS[code - 100 + 8];
+    else if (code === 38 || code === 48) {
+      // Extended colors: 38;5;n (palette) or 38;2;r;g;b (true color)
+      let color: string | undefined;
+      if (params[i + 1] === 5) {
+        color = color256(params[i + 2] ?? 0);
+        i += 2;
+      } else if (params[i + 1] === 2) {
+        color = `rgb(${params[i + 2] ?? 0}, ${params[i + 3] ?? 0}, ${params[i + 4] ?? 0})`;
+        i += 4;
+      }
+      if (code === 38) next.foreground = color;
+      else next.background = color;
+    }
+  }
+  return next;
+}
+
+/**
+ * Split text into styled segments. Color and style codes are applied, every other escape
+ * sequence is dropped. Pass the style the previous text ended with to continue across chunks.
+ */
+export function parseAnsi(text: string, initialStyle: AnsiStyle = {}): { segments: AnsiSegment[]; style: AnsiStyle } {
+  const segments: AnsiSegment[] = [];
+  let style = initialStyle;
+  let lastIndex = 0;
+
+  const push = (segmentText: string) => {
+    // Carriage returns redraw progress lines in a terminal, show them as line breaks instead
+    const normalized = segmentText.replace(/\r\n?/g, "\n");
+    if (normalized) segments.push({ text: normalized, style });
+  };
+
+  for (const match of text.matchAll(ESCAPE_PATTERN)) {
+    push(text.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+    if (match[2] === "m") {
+      const params = match[1] ? match[1].split(";").map((param) => Number(param) || 0) : [0];
+      style = applySgr(style, params);
+    }
+  }
+  push(text.slice(lastIndex));
+
+  return { segments, style };
+}
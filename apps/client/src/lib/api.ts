@@ -12,6 +12,8 @@ export type {
   CreateProject,
   AIProvider,
   CreateAIProvider,
+  ModelPricing,
+  ModelPricingTable,
   ChatMessage,
   ToolCall,
   ToolResult,
@@ -53,7 +55,54 @@ export type {
   ExecutionHistoryItem,
   ExecutionHistoryDetail,
   ExecutionHistoryFilters,
+  ExecutionHistorySortKey,
   ExecutionHistoryStats,
+  ExecutionUsage,
+  ExecutionQueue,
+  ExecutionQueueEntry,
+  PatchPreview,
+  PatchFilePreview,
+  FileContent,
+  CommandPolicy,
+  CommandPolicyRule,
+  CommandPolicyDecision,
+  VerificationSettings,
+  VerificationRun,
+  ReviewerSettings,
+  AgentStepPhase,
+  ExecutionStepPhase,
+  ModelRoutingPhase,
+  ModelRoute,
+  ModelRoutingSettings,
+  ProviderFailover,
+  ExecutionStep,
+  ReviewVerdict,
+  ReviewIssueSeverity,
+  ReviewIssue,
+  ExecutionReview,
+  ExecutionMode,
+  ExecutionPlan,
+  PlanStep,
+  PlanStepStatus,
+  PlanReview,
+  PathApprovalRule,
+  PathBlockReason,
+  SandboxLimits,
+  NetworkAccess,
+  CommandOutputChunk,
+  AgentAuditEntry,
+  ExecutionCheckpoint,
+  RollbackResult,
+  ExecutionWorktree,
+  WorktreeStatus,
+  WorktreeAction,
+  WorktreeDiff,
+  AgentTranscriptMessage,
+  AutoApprovalPolicy,
+  AutopilotRun,
+  AutopilotRunStatus,
+  AutopilotTaskEvent,
+  AutopilotExecutionEvent,
   // GitHub integration types
   GitHubSyncDirection,
   GitHubIssueState,
@@ -68,7 +117,14 @@ export type {
   GitHubConnectionTestResult,
 } from "@open-dev/shared";
 
-export { DEFAULT_TOOL_APPROVAL_SETTINGS } from "@open-dev/shared";
+export {
+  DEFAULT_TOOL_APPROVAL_SETTINGS,
+  DEFAULT_AUTO_APPROVAL_POLICY,
+  DEFAULT_PROTECTED_PATHS,
+  DEFAULT_VERIFICATION_SETTINGS,
+  DEFAULT_REVIEWER_SETTINGS,
+  DEFAULT_MODEL_ROUTING_SETTINGS,
+} from "@open-dev/shared";
 
 import type {
   Task,
@@ -96,6 +152,25 @@ import type {
   ExecutionHistoryDetail,
   ExecutionHistoryFilters,
   ExecutionHistoryStats,
+  ExecutionQueue,
+  PatchPreview,
+  FileContent,
+  CommandPolicy,
+  CommandPolicyRule,
+  CommandPolicyDecision,
+  VerificationSettings,
+  ReviewerSettings,
+  ModelRoutingSettings,
+  ExecutionMode,
+  PlanReview,
+  SandboxLimits,
+  RollbackResult,
+  WorktreeStatus,
+  WorktreeAction,
+  WorktreeDiff,
+  AgentTranscriptMessage,
+  AutoApprovalPolicy,
+  AutopilotRun,
   GitHubIntegration,
   CreateGitHubIntegration,
   UpdateGitHubIntegration,
@@ -190,6 +265,10 @@ export const aiProvidersAPI = {
     method: "POST",
     body: JSON.stringify({ baseUrl, apiKey }),
   }),
+  // Test a saved provider with its stored API key
+  testSaved: (id: string) => fetchAPI<TestProviderResult>(`/ai-providers/${id}/test`, {
+    method: "POST",
+  }),
 };
 
 // Chat
@@ -242,13 +321,15 @@ export const agentAPI = {
     return eventSource;
   },
 
-  // Start execution with fetch (for POST)
-  startExecutionFetch: async (projectId: string, taskId: string): Promise<Response> => {
+  // Start execution with fetch (for POST), plan_first mode waits for an approved plan before any change
+  startExecutionFetch: async (projectId: string, taskId: string, mode: ExecutionMode = "default"): Promise<Response> => {
     const response = await fetch(
       `${API_BASE}/projects/${projectId}/tasks/${taskId}/agent/start`,
       {
         method: "POST",
         credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode }),
       }
     );
     return response;
@@ -260,6 +341,16 @@ export const agentAPI = {
       `/agent/executions/${executionId}`
     ),
 
+  // Get the most recent execution for a task, or null if the agent never ran on it
+  getLatestExecution: (projectId: string, taskId: string) =>
+    fetchAPI<{ execution: AgentExecution; actions: AgentAction[] } | null>(
+      `/projects/${projectId}/tasks/${taskId}/agent/latest`
+    ),
+
+  // Running and queued executions of a project
+  getQueue: (projectId: string) =>
+    fetchAPI<ExecutionQueue>(`/projects/${projectId}/queue`),
+
   // Approve or reject actions
   updateActionStatus: (executionId: string, actionIds: string[], status: "approved" | "rejected") =>
     fetchAPI<{ success: boolean }>(`/agent/executions/${executionId}/approve`, {
@@ -285,6 +376,26 @@ export const agentAPI = {
       method: "POST",
     }),
 
+  // Get the diff of an execution's worktree branch against its base
+  getWorktreeDiff: (executionId: string) =>
+    fetchAPI<WorktreeDiff>(`/agent/executions/${executionId}/worktree/diff`),
+
+  // Merge, keep or discard an execution's worktree branch
+  resolveWorktree: (executionId: string, action: WorktreeAction) =>
+    fetchAPI<{ success: boolean; worktreeStatus: WorktreeStatus }>(
+      `/agent/executions/${executionId}/worktree`,
+      {
+        method: "POST",
+        body: JSON.stringify({ action }),
+      }
+    ),
+
+  // Roll back the working directory to the execution's checkpoint
+  rollback: (executionId: string) =>
+    fetchAPI<RollbackResult>(`/agent/executions/${executionId}/rollback`, {
+      method: "POST",
+    }),
+
   // Get tool approval settings
   getToolApprovalSettings: (projectId: string) =>
     fetchAPI<ToolApprovalSettings>(`/projects/${projectId}/tool-approval-settings`),
@@ -296,22 +407,105 @@ export const agentAPI = {
       body: JSON.stringify(settings),
     }),
 
+  // Get the project's ordered command rules
+  getCommandPolicy: (projectId: string) =>
+    fetchAPI<CommandPolicy>(`/projects/${projectId}/command-policy`),
+
+  // Replace the project's command rules
+  updateCommandPolicy: (projectId: string, policy: CommandPolicy) =>
+    fetchAPI<{ success: boolean }>(`/projects/${projectId}/command-policy`, {
+      method: "POST",
+      body: JSON.stringify(policy),
+    }),
+
+  // Show what the given rules (or the saved ones if omitted) decide for a command
+  testCommandPolicy: (projectId: string, command: string, rules?: CommandPolicyRule[]) =>
+    fetchAPI<CommandPolicyDecision>(`/projects/${projectId}/command-policy/test`, {
+      method: "POST",
+      body: JSON.stringify({ command, rules }),
+    }),
+
+  // Get the commands run when the agent completes a task
+  getVerificationSettings: (projectId: string) =>
+    fetchAPI<VerificationSettings>(`/projects/${projectId}/verification-settings`),
+
+  // Update the verification commands and retry count, omitted fields keep their current value
+  updateVerificationSettings: (projectId: string, settings: Partial<VerificationSettings>) =>
+    fetchAPI<{ success: boolean; settings: VerificationSettings }>(`/projects/${projectId}/verification-settings`, {
+      method: "POST",
+      body: JSON.stringify(settings),
+    }),
+
+  // Get the reviewer pass run when the agent completes a task
+  getReviewerSettings: (projectId: string) =>
+    fetchAPI<ReviewerSettings>(`/projects/${projectId}/reviewer-settings`),
+
+  // Update the reviewer pass, omitted fields keep their current value
+  updateReviewerSettings: (projectId: string, settings: Partial<ReviewerSettings>) =>
+    fetchAPI<{ success: boolean; settings: ReviewerSettings }>(`/projects/${projectId}/reviewer-settings`, {
+      method: "POST",
+      body: JSON.stringify(settings),
+    }),
+
+  // Get which provider and model each phase of the project's model calls is routed to
+  getModelRouting: (projectId: string) =>
+    fetchAPI<ModelRoutingSettings>(`/projects/${projectId}/model-routing`),
+
+  // Route phases to a provider and model, null puts a phase back on the project's providers
+  updateModelRouting: (projectId: string, settings: Partial<ModelRoutingSettings>) =>
+    fetchAPI<{ success: boolean; settings: ModelRoutingSettings }>(`/projects/${projectId}/model-routing`, {
+      method: "POST",
+      body: JSON.stringify(settings),
+    }),
+
+  // Get the project's sandbox limits, with defaults for unset fields
+  getSandboxLimits: (projectId: string) =>
+    fetchAPI<SandboxLimits>(`/projects/${projectId}/sandbox-limits`),
+
+  // Update sandbox limits, omitted fields keep their current value
+  updateSandboxLimits: (projectId: string, limits: Partial<SandboxLimits>) =>
+    fetchAPI<{ success: boolean; limits: SandboxLimits }>(`/projects/${projectId}/sandbox-limits`, {
+      method: "POST",
+      body: JSON.stringify(limits),
+    }),
+
   // Read single file content for diff preview
-  readFileContent: (projectId: string, filePath: string) =>
-    fetchAPI<{ content: string; exists: boolean }>(
-      `/projects/${projectId}/file-content?path=${encodeURIComponent(filePath)}`
-    ),
+  // Pass startLine/endLine (1-based, inclusive) to read only part of a large file
+  readFileContent: (
+    projectId: string,
+    filePath: string,
+    executionId?: string,
+    range?: { startLine?: number; endLine?: number }
+  ) => {
+    const params = new URLSearchParams({ path: filePath });
+    if (executionId) params.set("executionId", executionId);
+    if (range?.startLine) params.set("startLine", String(range.startLine));
+    if (range?.endLine) params.set("endLine", String(range.endLine));
+    return fetchAPI<FileContent>(`/projects/${projectId}/file-content?${params}`);
+  },
 
   // Read multiple file contents for diff preview (batch)
-  readFileContents: (projectId: string, paths: string[]) =>
-    fetchAPI<Record<string, { content: string; exists: boolean }>>(
+  readFileContents: (
+    projectId: string,
+    paths: string[],
+    executionId?: string,
+    ranges?: Record<string, { startLine?: number; endLine?: number }>
+  ) =>
+    fetchAPI<Record<string, FileContent>>(
       `/projects/${projectId}/file-contents`,
       {
         method: "POST",
-        body: JSON.stringify({ paths }),
+        body: JSON.stringify({ paths, executionId, ranges }),
       }
     ),
 
+  // Work out what a proposed applyPatch action would change, file by file
+  previewPatch: (projectId: string, patch: string, executionId?: string) =>
+    fetchAPI<PatchPreview>(`/projects/${projectId}/patch-preview`, {
+      method: "POST",
+      body: JSON.stringify({ patch, executionId }),
+    }),
+
   // Get pending questions for an execution
   getPendingQuestions: (executionId: string) =>
     fetchAPI<Array<{ id: string; question: string; context: string | null; status: string }>>(
@@ -328,6 +522,20 @@ export const agentAPI = {
       }
     ),
 
+  // Approve the plan (with edited steps) or send it back with feedback - returns fetch response for SSE
+  reviewPlanFetch: async (executionId: string, review: PlanReview): Promise<Response> => {
+    const response = await fetch(
+      `${API_BASE}/agent/executions/${executionId}/plan`,
+      {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(review),
+      }
+    );
+    return response;
+  },
+
   // Resume execution after answering questions - returns fetch response for SSE
   resumeExecution: async (executionId: string): Promise<Response> => {
     const response = await fetch(
@@ -339,6 +547,22 @@ export const agentAPI = {
     );
     return response;
   },
+
+  // Retry a failed or cancelled execution from its stored transcript - returns fetch response for SSE
+  retryExecution: async (executionId: string): Promise<Response> => {
+    const response = await fetch(
+      `${API_BASE}/agent/executions/${executionId}/retry`,
+      {
+        method: "POST",
+        credentials: "include",
+      }
+    );
+    return response;
+  },
+
+  // Get the stored model transcript of an execution
+  getTranscript: (executionId: string) =>
+    fetchAPI<AgentTranscriptMessage[]>(`/agent/executions/${executionId}/messages`),
 };
 
 // Helper to parse agent action
@@ -419,6 +643,12 @@ export const executionHistoryAPI = {
     if (filters?.status) params.set("status", filters.status);
     if (filters?.limit) params.set("limit", filters.limit.toString());
     if (filters?.offset) params.set("offset", filters.offset.toString());
+    if (filters?.sortBy) params.set("sortBy", filters.sortBy);
+    if (filters?.sortOrder) params.set("sortOrder", filters.sortOrder);
+    if (filters?.minTokens) params.set("minTokens", filters.minTokens.toString());
+    if (filters?.minSteps) params.set("minSteps", filters.minSteps.toString());
+    if (filters?.minCommands) params.set("minCommands", filters.minCommands.toString());
+    if (filters?.minDurationSeconds) params.set("minDurationSeconds", filters.minDurationSeconds.toString());
     const queryString = params.toString();
     return fetchAPI<ExecutionHistoryItem[]>(
       `/projects/${projectId}/executions${queryString ? `?${queryString}` : ""}`
@@ -434,6 +664,49 @@ export const executionHistoryAPI = {
     fetchAPI<ExecutionHistoryStats>(`/projects/${projectId}/executions/stats`),
 };
 
+// Autopilot API
+export const autopilotAPI = {
+  // Get the project's auto-approval policy for unattended runs
+  getPolicy: (projectId: string) =>
+    fetchAPI<AutoApprovalPolicy>(`/projects/${projectId}/auto-approval-policy`),
+
+  // Update the project's auto-approval policy
+  updatePolicy: (projectId: string, policy: AutoApprovalPolicy) =>
+    fetchAPI<{ success: boolean }>(`/projects/${projectId}/auto-approval-policy`, {
+      method: "POST",
+      body: JSON.stringify(policy),
+    }),
+
+  // List recent runs for a project, newest first
+  listRuns: (projectId: string) =>
+    fetchAPI<AutopilotRun[]>(`/projects/${projectId}/autopilot/runs`),
+
+  // Start a run over every unfinished task, or only the given ones
+  start: (projectId: string, taskIds?: string[]) =>
+    fetchAPI<AutopilotRun>(`/projects/${projectId}/autopilot/runs`, {
+      method: "POST",
+      body: JSON.stringify({ taskIds }),
+    }),
+
+  // Stream run progress - returns fetch response for SSE
+  streamEvents: async (runId: string): Promise<Response> => {
+    const response = await fetch(`${API_BASE}/autopilot/runs/${runId}/events`, {
+      credentials: "include",
+    });
+    return response;
+  },
+
+  resume: (runId: string) =>
+    fetchAPI<AutopilotRun>(`/autopilot/runs/${runId}/resume`, {
+      method: "POST",
+    }),
+
+  cancel: (runId: string) =>
+    fetchAPI<AutopilotRun>(`/autopilot/runs/${runId}/cancel`, {
+      method: "POST",
+    }),
+};
+
 // GitHub Integration API
 export const githubAPI = {
   // Get integration configuration
@@ -1,16 +1,24 @@
 import { useState, useEffect } from "react";
 import { Link, useNavigate } from "@tanstack/react-router";
 import { useSession, signOut } from "../lib/auth-client";
-import { projectsAPI, aiProvidersAPI, type Project, type AIProvider } from "../lib/api";
+import {
+  projectsAPI,
+  aiProvidersAPI,
+  type Project,
+  type AIProvider,
+  type ModelPricing,
+  type ModelPricingTable,
+} from "../lib/api";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { Textarea } from "../components/ui/textarea";
 import { Select } from "../components/ui/select";
+import { Switch } from "../components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "../components/ui/dialog";
 import { Badge } from "../components/ui/badge";
-import { Plus, LogOut, FolderKanban, Bot, Pencil, Trash2, RefreshCw, Palette } from "lucide-react";
+import { Plus, LogOut, FolderKanban, Bot, Pencil, Trash2, RefreshCw, Palette, X } from "lucide-react";
 import { ThemeSwitcher } from "../components/theme-switcher";
 
 export function DashboardPage() {
@@ -718,6 +726,98 @@ function NewProviderDialog({
   );
 }
 
+type PricingRow = { model: string } & ModelPricing;
+
+function parsePricing(pricing: string | null): PricingRow[] {
+  try {
+    const table = JSON.parse(pricing ?? "{}") as ModelPricingTable;
+    return Object.entries(table).map(([model, prices]) => ({ model, ...prices }));
+  } catch {
+    return [];
+  }
+}
+
+const PRICE_FIELDS: { key: keyof ModelPricing; label: string }[] = [
+  { key: "inputPerMillion", label: "Input" },
+  { key: "cachedInputPerMillion", label: "Cached" },
+  { key: "outputPerMillion", label: "Output" },
+];
+
+// USD per million tokens for each model of the provider, used to track what executions cost
+function PricingEditor({
+  rows,
+  defaultModel,
+  onChange,
+}: {
+  rows: PricingRow[];
+  defaultModel: string;
+  onChange: (rows: PricingRow[]) => void;
+}) {
+  const updateRow = (index: number, changes: Partial<PricingRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const addRow = () => {
+    const model = rows.some((row) => row.model === defaultModel) ? "" : defaultModel;
+    onChange([...rows, { model, inputPerMillion: 0, cachedInputPerMillion: 0, outputPerMillion: 0 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <Label>Pricing</Label>
+          <p className="text-xs text-muted-foreground">
+            USD per million tokens. Steps of models without a price don't count towards cost limits.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={addRow}>
+          <Plus className="h-3 w-3 mr-1" />
+          Model
+        </Button>
+      </div>
+      {rows.length > 0 && (
+        <div className="grid grid-cols-[1fr_4.5rem_4.5rem_4.5rem_auto] gap-1 text-xs text-muted-foreground">
+          <span>Model</span>
+          {PRICE_FIELDS.map((field) => (
+            <span key={field.key}>{field.label}</span>
+          ))}
+          <span />
+        </div>
+      )}
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_4.5rem_4.5rem_4.5rem_auto] gap-1">
+          <Input
+            value={row.model}
+            placeholder="Model name"
+            className="h-8 text-xs"
+            onChange={(e) => updateRow(index, { model: e.target.value })}
+          />
+          {PRICE_FIELDS.map((field) => (
+            <Input
+              key={field.key}
+              type="number"
+              min={0}
+              step={0.01}
+              value={row[field.key]}
+              className="h-8 text-xs"
+              onChange={(e) => updateRow(index, { [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function EditProviderDialog({
   provider,
   onClose,
@@ -731,6 +831,9 @@ function EditProviderDialog({
   const [baseUrl, setBaseUrl] = useState("");
   const [apiKey, setApiKey] = useState("");
   const [model, setModel] = useState("");
+  const [streaming, setStreaming] = useState(true);
+  const [maxConcurrentExecutions, setMaxConcurrentExecutions] = useState(1);
+  const [pricing, setPricing] = useState<PricingRow[]>([]);
   const [models, setModels] = useState<{ id: string; name?: string }[]>([]);
   const [connectionTested, setConnectionTested] = useState(false);
   const [testing, setTesting] = useState(false);
@@ -744,6 +847,9 @@ function EditProviderDialog({
       setName(provider.name);
       setBaseUrl(provider.baseUrl);
       setModel(provider.model);
+      setStreaming(provider.streaming !== false);
+      setMaxConcurrentExecutions(provider.maxConcurrentExecutions ?? 1);
+      setPricing(parsePricing(provider.pricing));
       setApiKey("");
       setConnectionTested(true); // Assume existing provider is valid
       setModels([{ id: provider.model, name: provider.model }]);
@@ -803,10 +909,25 @@ function EditProviderDialog({
     setLoading(true);
 
     try {
-      const updateData: { name?: string; baseUrl?: string; apiKey?: string; model?: string } = {
+      const updateData: {
+        name?: string;
+        baseUrl?: string;
+        apiKey?: string;
+        model?: string;
+        streaming?: boolean;
+        maxConcurrentExecutions?: number;
+        pricing?: ModelPricingTable;
+      } = {
         name,
         baseUrl,
         model,
+        streaming,
+        maxConcurrentExecutions,
+        pricing: Object.fromEntries(
+          pricing
+            .filter((row) => row.model.trim())
+            .map(({ model: pricedModel, ...prices }) => [pricedModel.trim(), prices])
+        ),
       };
       if (apiKey) {
         updateData.apiKey = apiKey;
@@ -918,6 +1039,37 @@ function EditProviderDialog({
               )}
             </div>
           )}
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="edit-streaming">Stream agent output</Label>
+              <p className="text-xs text-muted-foreground">
+                Turn off for servers (such as some LM Studio builds) that break on streaming tool calls.
+              </p>
+            </div>
+            <Switch
+              id="edit-streaming"
+              checked={streaming}
+              onCheckedChange={setStreaming}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="edit-max-concurrent">Concurrent executions</Label>
+              <p className="text-xs text-muted-foreground">
+                How many agent executions may use this provider at once, across all projects.
+              </p>
+            </div>
+            <Input
+              id="edit-max-concurrent"
+              type="number"
+              min={1}
+              max={10}
+              className="w-20"
+              value={maxConcurrentExecutions}
+              onChange={(e) => setMaxConcurrentExecutions(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            />
+          </div>
+          <PricingEditor rows={pricing} defaultModel={model} onChange={setPricing} />
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
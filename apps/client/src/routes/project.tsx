@@ -10,20 +10,22 @@ import {
   type TaskStatus,
   type AIProvider,
   type CreateTask,
+  type TestProviderResult,
 } from "../lib/api";
 import { useChat } from "@ai-sdk/react";
 import { DefaultChatTransport } from "ai";
 import { KanbanBoard } from "../components/kanban/kanban-board";
 import { TaskForm } from "../components/kanban/task-form";
 import { ChatPanel } from "../components/chat/chat-panel";
-import { AgentPanel, WorkingDirectorySetup, ExecutionHistoryPanel, ExecutionDetailView } from "../components/agent";
+import { AgentPanel, WorkingDirectorySetup, ExecutionHistoryPanel, ExecutionDetailView, AutopilotPanel } from "../components/agent";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { Textarea } from "../components/ui/textarea";
 import { Select } from "../components/ui/select";
+import { Switch } from "../components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "../components/ui/dialog";
-import { ArrowLeft, Settings, MessageSquare, Kanban, Sparkles, Loader2, Bot, History } from "lucide-react";
+import { ArrowLeft, Settings, MessageSquare, Kanban, Sparkles, Loader2, Bot, History, Rocket, ArrowUp, ArrowDown, X, RefreshCw } from "lucide-react";
 
 export function ProjectPage() {
   const { projectId } = useParams({ from: "/project/$projectId" });
@@ -53,6 +55,9 @@ export function ProjectPage() {
   const [showHistoryPanel, setShowHistoryPanel] = useState(false);
   const [selectedExecutionId, setSelectedExecutionId] = useState<string | null>(null);
 
+  // Autopilot state
+  const [showAutopilotPanel, setShowAutopilotPanel] = useState(false);
+
   useEffect(() => {
     if (!isPending && !session) {
       navigate({ to: "/login" });
@@ -213,6 +218,7 @@ export function ProjectPage() {
               size="sm"
               onClick={() => {
                 setShowHistoryPanel(true);
+                setShowAutopilotPanel(false);
                 setSelectedExecutionId(null);
               }}
               title="Execution History"
@@ -220,6 +226,20 @@ export function ProjectPage() {
               <History className="h-4 w-4 mr-2" />
               History
             </Button>
+            {project.aiProviderId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setShowAutopilotPanel(true);
+                  setShowHistoryPanel(false);
+                }}
+                title="Run tasks unattended"
+              >
+                <Rocket className="h-4 w-4 mr-2" />
+                Autopilot
+              </Button>
+            )}
             <Button variant="outline" size="icon" onClick={() => setShowSettings(true)}>
               <Settings className="h-4 w-4" />
             </Button>
@@ -285,6 +305,18 @@ export function ProjectPage() {
             )}
           </div>
         )}
+
+        {/* Autopilot Panel */}
+        {showAutopilotPanel && project && (
+          <div className="fixed right-0 top-[57px] bottom-0 w-96 border-l bg-background overflow-hidden">
+            <AutopilotPanel
+              projectId={project.id}
+              tasks={tasks}
+              onTasksChanged={loadTasks}
+              onClose={() => setShowAutopilotPanel(false)}
+            />
+          </div>
+        )}
       </main>
 
       {/* Task Form Dialog */}
@@ -354,6 +386,169 @@ export function ProjectPage() {
   );
 }
 
+function parseFallbackProviderIds(fallbackAiProviderIds: string | null): string[] {
+  try {
+    const ids = fallbackAiProviderIds ? JSON.parse(fallbackAiProviderIds) : [];
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+}
+
+type ProviderHealth = "checking" | TestProviderResult;
+
+function ProviderHealthDot({ health }: { health?: ProviderHealth }) {
+  if (health === "checking") {
+    return <Loader2 className="h-3 w-3 animate-spin text-muted-foreground flex-shrink-0" />;
+  }
+  const color = !health ? "bg-muted-foreground/40" : health.success ? "bg-green-500" : "bg-red-500";
+  const title = !health ? "Not checked" : health.success ? "Reachable" : health.error || "Unreachable";
+  return <span className={`h-2 w-2 rounded-full flex-shrink-0 ${color}`} title={title} />;
+}
+
+// The project's provider followed by the fallbacks tried in order when it is down or misbehaves,
+// each with the result of a connection test
+function ProviderChainEditor({
+  providers,
+  primaryId,
+  fallbackIds,
+  onPrimaryChange,
+  onFallbacksChange,
+  open,
+}: {
+  providers: AIProvider[];
+  primaryId: string;
+  fallbackIds: string[];
+  onPrimaryChange: (id: string) => void;
+  onFallbacksChange: (ids: string[]) => void;
+  open: boolean;
+}) {
+  const [health, setHealth] = useState<Record<string, ProviderHealth>>({});
+  const chainIds = [primaryId, ...fallbackIds].filter(Boolean);
+
+  const checkHealth = (ids: string[]) => {
+    for (const id of ids) {
+      setHealth((prev) => ({ ...prev, [id]: "checking" }));
+      aiProvidersAPI
+        .testSaved(id)
+        .catch((err) => ({ success: false, error: err instanceof Error ? err.message : "Connection failed" }))
+        .then((result) => setHealth((prev) => ({ ...prev, [id]: result })));
+    }
+  };
+
+  // Check the chain each time the dialog opens, added providers are checked as they are added
+  useEffect(() => {
+    if (open) checkHealth(chainIds);
+  }, [open]);
+
+  const selectPrimary = (id: string) => {
+    onPrimaryChange(id);
+    onFallbacksChange(fallbackIds.filter((fallbackId) => fallbackId !== id));
+    if (id && !health[id]) checkHealth([id]);
+  };
+
+  const addFallback = (id: string) => {
+    if (!id) return;
+    onFallbacksChange([...fallbackIds, id]);
+    if (!health[id]) checkHealth([id]);
+  };
+
+  const moveFallback = (index: number, direction: -1 | 1) => {
+    const next = [...fallbackIds];
+    const [id] = next.splice(index, 1);
+    next.splice(index + direction, 0, id!);
+    onFallbacksChange(next);
+  };
+
+  const providerName = (id: string) => providers.find((provider) => provider.id === id)?.name ?? "Deleted provider";
+  const available = providers.filter((provider) => !chainIds.includes(provider.id));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="settings-provider">AI Provider</Label>
+        {chainIds.length > 0 && (
+          <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => checkHealth(chainIds)}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Check
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <Select
+            id="settings-provider"
+            value={primaryId}
+            onChange={(e) => selectPrimary(e.target.value)}
+            options={[
+              { value: "", label: "None" },
+              ...providers.map((p) => ({ value: p.id, label: p.name })),
+            ]}
+          />
+        </div>
+        {primaryId && <ProviderHealthDot health={health[primaryId]} />}
+      </div>
+      {primaryId && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Fallbacks, tried in order when a provider can't be reached, returns a server error, times out or
+            returns an empty response.
+          </p>
+          {fallbackIds.map((id, index) => (
+            <div key={id} className="flex items-center gap-2 rounded-md bg-muted/50 px-2 py-1 text-sm">
+              <span className="text-xs text-muted-foreground w-4">{index + 2}.</span>
+              <ProviderHealthDot health={health[id]} />
+              <span className="flex-1 truncate">{providerName(id)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => moveFallback(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => moveFallback(index, 1)}
+                disabled={index === fallbackIds.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onFallbacksChange(fallbackIds.filter((fallbackId) => fallbackId !== id))}
+                title="Remove"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {available.length > 0 && (
+            <Select
+              value=""
+              onChange={(e) => addFallback(e.target.value)}
+              options={[
+                { value: "", label: "Add a fallback provider..." },
+                ...available.map((p) => ({ value: p.id, label: p.name })),
+              ]}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ProjectSettingsDialog({
   open,
   onClose,
@@ -366,13 +561,16 @@ function ProjectSettingsDialog({
   onClose: () => void;
   project: Project;
   providers: AIProvider[];
-  onSave: (data: { name?: string; description?: string; guidelines?: string; aiProviderId?: string }) => Promise<void>;
+  onSave: (data: { name?: string; description?: string; guidelines?: string; aiProviderId?: string; fallbackAiProviderIds?: string[]; useWorktrees?: boolean; maxConcurrentExecutions?: number }) => Promise<void>;
   onDelete: () => Promise<void>;
 }) {
   const [name, setName] = useState(project.name);
   const [description, setDescription] = useState(project.description || "");
   const [guidelines, setGuidelines] = useState(project.guidelines || "");
   const [aiProviderId, setAiProviderId] = useState(project.aiProviderId || "");
+  const [fallbackAiProviderIds, setFallbackAiProviderIds] = useState(parseFallbackProviderIds(project.fallbackAiProviderIds));
+  const [useWorktrees, setUseWorktrees] = useState(!!project.useWorktrees);
+  const [maxConcurrentExecutions, setMaxConcurrentExecutions] = useState(project.maxConcurrentExecutions ?? 1);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -383,6 +581,9 @@ function ProjectSettingsDialog({
     setDescription(project.description || "");
     setGuidelines(project.guidelines || "");
     setAiProviderId(project.aiProviderId || "");
+    setFallbackAiProviderIds(parseFallbackProviderIds(project.fallbackAiProviderIds));
+    setUseWorktrees(!!project.useWorktrees);
+    setMaxConcurrentExecutions(project.maxConcurrentExecutions ?? 1);
   }, [project, open]);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -396,6 +597,9 @@ function ProjectSettingsDialog({
         description: description || undefined,
         guidelines: guidelines || undefined,
         aiProviderId: aiProviderId || undefined,
+        fallbackAiProviderIds: aiProviderId ? fallbackAiProviderIds : [],
+        useWorktrees,
+        maxConcurrentExecutions,
       });
       onClose();
     } catch (err) {
@@ -435,18 +639,14 @@ function ProjectSettingsDialog({
               rows={2}
             />
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="settings-provider">AI Provider</Label>
-            <Select
-              id="settings-provider"
-              value={aiProviderId}
-              onChange={(e) => setAiProviderId(e.target.value)}
-              options={[
-                { value: "", label: "None" },
-                ...providers.map((p) => ({ value: p.id, label: p.name })),
-              ]}
-            />
-          </div>
+          <ProviderChainEditor
+            providers={providers}
+            primaryId={aiProviderId}
+            fallbackIds={fallbackAiProviderIds}
+            onPrimaryChange={setAiProviderId}
+            onFallbacksChange={setFallbackAiProviderIds}
+            open={open}
+          />
           <div className="space-y-2">
             <Label htmlFor="settings-guidelines">AI Guidelines</Label>
             <Textarea
@@ -460,6 +660,36 @@ function ProjectSettingsDialog({
               These guidelines will be included in the AI's system prompt to guide its behavior.
             </p>
           </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="settings-worktrees">Isolate agent executions</Label>
+              <p className="text-xs text-muted-foreground">
+                Run each execution in its own git worktree on an open-dev/* branch instead of the working directory.
+              </p>
+            </div>
+            <Switch
+              id="settings-worktrees"
+              checked={useWorktrees}
+              onCheckedChange={setUseWorktrees}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="settings-max-concurrent">Concurrent executions</Label>
+              <p className="text-xs text-muted-foreground">
+                How many agent executions may run at once. Further executions wait in a queue.
+              </p>
+            </div>
+            <Input
+              id="settings-max-concurrent"
+              type="number"
+              min={1}
+              max={10}
+              className="w-20"
+              value={maxConcurrentExecutions}
+              onChange={(e) => setMaxConcurrentExecutions(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            />
+          </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for git checkpoints of a working directory inside a larger repository
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync, realpathSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { createCheckpoint, restoreCheckpoint } from "../services/checkpoints";
+
+let repository: string;
+let workingDirectory: string;
+
+const read = (relativePath: string) => readFileSync(path.join(repository, relativePath), "utf-8");
+
+beforeAll(async () => {
+  repository = realpathSync(mkdtempSync(path.join(tmpdir(), "checkpoints-")));
+  workingDirectory = path.join(repository, "apps/web");
+  mkdirSync(workingDirectory, { recursive: true });
+  mkdirSync(path.join(repository, "apps/api"), { recursive: true });
+  writeFileSync(path.join(workingDirectory, "index.ts"), "original web\n");
+  writeFileSync(path.join(repository, "apps/api/index.ts"), "original api\n");
+  await Bun.$`git init -q && git add -A`.cwd(repository);
+});
+
+afterAll(() => {
+  rmSync(repository, { recursive: true, force: true });
+});
+
+describe("git checkpoints", () => {
+  test("restore the working directory and leave the rest of the repository alone", async () => {
+    const checkpoint = await createCheckpoint(workingDirectory);
+    expect(checkpoint.kind).toBe("git");
+
+    writeFileSync(path.join(workingDirectory, "index.ts"), "changed web\n");
+    writeFileSync(path.join(workingDirectory, "new.ts"), "created\n");
+    writeFileSync(path.join(repository, "apps/api/index.ts"), "changed api\n");
+    writeFileSync(path.join(repository, "apps/api/new.ts"), "created\n");
+
+    const result = await restoreCheckpoint(workingDirectory, checkpoint);
+
+    expect(result).toEqual({ restoredFiles: 1, removedFiles: ["apps/web/new.ts"] });
+    expect(read("apps/web/index.ts")).toBe("original web\n");
+    expect(existsSync(path.join(workingDirectory, "new.ts"))).toBe(false);
+    expect(read("apps/api/index.ts")).toBe("changed api\n");
+    expect(read("apps/api/new.ts")).toBe("created\n");
+  });
+
+  test("leave the user's staging area untouched", async () => {
+    const checkpoint = await createCheckpoint(workingDirectory);
+    writeFileSync(path.join(workingDirectory, "index.ts"), "changed again\n");
+    const staged = await Bun.$`git diff --cached --name-only`.cwd(repository).text();
+
+    await restoreCheckpoint(workingDirectory, checkpoint);
+
+    expect(await Bun.$`git diff --cached --name-only`.cwd(repository).text()).toBe(staged);
+  });
+
+  test("roll back gitignored files too", async () => {
+    writeFileSync(path.join(workingDirectory, ".gitignore"), "dist/\n.env\n");
+    writeFileSync(path.join(workingDirectory, ".env"), "TOKEN=original\n");
+    mkdirSync(path.join(workingDirectory, "dist"), { recursive: true });
+    writeFileSync(path.join(workingDirectory, "dist/app.js"), "original build\n");
+    const checkpoint = await createCheckpoint(workingDirectory);
+
+    writeFileSync(path.join(workingDirectory, ".env"), "TOKEN=changed\n");
+    rmSync(path.join(workingDirectory, "dist/app.js"));
+    writeFileSync(path.join(workingDirectory, "dist/chunk.js"), "new build\n");
+
+    const result = await restoreCheckpoint(workingDirectory, checkpoint);
+
+    expect(result.removedFiles).toEqual(["apps/web/dist/chunk.js"]);
+    expect(read("apps/web/.env")).toBe("TOKEN=original\n");
+    expect(read("apps/web/dist/app.js")).toBe("original build\n");
+    expect(existsSync(path.join(workingDirectory, "dist/chunk.js"))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for what the reviewer pass reads and what it hands back to the agent
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  formatChangesForReview,
+  createExecutionReview,
+  formatReviewForAgent,
+  type ReviewableAction,
+} from "../ai/code-review";
+
+const action = (
+  sequence: number,
+  actionType: ReviewableAction["actionType"],
+  params: object,
+  status: ReviewableAction["status"] = "completed"
+): ReviewableAction => ({ sequence, actionType, actionParams: JSON.stringify(params), status });
+
+describe("formatChangesForReview", () => {
+  test("lists file changes in order with numbered lines for writes", () => {
+    const text = formatChangesForReview([
+      action(3, "deleteFile", { path: "old.ts" }, "proposed"),
+      action(1, "writeFile", { path: "health.ts", content: "export const ok = true;\nexport default ok;" }),
+      action(2, "editFile", { path: "index.ts", search: "a", replace: "b" }),
+    ]);
+
+    expect(text.indexOf("### Write health.ts")).toBeLessThan(text.indexOf("### Edit index.ts"));
+    expect(text).toContain("1: export const ok = true;\n2: export default ok;");
+    expect(text).toContain("Replace:\na\nWith:\nb");
+    expect(text).toContain("### Delete old.ts (proposed)");
+  });
+
+  test("leaves out reads, commands and changes that never happened", () => {
+    expect(
+      formatChangesForReview([
+        action(1, "readFile", { path: "a.ts" }),
+        action(2, "executeCommand", { command: "bun test", description: "Run tests" }),
+        action(3, "writeFile", { path: "b.ts", content: "x" }, "rejected"),
+        action(4, "applyPatch", { patch: "--- a\n+++ b", description: "Broken" }, "failed"),
+      ])
+    ).toBe("");
+  });
+});
+
+describe("createExecutionReview", () => {
+  test("fills in missing lines and trims the text", () => {
+    const review = createExecutionReview("exec-1", 2, "provider-1", {
+      verdict: "request_changes",
+      summary: "  Missing a test  ",
+      issues: [
+        { file: "health.ts", line: 4, severity: "major", message: "No test covers this " },
+        { file: "README.md", severity: "minor", message: "Document the endpoint" },
+      ],
+    });
+
+    expect(review.round).toBe(2);
+    expect(review.summary).toBe("Missing a test");
+    expect(review.issues.map((issue) => issue.line)).toEqual([4, null]);
+    expect(review.issues[0]!.message).toBe("No test covers this");
+  });
+});
+
+describe("formatReviewForAgent", () => {
+  const review = {
+    summary: "The route is never registered",
+    issues: [
+      { file: "index.ts", line: 12, severity: "blocker" as const, message: "Register the health route" },
+      { file: "health.ts", line: null, severity: "minor" as const, message: "Add a doc comment" },
+    ],
+  };
+
+  test("ties each issue to its file and line", () => {
+    const text = formatReviewForAgent(review, 1);
+    expect(text).toStartWith("Error: The task is not complete yet");
+    expect(text).toContain("- [blocker] index.ts:12: Register the health route");
+    expect(text).toContain("- [minor] health.ts: Add a doc comment");
+    expect(text).toContain("1 more round is handed back");
+  });
+
+  test("says when the next review is only attached", () => {
+    expect(formatReviewForAgent(review, 0)).toContain("The next review is only attached for the user");
+  });
+});
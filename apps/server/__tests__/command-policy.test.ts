@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the per-project command policy used by the executeCommand tool
+ */
+import { describe, test, expect } from "bun:test";
+import type { CommandPolicyRule } from "@open-dev/shared";
+import { evaluateCommandPolicy, validateCommandPolicy } from "../ai/command-policy";
+
+const rule = (
+  pattern: string,
+  action: CommandPolicyRule["action"],
+  matchType: CommandPolicyRule["matchType"] = "glob",
+  reason?: string
+): CommandPolicyRule => ({ id: pattern, pattern, matchType, action, reason });
+
+const RULES: CommandPolicyRule[] = [
+  rule("rm -rf *", "deny", "glob", "Deleting trees is not allowed"),
+  rule("^git push\\b", "require_approval", "regex"),
+  rule("bun test*", "allow"),
+  rule("bun run lint", "allow"),
+  rule("ls*", "allow"),
+];
+
+describe("evaluateCommandPolicy", () => {
+  test("returns no decision without rules", () => {
+    expect(evaluateCommandPolicy("bun test", undefined).action).toBeNull();
+    expect(evaluateCommandPolicy("bun test", []).action).toBeNull();
+  });
+
+  test("uses the first matching rule", () => {
+    const decision = evaluateCommandPolicy("bun test --watch", [rule("bun test --watch", "deny"), ...RULES]);
+    expect(decision.action).toBe("deny");
+    expect(decision.rule?.pattern).toBe("bun test --watch");
+  });
+
+  test("matches globs against the whole command", () => {
+    expect(evaluateCommandPolicy("bun test src/a.test.ts", RULES).action).toBe("allow");
+    expect(evaluateCommandPolicy("bun run lint --fix", RULES).action).toBeNull();
+    expect(evaluateCommandPolicy("  bun   test  ", RULES).action).toBe("allow");
+  });
+
+  test("matches regular expressions anywhere unless anchored", () => {
+    expect(evaluateCommandPolicy("git push origin main", RULES).action).toBe("require_approval");
+    expect(evaluateCommandPolicy("echo git push", RULES).action).toBeNull();
+  });
+
+  test("returns the reason of deny rules", () => {
+    const decision = evaluateCommandPolicy("rm -rf node_modules", RULES);
+    expect(decision.action).toBe("deny");
+    expect(decision.rule?.reason).toBe("Deleting trees is not allowed");
+  });
+
+  test("checks each part of a chained command", () => {
+    const denied = evaluateCommandPolicy("bun test && rm -rf /", RULES);
+    expect(denied.action).toBe("deny");
+    expect(denied.matchedText).toBe("rm -rf /");
+
+    expect(evaluateCommandPolicy("ls; git push", RULES).action).toBe("require_approval");
+    expect(evaluateCommandPolicy("bun test\nrm -rf dist", RULES).action).toBe("deny");
+    expect(evaluateCommandPolicy("bun test | ls", RULES).action).toBe("allow");
+  });
+
+  test("checks commands sent to the background", () => {
+    const denied = evaluateCommandPolicy("bun test & rm -rf /", RULES);
+    expect(denied.action).toBe("deny");
+    expect(denied.matchedText).toBe("rm -rf /");
+    expect(evaluateCommandPolicy("bun test & ls", RULES).action).toBe("allow");
+  });
+
+  test("checks commands inside subshells, process substitution and brace groups", () => {
+    expect(evaluateCommandPolicy("bun test <(rm -rf /)", RULES).action).toBe("deny");
+    expect(evaluateCommandPolicy("(rm -rf /)", RULES).action).toBe("deny");
+    expect(evaluateCommandPolicy("{ rm -rf /; }", RULES).action).toBe("deny");
+  });
+
+  test("only allows chained commands when every part is allowed", () => {
+    expect(evaluateCommandPolicy("bun test && curl example.com", RULES).action).toBeNull();
+  });
+
+  test("never allows commands with command substitution", () => {
+    expect(evaluateCommandPolicy("bun test $(cat files.txt)", RULES).action).toBeNull();
+    expect(evaluateCommandPolicy("bun test `cat files.txt`", RULES).action).toBeNull();
+  });
+
+  test("never allows commands with redirections", () => {
+    expect(evaluateCommandPolicy("bun test > /etc/passwd", RULES).action).toBeNull();
+    expect(evaluateCommandPolicy("bun test 2>&1", RULES).action).toBeNull();
+    expect(evaluateCommandPolicy("bun test < input.txt", RULES).action).toBeNull();
+  });
+
+  test("never allows commands with process substitution, subshells or brace groups", () => {
+    expect(evaluateCommandPolicy("bun test <(ls)", RULES).action).toBeNull();
+    expect(evaluateCommandPolicy("bun test >(ls)", RULES).action).toBeNull();
+    expect(evaluateCommandPolicy("(bun test)", RULES).action).toBeNull();
+    expect(evaluateCommandPolicy("{ bun test; }", RULES).action).toBeNull();
+  });
+});
+
+describe("validateCommandPolicy", () => {
+  test("accepts valid rules", () => {
+    expect(validateCommandPolicy(RULES)).toBeNull();
+  });
+
+  test("rejects empty patterns and invalid regular expressions", () => {
+    expect(validateCommandPolicy([rule("  ", "allow")])).toContain("Rule 1");
+    expect(validateCommandPolicy([RULES[0]!, rule("(unclosed", "deny", "regex")])).toContain("Rule 2");
+  });
+
+  test("rejects unknown actions, including inherited property names", () => {
+    expect(validateCommandPolicy([rule("ls", "toString" as CommandPolicyRule["action"])])).toContain("unknown action");
+  });
+});
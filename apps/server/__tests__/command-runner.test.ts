@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the command runner: timeouts, output caps and the environment allow-list
+ */
+import { describe, test, expect } from "bun:test";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { buildCommandArgs, readCappedOutput, runCommand } from "../ai/command-runner";
+
+const cwd = tmpdir();
+
+function hasNetworkNamespaces(): boolean {
+  try {
+    return Bun.spawnSync(["unshare", "-rn", "ip", "link", "set", "lo", "up"]).exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("readCappedOutput", () => {
+  test("keeps output under the cap unchanged", async () => {
+    expect(await readCappedOutput(streamOf("abc", "def"), 10)).toEqual({ text: "abcdef", truncated: false });
+  });
+
+  test("keeps the head and tail of long output", async () => {
+    const { text, truncated } = await readCappedOutput(streamOf("0123", "4567", "89ab", "cdef"), 6);
+    expect(truncated).toBe(true);
+    expect(text).toBe("012\n... [10 bytes omitted] ...\ndef");
+  });
+
+  test("passes on complete lines as they arrive", async () => {
+    const lines: string[] = [];
+    await readCappedOutput(streamOf("one\ntw", "o\nthr", "ee"), 4, (text) => lines.push(text));
+    expect(lines).toEqual(["one\n", "two\n", "three"]);
+  });
+
+  test("does not cap when the limit is 0", async () => {
+    expect((await readCappedOutput(streamOf("x".repeat(100)), 0)).text).toHaveLength(100);
+  });
+});
+
+describe("buildCommandArgs", () => {
+  test("runs the command directly without limits", () => {
+    expect(buildCommandArgs("echo hi")).toEqual(["sh", "-c", "echo hi"]);
+  });
+
+  test.if(process.platform === "linux")("passes the command as an argument under ulimit", () => {
+    const args = buildCommandArgs("echo 'a b'", { cpuSeconds: 10, memoryMb: 512 });
+    expect(args[2]).toBe('ulimit -t 10 && ulimit -v 524288 && exec sh -c "$1"');
+    expect(args.at(-1)).toBe("echo 'a b'");
+  });
+
+  test("wraps the command in a network namespace", () => {
+    expect(buildCommandArgs("curl example.com", { networkAccess: "none" })).toEqual([
+      "unshare",
+      "-rn",
+      "sh",
+      "-c",
+      "curl example.com",
+    ]);
+    expect(buildCommandArgs("bun test", { networkAccess: "localhost" }).slice(0, 5)).toEqual([
+      "unshare",
+      "-rn",
+      "sh",
+      "-c",
+      'ip link set lo up && exec sh -c "$1"',
+    ]);
+  });
+});
+
+describe("runCommand", () => {
+  test("returns output and the exit code", async () => {
+    const result = await runCommand("echo out; echo err >&2; exit 3", { cwd });
+    expect(result.exitCode).toBe(3);
+    expect(result.stdout).toBe("out\n");
+    expect(result.stderr).toBe("err\n");
+    expect(result.timedOut).toBe(false);
+  });
+
+  test("streams output while the command runs", async () => {
+    const streamed = { stdout: "", stderr: "" };
+    await runCommand("echo first; echo oops >&2; echo second", {
+      cwd,
+      onOutput: (chunk) => {
+        streamed[chunk.stream] += chunk.text;
+      },
+    });
+    expect(streamed).toEqual({ stdout: "first\nsecond\n", stderr: "oops\n" });
+  });
+
+  test("kills the process group when the timeout expires", async () => {
+    const started = Date.now();
+    // The background sleep keeps the pipes open unless the whole group is killed
+    const result = await runCommand("sleep 30 & sleep 30", { cwd, timeoutSeconds: 0.5 });
+    expect(result.timedOut).toBe(true);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  test("kills the command when the signal aborts", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const result = await runCommand("sleep 30", { cwd, signal: controller.signal });
+    expect(result.cancelled).toBe(true);
+  });
+
+  test("kills the process group when an output listener throws", async () => {
+    const marker = path.join(cwd, `command-runner-${process.pid}-${Date.now()}`);
+    const run = runCommand(`echo started; sleep 1; touch ${marker}`, {
+      cwd,
+      timeoutSeconds: 30,
+      onOutput: () => {
+        throw new Error("stream closed");
+      },
+    });
+    await expect(run).rejects.toThrow("stream closed");
+
+    await Bun.sleep(1500);
+    expect(existsSync(marker)).toBe(false);
+  });
+
+  test("only passes allow-listed environment variables", async () => {
+    process.env.COMMAND_RUNNER_SECRET = "hunter2";
+    try {
+      const result = await runCommand("echo \"$COMMAND_RUNNER_SECRET:$PATH\"", { cwd, envAllowList: ["PATH"] });
+      expect(result.stdout).toBe(`:${process.env.PATH}\n`);
+    } finally {
+      delete process.env.COMMAND_RUNNER_SECRET;
+    }
+  });
+
+  test("caps large output", async () => {
+    const result = await runCommand("head -c 100000 /dev/zero | tr '\\0' x", { cwd, maxOutputBytes: 1000 });
+    expect(result.truncated).toBe(true);
+    expect(result.stdout).toContain("bytes omitted");
+    expect(result.stdout.length).toBeLessThan(1100);
+  });
+
+  test.if(hasNetworkNamespaces())("runs isolated commands in their own network namespace", async () => {
+    // Only loopback exists in the namespace, and it's down unless localhost access is allowed
+    const isolated = await runCommand("ip -o link show", { cwd, networkAccess: "none" });
+    expect(isolated.stdout.trim().split("\n")).toHaveLength(1);
+    expect(isolated.stdout).toContain("state DOWN");
+    const localhost = await runCommand("ip -o link show lo", { cwd, networkAccess: "localhost" });
+    expect(localhost.stdout).toContain("LOOPBACK,UP");
+  });
+});
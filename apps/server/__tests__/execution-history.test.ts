@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the execution history query: its filters, sorting and how usage adds up over runs
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import type { ExecutionHistoryFilters, ExecutionUsage } from "@open-dev/shared";
+import { buildExecutionHistoryQuery, parseExecutionHistoryFilters } from "../services/execution-history";
+import { addExecutionUsage, DEFAULT_SANDBOX_LIMITS } from "../ai/sandbox-limits";
+
+let sqlite: Database;
+
+function usage(tokensUsed: number, stepsCount: number, elapsedTimeSeconds: number) {
+  return JSON.stringify({ tokensUsed, stepsCount, commandsCount: 0, elapsedTimeSeconds });
+}
+
+beforeAll(() => {
+  sqlite = new Database(":memory:");
+  sqlite.run("CREATE TABLE tasks (id TEXT PRIMARY KEY, title TEXT)");
+  sqlite.run(`CREATE TABLE agent_executions (
+    id TEXT PRIMARY KEY, task_id TEXT, project_id TEXT, status TEXT, error_message TEXT, usage TEXT,
+    created_at INTEGER, updated_at INTEGER, completed_at INTEGER
+  )`);
+  sqlite.run("CREATE TABLE agent_actions (id TEXT PRIMARY KEY, execution_id TEXT, status TEXT)");
+
+  sqlite.run("INSERT INTO tasks VALUES ('task-1', 'Add login')");
+  const insert = sqlite.prepare("INSERT INTO agent_executions VALUES (?, 'task-1', ?, ?, NULL, ?, ?, ?, ?)");
+  insert.run("small", "project-1", "completed", usage(100, 2, 30), 1, 1, 31);
+  insert.run("large", "project-1", "failed", usage(5000, 20, 300), 2, 2, 302);
+  // From before usage was kept, its duration is the wall-clock time
+  insert.run("old", "project-1", "completed", null, 3, 3, 603);
+  insert.run("other", "project-2", "completed", usage(9000, 1, 10), 4, 4, 14);
+  sqlite.run("INSERT INTO agent_actions VALUES ('action-1', 'large', 'completed'), ('action-2', 'large', 'failed')");
+});
+
+afterAll(() => {
+  sqlite.close();
+});
+
+function runQuery(filters?: ExecutionHistoryFilters) {
+  const query = buildExecutionHistoryQuery("project-1", filters);
+  return sqlite.prepare(query.sql).all(...query.params) as Array<{ id: string; taskTitle: string; actionsCount: number }>;
+}
+
+describe("parseExecutionHistoryFilters", () => {
+  test("reads sorting, paging and minimums", () => {
+    const filters = parseExecutionHistoryFilters(
+      new URLSearchParams("status=completed&sortBy=tokens&sortOrder=asc&limit=10&offset=20&minSteps=5")
+    );
+    expect(filters).toMatchObject({ status: "completed", sortBy: "tokens", sortOrder: "asc", limit: 10, offset: 20, minSteps: 5 });
+    expect(filters.minTokens).toBeUndefined();
+  });
+
+  test("rejects sort keys that aren't columns, including inherited names", () => {
+    for (const sortBy of ["name", "toString", "constructor", "__proto__"]) {
+      expect(() => parseExecutionHistoryFilters(new URLSearchParams({ sortBy }))).toThrow("Invalid sortBy");
+    }
+  });
+
+  test("rejects counts that aren't non-negative numbers", () => {
+    expect(() => parseExecutionHistoryFilters(new URLSearchParams("minTokens=abc"))).toThrow("Invalid minTokens");
+    expect(() => parseExecutionHistoryFilters(new URLSearchParams("minDurationSeconds=-1"))).toThrow("Invalid minDurationSeconds");
+    expect(() => parseExecutionHistoryFilters(new URLSearchParams("limit=Infinity"))).toThrow("Invalid limit");
+  });
+});
+
+describe("buildExecutionHistoryQuery", () => {
+  test("lists the project's newest executions first with their task and action counts", () => {
+    const rows = runQuery();
+    expect(rows.map((row) => row.id)).toEqual(["old", "large", "small"]);
+    expect(rows[1]).toMatchObject({ taskTitle: "Add login", actionsCount: 2 });
+  });
+
+  test("puts executions without usage last whichever way usage is sorted", () => {
+    expect(runQuery({ sortBy: "tokens" }).map((row) => row.id)).toEqual(["large", "small", "old"]);
+    expect(runQuery({ sortBy: "tokens", sortOrder: "asc" }).map((row) => row.id)).toEqual(["small", "large", "old"]);
+  });
+
+  test("sorts by duration using the wall-clock time of executions without usage", () => {
+    expect(runQuery({ sortBy: "duration" }).map((row) => row.id)).toEqual(["old", "large", "small"]);
+  });
+
+  test("filters by status and usage minimums", () => {
+    expect(runQuery({ status: "completed" }).map((row) => row.id)).toEqual(["old", "small"]);
+    expect(runQuery({ minTokens: 1000 }).map((row) => row.id)).toEqual(["large"]);
+    expect(runQuery({ minDurationSeconds: 100 }).map((row) => row.id)).toEqual(["old", "large"]);
+  });
+
+  test("pages with limit and offset", () => {
+    expect(runQuery({ limit: 1, offset: 1 }).map((row) => row.id)).toEqual(["large"]);
+  });
+});
+
+describe("addExecutionUsage", () => {
+  function runUsage(tokensUsed: number, stepsCount: number, tokensPercentage: number): ExecutionUsage {
+    return {
+      elapsedTimeSeconds: 60,
+      tokensUsed,
+      costUsd: 0.5,
+      fileOperationsCount: 1,
+      commandsCount: 2,
+      stepsCount,
+      limits: DEFAULT_SANDBOX_LIMITS,
+      percentages: { time: 10, tokens: tokensPercentage, cost: 0, fileOperations: 1, commands: 4, steps: stepsCount },
+    };
+  }
+
+  test("keeps the first run's usage as is", () => {
+    expect(addExecutionUsage(null, runUsage(100, 3, 1))).toEqual(runUsage(100, 3, 1));
+  });
+
+  test("adds up the runs and keeps the highest share of each limit", () => {
+    const total = addExecutionUsage(runUsage(8000, 3, 80), runUsage(1000, 5, 10));
+    expect(total).toMatchObject({ elapsedTimeSeconds: 120, tokensUsed: 9000, costUsd: 1, fileOperationsCount: 2, commandsCount: 4, stepsCount: 8 });
+    expect(total.percentages).toMatchObject({ tokens: 80, steps: 5 });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the plans plan_first executions submit for approval
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  createExecutionPlan,
+  applyPlanReview,
+  setPlanStepStatus,
+  formatPlanForAgent,
+  parseExecutionPlan,
+} from "../ai/execution-plan";
+
+const submitted = () =>
+  createExecutionPlan({
+    summary: "Add a health endpoint",
+    steps: [
+      { description: "Add the route", files: ["routes/health.ts"] },
+      { description: "Register it", files: ["index.ts"] },
+      { description: "Run the tests", commands: ["bun test"] },
+    ],
+    risks: ["The route may clash with an existing one"],
+  });
+
+describe("createExecutionPlan", () => {
+  test("numbers the steps and fills in missing lists", () => {
+    const plan = submitted();
+    expect(plan.status).toBe("awaiting_approval");
+    expect(plan.steps.map((step) => step.id)).toEqual(["s1", "s2", "s3"]);
+    expect(plan.steps[0]!.commands).toEqual([]);
+    expect(plan.steps[2]!.files).toEqual([]);
+    expect(plan.steps.every((step) => step.status === "pending")).toBe(true);
+  });
+});
+
+describe("applyPlanReview", () => {
+  test("approves edited, reordered and rejected steps", () => {
+    const plan = submitted();
+    const [first, second, third] = plan.steps;
+    const approved = applyPlanReview(plan, {
+      approved: true,
+      steps: [{ ...second!, description: "  Register the route  " }, first!, { ...third!, status: "rejected" }],
+      feedback: "Keep it small",
+    });
+
+    expect(approved.status).toBe("approved");
+    expect(approved.steps.map((step) => step.id)).toEqual(["s2", "s1", "s3"]);
+    expect(approved.steps[0]!.description).toBe("Register the route");
+    expect(approved.steps.map((step) => step.status)).toEqual(["pending", "pending", "rejected"]);
+    expect(approved.feedback).toBe("Keep it small");
+  });
+
+  test("keeps the submitted steps when none are given", () => {
+    const approved = applyPlanReview(submitted(), { approved: true });
+    expect(approved.steps).toHaveLength(3);
+    expect(approved.feedback).toBeNull();
+  });
+
+  test("sends the plan back with feedback", () => {
+    const revising = applyPlanReview(submitted(), { approved: false, feedback: "Add tests first" });
+    expect(revising.status).toBe("revising");
+    expect(revising.feedback).toBe("Add tests first");
+    expect(() => applyPlanReview(submitted(), { approved: false, feedback: "  " })).toThrow();
+  });
+
+  test("rejects invalid reviews", () => {
+    const plan = submitted();
+    expect(() => applyPlanReview({ ...plan, status: "approved" }, { approved: true })).toThrow("not awaiting approval");
+    expect(() =>
+      applyPlanReview(plan, { approved: true, steps: plan.steps.map((step) => ({ ...step, status: "rejected" })) })
+    ).toThrow("at least one step");
+    expect(() => applyPlanReview(plan, { approved: true, steps: [plan.steps[0]!, plan.steps[0]!] })).toThrow("unique id");
+    expect(() =>
+      applyPlanReview(plan, { approved: true, steps: [{ ...plan.steps[0]!, description: " " }] })
+    ).toThrow("needs a description");
+  });
+});
+
+describe("setPlanStepStatus", () => {
+  const approved = () =>
+    applyPlanReview(submitted(), {
+      approved: true,
+      steps: submitted().steps.map((step) => (step.id === "s3" ? { ...step, status: "rejected" } : step)),
+    });
+
+  test("records progress on a step", () => {
+    const plan = setPlanStepStatus(approved(), "s1", "completed");
+    expect(plan.steps.find((step) => step.id === "s1")!.status).toBe("completed");
+    expect(plan.steps.find((step) => step.id === "s2")!.status).toBe("pending");
+  });
+
+  test("refuses unknown and rejected steps", () => {
+    expect(() => setPlanStepStatus(approved(), "s9", "completed")).toThrow("s1, s2, s3");
+    expect(() => setPlanStepStatus(approved(), "s3", "in_progress")).toThrow("rejected");
+  });
+});
+
+describe("formatPlanForAgent", () => {
+  test("lists steps with their files and commands and marks rejected ones", () => {
+    const plan = applyPlanReview(submitted(), {
+      approved: true,
+      steps: submitted().steps.map((step) => (step.id === "s2" ? { ...step, status: "rejected" } : step)),
+    });
+    const text = formatPlanForAgent(plan);
+    expect(text).toContain("s1. Add the route\n   Files: routes/health.ts");
+    expect(text).toContain("s2. [REJECTED, do not do this] Register it");
+    expect(text).toContain("Commands: bun test");
+    expect(text).toContain("- The route may clash with an existing one");
+  });
+});
+
+describe("parseExecutionPlan", () => {
+  test("returns null for missing or invalid JSON", () => {
+    expect(parseExecutionPlan(null)).toBeNull();
+    expect(parseExecutionPlan("{")).toBeNull();
+    expect(parseExecutionPlan(JSON.stringify(submitted()))?.steps).toHaveLength(3);
+  });
+});
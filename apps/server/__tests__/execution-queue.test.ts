@@ -0,0 +1,37 @@
+/**
+ * Unit tests for the file claims that keep concurrent executions from changing the same files
+ */
+import { describe, test, expect, afterEach } from "bun:test";
+import { claimFiles, releaseFileClaims } from "../services/execution-queue";
+
+const workingDirectory = "/projects/app";
+
+afterEach(() => {
+  for (const executionId of ["exec-a", "exec-b"]) releaseFileClaims(executionId);
+});
+
+describe("claimFiles", () => {
+  test("lets an execution claim its own files again", () => {
+    expect(claimFiles("exec-a", workingDirectory, ["src/a.ts"])).toBeNull();
+    expect(claimFiles("exec-a", workingDirectory, ["./src/a.ts", "src/b.ts"])).toBeNull();
+  });
+
+  test("reports the file another execution claimed", () => {
+    claimFiles("exec-a", workingDirectory, ["src/a.ts"]);
+    expect(claimFiles("exec-b", workingDirectory, ["src/b.ts", "src/a.ts"])).toEqual({ path: "src/a.ts", executionId: "exec-a" });
+  });
+
+  test("claims nothing when one of the files conflicts", () => {
+    claimFiles("exec-a", workingDirectory, ["src/a.ts"]);
+    claimFiles("exec-b", workingDirectory, ["src/b.ts", "src/a.ts"]);
+
+    // src/b.ts was not kept by the failed claim, so it is still free
+    expect(claimFiles("exec-a", workingDirectory, ["src/b.ts"])).toBeNull();
+  });
+
+  test("frees the files once released", () => {
+    claimFiles("exec-a", workingDirectory, ["src/a.ts"]);
+    releaseFileClaims("exec-a");
+    expect(claimFiles("exec-b", workingDirectory, ["src/a.ts"])).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for pricing model calls and the cost limit
+ */
+import { describe, test, expect } from "bun:test";
+import type { LanguageModelUsage } from "ai";
+import type { ModelPricingTable } from "@open-dev/shared";
+import { getStepCost, getStepTokens, validateModelPricing } from "../ai/model-pricing";
+import { LimitExceededError, SandboxLimitsTracker } from "../ai/sandbox-limits";
+
+const pricing = { inputPerMillion: 3, cachedInputPerMillion: 0.3, outputPerMillion: 15 };
+
+describe("validateModelPricing", () => {
+  test("accepts non-negative prices per model", () => {
+    expect(validateModelPricing({ "gpt-4o": pricing, "local-model": { inputPerMillion: 0, cachedInputPerMillion: 0, outputPerMillion: 0 } })).toBeNull();
+  });
+
+  test("rejects missing, negative and unnamed prices", () => {
+    expect(validateModelPricing({ "gpt-4o": { ...pricing, outputPerMillion: -1 } })).toContain("outputPerMillion for gpt-4o");
+    expect(validateModelPricing({ "gpt-4o": { inputPerMillion: 3 } } as unknown as ModelPricingTable)).toContain("outputPerMillion");
+    expect(validateModelPricing({ " ": pricing })).toContain("without a name");
+  });
+});
+
+describe("getStepCost", () => {
+  test("bills cached input at the cached price", () => {
+    const cost = getStepCost(pricing, { inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 100_000 });
+    // 600k uncached at $3, 400k cached at $0.30, 100k output at $15
+    expect(cost).toBeCloseTo(1.8 + 0.12 + 1.5);
+  });
+
+  test("is null for models without a price", () => {
+    expect(getStepCost(undefined, { inputTokens: 1000, cachedInputTokens: 0, outputTokens: 1000 })).toBeNull();
+  });
+});
+
+describe("getStepTokens", () => {
+  test("reads cached tokens from the input details and treats missing counts as 0", () => {
+    const usage = {
+      inputTokens: 1200,
+      inputTokenDetails: { noCacheTokens: 200, cacheReadTokens: 1000, cacheWriteTokens: undefined },
+      outputTokens: undefined,
+      outputTokenDetails: { textTokens: undefined, reasoningTokens: undefined },
+      totalTokens: 1200,
+    } satisfies LanguageModelUsage;
+
+    expect(getStepTokens(usage)).toEqual({ inputTokens: 1200, cachedInputTokens: 1000, outputTokens: 0 });
+  });
+});
+
+describe("SandboxLimitsTracker.trackCost", () => {
+  test("stops the execution once the spend passes maxCostUsd", () => {
+    const tracker = new SandboxLimitsTracker({ maxCostUsd: 1 });
+    tracker.trackCost(0.6);
+    expect(tracker.getUsageSummary().percentages.cost).toBe(60);
+
+    expect(() => tracker.trackCost(0.6)).toThrow(LimitExceededError);
+    expect(tracker.getUsage().costUsd).toBeCloseTo(1.2);
+  });
+
+  test("never stops without a limit", () => {
+    const tracker = new SandboxLimitsTracker();
+    expect(() => tracker.trackCost(1000)).not.toThrow();
+  });
+});
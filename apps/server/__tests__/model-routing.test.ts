@@ -0,0 +1,105 @@
+/**
+ * Unit tests for routing a project's model calls by phase
+ */
+import { describe, test, expect } from "bun:test";
+import type { ModelMessage } from "ai";
+import type { AIProvider } from "../db/schema";
+import { applyModelRoute, getAgentStepPhase, EXPLORATION_STEP_TOOLS, START_EDITING_TOOL } from "../ai/model-routing";
+
+const provider = (id: string, model = `model-${id}`): AIProvider => ({
+  id,
+  name: `Provider ${id}`,
+  baseUrl: `http://${id}.local/v1`,
+  apiKey: null,
+  model,
+  streaming: true,
+  maxConcurrentExecutions: 1,
+  pricing: null,
+  userId: "user-1",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const opening: ModelMessage[] = [
+  { role: "system", content: "You are an agent" },
+  { role: "user", content: "Please complete this task: Add a health endpoint" },
+];
+
+const toolStep = (...toolNames: string[]): ModelMessage[] => [
+  {
+    role: "assistant",
+    content: toolNames.map((toolName, index) => ({
+      type: "tool-call" as const,
+      toolCallId: `call-${index}`,
+      toolName,
+      input: {},
+    })),
+  },
+  {
+    role: "tool",
+    content: toolNames.map((toolName, index) => ({
+      type: "tool-result" as const,
+      toolCallId: `call-${index}`,
+      toolName,
+      output: { type: "text" as const, value: "ok" },
+    })),
+  },
+];
+
+describe("getAgentStepPhase", () => {
+  test("explores at the start and while the agent only reads", () => {
+    expect(getAgentStepPhase(opening)).toBe("exploration");
+    expect(getAgentStepPhase([...opening, ...toolStep("listDirectory", "readFile")])).toBe("exploration");
+    expect(getAgentStepPhase([...opening, ...toolStep("searchFiles"), ...toolStep("askQuestion")])).toBe("exploration");
+  });
+
+  test("edits once the agent starts editing or calls a tool that changes something", () => {
+    expect(getAgentStepPhase([...opening, ...toolStep("readFile", START_EDITING_TOOL)])).toBe("editing");
+    expect(getAgentStepPhase([...opening, ...toolStep("readFile", "editFile")])).toBe("editing");
+    expect(getAgentStepPhase([...opening, ...toolStep("executeCommand")])).toBe("editing");
+  });
+
+  test("keeps editing after reads, so a read before a write doesn't hand the write to the exploration model", () => {
+    const messages = [...opening, ...toolStep(START_EDITING_TOOL), ...toolStep("writeFile"), ...toolStep("readFile")];
+    expect(getAgentStepPhase(messages)).toBe("editing");
+  });
+
+  test("only lets exploration steps read, ask and move on to editing", () => {
+    const readStep = [...opening, ...toolStep("readFile")];
+    expect(getAgentStepPhase(readStep)).toBe("exploration");
+    expect(EXPLORATION_STEP_TOOLS).toContain(START_EDITING_TOOL);
+    for (const editingTool of ["writeFile", "editFile", "deleteFile", "applyPatch", "executeCommand", "startProcess"]) {
+      expect(EXPLORATION_STEP_TOOLS).not.toContain(editingTool);
+    }
+  });
+});
+
+describe("applyModelRoute", () => {
+  const chain = [provider("a"), provider("b")];
+
+  test("keeps the project's chain without a route or when its provider is gone", () => {
+    expect(applyModelRoute(chain, null, undefined)).toBe(chain);
+    expect(applyModelRoute(chain, { aiProviderId: "gone", model: null }, undefined)).toBe(chain);
+  });
+
+  test("tries the routed model first and fails over to the chain", () => {
+    const routed = applyModelRoute(chain, { aiProviderId: "c", model: "small-model" }, provider("c"));
+    expect(routed.map((p) => [p.id, p.model])).toEqual([
+      ["c", "small-model"],
+      ["a", "model-a"],
+      ["b", "model-b"],
+    ]);
+  });
+
+  test("switches the model of a chain provider without trying it twice", () => {
+    const sameModel = applyModelRoute(chain, { aiProviderId: "b", model: null }, provider("b"));
+    expect(sameModel.map((p) => p.id)).toEqual(["b", "a"]);
+
+    const otherModel = applyModelRoute(chain, { aiProviderId: "a", model: "small-model" }, provider("a"));
+    expect(otherModel.map((p) => [p.id, p.model])).toEqual([
+      ["a", "small-model"],
+      ["a", "model-a"],
+      ["b", "model-b"],
+    ]);
+  });
+});
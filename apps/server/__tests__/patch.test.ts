@@ -0,0 +1,105 @@
+/**
+ * Unit tests for unified diff parsing and application used by the applyPatch tool
+ */
+import { describe, test, expect } from "bun:test";
+import { parseUnifiedDiff, applyHunks, getPatchFilePaths, formatPatchReport } from "../ai/patch";
+
+const ORIGINAL = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj\n";
+
+describe("parseUnifiedDiff", () => {
+  test("parses several files and hunks", () => {
+    const files = parseUnifiedDiff(`diff --git a/x.txt b/x.txt
+index 123..456 100644
+--- a/x.txt
++++ b/x.txt
+@@ -1,3 +1,3 @@
+ a
+-b
++B
+ c
+@@ -8,2 +8,3 @@
+ h
++H
+ i
+--- /dev/null
++++ b/new.txt
+@@ -0,0 +1 @@
++hello
+`);
+
+    expect(files).toHaveLength(2);
+    expect(files[0]!.oldPath).toBe("x.txt");
+    expect(files[0]!.newPath).toBe("x.txt");
+    expect(files[0]!.hunks).toHaveLength(2);
+    expect(files[0]!.hunks[1]!.oldStart).toBe(8);
+    expect(files[1]!.oldPath).toBeNull();
+    expect(files[1]!.newPath).toBe("new.txt");
+  });
+
+  test("treats blank lines inside a hunk as context", () => {
+    const [file] = parseUnifiedDiff("--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n a\n\n-b\n+B\n");
+    expect(file!.hunks[0]!.lines.map((l) => l.type)).toEqual([" ", " ", "-", "+"]);
+  });
+
+  test("rejects hunks without a file header", () => {
+    expect(() => parseUnifiedDiff("@@ -1 +1 @@\n-a\n+b\n")).toThrow();
+  });
+
+  test("lists the paths a patch touches", () => {
+    expect(getPatchFilePaths("--- a/src/a.ts\n+++ b/src/b.ts\n@@ -1 +1 @@\n-x\n+y\n")).toEqual(["src/a.ts", "src/b.ts"]);
+  });
+});
+
+describe("applyHunks", () => {
+  const hunksFor = (patch: string) => parseUnifiedDiff(`--- a/x\n+++ b/x\n${patch}`)[0]!.hunks;
+
+  test("applies hunks at their stated position", () => {
+    const { content, results } = applyHunks(ORIGINAL, hunksFor("@@ -2,3 +2,3 @@\n b\n-c\n+C\n d\n"));
+    expect(content).toBe("a\nb\nC\nd\ne\nf\ng\nh\ni\nj\n");
+    expect(results[0]).toMatchObject({ applied: true, offset: 0, fuzz: 0 });
+  });
+
+  test("finds hunks whose line numbers are off", () => {
+    const { content, results } = applyHunks(ORIGINAL, hunksFor("@@ -20,3 +20,3 @@\n f\n-g\n+G\n h\n"));
+    expect(content).toContain("\nG\n");
+    expect(results[0]!.offset).toBe(-14);
+  });
+
+  test("drops mismatched context lines within the fuzz limit", () => {
+    const { content, results } = applyHunks(ORIGINAL, hunksFor("@@ -2,3 +2,3 @@\n wrong\n-c\n+C\n d\n"));
+    expect(content).toContain("\nC\n");
+    expect(results[0]!.fuzz).toBe(1);
+  });
+
+  test("reports hunks that do not match", () => {
+    const { content, results } = applyHunks(ORIGINAL, hunksFor("@@ -2,3 +2,3 @@\n b\n-missing\n+C\n d\n"));
+    expect(content).toBe(ORIGINAL);
+    expect(results[0]!.applied).toBe(false);
+    expect(results[0]!.error).toContain("missing");
+  });
+
+  test("creates content for a new file", () => {
+    const { content } = applyHunks("", hunksFor("@@ -0,0 +1,2 @@\n+hello\n+world\n"));
+    expect(content).toBe("hello\nworld\n");
+  });
+});
+
+describe("formatPatchReport", () => {
+  test("summarises applied and failed hunks", () => {
+    const report = formatPatchReport([
+      {
+        path: "x.txt",
+        operation: "modify",
+        originalContent: "",
+        newContent: "",
+        hunks: [
+          { index: 1, header: "@@ -1 +1 @@", applied: true, offset: 2, fuzz: 0 },
+          { index: 2, header: "@@ -9 +9 @@", applied: false, offset: 0, fuzz: 0, error: "Could not find" },
+        ],
+      },
+    ]);
+    expect(report).toContain("x.txt: 1 of 2 hunk(s) failed");
+    expect(report).toContain("hunk 1 applied with offset +2 lines");
+    expect(report).toContain("hunk 2 @@ -9 +9 @@ failed");
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the glob path rules used by the file tools
+ */
+import { describe, test, expect } from "bun:test";
+import type { PathApprovalRule } from "@open-dev/shared";
+import { evaluatePathRules, findDeniedPathRule, matchesPathRule } from "../ai/path-rules";
+import { validatePath } from "../ai/agent-executor";
+
+const rule = (pattern: string, action: PathApprovalRule["action"], reason?: string): PathApprovalRule => ({
+  id: pattern,
+  pattern,
+  action,
+  reason,
+});
+
+const RULES: PathApprovalRule[] = [
+  rule(".env*", "deny", "Secrets"),
+  rule(".git/**", "deny"),
+  rule("package.json", "require_approval"),
+  rule("**/migrations/**", "require_approval"),
+  rule("src/**", "allow"),
+  rule("**/*.test.ts", "allow"),
+];
+
+describe("matchesPathRule", () => {
+  test("matches patterns without a slash at any depth", () => {
+    expect(matchesPathRule(".env*", ".env.local")).toBe(true);
+    expect(matchesPathRule(".env*", "apps/server/.env")).toBe(true);
+    expect(matchesPathRule("src/*.ts", "lib/src/a.ts")).toBe(false);
+  });
+
+  test("matches directory patterns against the directory itself", () => {
+    expect(matchesPathRule(".git/**", ".git")).toBe(true);
+    expect(matchesPathRule(".git/**", ".git/config")).toBe(true);
+  });
+
+  test("normalizes ./ and .. segments", () => {
+    expect(matchesPathRule(".env*", "./src/../.env")).toBe(true);
+    expect(matchesPathRule("src/**", "./src/index.ts")).toBe(true);
+  });
+});
+
+describe("evaluatePathRules", () => {
+  test("returns no decision without rules or a matching rule", () => {
+    expect(evaluatePathRules(["src/a.ts"], undefined).action).toBeNull();
+    expect(evaluatePathRules(["README.md"], RULES).action).toBeNull();
+  });
+
+  test("allows paths every rule allows", () => {
+    expect(evaluatePathRules(["src/a.ts", "lib/a.test.ts"], RULES).action).toBe("allow");
+  });
+
+  test("lets the strictest path decide", () => {
+    const decision = evaluatePathRules(["src/a.ts", "package.json"], RULES);
+    expect(decision.action).toBe("require_approval");
+    expect(decision.matchedPath).toBe("package.json");
+
+    expect(evaluatePathRules(["package.json", ".env"], RULES).action).toBe("deny");
+    expect(evaluatePathRules(["src/a.ts", "README.md"], RULES).action).toBeNull();
+  });
+
+  test("uses the first matching rule", () => {
+    expect(evaluatePathRules(["src/.env"], RULES).action).toBe("deny");
+    expect(evaluatePathRules(["src/db/migrations/0001.sql"], RULES).action).toBe("require_approval");
+  });
+});
+
+describe("validatePath", () => {
+  const access = { pathRules: RULES, protectedPaths: [] };
+
+  test("blocks denied paths, reads included", () => {
+    expect(() => validatePath("/repo", ".env", access)).toThrow("Secrets");
+    expect(() => validatePath("/repo", "src/../.git/config", access)).toThrow("blocked");
+    expect(validatePath("/repo", "src/a.ts", access)).toBe("/repo/src/a.ts");
+  });
+
+  test("only deny rules block", () => {
+    expect(findDeniedPathRule("package.json", RULES)).toBeNull();
+    expect(validatePath("/repo", "package.json", access)).toBe("/repo/package.json");
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the per-execution background process manager
+ */
+import { describe, test, expect, afterEach } from "bun:test";
+import { tmpdir } from "os";
+import {
+  startProcess,
+  readProcessOutput,
+  stopProcess,
+  listProcesses,
+  stopExecutionProcesses,
+} from "../services/process-manager";
+
+const cwd = tmpdir();
+const EXECUTION = "execution-1";
+
+afterEach(() => {
+  stopExecutionProcesses(EXECUTION);
+});
+
+describe("process manager", () => {
+  test("returns new output since the previous read", async () => {
+    const info = startProcess(EXECUTION, "echo ready; sleep 0.2; echo second; sleep 30", { cwd, maxOutputChars: 1000 });
+    expect(info.exitCode).toBeNull();
+
+    const first = await readProcessOutput(EXECUTION, info.id, 5000);
+    expect(first.output).toBe("ready\n");
+    expect(first.exitCode).toBeNull();
+
+    const second = await readProcessOutput(EXECUTION, info.id, 5000);
+    expect(second.output).toBe("second\n");
+  });
+
+  test("reports the exit code of finished processes", async () => {
+    const info = startProcess(EXECUTION, "echo done; exit 4", { cwd, maxOutputChars: 1000 });
+    let result = await readProcessOutput(EXECUTION, info.id, 5000);
+    while (result.exitCode === null) {
+      result = await readProcessOutput(EXECUTION, info.id, 5000);
+    }
+    expect(result.exitCode).toBe(4);
+  });
+
+  test("keeps only the most recent output", async () => {
+    const info = startProcess(EXECUTION, "printf 'aaaaabbbbb'; sleep 30", { cwd, maxOutputChars: 5 });
+    await Bun.sleep(300);
+    const result = await readProcessOutput(EXECUTION, info.id);
+    expect(result.output).toBe("bbbbb");
+    expect(result.droppedChars).toBe(5);
+  });
+
+  test("stops a process and its children", async () => {
+    const info = startProcess(EXECUTION, "sleep 30 & sleep 30", { cwd, maxOutputChars: 1000 });
+    const stopped = await stopProcess(EXECUTION, info.id);
+    expect(stopped.exitCode).not.toBeNull();
+  });
+
+  test("only finds processes of the same execution", async () => {
+    const info = startProcess(EXECUTION, "sleep 30", { cwd, maxOutputChars: 1000 });
+    expect(listProcesses(EXECUTION).map((process) => process.id)).toEqual([info.id]);
+    await expect(readProcessOutput("execution-2", info.id)).rejects.toThrow("No process");
+  });
+
+  test("kills every process when the execution ends", async () => {
+    const info = startProcess(EXECUTION, "sleep 30", { cwd, maxOutputChars: 1000 });
+    stopExecutionProcesses(EXECUTION);
+    expect(listProcesses(EXECUTION)).toEqual([]);
+    await Bun.sleep(200);
+    expect(() => process.kill(info.pid, 0)).toThrow();
+  });
+});
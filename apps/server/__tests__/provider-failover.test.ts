@@ -0,0 +1,152 @@
+/**
+ * Unit tests for failing over between a project's AI providers
+ */
+import { describe, test, expect } from "bun:test";
+import { APICallError, generateText, streamText } from "ai";
+import { MockLanguageModelV3, convertArrayToReadableStream } from "ai/test";
+import type { AIProvider } from "../db/schema";
+import { createFailoverModel, getStepProvider, isFailoverError, EmptyModelResponseError } from "../ai/provider-failover";
+
+const provider = (id: string, streaming = true): AIProvider => ({
+  id,
+  name: `Provider ${id}`,
+  baseUrl: `http://${id}.local/v1`,
+  apiKey: null,
+  model: `model-${id}`,
+  streaming,
+  maxConcurrentExecutions: 1,
+  pricing: null,
+  userId: "user-1",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const usage = {
+  inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 5, text: 5, reasoning: undefined },
+};
+
+const answer = (text: string) => ({
+  content: text ? [{ type: "text" as const, text }] : [],
+  finishReason: { unified: "stop" as const, raw: "stop" },
+  usage,
+  warnings: [],
+});
+
+const serverError = (status: number) =>
+  new APICallError({
+    message: `Request failed with ${status}`,
+    url: "http://provider.local/v1/chat/completions",
+    requestBodyValues: {},
+    statusCode: status,
+  });
+
+// Mock models keyed by provider id, so each test decides how every provider behaves
+const chain = (behaviours: Record<string, MockLanguageModelV3>, providers: AIProvider[]) =>
+  createFailoverModel(providers, { createModel: (p) => behaviours[p.id]! });
+
+describe("isFailoverError", () => {
+  test("fails over on unreachable providers, server errors and timeouts", () => {
+    expect(isFailoverError(serverError(502))).toBe(true);
+    expect(isFailoverError(new APICallError({ message: "Cannot connect", url: "", requestBodyValues: {} }))).toBe(true);
+    expect(isFailoverError(new EmptyModelResponseError("Provider a"))).toBe(true);
+    expect(isFailoverError(new DOMException("The operation was aborted", "AbortError"))).toBe(true);
+  });
+
+  test("does not fail over on client errors", () => {
+    expect(isFailoverError(serverError(401))).toBe(false);
+    expect(isFailoverError(new Error("Invalid tool input"))).toBe(false);
+  });
+});
+
+describe("createFailoverModel", () => {
+  test("answers with the first provider when it works", async () => {
+    const model = chain(
+      { a: new MockLanguageModelV3({ doGenerate: answer("from a") }), b: new MockLanguageModelV3({ doGenerate: answer("from b") }) },
+      [provider("a"), provider("b")]
+    );
+    const result = await generateText({ model, prompt: "hi", maxRetries: 0 });
+
+    expect(result.text).toBe("from a");
+    expect(getStepProvider(result.providerMetadata)).toEqual({
+      aiProviderId: "a",
+      providerName: "Provider a",
+      model: "model-a",
+      failovers: [],
+    });
+  });
+
+  test("moves on after a server error or an empty response", async () => {
+    const model = chain(
+      {
+        a: new MockLanguageModelV3({ doGenerate: async () => { throw serverError(503); } }),
+        b: new MockLanguageModelV3({ doGenerate: answer("") }),
+        c: new MockLanguageModelV3({ doGenerate: answer("from c") }),
+      },
+      [provider("a"), provider("b"), provider("c")]
+    );
+    const result = await generateText({ model, prompt: "hi", maxRetries: 0 });
+
+    expect(result.text).toBe("from c");
+    const used = getStepProvider(result.providerMetadata)!;
+    expect(used.aiProviderId).toBe("c");
+    expect(used.failovers.map((failover) => failover.aiProviderId)).toEqual(["a", "b"]);
+    expect(used.failovers[0]!.error).toContain("503");
+  });
+
+  test("reports each failover as it happens", async () => {
+    const reported: string[] = [];
+    const model = createFailoverModel([provider("a"), provider("b")], {
+      createModel: (p) => p.id === "a"
+        ? new MockLanguageModelV3({ doGenerate: async () => { throw serverError(503); } })
+        : new MockLanguageModelV3({ doGenerate: answer("from b") }),
+      onFailover: (failover) => reported.push(failover.providerName),
+    });
+    await generateText({ model, prompt: "hi", maxRetries: 0 });
+
+    expect(reported).toEqual(["Provider a"]);
+  });
+
+  test("surfaces client errors and the last provider's error", async () => {
+    const unauthorized = chain(
+      {
+        a: new MockLanguageModelV3({ doGenerate: async () => { throw serverError(401); } }),
+        b: new MockLanguageModelV3({ doGenerate: answer("from b") }),
+      },
+      [provider("a"), provider("b")]
+    );
+    await expect(generateText({ model: unauthorized, prompt: "hi", maxRetries: 0 })).rejects.toThrow("401");
+
+    const allDown = chain(
+      {
+        a: new MockLanguageModelV3({ doGenerate: async () => { throw serverError(500); } }),
+        b: new MockLanguageModelV3({ doGenerate: async () => { throw serverError(502); } }),
+      },
+      [provider("a"), provider("b")]
+    );
+    await expect(generateText({ model: allDown, prompt: "hi", maxRetries: 0 })).rejects.toThrow("502");
+  });
+
+  test("fails over a stream that ends without content", async () => {
+    const emptyStream = {
+      stream: convertArrayToReadableStream([
+        { type: "stream-start" as const, warnings: [] },
+        { type: "finish" as const, usage, finishReason: { unified: "stop" as const, raw: "stop" } },
+      ]),
+    };
+    const model = chain(
+      {
+        a: new MockLanguageModelV3({ doStream: emptyStream }),
+        // b can't stream, its answer is replayed as a stream
+        b: new MockLanguageModelV3({ doGenerate: answer("from b") }),
+      },
+      [provider("a"), provider("b", false)]
+    );
+    const result = streamText({ model, prompt: "hi", maxRetries: 0 });
+
+    expect(await result.text).toBe("from b");
+    const used = getStepProvider(await result.providerMetadata)!;
+    expect(used.aiProviderId).toBe("b");
+    expect(used.failovers[0]!.error).toContain("neither text nor tool calls");
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for reading files: line ranges, binary detection and how much readFile returns at once
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync, realpathSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { executeReadFile, isBinaryContent, readFileLines } from "../ai/agent-executor";
+
+let workingDirectory: string;
+
+beforeAll(() => {
+  workingDirectory = realpathSync(mkdtempSync(path.join(tmpdir(), "read-file-")));
+  writeFileSync(path.join(workingDirectory, "lines.txt"), "one\r\ntwo\nthree\n");
+  writeFileSync(path.join(workingDirectory, "empty.txt"), "");
+  writeFileSync(path.join(workingDirectory, "image.png"), new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 1, 2]));
+  writeFileSync(path.join(workingDirectory, "long.txt"), Array.from({ length: 1500 }, (_, i) => `line ${i + 1}`).join("\n"));
+  // A minified bundle: two lines, each far over the per-read limit
+  writeFileSync(path.join(workingDirectory, "bundle.min.js"), `${"a".repeat(100_000)}\n${"b".repeat(100_000)}`);
+});
+
+afterAll(() => {
+  rmSync(workingDirectory, { recursive: true, force: true });
+});
+
+describe("isBinaryContent", () => {
+  test("treats content with a NUL byte as binary", () => {
+    expect(isBinaryContent(new Uint8Array([104, 105, 0]))).toBe(true);
+    expect(isBinaryContent(new TextEncoder().encode("plain text"))).toBe(false);
+  });
+
+  test("only sniffs the start of the content", () => {
+    const bytes = new Uint8Array(10_000).fill(97);
+    bytes[9_000] = 0;
+    expect(isBinaryContent(bytes)).toBe(false);
+  });
+});
+
+describe("readFileLines", () => {
+  test("splits on either line ending without a trailing empty line", async () => {
+    const read = await readFileLines(path.join(workingDirectory, "lines.txt"));
+    expect(read.lines).toEqual(["one", "two", "three"]);
+    expect(read.totalLines).toBe(3);
+    expect(read.text).toBe("one\r\ntwo\nthree\n");
+  });
+
+  test("clamps the range to the file", async () => {
+    const read = await readFileLines(path.join(workingDirectory, "lines.txt"), { startLine: 2, endLine: 10 });
+    expect(read).toMatchObject({ startLine: 2, endLine: 3, lines: ["two", "three"] });
+  });
+
+  test("returns binary files without lines", async () => {
+    const read = await readFileLines(path.join(workingDirectory, "image.png"));
+    expect(read).toMatchObject({ binary: true, size: 7, totalLines: 0, lines: [] });
+  });
+});
+
+describe("executeReadFile", () => {
+  test("numbers lines and reports empty and binary files", async () => {
+    expect((await executeReadFile(workingDirectory, { path: "lines.txt" })).output).toBe("1: one\n2: two\n3: three");
+    expect((await executeReadFile(workingDirectory, { path: "empty.txt" })).output).toBe("(empty file)");
+    expect((await executeReadFile(workingDirectory, { path: "image.png" })).output).toContain("Binary file: image.png");
+  });
+
+  test("stops at the line cap and says where to continue", async () => {
+    const output = (await executeReadFile(workingDirectory, { path: "long.txt" })).output!;
+    expect(output).toContain("1000: line 1000");
+    expect(output).not.toContain("line 1001");
+    expect(output).toContain("Read from startLine 1001 to continue");
+  });
+
+  test("truncates lines too long to return, so every read makes progress", async () => {
+    const first = (await executeReadFile(workingDirectory, { path: "bundle.min.js" })).output!;
+    expect(first).toContain("1: aaa");
+    expect(first).toContain("[line truncated, 98000 more characters]");
+    expect(first).toContain("2: bbb");
+    expect(first.length).toBeLessThan(5000);
+
+    const second = (await executeReadFile(workingDirectory, { path: "bundle.min.js", startLine: 2 })).output!;
+    expect(second).toStartWith("2: bbb");
+  });
+});
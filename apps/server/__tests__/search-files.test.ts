@@ -0,0 +1,126 @@
+/**
+ * Unit tests for searchFiles: literal and regex queries, which files are searched and the match cap
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, realpathSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { executeSearchFiles } from "../ai/agent-executor";
+
+let workingDirectory: string;
+
+function write(relativePath: string, content: string | Uint8Array) {
+  mkdirSync(path.dirname(path.join(workingDirectory, relativePath)), { recursive: true });
+  writeFileSync(path.join(workingDirectory, relativePath), content);
+}
+
+async function search(params: Parameters<typeof executeSearchFiles>[1], options?: Parameters<typeof executeSearchFiles>[2]) {
+  const result = await executeSearchFiles(workingDirectory, params, options);
+  expect(result.success).toBe(true);
+  return result.output!;
+}
+
+beforeAll(async () => {
+  workingDirectory = realpathSync(mkdtempSync(path.join(tmpdir(), "search-files-")));
+  await Bun.$`git init -q`.cwd(workingDirectory);
+  write(".gitignore", "generated/\n");
+  write("src/app.ts", "import { token } from \"./config\";\n\nexport const total = add(1, 2);\nconsole.log(token);\n");
+  write("src/math.ts", "export function add(a: number, b: number) {\n  return a + b;\n}\n");
+  write("src/config.ts", "export const token = process.env.TOKEN;\n");
+  write("generated/app.js", "const token = \"built\";\n");
+  write(".env", "TOKEN=secret-token\n");
+  write("logo.png", new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 116, 111, 107, 101, 110]));
+  write("many.txt", Array.from({ length: 30 }, (_, i) => `match ${i + 1}`).join("\n"));
+});
+
+afterAll(() => {
+  rmSync(workingDirectory, { recursive: true, force: true });
+});
+
+describe("executeSearchFiles", () => {
+  test("searches for literal text, regex characters included", async () => {
+    expect(await search({ query: "add(1, 2)" })).toBe("src/app.ts:3: export const total = add(1, 2);");
+  });
+
+  test("searches with a regular expression when asked", async () => {
+    expect(await search({ query: "^export (function|const) \\w+", regex: true, include: ["src/**"] })).toBe(
+      ["src/app.ts:3: export const total = add(1, 2);", "src/config.ts:1: export const token = process.env.TOKEN;", "src/math.ts:1: export function add(a: number, b: number) {"].join("\n")
+    );
+  });
+
+  test("reports an invalid regular expression as an error", async () => {
+    const result = await executeSearchFiles(workingDirectory, { query: "(unclosed", regex: true });
+    expect(result.success).toBe(false);
+  });
+
+  test("skips gitignored, protected and binary files", async () => {
+    const output = await search({ query: "token" });
+    expect(output).toContain("src/app.ts:1:");
+    expect(output).toContain("src/config.ts:1:");
+    expect(output).not.toMatch(/^generated\/app\.js:/m);
+    expect(output).not.toMatch(/^\.env:/m);
+    expect(output).not.toMatch(/^logo\.png:/m);
+  });
+
+  test("skips files the path rules deny", async () => {
+    const output = await search(
+      { query: "token" },
+      { pathRules: [{ id: "config", pattern: "src/config.ts", action: "deny" }] }
+    );
+    expect(output).toContain("src/app.ts");
+    expect(output).not.toContain("src/config.ts");
+  });
+
+  test("filters files with include and exclude globs", async () => {
+    expect(await search({ query: "token", include: ["src/**"], exclude: ["**/config.ts"] })).toBe(
+      ["src/app.ts:1: import { token } from \"./config\";", "src/app.ts:4: console.log(token);"].join("\n")
+    );
+  });
+
+  test("shows context lines around matches", async () => {
+    expect(await search({ query: "return", contextLines: 1 })).toBe(
+      ["src/math.ts-1- export function add(a: number, b: number) {", "src/math.ts:2:   return a + b;", "src/math.ts-3- }"].join("\n")
+    );
+  });
+
+  test("stops at the match cap and says so", async () => {
+    const output = await search({ query: "match", maxResults: 5 });
+    expect(output.split("\n").filter((line) => line.startsWith("many.txt:"))).toHaveLength(5);
+    expect(output).toContain("(stopped after 5 matches, narrow the search to see more)");
+  });
+
+  test("says when nothing matches", async () => {
+    expect(await search({ query: "no such text" })).toBe('No matches for "no such text"');
+  });
+});
+
+describe("executeSearchFiles outside a git repository", () => {
+  let plainDirectory: string;
+
+  beforeAll(() => {
+    plainDirectory = realpathSync(mkdtempSync(path.join(tmpdir(), "search-files-plain-")));
+    const files: Record<string, string> = {
+      ".gitignore": "out/\n",
+      "src/.gitignore": "*.generated.ts\n",
+      "src/app.ts": "const needle = 1;\n",
+      "src/api.generated.ts": "const needle = 2;\n",
+      "out/app.js": "var needle = 1;\n",
+      "node_modules/lib/index.js": "module.exports = \"needle\";\n",
+      "build/app.js": "var needle = 1;\n",
+    };
+    for (const [relativePath, content] of Object.entries(files)) {
+      mkdirSync(path.dirname(path.join(plainDirectory, relativePath)), { recursive: true });
+      writeFileSync(path.join(plainDirectory, relativePath), content);
+    }
+  });
+
+  afterAll(() => {
+    rmSync(plainDirectory, { recursive: true, force: true });
+  });
+
+  test("skips what its .gitignore files and the default ignore patterns exclude", async () => {
+    const result = await executeSearchFiles(plainDirectory, { query: "needle" });
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("src/app.ts:1: const needle = 1;");
+  });
+});
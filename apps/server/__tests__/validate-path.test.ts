@@ -0,0 +1,111 @@
+/**
+ * Unit tests for validatePath: symlink containment, protected paths and blocked-path reporting
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync, realpathSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { validatePath, resolveRealPath, PathAccessError, executeSearchFiles } from "../ai/agent-executor";
+
+let root: string;
+let workingDirectory: string;
+let outside: string;
+
+beforeAll(() => {
+  root = realpathSync(mkdtempSync(path.join(tmpdir(), "validate-path-")));
+  workingDirectory = path.join(root, "project");
+  outside = path.join(root, "outside");
+  mkdirSync(path.join(workingDirectory, "src"), { recursive: true });
+  mkdirSync(path.join(workingDirectory, ".git"), { recursive: true });
+  mkdirSync(outside, { recursive: true });
+  writeFileSync(path.join(outside, "id_rsa"), "secret");
+  writeFileSync(path.join(workingDirectory, "src", "index.ts"), "export {};\n");
+
+  // A link to a directory outside, one to a file that doesn't exist yet, and one staying inside
+  symlinkSync(outside, path.join(workingDirectory, "ssh"));
+  symlinkSync(path.join(outside, "new.txt"), path.join(workingDirectory, "dangling.txt"));
+  symlinkSync(path.join(workingDirectory, "src"), path.join(workingDirectory, "source"));
+  symlinkSync(path.join(workingDirectory, ".git"), path.join(workingDirectory, "git-dir"));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function blockReason(relativePath: string, protectedPaths?: string[]): string | null {
+  try {
+    validatePath(workingDirectory, relativePath, { protectedPaths });
+    return null;
+  } catch (error) {
+    return error instanceof PathAccessError ? error.reason : String(error);
+  }
+}
+
+describe("resolveRealPath", () => {
+  test("resolves the nearest existing ancestor of a new file", () => {
+    expect(resolveRealPath(path.join(workingDirectory, "source", "new", "file.ts"))).toBe(
+      path.join(workingDirectory, "src", "new", "file.ts")
+    );
+  });
+
+  test("follows dangling symlinks to where a write would land", () => {
+    expect(resolveRealPath(path.join(workingDirectory, "dangling.txt"))).toBe(path.join(outside, "new.txt"));
+  });
+});
+
+describe("validatePath", () => {
+  test("allows paths inside the working directory", () => {
+    expect(blockReason("src/index.ts")).toBeNull();
+    expect(blockReason("src/new/file.ts")).toBeNull();
+    expect(blockReason("source/index.ts")).toBeNull();
+  });
+
+  test("rejects paths outside the working directory", () => {
+    expect(blockReason("../outside/id_rsa")).toBe("outside_working_directory");
+  });
+
+  test("rejects symlinks that escape the working directory", () => {
+    expect(blockReason("ssh/id_rsa")).toBe("symlink_escape");
+    expect(blockReason("ssh/new-file")).toBe("symlink_escape");
+    expect(blockReason("dangling.txt")).toBe("symlink_escape");
+  });
+
+  test("protects default paths for reads and writes", () => {
+    expect(blockReason(".git/config")).toBe("protected");
+    expect(blockReason(".env")).toBe("protected");
+    expect(blockReason("config/.env.local")).toBe("protected");
+  });
+
+  test("protects paths reached through a symlink", () => {
+    expect(blockReason("git-dir/HEAD")).toBe("protected");
+  });
+
+  test("uses the configured protected paths instead of the defaults", () => {
+    expect(blockReason(".env", ["secrets/**"])).toBeNull();
+    expect(blockReason("secrets/token", ["secrets/**"])).toBe("protected");
+  });
+
+  test("reports blocked paths before throwing", () => {
+    const blocked: PathAccessError[] = [];
+    expect(() => validatePath(workingDirectory, ".git/config", { onPathBlocked: (error) => blocked.push(error) })).toThrow(
+      PathAccessError
+    );
+    expect(blocked).toHaveLength(1);
+    expect(blocked[0]!.path).toBe(".git/config");
+  });
+});
+
+describe("executeSearchFiles", () => {
+  test("skips symlinks that escape the working directory", async () => {
+    // git ls-files lists symlinks as files, unlike the glob used outside repositories
+    const repository = path.join(root, "repository");
+    mkdirSync(repository);
+    await Bun.$`git init -q`.cwd(repository);
+    writeFileSync(path.join(repository, "notes.txt"), "no secret here\n");
+    symlinkSync(path.join(outside, "id_rsa"), path.join(repository, "creds"));
+
+    const result = await executeSearchFiles(repository, { query: "secret" });
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("notes.txt:1: no secret here");
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for verifying an execution's changes with the project's commands before completeTask
+ * takes effect. The runs are stored, so the database is swapped for a migrated in-memory one.
+ */
+import { describe, test, expect, beforeAll, mock } from "bun:test";
+import { Database } from "bun:sqlite";
+import { drizzle } from "drizzle-orm/bun-sqlite";
+import { migrate } from "drizzle-orm/bun-sqlite/migrator";
+import { join } from "path";
+import { tmpdir } from "os";
+import { DEFAULT_TOOL_APPROVAL_SETTINGS, type VerificationRun } from "@open-dev/shared";
+import * as schema from "../db/schema";
+import { createAgentTools } from "../ai/agent-tools";
+
+const sqlite = new Database(":memory:");
+const db = drizzle(sqlite, { schema });
+migrate(db, { migrationsFolder: join(import.meta.dir, "../db/migrations") });
+mock.module("../db", () => ({ db, schema, sqlite }));
+
+const { getNextVerificationAttempt, runVerification, formatVerificationFailure } = await import("../services/verification");
+
+const cwd = tmpdir();
+
+beforeAll(async () => {
+  await db.insert(schema.users).values({ id: "user-1", name: "User", email: "user@example.com", emailVerified: false });
+  await db.insert(schema.projects).values({ id: "project-1", name: "Project", userId: "user-1" });
+  await db.insert(schema.tasks).values({ id: "task-1", title: "Task", projectId: "project-1" });
+  for (const id of ["execution-1", "execution-2", "execution-3"]) {
+    await db.insert(schema.agentExecutions).values({ id, taskId: "task-1", projectId: "project-1" });
+  }
+});
+
+function failedRun(overrides: Partial<VerificationRun> = {}): VerificationRun {
+  return {
+    id: "run-1",
+    executionId: "execution-1",
+    attempt: 1,
+    command: "bun test",
+    success: false,
+    exitCode: 1,
+    output: "1 test failed\n",
+    durationMs: 1200,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe("runVerification", () => {
+  test("runs every command and stores the results when they pass", async () => {
+    const reported: string[] = [];
+    const runs = await runVerification("execution-1", cwd, ["echo lint ok", "echo tests ok"], 1, {
+      onRun: (run) => reported.push(run.command),
+    });
+
+    expect(runs.map((run) => [run.command, run.success, run.output])).toEqual([
+      ["echo lint ok", true, "lint ok\n"],
+      ["echo tests ok", true, "tests ok\n"],
+    ]);
+    expect(reported).toEqual(["echo lint ok", "echo tests ok"]);
+
+    const stored = await db.query.agentVerificationRuns.findMany({ where: (run, { eq }) => eq(run.executionId, "execution-1") });
+    expect(stored.map((run) => run.command).sort()).toEqual(["echo lint ok", "echo tests ok"]);
+  });
+
+  test("stops at the first failing command with its output and exit code", async () => {
+    const runs = await runVerification("execution-2", cwd, ["echo broken >&2; exit 3", "echo never"], 1);
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ success: false, exitCode: 3, output: "broken\n" });
+  });
+
+  test("notes a command killed for running too long", async () => {
+    const [run] = await runVerification("execution-3", cwd, ["sleep 5"], 1, { commandLimits: { timeoutSeconds: 0.2 } });
+
+    expect(run!.success).toBe(false);
+    expect(run!.output).toContain("timed out after 0.2s");
+  });
+});
+
+describe("getNextVerificationAttempt", () => {
+  test("starts at one and counts on from the stored runs", async () => {
+    expect(await getNextVerificationAttempt("execution-unknown")).toBe(1);
+
+    await runVerification("execution-2", cwd, ["true"], 2);
+    expect(await getNextVerificationAttempt("execution-2")).toBe(3);
+  });
+});
+
+describe("formatVerificationFailure", () => {
+  test("names the failing command with its output and the retries left", () => {
+    const text = formatVerificationFailure(failedRun(), 2);
+    expect(text).toContain("`bun test` exited with code 1");
+    expect(text).toContain("1 test failed");
+    expect(text).toContain("2 retries are left");
+    expect(formatVerificationFailure(failedRun(), 1)).toContain("1 retry is left");
+  });
+
+  test("handles commands that didn't exit or print anything", () => {
+    const text = formatVerificationFailure(failedRun({ exitCode: null, output: "" }), 0);
+    expect(text).toContain("`bun test` could not finish");
+    expect(text).toContain("(no output)");
+  });
+});
+
+describe("completeTask verification", () => {
+  const completeTask = async (onVerifyCompletion: () => Promise<string | null>, requireApproval = false) => {
+    const calls: string[] = [];
+    const unused = async () => "";
+    const tools = createAgentTools({
+      onReadFile: unused,
+      onListDirectory: unused,
+      onSearchFiles: unused,
+      onWriteFile: unused,
+      onEditFile: unused,
+      onDeleteFile: unused,
+      onApplyPatch: unused,
+      onExecuteCommand: unused,
+      onStartProcess: unused,
+      onReadProcessOutput: unused,
+      onStopProcess: unused,
+      onAskQuestion: unused,
+      onCompleteTask: async () => {
+        calls.push("complete");
+        return "Task moved to validation";
+      },
+      onProposeAction: async (actionType) => {
+        calls.push(`propose ${actionType}`);
+      },
+      onVerifyCompletion,
+      approvalSettings: { ...DEFAULT_TOOL_APPROVAL_SETTINGS, completeTask: requireApproval },
+    });
+    const output = await tools.completeTask!.execute!({ summary: "Done" }, { toolCallId: "call-1", messages: [] });
+    return { output, calls };
+  };
+
+  test("hands a verification failure back to the model without completing", async () => {
+    const { output, calls } = await completeTask(async () => "Error: verification failed");
+    expect(output).toBe("Error: verification failed");
+    expect(calls).toEqual([]);
+  });
+
+  test("completes once verification passes", async () => {
+    const { output, calls } = await completeTask(async () => null);
+    expect(output).toBe("Task moved to validation");
+    expect(calls).toEqual(["complete"]);
+  });
+
+  test("proposes completion once verification passes when it needs approval", async () => {
+    const { calls } = await completeTask(async () => null, true);
+    expect(calls).toEqual(["propose completeTask"]);
+  });
+});
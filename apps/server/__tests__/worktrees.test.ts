@@ -0,0 +1,36 @@
+/**
+ * Unit tests for reading the diff of an execution's worktree
+ */
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync, realpathSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { GIT_IDENTITY } from "../services/checkpoints";
+import { getWorktreeDiff } from "../services/worktrees";
+
+let repository: string;
+let baseCommit: string;
+
+beforeAll(async () => {
+  repository = realpathSync(mkdtempSync(path.join(tmpdir(), "worktrees-")));
+  writeFileSync(path.join(repository, "index.ts"), "original\n");
+  await Bun.$`git init -q && git add -A && git commit -q -m base`.cwd(repository).env({ ...process.env, ...GIT_IDENTITY });
+  baseCommit = (await Bun.$`git rev-parse HEAD`.cwd(repository).text()).trim();
+});
+
+afterAll(() => {
+  rmSync(repository, { recursive: true, force: true });
+});
+
+describe("getWorktreeDiff", () => {
+  test("includes changed and untracked files without staging anything", async () => {
+    writeFileSync(path.join(repository, "index.ts"), "changed\n");
+    writeFileSync(path.join(repository, "new.ts"), "created\n");
+
+    const diff = await getWorktreeDiff(repository, repository, "open-dev/execution", baseCommit, "active");
+
+    expect(diff).toContain("+changed");
+    expect(diff).toContain("+++ b/new.ts");
+    expect(await Bun.$`git status --porcelain`.cwd(repository).text()).toBe(" M index.ts\n?? new.ts\n");
+  });
+});
@@ -1,40 +1,261 @@
 import { $ } from "bun";
 import * as path from "path";
+import * as os from "os";
+import { mkdtemp, rm, unlink } from "fs/promises";
+import { lstatSync, readlinkSync, realpathSync } from "fs";
+import {
+  DEFAULT_PROTECTED_PATHS,
+  type CommandOutputChunk,
+  type NetworkAccess,
+  type PathApprovalRule,
+  type PathBlockReason,
+} from "@open-dev/shared";
 import type { ActionParams } from "./agent-tools";
+import { runCommand, NetworkIsolationError, type CommandRunOptions } from "./command-runner";
+import { parseUnifiedDiff, applyHunks, formatPatchReport, type FilePatchResult } from "./patch";
+import { findDeniedPathRule, findProtectedPathPattern, formatDeniedPathError, formatProtectedPathError } from "./path-rules";
+import { DEFAULT_IGNORE_PATTERNS, matchesIgnorePattern } from "../services/file-watcher";
+import { startProcess, readProcessOutput, stopProcess } from "../services/process-manager";
 
 export interface ExecutionResult {
   success: boolean;
   output?: string;
   error?: string;
+  // Set by executeCommand so the stored action result shows how the command was isolated
+  networkAccess?: NetworkAccess;
 }
 
-// Validate that a path stays within the working directory
-export function validatePath(workingDirectory: string, relativePath: string): string {
+export class PathAccessError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly reason: PathBlockReason,
+    message: string
+  ) {
+    super(message);
+    this.name = "PathAccessError";
+  }
+}
+
+export interface PathAccessOptions {
+  // The project's path rules; deny rules block reads as well as changes
+  pathRules?: PathApprovalRule[];
+  // Globs no tool may read or change, DEFAULT_PROTECTED_PATHS when omitted
+  protectedPaths?: string[];
+  // Called before a PathAccessError is thrown, e.g. to add an audit entry to the execution log
+  onPathBlocked?: (error: PathAccessError) => void;
+}
+
+export interface ExecuteOptions extends PathAccessOptions {
+  // Aborting kills a running command
+  signal?: AbortSignal;
+  // Timeout, output cap, environment and resource limits for executeCommand
+  commandLimits?: Omit<CommandRunOptions, "cwd" | "signal" | "onOutput">;
+  // Receives executeCommand output line by line while the command runs
+  onCommandOutput?: (chunk: CommandOutputChunk) => void;
+  // Owner of the background processes startProcess starts and the other process tools act on
+  executionId?: string;
+}
+
+// Output kept per background process when the sandbox doesn't cap command output
+const DEFAULT_PROCESS_OUTPUT_CHARS = 1024 * 1024;
+
+// Symlinks followed before giving up, matching the usual kernel limit
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Resolve symlinks in a path that may not exist yet. The nearest existing ancestor is resolved
+ * with realpath and the missing part appended, so a new file is checked where it would be created.
+ * Dangling symlinks are followed by hand, since writing through one creates its target.
+ */
+export function resolveRealPath(absolutePath: string, depth = 0): string {
+  let existing = absolutePath;
+  const missing: string[] = [];
+  while (!lstatSync(existing, { throwIfNoEntry: false })) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    missing.unshift(path.basename(existing));
+    existing = parent;
+  }
+
+  try {
+    return path.join(realpathSync(existing), ...missing);
+  } catch {
+    if (depth >= MAX_SYMLINK_DEPTH) {
+      throw new Error(`Too many levels of symbolic links resolving ${absolutePath}`);
+    }
+    const target = path.resolve(path.dirname(existing), readlinkSync(existing));
+    return resolveRealPath(path.join(target, ...missing), depth + 1);
+  }
+}
+
+function isWithin(directory: string, target: string): boolean {
+  return target === directory || target.startsWith(directory + path.sep);
+}
+
+/**
+ * Validate that a path stays within the working directory once symlinks are resolved, and that
+ * it isn't protected or blocked by a deny rule. Returns the absolute path.
+ */
+export function validatePath(workingDirectory: string, relativePath: string, options: PathAccessOptions = {}): string {
+  const block = (reason: PathBlockReason, message: string): never => {
+    const error = new PathAccessError(relativePath, reason, message);
+    options.onPathBlocked?.(error);
+    throw error;
+  };
+
   const absolutePath = path.resolve(workingDirectory, relativePath);
   const normalizedWorkingDir = path.resolve(workingDirectory);
 
-  if (!absolutePath.startsWith(normalizedWorkingDir + path.sep) && absolutePath !== normalizedWorkingDir) {
-    throw new Error(`Path "${relativePath}" is outside the working directory`);
+  if (!isWithin(normalizedWorkingDir, absolutePath)) {
+    block("outside_working_directory", `Path "${relativePath}" is outside the working directory`);
+  }
+
+  const realWorkingDir = resolveRealPath(normalizedWorkingDir);
+  const realPath = resolveRealPath(absolutePath);
+  if (!isWithin(realWorkingDir, realPath)) {
+    block("symlink_escape", `Path "${relativePath}" resolves through a symlink to outside the working directory`);
+  }
+
+  // Check both the path as given and where it really points, so a link to .git/ is protected too
+  const candidates = [...new Set([path.relative(normalizedWorkingDir, absolutePath), path.relative(realWorkingDir, realPath)])];
+  for (const candidate of candidates) {
+    const protectedBy = findProtectedPathPattern(candidate, options.protectedPaths ?? DEFAULT_PROTECTED_PATHS);
+    if (protectedBy) {
+      block("protected", formatProtectedPathError(relativePath, protectedBy));
+    }
+
+    const deniedBy = findDeniedPathRule(candidate, options.pathRules);
+    if (deniedBy) {
+      block("denied_by_rule", formatDeniedPathError(relativePath, deniedBy));
+    }
   }
 
   return absolutePath;
 }
 
-// Read a file
+// How much of a file readFile returns at once, the model can page through the rest by line range
+const MAX_READ_LINES = 1000;
+const MAX_READ_CHARS = 60_000;
+// Longer lines, such as those of minified bundles, are cut so every read makes progress
+const MAX_READ_LINE_CHARS = 2000;
+
+// Bytes sniffed for a NUL byte to tell binary files from text
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface FileLineRange {
+  // 1-based and inclusive, open-ended when omitted
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface FileLines {
+  binary: boolean;
+  size: number;
+  type: string;
+  totalLines: number;
+  // The range actually returned, clamped to the file
+  startLine: number;
+  endLine: number;
+  lines: string[];
+  // The whole decoded file, empty for binary files
+  text: string;
+}
+
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Read a range of lines from a file. Binary files come back with their metadata and no lines.
+ */
+export async function readFileLines(absolutePath: string, range: FileLineRange = {}): Promise<FileLines> {
+  const file = Bun.file(absolutePath);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (isBinaryContent(bytes)) {
+    return { binary: true, size: bytes.length, type: file.type, totalLines: 0, startLine: 0, endLine: 0, lines: [], text: "" };
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  const allLines = text === "" ? [] : text.replace(/\r?\n$/, "").split(/\r?\n/);
+  const startLine = Math.max(1, range.startLine ?? 1);
+  const endLine = Math.min(allLines.length, range.endLine ?? allLines.length);
+
+  return {
+    binary: false,
+    size: bytes.length,
+    type: file.type,
+    totalLines: allLines.length,
+    startLine,
+    endLine,
+    lines: startLine <= endLine ? allLines.slice(startLine - 1, endLine) : [],
+    text,
+  };
+}
+
+// Read a file, numbering each line and capping the amount returned
 export async function executeReadFile(
   workingDirectory: string,
-  params: ActionParams["readFile"]
+  params: ActionParams["readFile"],
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
   try {
-    const absolutePath = validatePath(workingDirectory, params.path);
+    const absolutePath = validatePath(workingDirectory, params.path, options);
     const file = Bun.file(absolutePath);
 
     if (!(await file.exists())) {
       return { success: false, error: `File not found: ${params.path}` };
     }
 
-    const content = await file.text();
-    return { success: true, output: content };
+    if (params.startLine && params.endLine && params.endLine < params.startLine) {
+      return { success: false, error: `endLine (${params.endLine}) is before startLine (${params.startLine})` };
+    }
+
+    const read = await readFileLines(absolutePath, params);
+
+    if (read.binary) {
+      return {
+        success: true,
+        output: `Binary file: ${params.path} (${read.size} bytes, ${read.type}). Its contents cannot be shown as text.`,
+      };
+    }
+
+    if (read.totalLines === 0) {
+      return { success: true, output: "(empty file)" };
+    }
+
+    if (read.lines.length === 0) {
+      return { success: true, output: `(no lines in range, the file has ${read.totalLines} lines)` };
+    }
+
+    const width = String(read.endLine).length;
+    const output: string[] = [];
+    let chars = 0;
+    let lastLine = read.startLine - 1;
+
+    for (const line of read.lines) {
+      const shown = line.length > MAX_READ_LINE_CHARS
+        ? `${line.slice(0, MAX_READ_LINE_CHARS)}... [line truncated, ${line.length - MAX_READ_LINE_CHARS} more characters]`
+        : line;
+      const numbered = `${String(lastLine + 1).padStart(width)}: ${shown}`;
+      if (output.length >= MAX_READ_LINES || chars + numbered.length > MAX_READ_CHARS) {
+        break;
+      }
+      output.push(numbered);
+      chars += numbered.length + 1;
+      lastLine++;
+    }
+
+    const remaining = read.totalLines - lastLine;
+    if (lastLine < read.endLine) {
+      output.push(
+        `... (truncated, ${remaining} more lines. Read from startLine ${lastLine + 1} to continue)`
+      );
+    } else if (remaining > 0) {
+      output.push(`... (${remaining} more lines after line ${lastLine})`);
+    }
+
+    return { success: true, output: output.join("\n") };
   } catch (error) {
     return { success: false, error: String(error) };
   }
@@ -43,10 +264,11 @@ export async function executeReadFile(
 // List directory contents
 export async function executeListDirectory(
   workingDirectory: string,
-  params: ActionParams["listDirectory"]
+  params: ActionParams["listDirectory"],
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
   try {
-    const absolutePath = validatePath(workingDirectory, params.path);
+    const absolutePath = validatePath(workingDirectory, params.path, options);
     const entries: string[] = [];
 
     const glob = new Bun.Glob("*");
@@ -79,13 +301,177 @@ export async function executeListDirectory(
   }
 }
 
+// Search limits, keep results small enough to fit in the model's context
+const DEFAULT_SEARCH_RESULTS = 50;
+const MAX_SEARCH_RESULTS = 500;
+const MAX_SEARCH_CONTEXT_LINES = 10;
+const MAX_SEARCH_FILE_SIZE = 1024 * 1024;
+const MAX_SEARCH_LINE_LENGTH = 300;
+
+/**
+ * List the files of a plain directory that its .gitignore files don't exclude, by listing it as
+ * the work tree of a throwaway repository. Null when git isn't available.
+ */
+async function listNotIgnoredFiles(directory: string): Promise<string[] | null> {
+  const gitDir = await mkdtemp(path.join(os.tmpdir(), "open-dev-search-"));
+  try {
+    const init = await $`git init -q --bare ${gitDir}`.quiet().nothrow();
+    if (init.exitCode !== 0) return null;
+
+    const listed = await $`git --git-dir=${gitDir} --work-tree=${directory} ls-files -z --others --exclude-standard`
+      .cwd(directory)
+      .quiet()
+      .nothrow();
+    return listed.exitCode === 0 ? listed.stdout.toString().split("\0").filter(Boolean) : null;
+  } finally {
+    await rm(gitDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * List the files under a directory that a search should look at. .gitignore is respected, through
+ * `git ls-files` in repositories and plain directories alike; the file watcher's ignore patterns
+ * always apply.
+ */
+async function listSearchableFiles(directory: string): Promise<string[]> {
+  let files: string[] | null;
+
+  const gitFiles = await $`git ls-files -z --cached --others --exclude-standard`.cwd(directory).quiet().nothrow();
+  if (gitFiles.exitCode === 0) {
+    files = gitFiles.stdout.toString().split("\0").filter(Boolean);
+  } else {
+    files = await listNotIgnoredFiles(directory);
+  }
+
+  if (!files) {
+    files = [];
+    const glob = new Bun.Glob("**/*");
+    for await (const entry of glob.scan({ cwd: directory, onlyFiles: true, dot: true })) {
+      files.push(entry);
+    }
+  }
+
+  return files.filter((file) => !matchesIgnorePattern(file, DEFAULT_IGNORE_PATTERNS)).sort();
+}
+
+function truncateLine(line: string): string {
+  return line.length > MAX_SEARCH_LINE_LENGTH ? `${line.slice(0, MAX_SEARCH_LINE_LENGTH)}...` : line;
+}
+
+// Search file contents for a literal string or regular expression
+export async function executeSearchFiles(
+  workingDirectory: string,
+  params: ActionParams["searchFiles"],
+  options: ExecuteOptions = {}
+): Promise<ExecutionResult> {
+  try {
+    let pattern: RegExp;
+    try {
+      const source = params.regex ? params.query : params.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      pattern = new RegExp(source);
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+
+    const maxResults = Math.min(Math.max(1, params.maxResults ?? DEFAULT_SEARCH_RESULTS), MAX_SEARCH_RESULTS);
+    const contextLines = Math.min(Math.max(0, params.contextLines ?? 0), MAX_SEARCH_CONTEXT_LINES);
+    const include = params.include?.map((glob) => new Bun.Glob(glob));
+    const exclude = params.exclude?.map((glob) => new Bun.Glob(glob));
+
+    const output: string[] = [];
+    let matchCount = 0;
+    let truncated = false;
+
+    for (const relativePath of await listSearchableFiles(workingDirectory)) {
+      if (include?.length && !include.some((glob) => glob.match(relativePath))) continue;
+      if (exclude?.some((glob) => glob.match(relativePath))) continue;
+      // Skip blocked files, including symlinks out of the working directory, quietly rather than
+      // auditing every protected file in the tree
+      let absolutePath: string;
+      try {
+        absolutePath = validatePath(workingDirectory, relativePath, {
+          protectedPaths: options.protectedPaths,
+          pathRules: options.pathRules,
+        });
+      } catch {
+        continue;
+      }
+
+      const handle = Bun.file(absolutePath);
+      if (handle.size > MAX_SEARCH_FILE_SIZE) continue;
+
+      let bytes: Uint8Array;
+      try {
+        bytes = new Uint8Array(await handle.arrayBuffer());
+      } catch {
+        // Dangling symlinks and files removed since they were listed
+        continue;
+      }
+      if (isBinaryContent(bytes)) continue;
+
+      const lines = new TextDecoder().decode(bytes).split(/\r?\n/);
+      let lastPrinted = -1;
+
+      for (let i = 0; i < lines.length; i++) {
+        if (!pattern.test(lines[i]!)) continue;
+
+        if (matchCount >= maxResults) {
+          truncated = true;
+          break;
+        }
+        matchCount++;
+
+        // Context before the match, without repeating lines already shown
+        const start = Math.max(lastPrinted + 1, i - contextLines);
+        if (contextLines > 0 && lastPrinted >= 0 && start > lastPrinted + 1) {
+          output.push("--");
+        }
+        for (let j = start; j < i; j++) {
+          output.push(`${relativePath}-${j + 1}- ${truncateLine(lines[j]!)}`);
+        }
+
+        output.push(`${relativePath}:${i + 1}: ${truncateLine(lines[i]!)}`);
+        lastPrinted = i;
+
+        // Context after the match, stopping at the next match so it is printed as a match
+        const end = Math.min(lines.length - 1, i + contextLines);
+        for (let j = i + 1; j <= end && !pattern.test(lines[j]!); j++) {
+          output.push(`${relativePath}-${j + 1}- ${truncateLine(lines[j]!)}`);
+          lastPrinted = j;
+        }
+      }
+
+      if (truncated) break;
+      if (contextLines > 0 && lastPrinted >= 0) {
+        output.push("--");
+      }
+    }
+
+    if (matchCount === 0) {
+      return { success: true, output: `No matches for "${params.query}"` };
+    }
+
+    if (output[output.length - 1] === "--") {
+      output.pop();
+    }
+    if (truncated) {
+      output.push(`(stopped after ${maxResults} matches, narrow the search to see more)`);
+    }
+
+    return { success: true, output: output.join("\n") };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
 // Write a file
 export async function executeWriteFile(
   workingDirectory: string,
-  params: ActionParams["writeFile"]
+  params: ActionParams["writeFile"],
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
   try {
-    const absolutePath = validatePath(workingDirectory, params.path);
+    const absolutePath = validatePath(workingDirectory, params.path, options);
 
     // Ensure parent directory exists
     const parentDir = path.dirname(absolutePath);
@@ -101,10 +487,11 @@ export async function executeWriteFile(
 // Edit a file (search and replace)
 export async function executeEditFile(
   workingDirectory: string,
-  params: ActionParams["editFile"]
+  params: ActionParams["editFile"],
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
   try {
-    const absolutePath = validatePath(workingDirectory, params.path);
+    const absolutePath = validatePath(workingDirectory, params.path, options);
     const file = Bun.file(absolutePath);
 
     if (!(await file.exists())) {
@@ -126,13 +513,125 @@ export async function executeEditFile(
   }
 }
 
+/**
+ * Work out what a unified diff would do to each file without writing anything.
+ * Used both to preview a proposed patch and to validate it before applying.
+ */
+export async function previewPatch(
+  workingDirectory: string,
+  patch: string,
+  access: PathAccessOptions = {}
+): Promise<FilePatchResult[]> {
+  const filePatches = parseUnifiedDiff(patch);
+  if (filePatches.length === 0) {
+    throw new Error("No file changes found, the patch must be a unified diff with ---/+++ headers and @@ hunks");
+  }
+
+  const results: FilePatchResult[] = [];
+  for (const filePatch of filePatches) {
+    const sourcePath = filePatch.oldPath ?? filePatch.newPath!;
+    const targetPath = filePatch.newPath ?? filePatch.oldPath!;
+    const operation = filePatch.oldPath === null ? "create" : filePatch.newPath === null ? "delete" : "modify";
+    const renamedFrom = operation === "modify" && sourcePath !== targetPath ? sourcePath : undefined;
+
+    const result: FilePatchResult = {
+      path: targetPath,
+      oldPath: renamedFrom,
+      operation,
+      originalContent: "",
+      newContent: "",
+      hunks: [],
+    };
+    results.push(result);
+
+    const target = Bun.file(validatePath(workingDirectory, targetPath, access));
+    const source = Bun.file(validatePath(workingDirectory, sourcePath, access));
+    const exists = await source.exists();
+
+    if ((operation === "create" && exists) || (renamedFrom && (await target.exists()))) {
+      result.error = "File already exists";
+      continue;
+    }
+    if (operation !== "create" && !exists) {
+      result.error = "File not found";
+      continue;
+    }
+
+    result.originalContent = exists ? await source.text() : "";
+    if (operation === "delete") {
+      continue;
+    }
+
+    const applied = applyHunks(result.originalContent, filePatch.hunks);
+    result.newContent = applied.content;
+    result.hunks = applied.results;
+  }
+
+  return results;
+}
+
+// Apply a unified diff. Nothing is written unless every hunk of every file applies.
+export async function executeApplyPatch(
+  workingDirectory: string,
+  params: ActionParams["applyPatch"],
+  options: ExecuteOptions = {}
+): Promise<ExecutionResult> {
+  let results: FilePatchResult[];
+  try {
+    results = await previewPatch(workingDirectory, params.patch, options);
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+
+  const report = formatPatchReport(results);
+  if (results.some((file) => file.error || file.hunks.some((hunk) => !hunk.applied))) {
+    return { success: false, error: `Patch not applied, no files were changed.\n${report}` };
+  }
+
+  // Remember what was there so a failed write can put everything back
+  const originals: Array<{ path: string; content: string | null }> = [];
+  try {
+    for (const file of results) {
+      const target = validatePath(workingDirectory, file.path, options);
+      const isNewFile = file.operation === "create" || file.oldPath !== undefined;
+      originals.push({ path: target, content: isNewFile ? null : file.originalContent });
+
+      if (file.operation === "delete") {
+        await unlink(target);
+        continue;
+      }
+
+      await $`mkdir -p ${path.dirname(target)}`.quiet();
+      await Bun.write(target, file.newContent);
+
+      if (file.oldPath) {
+        const source = validatePath(workingDirectory, file.oldPath, options);
+        originals.push({ path: source, content: file.originalContent });
+        await unlink(source);
+      }
+    }
+  } catch (error) {
+    for (const original of originals.reverse()) {
+      if (original.content === null) {
+        await unlink(original.path).catch(() => {});
+      } else {
+        await Bun.write(original.path, original.content).catch(() => 0);
+      }
+    }
+    return { success: false, error: `Patch rolled back after a write failed: ${String(error)}` };
+  }
+
+  return { success: true, output: report };
+}
+
 // Delete a file
 export async function executeDeleteFile(
   workingDirectory: string,
-  params: ActionParams["deleteFile"]
+  params: ActionParams["deleteFile"],
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
   try {
-    const absolutePath = validatePath(workingDirectory, params.path);
+    const absolutePath = validatePath(workingDirectory, params.path, options);
     const file = Bun.file(absolutePath);
 
     if (!(await file.exists())) {
@@ -146,29 +645,109 @@ export async function executeDeleteFile(
   }
 }
 
-// Execute a shell command
+// Execute a shell command. Aborting the signal kills the command and everything it spawned.
 export async function executeCommand(
   workingDirectory: string,
-  params: ActionParams["executeCommand"]
+  params: ActionParams["executeCommand"],
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
+  const { signal, commandLimits, onCommandOutput } = options;
+  const networkAccess = commandLimits?.networkAccess ?? "full";
   try {
-    // Use Bun shell with the working directory set
-    const result = await $`cd ${workingDirectory} && ${params.command}`.quiet().nothrow();
+    const result = await runCommand(params.command, {
+      ...commandLimits,
+      cwd: workingDirectory,
+      signal,
+      onOutput: onCommandOutput,
+    });
+    const note = result.truncated ? "\n(output truncated to the first and last bytes)" : "";
 
-    const stdout = result.stdout.toString();
-    const stderr = result.stderr.toString();
+    if (result.cancelled) {
+      return { success: false, error: "Command cancelled", output: result.stdout, networkAccess };
+    }
+
+    if (result.timedOut) {
+      return {
+        success: false,
+        error: `Command timed out after ${commandLimits?.timeoutSeconds}s and was killed${result.stderr ? `\n${result.stderr}` : ""}`,
+        output: result.stdout + note,
+        networkAccess,
+      };
+    }
 
     if (result.exitCode !== 0) {
       return {
         success: false,
-        error: stderr || `Command exited with code ${result.exitCode}`,
-        output: stdout,
+        error: (result.stderr || `Command exited with code ${result.exitCode}`) + note,
+        output: result.stdout,
+        networkAccess,
       };
     }
 
-    return { success: true, output: stdout || "(no output)" };
+    return { success: true, output: (result.stdout || "(no output)") + note, networkAccess };
   } catch (error) {
-    return { success: false, error: String(error) };
+    if (error instanceof NetworkIsolationError) {
+      return { success: false, error: error.message, networkAccess };
+    }
+    return { success: false, error: String(error), networkAccess };
+  }
+}
+
+// Start a background process owned by the execution, counted like a command by the caller
+export async function executeStartProcess(
+  workingDirectory: string,
+  params: ActionParams["startProcess"],
+  options: ExecuteOptions = {}
+): Promise<ExecutionResult> {
+  const { executionId, commandLimits } = options;
+  const networkAccess = commandLimits?.networkAccess ?? "full";
+  if (!executionId) {
+    return { success: false, error: "Background processes need an execution to belong to" };
+  }
+  try {
+    const info = startProcess(executionId, params.command, {
+      ...commandLimits,
+      cwd: workingDirectory,
+      maxOutputChars: commandLimits?.maxOutputBytes || DEFAULT_PROCESS_OUTPUT_CHARS,
+    });
+    return {
+      success: true,
+      output: `Started process ${info.id} (pid ${info.pid}). Use readProcessOutput with processId "${info.id}" to see its output.`,
+      networkAccess,
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error), networkAccess };
+  }
+}
+
+export async function executeReadProcessOutput(
+  _workingDirectory: string,
+  params: ActionParams["readProcessOutput"],
+  options: ExecuteOptions = {}
+): Promise<ExecutionResult> {
+  try {
+    const result = await readProcessOutput(options.executionId ?? "", params.processId, (params.waitSeconds ?? 0) * 1000);
+    const state = result.exitCode === null ? "is running" : `exited with code ${result.exitCode}`;
+    const dropped = result.droppedChars > 0 ? `\n(${result.droppedChars} earlier characters were dropped)` : "";
+    return {
+      success: true,
+      output: `Process ${result.id} ${state}.${dropped}\n${result.output || "(no new output)"}`,
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function executeStopProcess(
+  _workingDirectory: string,
+  params: ActionParams["stopProcess"],
+  options: ExecuteOptions = {}
+): Promise<ExecutionResult> {
+  try {
+    const info = await stopProcess(options.executionId ?? "", params.processId);
+    return { success: true, output: `Process ${info.id} stopped (exit code ${info.exitCode})` };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
 }
 
@@ -176,21 +755,32 @@ export async function executeCommand(
 export async function executeAction(
   workingDirectory: string,
   actionType: string,
-  params: unknown
+  params: unknown,
+  options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
   switch (actionType) {
     case "readFile":
-      return executeReadFile(workingDirectory, params as ActionParams["readFile"]);
+      return executeReadFile(workingDirectory, params as ActionParams["readFile"], options);
     case "listDirectory":
-      return executeListDirectory(workingDirectory, params as ActionParams["listDirectory"]);
+      return executeListDirectory(workingDirectory, params as ActionParams["listDirectory"], options);
+    case "searchFiles":
+      return executeSearchFiles(workingDirectory, params as ActionParams["searchFiles"], options);
     case "writeFile":
-      return executeWriteFile(workingDirectory, params as ActionParams["writeFile"]);
+      return executeWriteFile(workingDirectory, params as ActionParams["writeFile"], options);
     case "editFile":
-      return executeEditFile(workingDirectory, params as ActionParams["editFile"]);
+      return executeEditFile(workingDirectory, params as ActionParams["editFile"], options);
     case "deleteFile":
-      return executeDeleteFile(workingDirectory, params as ActionParams["deleteFile"]);
+      return executeDeleteFile(workingDirectory, params as ActionParams["deleteFile"], options);
+    case "applyPatch":
+      return executeApplyPatch(workingDirectory, params as ActionParams["applyPatch"], options);
     case "executeCommand":
-      return executeCommand(workingDirectory, params as ActionParams["executeCommand"]);
+      return executeCommand(workingDirectory, params as ActionParams["executeCommand"], options);
+    case "startProcess":
+      return executeStartProcess(workingDirectory, params as ActionParams["startProcess"], options);
+    case "readProcessOutput":
+      return executeReadProcessOutput(workingDirectory, params as ActionParams["readProcessOutput"], options);
+    case "stopProcess":
+      return executeStopProcess(workingDirectory, params as ActionParams["stopProcess"], options);
     case "completeTask":
       // completeTask doesn't execute anything, just marks as complete
       return { success: true, output: "Task marked as complete" };
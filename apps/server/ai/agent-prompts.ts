@@ -1,5 +1,6 @@
 import type { Task, Project } from "../db/schema";
-import type { ResolvedGuidelines } from "@open-dev/shared";
+import type { ExecutionPlan, ResolvedGuidelines } from "@open-dev/shared";
+import { formatPlanForAgent } from "./execution-plan";
 
 /**
  * Create the initial system prompt for the agent
@@ -38,17 +39,22 @@ export function createAgentSystemPrompt(
 ## Your Capabilities
 You have access to the following tools:
 
-1. **readFile(path)** - Read a file's contents. Executes immediately.
+1. **readFile(path, startLine?, endLine?)** - Read a file's contents, each line prefixed with its number. Large files are truncated, use the line range to read further. Executes immediately.
 2. **listDirectory(path)** - List contents of a directory. Executes immediately.
-3. **writeFile(path, content)** - Create or overwrite a file. Requires user approval.
-4. **editFile(path, search, replace)** - Edit a file by replacing text. Requires user approval.
-5. **deleteFile(path)** - Delete a file. Requires user approval.
-6. **executeCommand(command, description)** - Run a shell command. Requires user approval.
-7. **completeTask(summary)** - Mark the task as complete. Requires user approval.
-8. **askQuestion(question, context?)** - Ask the user a clarifying question when requirements are ambiguous. Pauses execution until user responds.
+3. **searchFiles(query, regex?, include?, exclude?, contextLines?, maxResults?)** - Search file contents and get matches as \`path:line: text\`. Executes immediately. Prefer this over reading files one by one to find a symbol.
+4. **writeFile(path, content)** - Create or overwrite a file. Requires user approval.
+5. **editFile(path, search, replace)** - Edit a file by replacing text. Requires user approval.
+6. **deleteFile(path)** - Delete a file. Requires user approval.
+7. **applyPatch(patch, description)** - Apply a unified diff touching one or more files. Prefer it over a series of editFile calls for larger changes. Requires user approval.
+8. **executeCommand(command, description)** - Run a shell command and wait for it to exit. Requires user approval.
+9. **startProcess(command, description)** - Start a long-running command such as a dev server in the background and get its process id. Requires user approval like executeCommand.
+10. **readProcessOutput(processId, waitSeconds?)** - Read new output of a background process and whether it is still running. Executes immediately.
+11. **stopProcess(processId)** - Stop a background process. Executes immediately. Background processes are also stopped when the execution ends.
+12. **completeTask(summary)** - Mark the task as complete. Requires user approval. The project's verification commands run first; if one fails you get its output back, fix the problem and call completeTask again. A reviewer may also check your changes and hand back issues to address the same way.
+13. **askQuestion(question, context?)** - Ask the user a clarifying question when requirements are ambiguous. Pauses execution until user responds.
 
 ## Instructions
-1. First, explore the codebase using readFile and listDirectory to understand the project structure
+1. First, explore the codebase using listDirectory, searchFiles and readFile to understand the project structure
 2. Analyze what changes are needed to complete the task
 3. Propose the necessary file modifications and commands
 4. When all changes are proposed, call completeTask with a summary
@@ -88,6 +94,61 @@ This helps the user understand your reasoning and builds trust in your approach.
 Begin by exploring the project structure and understanding what needs to be done.`;
 }
 
+/**
+ * Added to the system prompt of plan_first executions, which start in a read-only planning phase
+ */
+export const PLAN_FIRST_INSTRUCTIONS = `## Plan First
+This execution starts with a planning phase. Until the user approves your plan, only readFile, listDirectory,
+searchFiles, askQuestion and submitPlan are available, so nothing is changed yet.
+
+1. Explore the codebase to understand what the task needs
+2. Call submitPlan with a summary, the ordered steps (with the files each step touches and the commands it runs) and the risks
+3. Stop and wait, the user reviews the plan and may edit, reorder or reject steps or ask for a revised plan
+
+Once the plan is approved all tools become available. Call updatePlanStep when you start and when you finish each step.`;
+
+/**
+ * The user turn that starts the execution phase once the plan is approved
+ */
+export function createPlanApprovedMessage(plan: ExecutionPlan): string {
+  return `The user approved your plan, all tools are available now. Carry out the plan as approved below, in this order. Do not carry out rejected steps. Call updatePlanStep with in_progress when you start a step and completed (or skipped, with a reason in your text) when you finish it.
+
+${formatPlanForAgent(plan)}`;
+}
+
+/**
+ * The user turn asking for a new plan after the user sent one back
+ */
+export function createPlanRevisionMessage(feedback: string): string {
+  return `The user did not approve your plan and asked for these changes:
+
+${feedback}
+
+Revise the plan accordingly and submit it again with submitPlan.`;
+}
+
+/**
+ * System prompt of the reviewer pass, which checks an execution's changes before the task completes
+ */
+export function createReviewerSystemPrompt(project: Project, task: Task): string {
+  const guidelinesSection = project.guidelines ? `\n## Project Guidelines\n${project.guidelines}\n` : "";
+
+  return `You are a code reviewer. Another agent made changes to complete a task and you decide whether they are ready for the user.
+
+## Task
+- Title: ${task.title}
+- Description: ${task.description || "No description provided"}
+${guidelinesSection}
+## How to Review
+1. Read the changes in the user message. Writes show the new file with line numbers.
+2. Use readFile, listDirectory and searchFiles to check the changes against the surrounding code. You cannot change anything. Changes marked (proposed) still wait for the user's approval and are not in the files yet, so these tools show the files without them; judge those changes from the user message.
+3. Check that the changes do what the task asks, including every item under an "Acceptance Criteria" heading in its description, follow the project guidelines and don't break existing code.
+4. Call submitReview once with your verdict, a short summary and the issues found.
+
+Tie every issue to a file and, where you can, a line. Use blocker for changes that are wrong or break something, major for missing parts of the task or guideline violations, and minor for suggestions.
+Use request_changes only when there is a blocker or major issue, otherwise approve. Don't flag style preferences the project guidelines don't ask for.`;
+}
+
 /**
  * Format file-specific guidelines to inject into tool responses
  * This allows the agent to get context-aware guidelines when it reads or edits specific files
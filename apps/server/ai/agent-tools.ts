@@ -1,6 +1,17 @@
-import { tool } from "ai";
+import { tool, type ToolSet } from "ai";
 import { z } from "zod/v4";
+import { DEFAULT_PROTECTED_PATHS, type CommandPolicyRule, type PathApprovalRule, type PathBlockReason } from "@open-dev/shared";
 import type { AgentAction } from "../db/schema";
+import { evaluateCommandPolicy } from "./command-policy";
+import {
+  evaluatePathRules,
+  findDeniedPathRule,
+  findProtectedPathPattern,
+  formatDeniedPathError,
+  formatProtectedPathError,
+} from "./path-rules";
+import { getPatchFilePaths } from "./patch";
+import { START_EDITING_TOOL } from "./model-routing";
 
 // Force reload timestamp: 2026-01-13
 
@@ -8,20 +19,28 @@ import type { AgentAction } from "../db/schema";
 export type ToolApprovalSettings = {
   readFile?: boolean;      // Default: false (immediate)
   listDirectory?: boolean; // Default: false (immediate)
+  searchFiles?: boolean;   // Default: false (immediate)
   writeFile?: boolean;     // Default: true (requires approval)
   editFile?: boolean;      // Default: true (requires approval)
   deleteFile?: boolean;    // Default: true (requires approval)
+  applyPatch?: boolean;    // Default: true (requires approval)
   executeCommand?: boolean; // Default: true (requires approval)
   completeTask?: boolean;  // Default: true (requires approval)
+  pathRules?: PathApprovalRule[]; // Ordered glob rules, checked before the file tool settings above
+  protectedPaths?: string[]; // Default: DEFAULT_PROTECTED_PATHS, never readable or writable
 };
 
+export type ToolApprovalKey = Exclude<keyof ToolApprovalSettings, "pathRules" | "protectedPaths">;
+
 // Default settings - write operations require approval, read operations don't
 export const DEFAULT_TOOL_APPROVAL_SETTINGS: ToolApprovalSettings = {
   readFile: false,
   listDirectory: false,
+  searchFiles: false,
   writeFile: true,
   editFile: true,
   deleteFile: true,
+  applyPatch: true,
   executeCommand: true,
   completeTask: true,
 };
@@ -32,12 +51,14 @@ export function requiresApproval(
   settings?: ToolApprovalSettings
 ): boolean {
   const effectiveSettings = { ...DEFAULT_TOOL_APPROVAL_SETTINGS, ...settings };
-  return effectiveSettings[actionType] ?? true;
+  return effectiveSettings[actionType as ToolApprovalKey] ?? true;
 }
 
 // Define Zod schemas for each tool
 const readFileSchema = z.object({
   path: z.string().describe("The path to the file to read, relative to the working directory"),
+  startLine: z.number().int().min(1).optional().describe("First line to read (1-based). Defaults to the start of the file"),
+  endLine: z.number().int().min(1).optional().describe("Last line to read (inclusive). Defaults to the end of the file"),
 });
 
 const writeFileSchema = z.object({
@@ -55,15 +76,43 @@ const deleteFileSchema = z.object({
   path: z.string().describe("The path to the file to delete, relative to the working directory"),
 });
 
+const applyPatchSchema = z.object({
+  patch: z.string().describe("A unified diff (as produced by `git diff` or `diff -u`) with ---/+++ file headers and @@ hunks. Use /dev/null as the old path to create a file or as the new path to delete one."),
+  description: z.string().describe("A brief description of what the patch changes"),
+});
+
 const listDirectorySchema = z.object({
   path: z.string().describe("The path to the directory to list, relative to the working directory"),
 });
 
+const searchFilesSchema = z.object({
+  query: z.string().describe("The text to search for in file contents"),
+  regex: z.boolean().optional().describe("Treat the query as a JavaScript regular expression instead of literal text"),
+  include: z.array(z.string()).optional().describe("Only search files matching these glob patterns, e.g. [\"src/**/*.ts\"]"),
+  exclude: z.array(z.string()).optional().describe("Skip files matching these glob patterns"),
+  contextLines: z.number().int().min(0).max(10).optional().describe("Number of lines to show before and after each match"),
+  maxResults: z.number().int().min(1).max(500).optional().describe("Maximum number of matches to return (default 50)"),
+});
+
 const executeCommandSchema = z.object({
   command: z.string().describe("The shell command to execute"),
   description: z.string().describe("A brief description of what this command does"),
 });
 
+const startProcessSchema = z.object({
+  command: z.string().describe("The long-running shell command to start, e.g. a dev server"),
+  description: z.string().describe("A brief description of what this process is for"),
+});
+
+const readProcessOutputSchema = z.object({
+  processId: z.string().describe("The id startProcess returned"),
+  waitSeconds: z.number().min(0).max(30).optional().describe("Wait up to this long for new output when there is none yet (default 0)"),
+});
+
+const stopProcessSchema = z.object({
+  processId: z.string().describe("The id startProcess returned"),
+});
+
 const completeTaskSchema = z.object({
   summary: z.string().describe("A summary of what was accomplished to complete the task"),
 });
@@ -73,12 +122,49 @@ const askQuestionSchema = z.object({
   context: z.string().optional().describe("Additional context about why this question is being asked"),
 });
 
+const submitPlanSchema = z.object({
+  summary: z.string().describe("What the plan achieves and the approach, in a few sentences"),
+  steps: z
+    .array(
+      z.object({
+        description: z.string().describe("What this step does"),
+        files: z.array(z.string()).optional().describe("Files the step creates, changes or deletes, relative to the working directory"),
+        commands: z.array(z.string()).optional().describe("Commands the step runs"),
+      })
+    )
+    .min(1)
+    .describe("The steps to carry out, in order"),
+  risks: z.array(z.string()).optional().describe("What could go wrong or needs the user's attention"),
+});
+
+const updatePlanStepSchema = z.object({
+  stepId: z.string().describe("The id of the plan step, e.g. s1"),
+  status: z.enum(["in_progress", "completed", "skipped"]).describe("in_progress when starting the step, completed or skipped when done with it"),
+});
+
+const submitReviewSchema = z.object({
+  verdict: z.enum(["approve", "request_changes"]).describe("approve when the changes complete the task, request_changes when something must be fixed first"),
+  summary: z.string().describe("The overall assessment of the changes in a few sentences"),
+  issues: z
+    .array(
+      z.object({
+        file: z.string().describe("The file the issue is in, relative to the working directory"),
+        line: z.number().int().min(1).optional().describe("The line the issue is on, omitted when it concerns the whole file"),
+        severity: z.enum(["blocker", "major", "minor"]).describe("blocker and major issues must be fixed, minor ones are suggestions"),
+        message: z.string().describe("What is wrong and how to fix it"),
+      })
+    )
+    .describe("The problems found, empty when there are none"),
+});
+
 // Action types that require approval
 export const REQUIRES_APPROVAL: AgentAction["actionType"][] = [
   "writeFile",
   "editFile",
   "deleteFile",
+  "applyPatch",
   "executeCommand",
+  "startProcess",
   "completeTask",
 ];
 
@@ -86,6 +172,9 @@ export const REQUIRES_APPROVAL: AgentAction["actionType"][] = [
 export const IMMEDIATE_EXECUTION: AgentAction["actionType"][] = [
   "readFile",
   "listDirectory",
+  "searchFiles",
+  "readProcessOutput",
+  "stopProcess",
 ];
 
 // Type for action parameters based on action type
@@ -94,34 +183,131 @@ export type ActionParams = {
   writeFile: z.infer<typeof writeFileSchema>;
   editFile: z.infer<typeof editFileSchema>;
   deleteFile: z.infer<typeof deleteFileSchema>;
+  applyPatch: z.infer<typeof applyPatchSchema>;
   listDirectory: z.infer<typeof listDirectorySchema>;
+  searchFiles: z.infer<typeof searchFilesSchema>;
   executeCommand: z.infer<typeof executeCommandSchema>;
+  startProcess: z.infer<typeof startProcessSchema>;
+  readProcessOutput: z.infer<typeof readProcessOutputSchema>;
+  stopProcess: z.infer<typeof stopProcessSchema>;
   completeTask: z.infer<typeof completeTaskSchema>;
   askQuestion: z.infer<typeof askQuestionSchema>;
 };
 
+// Parameters of the plan_first tools, which aren't recorded as actions
+export type PlanToolParams = {
+  submitPlan: z.infer<typeof submitPlanSchema>;
+  updatePlanStep: z.infer<typeof updatePlanStepSchema>;
+};
+
+export type SubmitReviewParams = z.infer<typeof submitReviewSchema>;
+
+const READ_FILE_OUTPUT_NOTE =
+  'Each line is prefixed with its line number and ": ", which is not part of the file. Long files are truncated, read the rest with startLine.';
+
 // Create tools for the AI agent
 export function createAgentTools(callbacks: {
   onReadFile: (params: ActionParams["readFile"]) => Promise<string>;
   onListDirectory: (params: ActionParams["listDirectory"]) => Promise<string>;
+  onSearchFiles: (params: ActionParams["searchFiles"]) => Promise<string>;
   onWriteFile: (params: ActionParams["writeFile"]) => Promise<string>;
   onEditFile: (params: ActionParams["editFile"]) => Promise<string>;
   onDeleteFile: (params: ActionParams["deleteFile"]) => Promise<string>;
+  onApplyPatch: (params: ActionParams["applyPatch"]) => Promise<string>;
   onExecuteCommand: (params: ActionParams["executeCommand"]) => Promise<string>;
+  onStartProcess: (params: ActionParams["startProcess"]) => Promise<string>;
+  onReadProcessOutput: (params: ActionParams["readProcessOutput"]) => Promise<string>;
+  onStopProcess: (params: ActionParams["stopProcess"]) => Promise<string>;
   onCompleteTask: (params: ActionParams["completeTask"]) => Promise<string>;
   onAskQuestion: (params: ActionParams["askQuestion"]) => Promise<string>;
   onProposeAction: (actionType: AgentAction["actionType"], params: unknown) => Promise<void>;
+  // Records an action the command policy or path rules denied, the error is returned to the model as the result.
+  // blocked is set when a protected or denied path was the reason.
+  onActionDenied?: (
+    actionType: AgentAction["actionType"],
+    params: unknown,
+    error: string,
+    blocked?: { path: string; reason: PathBlockReason }
+  ) => Promise<void>;
+  // plan_first executions: "planning" offers only read-only tools plus submitPlan, "executing"
+  // adds updatePlanStep to the usual tools once the plan is approved
+  planPhase?: "planning" | "executing";
+  onSubmitPlan?: (params: PlanToolParams["submitPlan"]) => Promise<string>;
+  onUpdatePlanStep?: (params: PlanToolParams["updatePlanStep"]) => Promise<string>;
+  // Runs the project's verification commands and reviewer pass before completeTask takes effect.
+  // Returns the failure or requested changes to hand back to the model, or null when completion can go ahead.
+  onVerifyCompletion?: (params: ActionParams["completeTask"]) => Promise<string | null>;
+  // Exploration and editing run on different models: exploration steps can only read, and the
+  // startEditing tool moves the agent on to editing
+  phasedModels?: boolean;
   approvalSettings?: ToolApprovalSettings;
-}) {
+  // Ordered per-project command rules, evaluated before the executeCommand approval setting
+  commandPolicy?: CommandPolicyRule[];
+}): ToolSet {
   const settings = callbacks.approvalSettings ?? DEFAULT_TOOL_APPROVAL_SETTINGS;
+  const hasCommandPolicy = (callbacks.commandPolicy?.length ?? 0) > 0;
+  const pathRulesNote = (settings.pathRules?.length ?? 0) > 0
+    ? " The project's path rules may allow, require approval for or block specific paths."
+    : "";
 
-  return {
+  // Protected paths and deny rules block every file tool, reads included
+  const deniedPathError = async (actionType: AgentAction["actionType"], params: unknown, paths: string[]) => {
+    for (const relativePath of paths) {
+      const protectedBy = findProtectedPathPattern(relativePath, settings.protectedPaths ?? DEFAULT_PROTECTED_PATHS);
+      const rule = protectedBy ? null : findDeniedPathRule(relativePath, settings.pathRules);
+      if (protectedBy || rule) {
+        const error = protectedBy
+          ? formatProtectedPathError(relativePath, protectedBy)
+          : formatDeniedPathError(relativePath, rule!);
+        await callbacks.onActionDenied?.(actionType, params, error, {
+          path: relativePath,
+          reason: protectedBy ? "protected" : "denied_by_rule",
+        });
+        return `Error: ${error}. Do not retry it, use a different approach.`;
+      }
+    }
+    return null;
+  };
+
+  // Path rules decide whether a file change needs approval before the tool's own setting does
+  const fileChangeNeedsApproval = (actionType: "writeFile" | "editFile" | "deleteFile" | "applyPatch", paths: string[]) => {
+    const decision = evaluatePathRules(paths, settings.pathRules);
+    return decision.action ? decision.action === "require_approval" : !!settings[actionType];
+  };
+
+  // The command policy applies to background processes like any other command
+  const deniedCommandError = async (actionType: "executeCommand" | "startProcess", params: { command: string }) => {
+    const decision = evaluateCommandPolicy(params.command, callbacks.commandPolicy);
+    if (decision.action !== "deny") return null;
+    const reason = decision.rule?.reason ? `: ${decision.rule.reason}` : "";
+    const error = `Command "${params.command}" is denied by the project's command policy${reason}`;
+    await callbacks.onActionDenied?.(actionType, params, error);
+    return `Error: ${error}. Do not retry it, use a different approach.`;
+  };
+
+  const commandNeedsApproval = (command: string) => {
+    const decision = evaluateCommandPolicy(command, callbacks.commandPolicy);
+    return decision.action ? decision.action === "require_approval" : !!settings.executeCommand;
+  };
+
+  const patchPaths = (patch: string) => {
+    try {
+      return getPatchFilePaths(patch);
+    } catch {
+      // Malformed patches are reported when they are applied
+      return [];
+    }
+  };
+
+  const tools = {
     readFile: tool({
       description: settings.readFile
-        ? "Read the contents of a file. This requires user approval."
-        : "Read the contents of a file. This executes immediately without approval.",
+        ? `Read the contents of a file, optionally only lines startLine to endLine. ${READ_FILE_OUTPUT_NOTE} This requires user approval.`
+        : `Read the contents of a file, optionally only lines startLine to endLine. ${READ_FILE_OUTPUT_NOTE} This executes immediately without approval.`,
       inputSchema: readFileSchema,
       execute: async (params) => {
+        const denied = await deniedPathError("readFile", params, [params.path]);
+        if (denied) return denied;
         if (settings.readFile) {
           await callbacks.onProposeAction("readFile", params);
           return `Proposed: Read file at ${params.path}. Waiting for user approval.`;
@@ -136,6 +322,8 @@ export function createAgentTools(callbacks: {
         : "List the contents of a directory. This executes immediately without approval.",
       inputSchema: listDirectorySchema,
       execute: async (params) => {
+        const denied = await deniedPathError("listDirectory", params, [params.path]);
+        if (denied) return denied;
         if (settings.listDirectory) {
           await callbacks.onProposeAction("listDirectory", params);
           return `Proposed: List directory at ${params.path}. Waiting for user approval.`;
@@ -144,13 +332,29 @@ export function createAgentTools(callbacks: {
       },
     }),
 
+    searchFiles: tool({
+      description: settings.searchFiles
+        ? "Search file contents for text or a regular expression, returning matches as path:line: text. Respects .gitignore. This requires user approval."
+        : "Search file contents for text or a regular expression, returning matches as path:line: text. Respects .gitignore. This executes immediately without approval.",
+      inputSchema: searchFilesSchema,
+      execute: async (params) => {
+        if (settings.searchFiles) {
+          await callbacks.onProposeAction("searchFiles", params);
+          return `Proposed: Search files for "${params.query}". Waiting for user approval.`;
+        }
+        return await callbacks.onSearchFiles(params);
+      },
+    }),
+
     writeFile: tool({
-      description: settings.writeFile
+      description: (settings.writeFile
         ? "Create or overwrite a file with new content. This requires user approval before execution."
-        : "Create or overwrite a file with new content. This executes immediately.",
+        : "Create or overwrite a file with new content. This executes immediately.") + pathRulesNote,
       inputSchema: writeFileSchema,
       execute: async (params) => {
-        if (settings.writeFile) {
+        const denied = await deniedPathError("writeFile", params, [params.path]);
+        if (denied) return denied;
+        if (fileChangeNeedsApproval("writeFile", [params.path])) {
           await callbacks.onProposeAction("writeFile", params);
           return `Proposed: Write file at ${params.path}. Waiting for user approval.`;
         }
@@ -159,12 +363,14 @@ export function createAgentTools(callbacks: {
     }),
 
     editFile: tool({
-      description: settings.editFile
+      description: (settings.editFile
         ? "Edit a file by searching for text and replacing it. This requires user approval before execution."
-        : "Edit a file by searching for text and replacing it. This executes immediately.",
+        : "Edit a file by searching for text and replacing it. This executes immediately.") + pathRulesNote,
       inputSchema: editFileSchema,
       execute: async (params) => {
-        if (settings.editFile) {
+        const denied = await deniedPathError("editFile", params, [params.path]);
+        if (denied) return denied;
+        if (fileChangeNeedsApproval("editFile", [params.path])) {
           await callbacks.onProposeAction("editFile", params);
           return `Proposed: Edit file at ${params.path}. Waiting for user approval.`;
         }
@@ -173,12 +379,14 @@ export function createAgentTools(callbacks: {
     }),
 
     deleteFile: tool({
-      description: settings.deleteFile
+      description: (settings.deleteFile
         ? "Delete a file. This requires user approval before execution."
-        : "Delete a file. This executes immediately.",
+        : "Delete a file. This executes immediately.") + pathRulesNote,
       inputSchema: deleteFileSchema,
       execute: async (params) => {
-        if (settings.deleteFile) {
+        const denied = await deniedPathError("deleteFile", params, [params.path]);
+        if (denied) return denied;
+        if (fileChangeNeedsApproval("deleteFile", [params.path])) {
           await callbacks.onProposeAction("deleteFile", params);
           return `Proposed: Delete file at ${params.path}. Waiting for user approval.`;
         }
@@ -186,13 +394,34 @@ export function createAgentTools(callbacks: {
       },
     }),
 
+    applyPatch: tool({
+      description: (settings.applyPatch
+        ? "Apply a unified diff that can change several files and hunks at once. Prefer this over many editFile calls for multi-line or multi-file changes. The whole patch is approved and applied as one change, if any hunk does not match nothing is changed. This requires user approval before execution."
+        : "Apply a unified diff that can change several files and hunks at once. Prefer this over many editFile calls for multi-line or multi-file changes. If any hunk does not match nothing is changed and the failing hunks are reported. This executes immediately.") + pathRulesNote,
+      inputSchema: applyPatchSchema,
+      execute: async (params) => {
+        const paths = patchPaths(params.patch);
+        const denied = await deniedPathError("applyPatch", params, paths);
+        if (denied) return denied;
+        if (fileChangeNeedsApproval("applyPatch", paths)) {
+          await callbacks.onProposeAction("applyPatch", params);
+          return `Proposed: Apply patch (${params.description}). Waiting for user approval.`;
+        }
+        return await callbacks.onApplyPatch(params);
+      },
+    }),
+
     executeCommand: tool({
-      description: settings.executeCommand
-        ? "Execute a shell command. This requires user approval before execution. Always provide a clear description of what the command does."
-        : "Execute a shell command. This executes immediately. Always provide a clear description of what the command does.",
+      description: hasCommandPolicy
+        ? "Execute a shell command. The project's command policy decides whether it executes immediately, requires user approval or is denied. Always provide a clear description of what the command does."
+        : settings.executeCommand
+          ? "Execute a shell command. This requires user approval before execution. Always provide a clear description of what the command does."
+          : "Execute a shell command. This executes immediately. Always provide a clear description of what the command does.",
       inputSchema: executeCommandSchema,
       execute: async (params) => {
-        if (settings.executeCommand) {
+        const denied = await deniedCommandError("executeCommand", params);
+        if (denied) return denied;
+        if (commandNeedsApproval(params.command)) {
           await callbacks.onProposeAction("executeCommand", params);
           return `Proposed: Execute command "${params.command}". Waiting for user approval.`;
         }
@@ -200,12 +429,47 @@ export function createAgentTools(callbacks: {
       },
     }),
 
+    startProcess: tool({
+      description: `Start a long-running command such as a dev server in the background and return its process id, without waiting for it to exit. Use readProcessOutput to see its output, e.g. to wait until a server is listening, and stopProcess when done. Processes are stopped when the execution ends. ${
+        hasCommandPolicy
+          ? "The project's command policy decides whether it starts immediately, requires user approval or is denied."
+          : settings.executeCommand
+            ? "Like executeCommand, this requires user approval."
+            : "This executes immediately."
+      }`,
+      inputSchema: startProcessSchema,
+      execute: async (params) => {
+        const denied = await deniedCommandError("startProcess", params);
+        if (denied) return denied;
+        if (commandNeedsApproval(params.command)) {
+          await callbacks.onProposeAction("startProcess", params);
+          return `Proposed: Start process "${params.command}". Waiting for user approval.`;
+        }
+        return await callbacks.onStartProcess(params);
+      },
+    }),
+
+    readProcessOutput: tool({
+      description: "Read the output a background process printed since the last read, and whether it is still running. This executes immediately without approval.",
+      inputSchema: readProcessOutputSchema,
+      execute: async (params) => await callbacks.onReadProcessOutput(params),
+    }),
+
+    stopProcess: tool({
+      description: "Stop a background process and everything it started. This executes immediately without approval.",
+      inputSchema: stopProcessSchema,
+      execute: async (params) => await callbacks.onStopProcess(params),
+    }),
+
     completeTask: tool({
       description: settings.completeTask
         ? "Mark the task as complete with a summary of what was accomplished. This requires user approval."
         : "Mark the task as complete with a summary of what was accomplished. This executes immediately.",
       inputSchema: completeTaskSchema,
       execute: async (params) => {
+        const verificationFailure = await callbacks.onVerifyCompletion?.(params);
+        if (verificationFailure) return verificationFailure;
+
         if (settings.completeTask) {
           await callbacks.onProposeAction("completeTask", params);
           return `Proposed: Mark task as complete. Waiting for user approval.`;
@@ -223,6 +487,85 @@ export function createAgentTools(callbacks: {
       },
     }),
   };
+
+  if (callbacks.planPhase === "planning") {
+    const { readFile, listDirectory, searchFiles, askQuestion } = tools;
+    return {
+      readFile,
+      listDirectory,
+      searchFiles,
+      askQuestion,
+      submitPlan: tool({
+        description: "Submit your plan for the task: a summary, the ordered steps with the files each touches and the commands it runs, and the risks. This pauses execution until the user approves the plan or asks for changes.",
+        inputSchema: submitPlanSchema,
+        execute: async (params) => {
+          if (!callbacks.onSubmitPlan) return "Error: Plans can't be submitted in this execution";
+          return await callbacks.onSubmitPlan(params);
+        },
+      }),
+    };
+  }
+
+  const phaseTools: ToolSet = callbacks.phasedModels
+    ? {
+        [START_EDITING_TOOL]: tool({
+          description: "Call this once you know what to change, before writing, editing or deleting files or running commands. Until then you can only read files, search and ask questions.",
+          inputSchema: z.object({}),
+          execute: async () => "You can now change files and run commands.",
+        }),
+      }
+    : {};
+
+  if (callbacks.planPhase === "executing") {
+    return {
+      ...tools,
+      ...phaseTools,
+      updatePlanStep: tool({
+        description: "Report progress on a step of the approved plan. This executes immediately.",
+        inputSchema: updatePlanStepSchema,
+        execute: async (params) => {
+          if (!callbacks.onUpdatePlanStep) return "Error: This execution has no plan";
+          return await callbacks.onUpdatePlanStep(params);
+        },
+      }),
+    };
+  }
+
+  return { ...tools, ...phaseTools };
+}
+
+// Tools of the reviewer pass: it may only read the working directory before submitting its verdict
+export function createReviewerTools(callbacks: {
+  onReadFile: (params: ActionParams["readFile"]) => Promise<string>;
+  onListDirectory: (params: ActionParams["listDirectory"]) => Promise<string>;
+  onSearchFiles: (params: ActionParams["searchFiles"]) => Promise<string>;
+  onSubmitReview: (params: SubmitReviewParams) => Promise<string>;
+}): ToolSet {
+  return {
+    readFile: tool({
+      description: `Read the contents of a file, optionally only lines startLine to endLine. ${READ_FILE_OUTPUT_NOTE}`,
+      inputSchema: readFileSchema,
+      execute: async (params) => await callbacks.onReadFile(params),
+    }),
+
+    listDirectory: tool({
+      description: "List the contents of a directory.",
+      inputSchema: listDirectorySchema,
+      execute: async (params) => await callbacks.onListDirectory(params),
+    }),
+
+    searchFiles: tool({
+      description: "Search file contents for text or a regular expression, returning matches as path:line: text. Respects .gitignore.",
+      inputSchema: searchFilesSchema,
+      execute: async (params) => await callbacks.onSearchFiles(params),
+    }),
+
+    submitReview: tool({
+      description: "Submit your verdict on the changes with the issues found, each tied to a file and line. This ends the review.",
+      inputSchema: submitReviewSchema,
+      execute: async (params) => await callbacks.onSubmitReview(params),
+    }),
+  };
 }
 
 // Get schema for an action type (returns Zod schema)
@@ -236,10 +579,20 @@ export function getSchemaForActionType(actionType: AgentAction["actionType"]) {
       return editFileSchema;
     case "deleteFile":
       return deleteFileSchema;
+    case "applyPatch":
+      return applyPatchSchema;
     case "listDirectory":
       return listDirectorySchema;
+    case "searchFiles":
+      return searchFilesSchema;
     case "executeCommand":
       return executeCommandSchema;
+    case "startProcess":
+      return startProcessSchema;
+    case "readProcessOutput":
+      return readProcessOutputSchema;
+    case "stopProcess":
+      return stopProcessSchema;
     case "completeTask":
       return completeTaskSchema;
     case "askQuestion":
@@ -0,0 +1,96 @@
+import type { ExecutionReview, ReviewIssue } from "@open-dev/shared";
+import type { AgentAction } from "../db/schema";
+import type { ActionParams, SubmitReviewParams } from "./agent-tools";
+
+export type ReviewableAction = Pick<AgentAction, "actionType" | "actionParams" | "status" | "sequence">;
+
+const REVIEWED_ACTION_TYPES: AgentAction["actionType"][] = ["writeFile", "editFile", "deleteFile", "applyPatch"];
+
+const numberLines = (content: string) => {
+  const lines = content.split("\n");
+  const width = String(lines.length).length;
+  return lines.map((line, index) => `${String(index + 1).padStart(width)}: ${line}`).join("\n");
+};
+
+function formatChange(action: ReviewableAction): string {
+  switch (action.actionType) {
+    case "writeFile": {
+      const params = JSON.parse(action.actionParams) as ActionParams["writeFile"];
+      return `### Write ${params.path} (${action.status})\n${numberLines(params.content)}`;
+    }
+    case "editFile": {
+      const params = JSON.parse(action.actionParams) as ActionParams["editFile"];
+      return `### Edit ${params.path} (${action.status})\nReplace:\n${params.search}\nWith:\n${params.replace}`;
+    }
+    case "deleteFile": {
+      const params = JSON.parse(action.actionParams) as ActionParams["deleteFile"];
+      return `### Delete ${params.path} (${action.status})`;
+    }
+    default: {
+      const params = JSON.parse(action.actionParams) as ActionParams["applyPatch"];
+      return `### Patch: ${params.description} (${action.status})\n${params.patch}`;
+    }
+  }
+}
+
+/**
+ * The file changes of an execution as the reviewer reads them, in the order they were made.
+ * Proposed changes are included since completeTask may be called before they are approved;
+ * rejected and failed ones never reach the files and are left out. Empty when nothing changed.
+ */
+export function formatChangesForReview(actions: ReviewableAction[]): string {
+  return actions
+    .filter((action) => REVIEWED_ACTION_TYPES.includes(action.actionType))
+    .filter((action) => action.status !== "rejected" && action.status !== "failed")
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(formatChange)
+    .join("\n\n");
+}
+
+/**
+ * Build the stored review from the reviewer's submitted verdict
+ */
+export function createExecutionReview(
+  executionId: string,
+  round: number,
+  aiProviderId: string | null,
+  submitted: SubmitReviewParams
+): Omit<ExecutionReview, "id" | "createdAt"> {
+  return {
+    executionId,
+    round,
+    aiProviderId,
+    verdict: submitted.verdict,
+    summary: submitted.summary.trim(),
+    issues: submitted.issues.map((issue) => ({
+      file: issue.file,
+      line: issue.line ?? null,
+      severity: issue.severity,
+      message: issue.message.trim(),
+    })),
+  };
+}
+
+export function formatReviewIssue(issue: ReviewIssue): string {
+  const location = issue.line === null ? issue.file : `${issue.file}:${issue.line}`;
+  return `- [${issue.severity}] ${location}: ${issue.message}`;
+}
+
+/**
+ * Tool result telling the agent what the reviewer wants changed, so it can address it and call
+ * completeTask again
+ */
+export function formatReviewForAgent(review: Pick<ExecutionReview, "summary" | "issues">, roundsLeft: number): string {
+  const sections = [
+    "Error: The task is not complete yet, the reviewer requested changes:",
+    review.summary || "(no summary)",
+  ];
+  if (review.issues.length > 0) {
+    sections.push(review.issues.map(formatReviewIssue).join("\n"));
+  }
+  const rounds = roundsLeft === 0
+    ? "The next review is only attached for the user and completion goes ahead regardless of its verdict."
+    : `${roundsLeft} more ${roundsLeft === 1 ? "round is" : "rounds are"} handed back before completion goes ahead regardless of the verdict.`;
+  sections.push(`Address the blocker and major issues, then call completeTask again. ${rounds}`);
+  return sections.join("\n\n");
+}
@@ -0,0 +1,117 @@
+import type { CommandPolicyAction, CommandPolicyDecision, CommandPolicyRule } from "@open-dev/shared";
+
+// Shell operators and newlines that chain separate commands, and the parentheses and braces of
+// subshells, process substitution and brace groups. Each part is checked on its own.
+const COMMAND_SEPARATORS = /\s*(?:&&|\|\||;|\|&?|&|\n|[<>]?\(|\)|[{}](?=\s|;|$))\s*/;
+
+// Command substitution, redirections, subshells, process substitution and brace groups can run
+// or overwrite anything, so such commands are never allowed by a rule alone
+const UNSAFE_SHELL_SYNTAX = /\$\(|`|[<>()]|(?:^|[\s;&|])[{}](?=\s|;|$)/;
+
+const ACTION_SEVERITY: Record<CommandPolicyAction, number> = {
+  allow: 0,
+  require_approval: 1,
+  deny: 2,
+};
+
+// Collapse runs of spaces and tabs but keep newlines, which separate commands
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/[ \t]+/g, " ");
+}
+
+// Glob patterns match the whole command: * matches anything (including spaces and slashes), ? one character
+function globToRegExp(pattern: string): RegExp {
+  const source = normalizeCommand(pattern)
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Compile a rule's pattern. Regex patterns are unanchored, so use ^ and $ to match the whole command.
+ * Throws for invalid regular expressions.
+ */
+export function compileCommandPattern(rule: Pick<CommandPolicyRule, "pattern" | "matchType">): RegExp {
+  return rule.matchType === "regex" ? new RegExp(rule.pattern) : globToRegExp(rule.pattern);
+}
+
+/**
+ * Check a policy before saving it, returning a message for the first invalid rule
+ */
+export function validateCommandPolicy(rules: CommandPolicyRule[]): string | null {
+  for (const [index, rule] of rules.entries()) {
+    if (!rule.pattern.trim()) {
+      return `Rule ${index + 1} has an empty pattern`;
+    }
+    if (!Object.hasOwn(ACTION_SEVERITY, rule.action)) {
+      return `Rule ${index + 1} has an unknown action "${rule.action}"`;
+    }
+    try {
+      compileCommandPattern(rule);
+    } catch (error) {
+      return `Rule ${index + 1} has an invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+// First rule matching the text, skipping rules whose pattern does not compile
+function findRule(rules: CommandPolicyRule[], text: string): CommandPolicyRule | null {
+  for (const rule of rules) {
+    try {
+      if (compileCommandPattern(rule).test(text)) {
+        return rule;
+      }
+    } catch {
+      // Invalid patterns are rejected on save, ignore any that slipped through
+    }
+  }
+  return null;
+}
+
+/**
+ * Decide what to do with a command using the project's ordered rules, where the first matching
+ * rule wins. The whole command and each part of a chained command (&&, ||, ;, |, &) are checked:
+ * any part that is denied or needs approval decides for the whole command, and the command is
+ * only allowed when every part is allowed. Returns action null when no rule decides, in which
+ * case the executeCommand approval setting applies.
+ */
+export function evaluateCommandPolicy(
+  command: string,
+  rules: CommandPolicyRule[] | undefined
+): CommandPolicyDecision {
+  const noDecision: CommandPolicyDecision = { action: null, rule: null, matchedText: null };
+  const whole = normalizeCommand(command);
+  if (!rules || rules.length === 0 || !whole) {
+    return noDecision;
+  }
+
+  const segments = whole.split(COMMAND_SEPARATORS).filter(Boolean);
+  const candidates = segments.length === 1 && segments[0] === whole ? [whole] : [whole, ...segments];
+
+  let strictest: CommandPolicyDecision | null = null;
+  let allSegmentsAllowed = true;
+
+  for (const text of candidates) {
+    const rule = findRule(rules, text);
+    const isSegment = segments.includes(text);
+    if (isSegment && rule?.action !== "allow") {
+      allSegmentsAllowed = false;
+    }
+    if (rule && rule.action !== "allow" && (!strictest || ACTION_SEVERITY[rule.action] > ACTION_SEVERITY[strictest.action!])) {
+      strictest = { action: rule.action, rule, matchedText: text };
+    }
+  }
+
+  if (strictest) {
+    return strictest;
+  }
+
+  if (allSegmentsAllowed && !UNSAFE_SHELL_SYNTAX.test(whole)) {
+    const rule = findRule(rules, segments[0] ?? whole)!;
+    return { action: "allow", rule, matchedText: segments[0] ?? whole };
+  }
+
+  return noDecision;
+}
@@ -0,0 +1,285 @@
+// Runs agent shell commands in their own process group with a timeout, capped output,
+// a scrubbed environment and optional resource and network limits
+import type { CommandOutputChunk, NetworkAccess } from "@open-dev/shared";
+
+export interface CommandRunOptions {
+  cwd: string;
+  // Aborting kills the command and everything it spawned
+  signal?: AbortSignal;
+  // Wall-clock seconds before the process group is killed, 0 for no timeout
+  timeoutSeconds?: number;
+  // Bytes kept of stdout and of stderr each, 0 for no cap
+  maxOutputBytes?: number;
+  // Environment variables passed through from the server, undefined passes everything
+  envAllowList?: string[];
+  // Linux only, applied with ulimit; 0 for no limit
+  cpuSeconds?: number;
+  memoryMb?: number;
+  // Linux only, "none" and "localhost" run the command in its own network namespace
+  networkAccess?: NetworkAccess;
+  // Called with complete lines as the command prints them, regardless of the byte cap
+  onOutput?: (chunk: CommandOutputChunk) => void;
+}
+
+export interface CommandRunResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+  // Whether stdout or stderr went over the byte cap
+  truncated: boolean;
+}
+
+interface CappedOutput {
+  text: string;
+  truncated: boolean;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const size = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Output without a newline is still passed on once this much of it has built up
+const MAX_PENDING_LINE_CHARS = 4096;
+
+// Split decoded output into complete lines for onText, holding back a partial last line
+function createLineSplitter(onText: (text: string) => void) {
+  const decoder = new TextDecoder();
+  let pending = "";
+  return {
+    push(chunk: Uint8Array) {
+      pending += decoder.decode(chunk, { stream: true });
+      const end = pending.length > MAX_PENDING_LINE_CHARS ? pending.length : pending.lastIndexOf("\n") + 1;
+      if (end > 0) {
+        onText(pending.slice(0, end));
+        pending = pending.slice(end);
+      }
+    },
+    flush() {
+      pending += decoder.decode();
+      if (pending) onText(pending);
+      pending = "";
+    },
+  };
+}
+
+/**
+ * Read a stream keeping at most maxBytes: the first half and the last half, with a marker
+ * for what was dropped in between. Memory stays bounded however much the command prints.
+ */
+export async function readCappedOutput(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+  onText?: (text: string) => void
+): Promise<CappedOutput> {
+  const decoder = new TextDecoder();
+  const lines = onText ? createLineSplitter(onText) : null;
+  if (maxBytes <= 0) {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      lines?.push(chunk);
+    }
+    lines?.flush();
+    return { text: decoder.decode(concatBytes(chunks)), truncated: false };
+  }
+
+  const headLimit = Math.ceil(maxBytes / 2);
+  const tailLimit = maxBytes - headLimit;
+  const head: Uint8Array[] = [];
+  let headSize = 0;
+  const tail: Uint8Array[] = [];
+  let tailSize = 0;
+  let total = 0;
+
+  for await (const chunk of stream) {
+    lines?.push(chunk);
+    total += chunk.length;
+    let rest = chunk;
+
+    if (headSize < headLimit) {
+      const taken = rest.subarray(0, headLimit - headSize);
+      head.push(taken);
+      headSize += taken.length;
+      rest = rest.subarray(taken.length);
+    }
+
+    if (rest.length > 0) {
+      tail.push(rest);
+      tailSize += rest.length;
+      // Drop whole chunks that are no longer needed for the tail
+      while (tail.length > 1 && tailSize - tail[0]!.length >= tailLimit) {
+        tailSize -= tail.shift()!.length;
+      }
+    }
+  }
+  lines?.flush();
+
+  if (total <= maxBytes) {
+    return { text: decoder.decode(concatBytes([...head, ...tail])), truncated: false };
+  }
+
+  const tailBytes = concatBytes(tail);
+  const kept = tailBytes.subarray(Math.max(0, tailBytes.length - tailLimit));
+  const omitted = total - headSize - kept.length;
+  return {
+    text: `${decoder.decode(concatBytes(head))}\n... [${omitted} bytes omitted] ...\n${decoder.decode(kept)}`,
+    truncated: true,
+  };
+}
+
+export function buildCommandEnv(allowList: string[] | undefined): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && (!allowList || allowList.includes(key))) {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+export class NetworkIsolationError extends Error {
+  constructor(public readonly networkAccess: NetworkAccess, message: string) {
+    super(message);
+    this.name = "NetworkIsolationError";
+  }
+}
+
+// Whether network namespaces work here, checked once per mode since it depends on the host
+const networkIsolationSupport = new Map<NetworkAccess, boolean>();
+
+function canIsolateNetwork(networkAccess: NetworkAccess): boolean {
+  let supported = networkIsolationSupport.get(networkAccess);
+  if (supported === undefined) {
+    const probe = networkAccess === "localhost" ? ["ip", "link", "set", "lo", "up"] : ["true"];
+    try {
+      supported = process.platform === "linux" &&
+        Bun.spawnSync(["unshare", "-rn", ...probe], { stdout: "ignore", stderr: "ignore" }).exitCode === 0;
+    } catch {
+      // unshare isn't installed
+      supported = false;
+    }
+    networkIsolationSupport.set(networkAccess, supported);
+  }
+  return supported;
+}
+
+/**
+ * Arguments running the command under the requested limits, or plain sh -c when none apply.
+ * Network isolation runs everything in a new user and network namespace where only loopback
+ * exists, brought up for "localhost" and left down for "none".
+ */
+export function buildCommandArgs(
+  command: string,
+  limits: Pick<CommandRunOptions, "cpuSeconds" | "memoryMb" | "networkAccess"> = {}
+): string[] {
+  const { cpuSeconds = 0, memoryMb = 0, networkAccess = "full" } = limits;
+  const setup: string[] = [];
+  if (networkAccess === "localhost") setup.push("ip link set lo up");
+  if (process.platform === "linux") {
+    if (cpuSeconds > 0) setup.push(`ulimit -t ${Math.ceil(cpuSeconds)}`);
+    if (memoryMb > 0) setup.push(`ulimit -v ${Math.ceil(memoryMb * 1024)}`);
+  }
+
+  // The command is passed as $1 so it is never re-parsed by the wrapper
+  const shell = setup.length === 0
+    ? ["sh", "-c", command]
+    : ["sh", "-c", `${setup.join(" && ")} && exec sh -c "$1"`, "sh", command];
+
+  return networkAccess === "full" ? shell : ["unshare", "-rn", ...shell];
+}
+
+// Where and how a command is started, shared by runCommand and background processes
+export type CommandSpawnOptions = Pick<
+  CommandRunOptions,
+  "cwd" | "envAllowList" | "cpuSeconds" | "memoryMb" | "networkAccess"
+>;
+
+/**
+ * Start a shell command in its own process group with piped output. Throws a
+ * NetworkIsolationError when isolation was requested but the host can't provide it.
+ */
+export function spawnCommand(command: string, options: CommandSpawnOptions) {
+  const { networkAccess = "full" } = options;
+  if (networkAccess !== "full" && !canIsolateNetwork(networkAccess)) {
+    throw new NetworkIsolationError(
+      networkAccess,
+      `Network access is set to "${networkAccess}" but this host can't isolate commands: it needs Linux with ` +
+        `unprivileged user namespaces and unshare${networkAccess === "localhost" ? " and ip" : ""} installed. ` +
+        `The command was not run.`
+    );
+  }
+
+  return Bun.spawn(buildCommandArgs(command, options), {
+    cwd: options.cwd,
+    env: buildCommandEnv(options.envAllowList),
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+    detached: true,
+  });
+}
+
+// Signal a command's whole process group, so children such as a dev server's workers go too
+export function killProcessGroup(pid: number, signal: NodeJS.Signals = "SIGKILL"): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Process group already exited
+  }
+}
+
+/**
+ * Run a shell command in the working directory. The command gets its own process group so
+ * the timeout and cancellation kill everything it started, not just the shell.
+ */
+export async function runCommand(command: string, options: CommandRunOptions): Promise<CommandRunResult> {
+  const { signal, onOutput } = options;
+  signal?.throwIfAborted();
+
+  const proc = spawnCommand(command, options);
+  const kill = () => killProcessGroup(proc.pid);
+
+  let timedOut = false;
+  const timeoutSeconds = options.timeoutSeconds ?? 0;
+  const timer = timeoutSeconds > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, timeoutSeconds * 1000)
+    : null;
+  signal?.addEventListener("abort", kill, { once: true });
+
+  try {
+    const maxBytes = options.maxOutputBytes ?? 0;
+    const [stdout, stderr, exitCode] = await Promise.all([
+      readCappedOutput(proc.stdout, maxBytes, onOutput && ((text) => onOutput({ stream: "stdout", text }))),
+      readCappedOutput(proc.stderr, maxBytes, onOutput && ((text) => onOutput({ stream: "stderr", text }))),
+      proc.exited,
+    ]);
+
+    return {
+      exitCode,
+      stdout: stdout.text,
+      stderr: stderr.text,
+      timedOut,
+      cancelled: signal?.aborted ?? false,
+      truncated: stdout.truncated || stderr.truncated,
+    };
+  } catch (error) {
+    // A failing output listener ends the read, don't leave the command running without a reader
+    kill();
+    throw error;
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", kill);
+  }
+}
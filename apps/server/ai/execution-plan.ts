@@ -0,0 +1,142 @@
+import type { ExecutionPlan, PlanReview, PlanStep, PlanStepStatus } from "@open-dev/shared";
+
+export interface SubmittedPlan {
+  summary: string;
+  steps: { description: string; files?: string[]; commands?: string[] }[];
+  risks?: string[];
+}
+
+// Statuses the agent reports for a step while carrying out the plan
+export type PlanProgressStatus = Extract<PlanStepStatus, "in_progress" | "completed" | "skipped">;
+
+const PLAN_STEP_STATUSES: PlanStepStatus[] = ["pending", "in_progress", "completed", "skipped", "rejected"];
+
+/**
+ * Build the plan the user reviews from what the agent submitted. Steps get ids s1, s2, ... which
+ * stay with a step when the user reorders it.
+ */
+export function createExecutionPlan(submitted: SubmittedPlan): ExecutionPlan {
+  return {
+    summary: submitted.summary,
+    steps: submitted.steps.map((step, index) => ({
+      id: `s${index + 1}`,
+      description: step.description,
+      files: step.files ?? [],
+      commands: step.commands ?? [],
+      status: "pending",
+    })),
+    risks: submitted.risks ?? [],
+    status: "awaiting_approval",
+    feedback: null,
+  };
+}
+
+export function parseExecutionPlan(plan: string | null): ExecutionPlan | null {
+  if (!plan) return null;
+  try {
+    return JSON.parse(plan) as ExecutionPlan;
+  } catch {
+    return null;
+  }
+}
+
+function validatePlanSteps(steps: PlanStep[]): string | null {
+  if (!Array.isArray(steps)) {
+    return "Plan steps must be a list";
+  }
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (typeof step.id !== "string" || !step.id || ids.has(step.id)) {
+      return "Every plan step needs a unique id";
+    }
+    ids.add(step.id);
+    if (typeof step.description !== "string" || !step.description.trim()) {
+      return `Step ${step.id} needs a description`;
+    }
+    if (!Array.isArray(step.files) || !Array.isArray(step.commands)) {
+      return `Step ${step.id} needs files and commands lists`;
+    }
+    if (!PLAN_STEP_STATUSES.includes(step.status)) {
+      return `Step ${step.id} has an invalid status: ${step.status}`;
+    }
+  }
+  if (!steps.some((step) => step.status !== "rejected")) {
+    return "Keep at least one step, or send the plan back with feedback instead";
+  }
+  return null;
+}
+
+/**
+ * Apply the user's review to a submitted plan. Throws when the plan isn't awaiting approval
+ * or the edited steps are invalid.
+ */
+export function applyPlanReview(plan: ExecutionPlan, review: PlanReview): ExecutionPlan {
+  if (plan.status !== "awaiting_approval") {
+    throw new Error("The plan is not awaiting approval");
+  }
+
+  if (!review.approved) {
+    const feedback = review.feedback?.trim();
+    if (!feedback) {
+      throw new Error("Say what should change when sending the plan back");
+    }
+    return { ...plan, status: "revising", feedback };
+  }
+
+  const steps = review.steps ?? plan.steps;
+  const invalid = validatePlanSteps(steps);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  return {
+    ...plan,
+    steps: steps.map((step) => ({
+      ...step,
+      description: step.description.trim(),
+      // Progress starts with the approval, only the user's rejections carry over
+      status: step.status === "rejected" ? "rejected" : "pending",
+    })),
+    status: "approved",
+    feedback: review.feedback?.trim() || null,
+  };
+}
+
+/**
+ * Record the agent's progress on a step of the approved plan. Throws for unknown or rejected steps.
+ */
+export function setPlanStepStatus(plan: ExecutionPlan, stepId: string, status: PlanProgressStatus): ExecutionPlan {
+  const step = plan.steps.find((candidate) => candidate.id === stepId);
+  if (!step) {
+    throw new Error(`No step with id "${stepId}" in the plan, its steps are ${plan.steps.map((s) => s.id).join(", ")}`);
+  }
+  if (step.status === "rejected") {
+    throw new Error(`Step ${stepId} was rejected by the user and must not be carried out`);
+  }
+
+  return {
+    ...plan,
+    steps: plan.steps.map((candidate) => (candidate.id === stepId ? { ...candidate, status } : candidate)),
+  };
+}
+
+/**
+ * The approved plan as the agent reads it when the execution phase starts
+ */
+export function formatPlanForAgent(plan: ExecutionPlan): string {
+  const steps = plan.steps.map((step) => {
+    const lines = [`${step.id}. ${step.status === "rejected" ? "[REJECTED, do not do this] " : ""}${step.description}`];
+    if (step.files.length > 0) lines.push(`   Files: ${step.files.join(", ")}`);
+    if (step.commands.length > 0) lines.push(`   Commands: ${step.commands.join("; ")}`);
+    return lines.join("\n");
+  });
+
+  const sections = [`Summary: ${plan.summary}`, `Steps:\n${steps.join("\n")}`];
+  if (plan.risks.length > 0) {
+    sections.push(`Risks:\n${plan.risks.map((risk) => `- ${risk}`).join("\n")}`);
+  }
+  if (plan.feedback) {
+    sections.push(`Notes from the user: ${plan.feedback}`);
+  }
+  return sections.join("\n\n");
+}
@@ -7,6 +7,8 @@ const TOOL_SCHEMAS: Record<string, object> = {
     type: "object",
     properties: {
       path: { type: "string", description: "The path to the file to read, relative to the working directory" },
+      startLine: { type: "integer", minimum: 1, description: "First line to read (1-based). Defaults to the start of the file" },
+      endLine: { type: "integer", minimum: 1, description: "Last line to read (inclusive). Defaults to the end of the file" },
     },
     required: ["path"],
     additionalProperties: false,
@@ -38,6 +40,18 @@ const TOOL_SCHEMAS: Record<string, object> = {
     required: ["path"],
     additionalProperties: false,
   },
+  applyPatch: {
+    type: "object",
+    properties: {
+      patch: {
+        type: "string",
+        description: "A unified diff (as produced by `git diff` or `diff -u`) with ---/+++ file headers and @@ hunks. Use /dev/null as the old path to create a file or as the new path to delete one.",
+      },
+      description: { type: "string", description: "A brief description of what the patch changes" },
+    },
+    required: ["patch", "description"],
+    additionalProperties: false,
+  },
   listDirectory: {
     type: "object",
     properties: {
@@ -46,6 +60,23 @@ const TOOL_SCHEMAS: Record<string, object> = {
     required: ["path"],
     additionalProperties: false,
   },
+  searchFiles: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "The text to search for in file contents" },
+      regex: { type: "boolean", description: "Treat the query as a JavaScript regular expression instead of literal text" },
+      include: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only search files matching these glob patterns, e.g. [\"src/**/*.ts\"]",
+      },
+      exclude: { type: "array", items: { type: "string" }, description: "Skip files matching these glob patterns" },
+      contextLines: { type: "integer", minimum: 0, maximum: 10, description: "Number of lines to show before and after each match" },
+      maxResults: { type: "integer", minimum: 1, maximum: 500, description: "Maximum number of matches to return (default 50)" },
+    },
+    required: ["query"],
+    additionalProperties: false,
+  },
   executeCommand: {
     type: "object",
     properties: {
@@ -55,6 +86,37 @@ const TOOL_SCHEMAS: Record<string, object> = {
     required: ["command", "description"],
     additionalProperties: false,
   },
+  startProcess: {
+    type: "object",
+    properties: {
+      command: { type: "string", description: "The long-running shell command to start, e.g. a dev server" },
+      description: { type: "string", description: "A brief description of what this process is for" },
+    },
+    required: ["command", "description"],
+    additionalProperties: false,
+  },
+  readProcessOutput: {
+    type: "object",
+    properties: {
+      processId: { type: "string", description: "The id startProcess returned" },
+      waitSeconds: {
+        type: "number",
+        minimum: 0,
+        maximum: 30,
+        description: "Wait up to this long for new output when there is none yet (default 0)",
+      },
+    },
+    required: ["processId"],
+    additionalProperties: false,
+  },
+  stopProcess: {
+    type: "object",
+    properties: {
+      processId: { type: "string", description: "The id startProcess returned" },
+    },
+    required: ["processId"],
+    additionalProperties: false,
+  },
   completeTask: {
     type: "object",
     properties: {
@@ -63,6 +125,79 @@ const TOOL_SCHEMAS: Record<string, object> = {
     required: ["summary"],
     additionalProperties: false,
   },
+  submitPlan: {
+    type: "object",
+    properties: {
+      summary: { type: "string", description: "What the plan achieves and the approach, in a few sentences" },
+      steps: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          properties: {
+            description: { type: "string", description: "What this step does" },
+            files: {
+              type: "array",
+              items: { type: "string" },
+              description: "Files the step creates, changes or deletes, relative to the working directory",
+            },
+            commands: { type: "array", items: { type: "string" }, description: "Commands the step runs" },
+          },
+          required: ["description"],
+          additionalProperties: false,
+        },
+        description: "The steps to carry out, in order",
+      },
+      risks: { type: "array", items: { type: "string" }, description: "What could go wrong or needs the user's attention" },
+    },
+    required: ["summary", "steps"],
+    additionalProperties: false,
+  },
+  updatePlanStep: {
+    type: "object",
+    properties: {
+      stepId: { type: "string", description: "The id of the plan step, e.g. s1" },
+      status: {
+        type: "string",
+        enum: ["in_progress", "completed", "skipped"],
+        description: "in_progress when starting the step, completed or skipped when done with it",
+      },
+    },
+    required: ["stepId", "status"],
+    additionalProperties: false,
+  },
+  submitReview: {
+    type: "object",
+    properties: {
+      verdict: {
+        type: "string",
+        enum: ["approve", "request_changes"],
+        description: "approve when the changes complete the task, request_changes when something must be fixed first",
+      },
+      summary: { type: "string", description: "The overall assessment of the changes in a few sentences" },
+      issues: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            file: { type: "string", description: "The file the issue is in, relative to the working directory" },
+            line: { type: "integer", minimum: 1, description: "The line the issue is on, omitted when it concerns the whole file" },
+            severity: {
+              type: "string",
+              enum: ["blocker", "major", "minor"],
+              description: "blocker and major issues must be fixed, minor ones are suggestions",
+            },
+            message: { type: "string", description: "What is wrong and how to fix it" },
+          },
+          required: ["file", "severity", "message"],
+          additionalProperties: false,
+        },
+        description: "The problems found, empty when there are none",
+      },
+    },
+    required: ["verdict", "summary", "issues"],
+    additionalProperties: false,
+  },
 };
 
 // Fix tool schema format for LM Studio compatibility by replacing empty schemas with full definitions
@@ -101,13 +236,19 @@ function fixToolSchemas(body: string): string {
   return body;
 }
 
-export function createAIProvider(provider: AIProvider) {
+// abortSignal cancels every request made through the provider, e.g. when an agent execution is cancelled
+export function createAIProvider(provider: AIProvider, abortSignal?: AbortSignal) {
   // Create a custom fetch wrapper that fixes tool schemas for LM Studio compatibility
   const customFetch = async (url: RequestInfo | URL, options?: RequestInit): Promise<Response> => {
     // Use a longer timeout for local LLMs (5 minutes)
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 5 * 60 * 1000);
 
+    // Also honour the SDK's per-call signal and the caller's cancellation signal
+    const signals = [controller.signal, options?.signal, abortSignal].filter(
+      (signal): signal is AbortSignal => signal != null
+    );
+
     try {
       // Fix tool schemas in the request body for LM Studio compatibility
       let modifiedOptions: RequestInit = { ...options };
@@ -128,7 +269,7 @@ export function createAIProvider(provider: AIProvider) {
 
       const response = await fetch(url, {
         ...modifiedOptions,
-        signal: controller.signal,
+        signal: AbortSignal.any(signals),
       });
 
       console.log("[AI Response] Status:", response.status, "Content-Type:", response.headers.get("content-type"));
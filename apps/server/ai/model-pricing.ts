@@ -0,0 +1,67 @@
+import type { LanguageModelUsage } from "ai";
+import type { ModelPricing, ModelPricingTable } from "@open-dev/shared";
+
+const PRICE_FIELDS = ["inputPerMillion", "outputPerMillion", "cachedInputPerMillion"] as const;
+
+// Tokens of one model call as they are priced
+export interface StepTokens {
+  inputTokens: number;
+  // Part of inputTokens read from the provider's prompt cache
+  cachedInputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Check a provider's pricing table, returning the first problem found or null when it's valid
+ */
+export function validateModelPricing(table: ModelPricingTable): string | null {
+  if (typeof table !== "object" || table === null || Array.isArray(table)) {
+    return "Pricing must map model names to prices";
+  }
+  for (const [model, pricing] of Object.entries(table)) {
+    if (!model.trim()) {
+      return "Pricing has a model without a name";
+    }
+    for (const field of PRICE_FIELDS) {
+      const value = pricing?.[field];
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        return `Invalid ${field} for ${model}: must be a non-negative number`;
+      }
+    }
+  }
+  return null;
+}
+
+export function parseModelPricing(pricing: string | null, providerId: string): ModelPricingTable {
+  try {
+    if (pricing) {
+      return JSON.parse(pricing);
+    }
+  } catch {
+    console.warn(`Invalid pricing JSON for AI provider ${providerId}`);
+  }
+  return {};
+}
+
+export function getStepTokens(usage: LanguageModelUsage): StepTokens {
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    cachedInputTokens: usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+  };
+}
+
+/**
+ * What a model call cost in USD, null when the model has no price. Cached tokens are billed at
+ * the cached price instead of the input price.
+ */
+export function getStepCost(pricing: ModelPricing | undefined, tokens: StepTokens): number | null {
+  if (!pricing) return null;
+
+  const uncachedInputTokens = Math.max(0, tokens.inputTokens - tokens.cachedInputTokens);
+  return (
+    uncachedInputTokens * pricing.inputPerMillion +
+    tokens.cachedInputTokens * pricing.cachedInputPerMillion +
+    tokens.outputTokens * pricing.outputPerMillion
+  ) / 1_000_000;
+}
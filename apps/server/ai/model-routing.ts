@@ -0,0 +1,43 @@
+import type { ModelMessage } from "ai";
+import type { AgentStepPhase, ModelRoute } from "@open-dev/shared";
+import type { AIProvider } from "../db/schema";
+
+// Tools that only look at the working directory or a running process, or talk to the user
+const EXPLORATION_TOOLS = ["readFile", "listDirectory", "searchFiles", "readProcessOutput", "askQuestion", "submitPlan", "updatePlanStep"];
+
+// Called by an exploring agent once it is ready to change files or run commands
+export const START_EDITING_TOOL = "startEditing";
+
+// What an exploration step may call when exploration and editing run on different models, so a
+// call that changes something always comes from the editing model
+export const EXPLORATION_STEP_TOOLS = [...EXPLORATION_TOOLS, "completeTask", START_EDITING_TOOL];
+
+/**
+ * The phase of the next agent step. A transcript explores until the agent calls startEditing or
+ * any other tool that isn't read-only, and edits from then on: agents read files right before
+ * changing them, so going back to exploring would hand those changes to the exploration model.
+ */
+export function getAgentStepPhase(messages: ModelMessage[]): AgentStepPhase {
+  const hasEdited = messages.some((message) =>
+    message.role === "assistant" &&
+    typeof message.content !== "string" &&
+    message.content.some((part) => part.type === "tool-call" && !EXPLORATION_TOOLS.includes(part.toolName))
+  );
+  return hasEdited ? "editing" : "exploration";
+}
+
+/**
+ * The providers a routed phase tries in order: the route's provider with its model, then the
+ * project's chain so a failing route still fails over. Without a route, or when its provider
+ * is gone, the phase runs on the project's chain.
+ */
+export function applyModelRoute(
+  chain: AIProvider[],
+  route: ModelRoute | null,
+  routeProvider: AIProvider | undefined
+): AIProvider[] {
+  if (!route || !routeProvider) return chain;
+
+  const routed = { ...routeProvider, model: route.model ?? routeProvider.model };
+  return [routed, ...chain.filter((provider) => provider.id !== routed.id || provider.model !== routed.model)];
+}
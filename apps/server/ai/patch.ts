@@ -0,0 +1,273 @@
+// Unified diff parsing and application for the applyPatch tool
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: Array<{ type: " " | "-" | "+"; text: string }>;
+}
+
+export interface FilePatch {
+  // null when the file is created (--- /dev/null) or deleted (+++ /dev/null)
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export interface HunkResult {
+  index: number;
+  header: string;
+  applied: boolean;
+  // Lines between where the hunk said it applies and where it matched
+  offset: number;
+  // Context lines ignored at each end to make the hunk match
+  fuzz: number;
+  error?: string;
+}
+
+export interface FilePatchResult {
+  path: string;
+  // Set when the patch renames the file
+  oldPath?: string;
+  operation: "create" | "modify" | "delete";
+  originalContent: string;
+  newContent: string;
+  hunks: HunkResult[];
+  error?: string;
+}
+
+export const DEFAULT_MAX_FUZZ = 2;
+
+// Strip the a/ b/ prefixes git adds and any timestamp after a tab
+function parseHeaderPath(value: string): string | null {
+  const name = value.split("\t")[0]!.trim();
+  if (name === "/dev/null") {
+    return null;
+  }
+  return name.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parse a unified diff into per-file patches. Hunk line counts are not trusted since models
+ * often get them wrong, a hunk ends at the next hunk or file header instead.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  const files: FilePatch[] = [];
+  let file: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      file = {
+        oldPath: parseHeaderPath(line.slice(4)),
+        newPath: parseHeaderPath(lines[i + 1]!.slice(4)),
+        hunks: [],
+      };
+      files.push(file);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkHeader) {
+      if (!file) {
+        throw new Error(`Hunk "${line}" appears before any ---/+++ file header`);
+      }
+      hunk = {
+        header: line,
+        oldStart: parseInt(hunkHeader[1]!, 10),
+        newStart: parseInt(hunkHeader[2]!, 10),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (line.startsWith("diff ") || line.startsWith("index ")) {
+      hunk = null;
+      continue;
+    }
+
+    if (!hunk) {
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file"
+      continue;
+    }
+
+    const type = line[0];
+    if (type === " " || type === "-" || type === "+") {
+      hunk.lines.push({ type, text: line.slice(1) });
+    } else if (line === "") {
+      // Blank context lines often lose their leading space
+      hunk.lines.push({ type: " ", text: "" });
+    } else {
+      hunk = null;
+    }
+  }
+
+  // Trailing blank lines are usually the end of the patch text, not context
+  for (const f of files) {
+    for (const h of f.hunks) {
+      while (h.lines.length > 0 && h.lines[h.lines.length - 1]!.type === " " && h.lines[h.lines.length - 1]!.text === "") {
+        h.lines.pop();
+      }
+    }
+  }
+
+  return files.filter((f) => f.oldPath !== null || f.newPath !== null);
+}
+
+/**
+ * Paths a patch touches, relative to the working directory
+ */
+export function getPatchFilePaths(patch: string): string[] {
+  const paths = new Set<string>();
+  for (const file of parseUnifiedDiff(patch)) {
+    if (file.oldPath) paths.add(file.oldPath);
+    if (file.newPath) paths.add(file.newPath);
+  }
+  return [...paths];
+}
+
+function linesEqual(a: string, b: string): boolean {
+  return a === b || a.trimEnd() === b.trimEnd();
+}
+
+function matchesAt(content: string[], position: number, expected: string[]): boolean {
+  if (position < 0 || position + expected.length > content.length) {
+    return false;
+  }
+  return expected.every((line, i) => linesEqual(content[position + i]!, line));
+}
+
+// Find where the lines match, starting at the expected position and moving outwards
+function findMatch(content: string[], expected: string[], preferred: number, minimum: number): number | null {
+  const maxDistance = Math.max(preferred - minimum, content.length - preferred);
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    for (const position of distance === 0 ? [preferred] : [preferred - distance, preferred + distance]) {
+      if (position >= minimum && matchesAt(content, position, expected)) {
+        return position;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply a file's hunks to its content. Each hunk is matched exactly near its stated position
+ * first, then with up to maxFuzz leading and trailing context lines ignored.
+ */
+export function applyHunks(
+  original: string,
+  hunks: PatchHunk[],
+  maxFuzz = DEFAULT_MAX_FUZZ
+): { content: string; results: HunkResult[] } {
+  const hadTrailingNewline = original.endsWith("\n");
+  const content = original === "" ? [] : (hadTrailingNewline ? original.slice(0, -1) : original).split("\n");
+  const results: HunkResult[] = [];
+
+  // Lines added minus removed by earlier hunks, and where the last applied hunk ended
+  let delta = 0;
+  let minimum = 0;
+
+  hunks.forEach((hunk, index) => {
+    const preferred = Math.max(0, hunk.oldStart - 1 + delta);
+    let applied = false;
+
+    for (let fuzz = 0; fuzz <= maxFuzz && !applied; fuzz++) {
+      // Only context lines may be dropped
+      const leading = hunk.lines.findIndex((l) => l.type !== " ");
+      const trailing = [...hunk.lines].reverse().findIndex((l) => l.type !== " ");
+      if (fuzz > 0 && (leading < 0 || (fuzz > leading && fuzz > trailing))) {
+        break;
+      }
+      const dropStart = Math.min(fuzz, Math.max(0, leading));
+      const dropEnd = Math.min(fuzz, Math.max(0, trailing));
+      const lines = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+
+      const oldLines = lines.filter((l) => l.type !== "+").map((l) => l.text);
+      const newLines = lines.filter((l) => l.type !== "-").map((l) => l.text);
+
+      const position =
+        oldLines.length === 0
+          ? Math.min(preferred + dropStart, content.length)
+          : findMatch(content, oldLines, preferred + dropStart, minimum);
+      if (position === null) {
+        continue;
+      }
+
+      content.splice(position, oldLines.length, ...newLines);
+      results.push({
+        index: index + 1,
+        header: hunk.header,
+        applied: true,
+        offset: position - dropStart - preferred,
+        fuzz,
+      });
+      delta += newLines.length - oldLines.length;
+      minimum = position + newLines.length;
+      applied = true;
+    }
+
+    if (!applied) {
+      const expected = hunk.lines.filter((l) => l.type !== "+").map((l) => l.text);
+      results.push({
+        index: index + 1,
+        header: hunk.header,
+        applied: false,
+        offset: 0,
+        fuzz: 0,
+        error: `Could not find the lines this hunk changes:\n${expected.slice(0, 8).join("\n")}`,
+      });
+    }
+  });
+
+  const joined = content.join("\n");
+  return {
+    content: content.length > 0 && (hadTrailingNewline || original === "") ? `${joined}\n` : joined,
+    results,
+  };
+}
+
+/**
+ * Describe the outcome of a patch for the model, including which hunks failed and why
+ */
+export function formatPatchReport(results: FilePatchResult[]): string {
+  const lines: string[] = [];
+
+  for (const file of results) {
+    const label = file.oldPath ? `${file.oldPath} -> ${file.path}` : file.path;
+    if (file.error) {
+      lines.push(`${label}: ${file.error}`);
+      continue;
+    }
+
+    const failed = file.hunks.filter((h) => !h.applied);
+    lines.push(
+      failed.length === 0
+        ? `${label}: ${file.operation === "modify" ? `${file.hunks.length} hunk(s) applied` : file.operation === "create" ? "created" : "deleted"}`
+        : `${label}: ${failed.length} of ${file.hunks.length} hunk(s) failed`
+    );
+
+    for (const hunk of file.hunks) {
+      if (!hunk.applied) {
+        lines.push(`  hunk ${hunk.index} ${hunk.header} failed. ${hunk.error}`);
+      } else if (hunk.offset !== 0 || hunk.fuzz > 0) {
+        const details = [
+          hunk.offset !== 0 ? `offset ${hunk.offset > 0 ? "+" : ""}${hunk.offset} lines` : null,
+          hunk.fuzz > 0 ? `fuzz ${hunk.fuzz}` : null,
+        ].filter(Boolean);
+        lines.push(`  hunk ${hunk.index} applied with ${details.join(", ")}`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,116 @@
+import * as path from "path";
+import type { CommandPolicyAction, PathApprovalRule } from "@open-dev/shared";
+
+export interface PathRuleDecision {
+  // null when no rule decides and the tool's approval setting applies
+  action: CommandPolicyAction | null;
+  rule: PathApprovalRule | null;
+  // The path the deciding rule matched
+  matchedPath: string | null;
+}
+
+const ACTION_SEVERITY: Record<CommandPolicyAction, number> = {
+  allow: 0,
+  require_approval: 1,
+  deny: 2,
+};
+
+// Relative, forward-slashed and without ./ or .. segments, so "./src/../.env" is checked as ".env"
+export function normalizeRulePath(relativePath: string): string {
+  return path.posix.normalize(relativePath.replace(/\\/g, "/")).replace(/^(\.\/)+/, "").replace(/\/$/, "");
+}
+
+/**
+ * Whether a glob rule matches a path relative to the working directory. Like .gitignore, patterns
+ * without a slash match the file name at any depth, and "dir/**" also matches the directory itself.
+ */
+export function matchesPathRule(pattern: string, relativePath: string): boolean {
+  const target = normalizeRulePath(relativePath);
+  if (new Bun.Glob(pattern).match(target)) {
+    return true;
+  }
+  if (!pattern.includes("/") && new Bun.Glob(pattern).match(path.posix.basename(target))) {
+    return true;
+  }
+  return pattern.endsWith("/**") && new Bun.Glob(pattern.slice(0, -3)).match(target);
+}
+
+/**
+ * Check path rules before saving them, returning a message for the first invalid rule
+ */
+export function validatePathRules(rules: PathApprovalRule[]): string | null {
+  for (const [index, rule] of rules.entries()) {
+    if (!rule.pattern?.trim()) {
+      return `Path rule ${index + 1} has an empty pattern`;
+    }
+    if (!Object.hasOwn(ACTION_SEVERITY, rule.action)) {
+      return `Path rule ${index + 1} has an unknown action "${rule.action}"`;
+    }
+  }
+  return null;
+}
+
+function findPathRule(rules: PathApprovalRule[], relativePath: string): PathApprovalRule | null {
+  return rules.find((rule) => rule.pattern.trim() && matchesPathRule(rule.pattern, relativePath)) ?? null;
+}
+
+/**
+ * The deny rule blocking a path, if any. Deny rules apply to every file tool, including reads.
+ */
+export function findDeniedPathRule(
+  relativePath: string,
+  rules: PathApprovalRule[] | undefined
+): PathApprovalRule | null {
+  const rule = rules ? findPathRule(rules, relativePath) : null;
+  return rule?.action === "deny" ? rule : null;
+}
+
+/**
+ * The protected-path glob covering a path, if any
+ */
+export function findProtectedPathPattern(relativePath: string, patterns: string[]): string | null {
+  return patterns.find((pattern) => pattern.trim() && matchesPathRule(pattern, relativePath)) ?? null;
+}
+
+export function formatProtectedPathError(relativePath: string, pattern: string): string {
+  return `Path "${relativePath}" is protected (${pattern}) and cannot be read or changed`;
+}
+
+export function formatDeniedPathError(relativePath: string, rule: PathApprovalRule): string {
+  return `Path "${relativePath}" is blocked by the project's path rules${rule.reason ? `: ${rule.reason}` : ""}`;
+}
+
+/**
+ * Decide whether changing the given files needs approval, using the first matching rule for
+ * each path. A denied or approval-requiring path decides for the whole action, which is only
+ * allowed when every path is allowed. Returns action null when no rule decides.
+ */
+export function evaluatePathRules(paths: string[], rules: PathApprovalRule[] | undefined): PathRuleDecision {
+  const noDecision: PathRuleDecision = { action: null, rule: null, matchedPath: null };
+  if (!rules || rules.length === 0 || paths.length === 0) {
+    return noDecision;
+  }
+
+  let strictest: PathRuleDecision | null = null;
+  let allAllowed = true;
+
+  for (const relativePath of paths) {
+    const rule = findPathRule(rules, relativePath);
+    if (rule?.action !== "allow") {
+      allAllowed = false;
+    }
+    if (rule && rule.action !== "allow" && (!strictest || ACTION_SEVERITY[rule.action] > ACTION_SEVERITY[strictest.action!])) {
+      strictest = { action: rule.action, rule, matchedPath: relativePath };
+    }
+  }
+
+  if (strictest) {
+    return strictest;
+  }
+
+  if (allAllowed) {
+    return { action: "allow", rule: findPathRule(rules, paths[0]!), matchedPath: paths[0]! };
+  }
+
+  return noDecision;
+}
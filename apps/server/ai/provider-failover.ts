@@ -0,0 +1,226 @@
+import {
+  APICallError,
+  EmptyResponseBodyError,
+  InvalidResponseDataError,
+  JSONParseError,
+  simulateStreamingMiddleware,
+  wrapLanguageModel,
+  type LanguageModelMiddleware,
+} from "ai";
+import type { ProviderFailover } from "@open-dev/shared";
+import type { AIProvider } from "../db/schema";
+import { createAIProvider } from "./index";
+
+type ProviderModel = ReturnType<typeof wrapLanguageModel>;
+type CallOptions = Parameters<ProviderModel["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<ProviderModel["doGenerate"]>>;
+type StreamResult = Awaited<ReturnType<ProviderModel["doStream"]>>;
+type StreamPart = StreamResult["stream"] extends ReadableStream<infer Part> ? Part : never;
+type ProviderMetadata = NonNullable<GenerateResult["providerMetadata"]>;
+
+// Key of the provider metadata that tells which provider of the chain answered a model call
+const FAILOVER_METADATA_KEY = "failover";
+
+export class EmptyModelResponseError extends Error {
+  constructor(providerName: string) {
+    super(`${providerName} returned neither text nor tool calls`);
+    this.name = "EmptyModelResponseError";
+  }
+}
+
+// The provider that answered a model call and the ones that failed before it
+export interface StepProvider {
+  aiProviderId: string;
+  providerName: string;
+  model: string;
+  failovers: ProviderFailover[];
+}
+
+export interface FailoverModelOptions {
+  // Cancels every request; a cancelled call is never retried on the next provider
+  abortSignal?: AbortSignal;
+  createModel?: (provider: AIProvider, abortSignal?: AbortSignal) => ProviderModel;
+  // Called each time a provider fails and the next one is tried. The failovers also end up in the
+  // response's provider metadata, which is where agent steps report them.
+  onFailover?: (failover: ProviderFailover) => void;
+}
+
+/**
+ * Whether an error means the provider is down or misbehaving, so the next provider should be
+ * tried: it couldn't be reached, answered with a 5xx, timed out, returned something that
+ * doesn't parse or returned nothing at all. Client errors like a bad API key are not retried.
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    // No status code means the request never got a response
+    return error.statusCode === undefined || error.statusCode >= 500 || error.statusCode === 408;
+  }
+  if (
+    error instanceof EmptyModelResponseError ||
+    EmptyResponseBodyError.isInstance(error) ||
+    InvalidResponseDataError.isInstance(error) ||
+    JSONParseError.isInstance(error)
+  ) {
+    return true;
+  }
+  // The provider's request timeout aborts the fetch
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
+
+/**
+ * Read which provider answered a step from its provider metadata, null for models that aren't
+ * wrapped by createFailoverModel
+ */
+export function getStepProvider(providerMetadata: ProviderMetadata | undefined): StepProvider | null {
+  const metadata = providerMetadata?.[FAILOVER_METADATA_KEY];
+  return metadata ? (metadata as unknown as StepProvider) : null;
+}
+
+const hasContent = (part: GenerateResult["content"][number]) =>
+  (part.type === "text" && part.text.trim() !== "") || part.type === "tool-call";
+
+// Parts that show the provider is producing a response rather than an empty one
+const isContentPart = (part: StreamPart) =>
+  (part.type === "text-delta" && part.delta.trim() !== "") ||
+  part.type === "reasoning-delta" ||
+  part.type === "tool-input-start" ||
+  part.type === "tool-call";
+
+/**
+ * Hold back a stream until its first content, so a provider that fails or ends without content
+ * can still be swapped for the next one. The held back parts are replayed in front of the rest.
+ */
+async function awaitStreamContent(stream: ReadableStream<StreamPart>, providerName: string): Promise<ReadableStream<StreamPart>> {
+  const reader = stream.getReader();
+  const buffered: StreamPart[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      throw new EmptyModelResponseError(providerName);
+    }
+    if (value.type === "error") {
+      reader.releaseLock();
+      stream.cancel().catch(() => {});
+      throw value.error;
+    }
+    buffered.push(value);
+    if (isContentPart(value)) break;
+  }
+
+  return new ReadableStream<StreamPart>({
+    start(controller) {
+      for (const part of buffered) controller.enqueue(part);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * A model that sends each call to the providers in order, moving on to the next one when a
+ * provider fails with a failover error. Which provider answered is added to the result's provider
+ * metadata, read it back with getStepProvider. Responses of the last provider are passed through
+ * as they are, so an empty one still reaches the caller.
+ */
+export function createFailoverModel(providers: AIProvider[], options: FailoverModelOptions = {}): ProviderModel {
+  if (providers.length === 0) {
+    throw new Error("At least one AI provider is needed");
+  }
+  const createModel = options.createModel ?? createAIProvider;
+  const models = providers.map((provider) => createModel(provider, options.abortSignal));
+
+  const withFailover = async <T>(
+    params: CallOptions,
+    call: (index: number, isLast: boolean) => Promise<T>,
+    addMetadata: (result: T, metadata: StepProvider) => T
+  ): Promise<T> => {
+    const failovers: ProviderFailover[] = [];
+
+    for (let index = 0; index < providers.length; index++) {
+      const provider = providers[index]!;
+      const isLast = index === providers.length - 1;
+      try {
+        const result = await call(index, isLast);
+        return addMetadata(result, {
+          aiProviderId: provider.id,
+          providerName: provider.name,
+          model: provider.model,
+          failovers,
+        });
+      } catch (error) {
+        const cancelled = params.abortSignal?.aborted || options.abortSignal?.aborted;
+        if (isLast || cancelled || !isFailoverError(error)) throw error;
+
+        const failover = {
+          aiProviderId: provider.id,
+          providerName: provider.name,
+          error: error instanceof Error ? error.message : String(error),
+        };
+        failovers.push(failover);
+        options.onFailover?.(failover);
+      }
+    }
+    throw new Error("unreachable");
+  };
+
+  const withMetadata = (providerMetadata: ProviderMetadata | undefined, metadata: StepProvider): ProviderMetadata => ({
+    ...providerMetadata,
+    [FAILOVER_METADATA_KEY]: metadata as unknown as ProviderMetadata[string],
+  });
+
+  const middleware: LanguageModelMiddleware = {
+    specificationVersion: "v3",
+
+    wrapGenerate: ({ params }) =>
+      withFailover(
+        params,
+        async (index, isLast) => {
+          const result = await models[index]!.doGenerate(params);
+          if (!isLast && !result.content.some(hasContent)) {
+            throw new EmptyModelResponseError(providers[index]!.name);
+          }
+          return result;
+        },
+        (result, metadata) => ({ ...result, providerMetadata: withMetadata(result.providerMetadata, metadata) })
+      ),
+
+    wrapStream: ({ params }) =>
+      withFailover(
+        params,
+        async (index, isLast) => {
+          // Providers that can't stream answer in one piece, replayed as a stream
+          const model = providers[index]!.streaming === false
+            ? wrapLanguageModel({ model: models[index]!, middleware: simulateStreamingMiddleware() })
+            : models[index]!;
+          const result = await model.doStream(params);
+          return isLast ? result : { ...result, stream: await awaitStreamContent(result.stream, providers[index]!.name) };
+        },
+        (result, metadata) => ({
+          ...result,
+          stream: result.stream.pipeThrough(
+            new TransformStream<StreamPart, StreamPart>({
+              transform(part, controller) {
+                controller.enqueue(
+                  part.type === "finish"
+                    ? { ...part, providerMetadata: withMetadata(part.providerMetadata, metadata) }
+                    : part
+                );
+              },
+            })
+          ),
+        })
+      ),
+  };
+
+  return wrapLanguageModel({ model: models[0]!, middleware });
+}
@@ -1,12 +1,33 @@
-import type { SandboxLimits, SandboxUsage } from "@open-dev/shared";
+import type { ExecutionUsage, SandboxLimits, SandboxUsage } from "@open-dev/shared";
+
+// Enough for toolchains to find binaries, caches and the locale, without credentials
+export const DEFAULT_COMMAND_ENV_ALLOW_LIST = [
+  "PATH",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "LANG",
+  "LC_ALL",
+  "TERM",
+  "TZ",
+  "TMPDIR",
+];
 
 export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
   maxExecutionTimeSeconds: 300, // 5 minutes
   maxTokens: 100000,            // 100k tokens
   maxFileOperations: 50,        // 50 file operations
   maxCommands: 10,              // 10 shell commands
+  commandTimeoutSeconds: 120,   // 2 minutes per command
+  maxCommandOutputBytes: 65536, // 64KB each of stdout and stderr
+  commandEnvAllowList: [...DEFAULT_COMMAND_ENV_ALLOW_LIST],
+  commandCpuSeconds: 0,         // No CPU limit
+  commandMemoryMb: 0,           // No memory limit
+  networkAccess: "full",        // No network isolation
   maxFileSizeBytes: 1048576,    // 1MB
   maxSteps: 20,                 // 20 AI interaction rounds
+  maxCostUsd: 0,                // No cost limit
 };
 
 export class LimitExceededError extends Error {
@@ -34,6 +55,7 @@ export class SandboxLimitsTracker {
     this.usage = {
       executionStartTime: Date.now(),
       tokensUsed: 0,
+      costUsd: 0,
       fileOperationsCount: 0,
       commandsCount: 0,
       stepsCount: 0,
@@ -54,6 +76,13 @@ export class SandboxLimitsTracker {
     return { ...this.usage };
   }
 
+  /**
+   * Restart the execution clock, e.g. once a queued execution actually starts running
+   */
+  resetClock(): void {
+    this.usage.executionStartTime = Date.now();
+  }
+
   /**
    * Get the elapsed execution time in seconds
    */
@@ -97,6 +126,24 @@ export class SandboxLimitsTracker {
     }
   }
 
+  /**
+   * Track and validate the spend on model calls
+   */
+  trackCost(costUsd: number): void {
+    this.usage.costUsd += costUsd;
+
+    if (this.limits.maxCostUsd <= 0) return;
+
+    if (this.usage.costUsd > this.limits.maxCostUsd) {
+      throw new LimitExceededError(
+        "maxCostUsd",
+        this.limits.maxCostUsd,
+        this.usage.costUsd,
+        `Cost limit exceeded: $${this.usage.costUsd.toFixed(4)} / $${this.limits.maxCostUsd}`
+      );
+    }
+  }
+
   /**
    * Track and validate file operations (read, write, edit, delete)
    */
@@ -177,26 +224,13 @@ export class SandboxLimitsTracker {
   /**
    * Get a summary of current usage vs limits for reporting
    */
-  getUsageSummary(): {
-    elapsedTimeSeconds: number;
-    tokensUsed: number;
-    fileOperationsCount: number;
-    commandsCount: number;
-    stepsCount: number;
-    limits: SandboxLimits;
-    percentages: {
-      time: number;
-      tokens: number;
-      fileOperations: number;
-      commands: number;
-      steps: number;
-    };
-  } {
+  getUsageSummary(): ExecutionUsage {
     const elapsedTimeSeconds = this.getElapsedTimeSeconds();
 
     return {
       elapsedTimeSeconds: Math.round(elapsedTimeSeconds),
       tokensUsed: this.usage.tokensUsed,
+      costUsd: this.usage.costUsd,
       fileOperationsCount: this.usage.fileOperationsCount,
       commandsCount: this.usage.commandsCount,
       stepsCount: this.usage.stepsCount,
@@ -208,6 +242,9 @@ export class SandboxLimitsTracker {
         tokens: this.limits.maxTokens > 0
           ? Math.round((this.usage.tokensUsed / this.limits.maxTokens) * 100)
           : 0,
+        cost: this.limits.maxCostUsd > 0
+          ? Math.round((this.usage.costUsd / this.limits.maxCostUsd) * 100)
+          : 0,
         fileOperations: this.limits.maxFileOperations > 0
           ? Math.round((this.usage.fileOperationsCount / this.limits.maxFileOperations) * 100)
           : 0,
@@ -221,3 +258,27 @@ export class SandboxLimitsTracker {
     };
   }
 }
+
+/**
+ * Add a run's usage to what the execution's earlier runs used. Limits apply per run, so the
+ * limits are the latest run's and each percentage is the closest any run came to its limit.
+ */
+export function addExecutionUsage(previous: ExecutionUsage | null, run: ExecutionUsage): ExecutionUsage {
+  if (!previous) return run;
+
+  const percentages = { ...run.percentages };
+  for (const key of Object.keys(percentages) as (keyof ExecutionUsage["percentages"])[]) {
+    percentages[key] = Math.max(percentages[key], previous.percentages?.[key] ?? 0);
+  }
+
+  return {
+    elapsedTimeSeconds: previous.elapsedTimeSeconds + run.elapsedTimeSeconds,
+    tokensUsed: previous.tokensUsed + run.tokensUsed,
+    costUsd: (previous.costUsd ?? 0) + run.costUsd,
+    fileOperationsCount: previous.fileOperationsCount + run.fileOperationsCount,
+    commandsCount: previous.commandsCount + run.commandsCount,
+    stepsCount: previous.stepsCount + run.stepsCount,
+    limits: run.limits,
+    percentages,
+  };
+}
@@ -0,0 +1,12 @@
+CREATE TABLE `agent_checkpoints` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`working_directory` text NOT NULL,
+	`kind` text NOT NULL,
+	`ref` text NOT NULL,
+	`restored_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `agent_executions` ADD `checkpoint_id` text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `agent_executions` ADD `working_directory` text;--> statement-breakpoint
+ALTER TABLE `agent_executions` ADD `worktree_branch` text;--> statement-breakpoint
+ALTER TABLE `agent_executions` ADD `worktree_base_commit` text;--> statement-breakpoint
+ALTER TABLE `agent_executions` ADD `worktree_status` text;--> statement-breakpoint
+ALTER TABLE `projects` ADD `use_worktrees` integer DEFAULT false;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `ai_providers` ADD `streaming` integer DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `agent_messages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`execution_id` text NOT NULL,
+	`role` text NOT NULL,
+	`message` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`execution_id`) REFERENCES `agent_executions`(`id`) ON UPDATE no action ON DELETE cascade
+);
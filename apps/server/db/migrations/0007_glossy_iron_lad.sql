@@ -0,0 +1 @@
+ALTER TABLE `agent_executions` ADD `heartbeat_at` integer;
\ No newline at end of file
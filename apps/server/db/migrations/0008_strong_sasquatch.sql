@@ -0,0 +1,18 @@
+CREATE TABLE `autopilot_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`task_ids` text,
+	`completed_task_ids` text DEFAULT '[]' NOT NULL,
+	`current_task_id` text,
+	`current_execution_id` text,
+	`pause_reason` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`completed_at` integer,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`current_task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `agent_executions` ADD `autopilot_run_id` text REFERENCES autopilot_runs(id);--> statement-breakpoint
+ALTER TABLE `projects` ADD `auto_approval_policy` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `ai_providers` ADD `max_concurrent_executions` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `projects` ADD `max_concurrent_executions` integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `agent_audit_entries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`execution_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`action_type` text NOT NULL,
+	`path` text NOT NULL,
+	`reason` text NOT NULL,
+	`message` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`execution_id`) REFERENCES `agent_executions`(`id`) ON UPDATE no action ON DELETE cascade
+);
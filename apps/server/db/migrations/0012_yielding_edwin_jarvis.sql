@@ -0,0 +1,14 @@
+CREATE TABLE `agent_verification_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`execution_id` text NOT NULL,
+	`attempt` integer NOT NULL,
+	`command` text NOT NULL,
+	`success` integer NOT NULL,
+	`exit_code` integer,
+	`output` text NOT NULL,
+	`duration_ms` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`execution_id`) REFERENCES `agent_executions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `verification_settings` text;
\ No newline at end of file
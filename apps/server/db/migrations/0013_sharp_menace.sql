@@ -0,0 +1,2 @@
+ALTER TABLE `agent_executions` ADD `mode` text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE `agent_executions` ADD `plan` text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `agent_reviews` (
+	`id` text PRIMARY KEY NOT NULL,
+	`execution_id` text NOT NULL,
+	`round` integer NOT NULL,
+	`ai_provider_id` text,
+	`verdict` text NOT NULL,
+	`summary` text NOT NULL,
+	`issues` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`execution_id`) REFERENCES `agent_executions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `reviewer_settings` text;
\ No newline at end of file
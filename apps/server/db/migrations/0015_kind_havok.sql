@@ -0,0 +1,13 @@
+CREATE TABLE `agent_steps` (
+	`id` text PRIMARY KEY NOT NULL,
+	`execution_id` text NOT NULL,
+	`step` integer NOT NULL,
+	`ai_provider_id` text NOT NULL,
+	`provider_name` text NOT NULL,
+	`model` text NOT NULL,
+	`failovers` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`execution_id`) REFERENCES `agent_executions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `fallback_ai_provider_ids` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `agent_steps` ADD `phase` text;--> statement-breakpoint
+ALTER TABLE `agent_steps` ADD `input_tokens` integer;--> statement-breakpoint
+ALTER TABLE `agent_steps` ADD `output_tokens` integer;--> statement-breakpoint
+ALTER TABLE `projects` ADD `model_routing` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `agent_steps` ADD `cached_input_tokens` integer;--> statement-breakpoint
+ALTER TABLE `agent_steps` ADD `cost_usd` real;--> statement-breakpoint
+ALTER TABLE `ai_providers` ADD `pricing` text;
\ No newline at end of file
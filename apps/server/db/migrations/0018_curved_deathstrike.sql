@@ -0,0 +1 @@
+ALTER TABLE `agent_executions` ADD `usage` text;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
 
 // Auth tables managed by better-auth
 export const users = sqliteTable("users", {
@@ -55,14 +55,35 @@ export const projects = sqliteTable("projects", {
   userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   guidelines: text("guidelines"),
   aiProviderId: text("ai_provider_id"),
+  // JSON array of provider ids tried in order when aiProviderId's provider is down or misbehaves
+  fallbackAiProviderIds: text("fallback_ai_provider_ids"),
   workingDirectory: text("working_directory"),
   workingDirectoryConfirmed: integer("working_directory_confirmed", { mode: "boolean" }).default(false),
   // JSON object storing which tools require approval: { writeFile: true, editFile: true, ... }
   // If not set, defaults to requiring approval for write operations
   toolApprovalSettings: text("tool_approval_settings"),
+  // JSON object storing ordered command rules: { rules: [{ pattern, matchType, action, reason }] }
+  // Commands no rule decides fall back to toolApprovalSettings.executeCommand
+  commandPolicy: text("command_policy"),
+  // JSON object storing the checks run on completeTask: { commands: string[], maxRetries }
+  // If not set, nothing is verified
+  verificationSettings: text("verification_settings"),
+  // JSON object storing the reviewer pass run on completeTask: { enabled, aiProviderId, maxRounds }
+  // If not set, no review happens
+  reviewerSettings: text("reviewer_settings"),
+  // JSON object storing a { aiProviderId, model } route or null per phase: { chat, exploration, editing, review }
+  // If not set, every phase uses the project's provider chain
+  modelRouting: text("model_routing"),
   // JSON object storing sandbox limits: { maxExecutionTimeSeconds, maxTokens, ... }
   // If not set, defaults to DEFAULT_SANDBOX_LIMITS
   sandboxLimits: text("sandbox_limits"),
+  // Run each agent execution in its own git worktree and branch instead of the working directory
+  useWorktrees: integer("use_worktrees", { mode: "boolean" }).default(false),
+  // JSON object storing which proposed actions autopilot runs approve on their own: { approveFileChanges, ... }
+  // If not set, autopilot pauses for every proposal
+  autoApprovalPolicy: text("auto_approval_policy"),
+  // How many agent executions of this project may run at once; the rest wait in the queue
+  maxConcurrentExecutions: integer("max_concurrent_executions").notNull().default(1),
   createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
 });
@@ -73,6 +94,12 @@ export const aiProviders = sqliteTable("ai_providers", {
   baseUrl: text("base_url").notNull(),
   apiKey: text("api_key"),
   model: text("model").notNull().default("gpt-4"),
+  // Stream agent output token by token; disable for servers that break on streaming tool calls
+  streaming: integer("streaming", { mode: "boolean" }).notNull().default(true),
+  // How many agent executions may use this provider at once, across all projects
+  maxConcurrentExecutions: integer("max_concurrent_executions").notNull().default(1),
+  // JSON object of { inputPerMillion, outputPerMillion, cachedInputPerMillion } USD prices per model name
+  pricing: text("pricing"),
   userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
@@ -104,14 +131,44 @@ export const chatMessages = sqliteTable("chat_messages", {
 });
 
 // Agent execution tables
+
+// Working tree checkpoints captured before an agent first modifies the working directory
+export const agentCheckpoints = sqliteTable("agent_checkpoints", {
+  id: text("id").primaryKey(),
+  projectId: text("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  workingDirectory: text("working_directory").notNull(),
+  kind: text("kind", { enum: ["git", "snapshot"] }).notNull(),
+  ref: text("ref").notNull(), // Commit SHA for git checkpoints, snapshot id for plain directories
+  restoredAt: integer("restored_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+});
+
 export const agentExecutions = sqliteTable("agent_executions", {
   id: text("id").primaryKey(),
   taskId: text("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
   projectId: text("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
   status: text("status", {
-    enum: ["pending", "analyzing", "awaiting_approval", "awaiting_question", "executing", "completed", "failed", "cancelled"]
+    enum: ["pending", "queued", "analyzing", "awaiting_approval", "awaiting_question", "awaiting_plan_approval", "executing", "completed", "failed", "cancelled", "interrupted"]
   }).notNull().default("pending"),
+  // plan_first executions start with read-only tools and wait for the user to approve their plan
+  mode: text("mode", { enum: ["default", "plan_first"] }).notNull().default("default"),
+  // JSON ExecutionPlan submitted by a plan_first execution, including each step's progress
+  plan: text("plan"),
+  // JSON ExecutionUsage totalled over all of the execution's runs (see addExecutionUsage), updated after
+  // each step and when a run ends
+  usage: text("usage"),
   errorMessage: text("error_message"),
+  // Updated periodically while a server-side loop drives the execution; stale heartbeats mean the loop died
+  heartbeatAt: integer("heartbeat_at", { mode: "timestamp" }),
+  // Checkpoint of the working tree taken before the agent's first write, used for rollback
+  checkpointId: text("checkpoint_id"),
+  // Worktree isolation: directory the agent operates in and the branch holding its work
+  workingDirectory: text("working_directory"),
+  worktreeBranch: text("worktree_branch"),
+  worktreeBaseCommit: text("worktree_base_commit"),
+  worktreeStatus: text("worktree_status", { enum: ["active", "merged", "kept", "discarded"] }),
+  // Autopilot run that started this execution, null when started from the agent panel
+  autopilotRunId: text("autopilot_run_id").references(() => autopilotRuns.id, { onDelete: "set null" }),
   createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
   completedAt: integer("completed_at", { mode: "timestamp" }),
@@ -121,7 +178,7 @@ export const agentActions = sqliteTable("agent_actions", {
   id: text("id").primaryKey(),
   executionId: text("execution_id").notNull().references(() => agentExecutions.id, { onDelete: "cascade" }),
   actionType: text("action_type", {
-    enum: ["readFile", "writeFile", "editFile", "deleteFile", "listDirectory", "executeCommand", "completeTask", "askQuestion"]
+    enum: ["readFile", "writeFile", "editFile", "deleteFile", "applyPatch", "listDirectory", "searchFiles", "executeCommand", "startProcess", "readProcessOutput", "stopProcess", "completeTask", "askQuestion"]
   }).notNull(),
   actionParams: text("action_params").notNull(), // JSON
   status: text("status", {
@@ -145,6 +202,96 @@ export const agentQuestions = sqliteTable("agent_questions", {
   updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
 });
 
+// Exact model transcript (system, user, assistant and tool messages) for each execution,
+// replayed when an execution is resumed or retried
+export const agentMessages = sqliteTable("agent_messages", {
+  id: text("id").primaryKey(),
+  executionId: text("execution_id").notNull().references(() => agentExecutions.id, { onDelete: "cascade" }),
+  role: text("role", { enum: ["system", "user", "assistant", "tool"] }).notNull(),
+  message: text("message").notNull(), // JSON-serialized ModelMessage
+  sequence: integer("sequence").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Security events during an execution, e.g. a file tool refused access to a path
+export const agentAuditEntries = sqliteTable("agent_audit_entries", {
+  id: text("id").primaryKey(),
+  executionId: text("execution_id").notNull().references(() => agentExecutions.id, { onDelete: "cascade" }),
+  kind: text("kind", { enum: ["path_blocked"] }).notNull(),
+  actionType: text("action_type").notNull(),
+  path: text("path").notNull(),
+  reason: text("reason", {
+    enum: ["outside_working_directory", "symlink_escape", "protected", "denied_by_rule"]
+  }).notNull(),
+  message: text("message").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Results of the project's verification commands, run each time the agent calls completeTask
+export const agentVerificationRuns = sqliteTable("agent_verification_runs", {
+  id: text("id").primaryKey(),
+  executionId: text("execution_id").notNull().references(() => agentExecutions.id, { onDelete: "cascade" }),
+  attempt: integer("attempt").notNull(),
+  command: text("command").notNull(),
+  success: integer("success", { mode: "boolean" }).notNull(),
+  exitCode: integer("exit_code"),
+  output: text("output").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Model calls of an execution, recording which provider of the project's chain answered each one
+export const agentSteps = sqliteTable("agent_steps", {
+  id: text("id").primaryKey(),
+  executionId: text("execution_id").notNull().references(() => agentExecutions.id, { onDelete: "cascade" }),
+  step: integer("step").notNull(),
+  // The provider may be deleted later, so its name and model are kept with the step
+  aiProviderId: text("ai_provider_id").notNull(),
+  providerName: text("provider_name").notNull(),
+  model: text("model").notNull(),
+  // Which phase the model was routed for, review for the reviewer pass's calls, null for steps
+  // recorded before routing
+  phase: text("phase", { enum: ["exploration", "editing", "review"] }),
+  inputTokens: integer("input_tokens"),
+  cachedInputTokens: integer("cached_input_tokens"),
+  outputTokens: integer("output_tokens"),
+  // USD, null when the provider has no price for the model
+  costUsd: real("cost_usd"),
+  // JSON array of { aiProviderId, providerName, error } for providers that failed the call first
+  failovers: text("failovers").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Verdicts of the reviewer pass, one per completeTask call it reviewed
+export const agentReviews = sqliteTable("agent_reviews", {
+  id: text("id").primaryKey(),
+  executionId: text("execution_id").notNull().references(() => agentExecutions.id, { onDelete: "cascade" }),
+  round: integer("round").notNull(),
+  aiProviderId: text("ai_provider_id"),
+  verdict: text("verdict", { enum: ["approve", "request_changes"] }).notNull(),
+  summary: text("summary").notNull(),
+  // JSON array of { file, line, severity, message }
+  issues: text("issues").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Unattended runs that walk a project's tasks in dependency order, starting the agent on each one
+export const autopilotRuns = sqliteTable("autopilot_runs", {
+  id: text("id").primaryKey(),
+  projectId: text("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  status: text("status", {
+    enum: ["running", "paused", "completed", "failed", "cancelled"]
+  }).notNull().default("running"),
+  taskIds: text("task_ids"), // JSON array of task IDs the run is limited to, null for every task
+  completedTaskIds: text("completed_task_ids").notNull().default("[]"), // JSON array, in completion order
+  currentTaskId: text("current_task_id").references(() => tasks.id, { onDelete: "set null" }),
+  currentExecutionId: text("current_execution_id"),
+  pauseReason: text("pause_reason"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
 // GitHub integration for syncing issues
 export const githubIntegrations = sqliteTable("github_integrations", {
   id: text("id").primaryKey(),
@@ -217,6 +364,20 @@ export type AgentExecution = typeof agentExecutions.$inferSelect;
 export type NewAgentExecution = typeof agentExecutions.$inferInsert;
 export type AgentAction = typeof agentActions.$inferSelect;
 export type NewAgentAction = typeof agentActions.$inferInsert;
+export type AgentCheckpoint = typeof agentCheckpoints.$inferSelect;
+export type AgentMessage = typeof agentMessages.$inferSelect;
+export type NewAgentMessage = typeof agentMessages.$inferInsert;
+export type AgentAuditEntry = typeof agentAuditEntries.$inferSelect;
+export type NewAgentAuditEntry = typeof agentAuditEntries.$inferInsert;
+export type AgentVerificationRun = typeof agentVerificationRuns.$inferSelect;
+export type NewAgentVerificationRun = typeof agentVerificationRuns.$inferInsert;
+export type AgentStep = typeof agentSteps.$inferSelect;
+export type NewAgentStep = typeof agentSteps.$inferInsert;
+export type AgentReview = typeof agentReviews.$inferSelect;
+export type NewAgentReview = typeof agentReviews.$inferInsert;
+export type NewAgentCheckpoint = typeof agentCheckpoints.$inferInsert;
+export type AutopilotRun = typeof autopilotRuns.$inferSelect;
+export type NewAutopilotRun = typeof autopilotRuns.$inferInsert;
 export type AgentQuestion = typeof agentQuestions.$inferSelect;
 export type NewAgentQuestion = typeof agentQuestions.$inferInsert;
 export type TaskTemplate = typeof taskTemplates.$inferSelect;
@@ -4,6 +4,7 @@ import { logger } from "hono/logger";
 import { serveStatic } from "hono/bun";
 import { auth } from "./auth";
 import { handleAPIRoutes, handleGitHubWebhookRoutes } from "./routes";
+import { startExecutionRecovery } from "./services/execution-recovery";
 
 const app = new Hono();
 
@@ -81,6 +82,9 @@ async function findAvailablePort(startPort: number, maxAttempts = 10): Promise<n
 
 const port = await findAvailablePort(preferredPort);
 
+// Recover agent executions orphaned by a previous server process
+startExecutionRecovery();
+
 console.log(`Server running at http://localhost:${port}`);
 console.log("Started development server: http://localhost:" + port);
 
@@ -1,32 +1,119 @@
 import { db, schema, sqlite } from "../db";
-import { eq, and, asc, desc, sql } from "drizzle-orm";
+import { eq, and, asc, desc, sql, inArray, max } from "drizzle-orm";
 import type {
   ExecutionHistoryItem,
   ExecutionHistoryDetail,
   ExecutionHistoryFilters,
   ExecutionHistoryStats,
+  ExecutionUsage,
   AgentActionType,
   AgentActionParsed,
+  RollbackResult,
+  WorktreeAction,
+  WorktreeDiff,
+  AgentTranscriptMessage,
+  ExecutionQueue,
+  ExecutionQueueEntry,
+  PatchPreview,
+  FileContent,
+  CommandPolicy,
+  CommandPolicyRule,
+  CommandPolicyDecision,
+  VerificationSettings,
+  ReviewerSettings,
+  ModelRoute,
+  ModelRoutingPhase,
+  ModelRoutingSettings,
+  AgentStepPhase,
+  ExecutionStepPhase,
+  ExecutionMode,
+  ExecutionPlan,
+  PlanReview,
+  ProviderFailover,
 } from "@open-dev/shared";
+import { DEFAULT_VERIFICATION_SETTINGS, DEFAULT_REVIEWER_SETTINGS, DEFAULT_MODEL_ROUTING_SETTINGS } from "@open-dev/shared";
 import { nanoid } from "nanoid";
-import { generateText, stepCountIs } from "ai";
+import {
+  generateText,
+  streamText,
+  stepCountIs,
+  hasToolCall,
+  type LanguageModel,
+  type ModelMessage,
+  type StepResult,
+  type ToolSet,
+} from "ai";
 import type { Session } from "../auth";
-import { createAIProvider } from "../ai";
-import { createAgentTools, type ActionParams, type ToolApprovalSettings, DEFAULT_TOOL_APPROVAL_SETTINGS } from "../ai/agent-tools";
-import { createAgentSystemPrompt } from "../ai/agent-prompts";
+import { createFailoverModel, getStepProvider } from "../ai/provider-failover";
+import { getProjectProviderChain, getRoutedProviderChain, hasAgentPhaseRoutes, parseModelRoutingSettings } from "./ai-providers";
+import { applyModelRoute, getAgentStepPhase, EXPLORATION_STEP_TOOLS } from "../ai/model-routing";
+import { getStepCost, getStepTokens, parseModelPricing, type StepTokens } from "../ai/model-pricing";
+import { createAgentTools, type ActionParams, type PlanToolParams, type ToolApprovalSettings, DEFAULT_TOOL_APPROVAL_SETTINGS } from "../ai/agent-tools";
+import { evaluateCommandPolicy, validateCommandPolicy } from "../ai/command-policy";
+import { validatePathRules } from "../ai/path-rules";
+import {
+  createAgentSystemPrompt,
+  createPlanApprovedMessage,
+  createPlanRevisionMessage,
+  PLAN_FIRST_INSTRUCTIONS,
+} from "../ai/agent-prompts";
+import { createExecutionPlan, parseExecutionPlan, applyPlanReview, setPlanStepStatus } from "../ai/execution-plan";
+import { formatReviewForAgent } from "../ai/code-review";
+import { getPatchFilePaths } from "../ai/patch";
 import {
   executeReadFile,
+  readFileLines,
+  type FileLineRange,
   executeListDirectory,
+  executeSearchFiles,
   executeWriteFile,
   executeEditFile,
   executeDeleteFile,
+  executeApplyPatch,
+  previewPatch,
   executeCommand,
+  executeStartProcess,
+  executeReadProcessOutput,
+  executeStopProcess,
   executeAction,
   validatePath,
+  type ExecuteOptions,
+  type ExecutionResult,
 } from "../ai/agent-executor";
-import type { AgentAction, AgentExecution, Task, Project } from "../db/schema";
-import type { ReasoningStepType, AgentReasoningStep, SandboxLimits } from "@open-dev/shared";
-import { SandboxLimitsTracker, LimitExceededError, DEFAULT_SANDBOX_LIMITS } from "../ai/sandbox-limits";
+import type { AgentAction, AgentExecution, Task, Project, AIProvider } from "../db/schema";
+import type {
+  ReasoningStepType,
+  AgentReasoningStep,
+  SandboxLimits,
+  PathBlockReason,
+  NetworkAccess,
+  CommandOutputChunk,
+} from "@open-dev/shared";
+import { SandboxLimitsTracker, LimitExceededError, DEFAULT_SANDBOX_LIMITS, addExecutionUsage } from "../ai/sandbox-limits";
+import { createCheckpoint, restoreCheckpoint, isGitRepository } from "../services/checkpoints";
+import { appendAgentMessages, getAgentMessageRows } from "../services/agent-transcript";
+import { startExecutionHeartbeat } from "../services/execution-recovery";
+import { registerExecution, unregisterExecution, abortExecution, isExecutionRunning } from "../services/execution-registry";
+import { stopExecutionProcesses } from "../services/process-manager";
+import { buildExecutionHistoryQuery, parseExecutionHistoryFilters, parseExecutionUsage } from "../services/execution-history";
+import { getNextVerificationAttempt, runVerification, formatVerificationFailure } from "../services/verification";
+import { getNextReviewRound, runCodeReview, toExecutionReview } from "../services/code-review";
+import {
+  acquireExecutionSlot,
+  releaseExecutionSlot,
+  getQueuedExecutions,
+  getRunningExecutions,
+  claimFiles,
+  releaseFileClaims,
+} from "../services/execution-queue";
+import {
+  createExecutionWorktree,
+  getWorktreeDiff,
+  mergeWorktree,
+  keepWorktreeBranch,
+  discardWorktree,
+  type ExecutionWorktree,
+} from "../services/worktrees";
 
 // Parse reasoning markers from agent text and return structured reasoning steps
 function parseReasoningFromText(text: string): AgentReasoningStep[] {
@@ -132,67 +219,1184 @@ export async function updateWorkingDirectory(
   console.log("[updateWorkingDirectory] confirmed:", confirmed);
   console.log("[updateWorkingDirectory] projectId:", projectId);
 
-  // Use raw SQL to debug the issue
-  const stmt = sqlite.prepare(
-    "UPDATE projects SET working_directory = ?, working_directory_confirmed = ?, updated_at = ? WHERE id = ?"
-  );
-  const updateResult = stmt.run(workingDirectory, confirmed ? 1 : 0, Date.now(), projectId);
-  console.log("[updateWorkingDirectory] Update result (changes):", updateResult.changes);
+  // Use raw SQL to debug the issue
+  const stmt = sqlite.prepare(
+    "UPDATE projects SET working_directory = ?, working_directory_confirmed = ?, updated_at = ? WHERE id = ?"
+  );
+  const updateResult = stmt.run(workingDirectory, confirmed ? 1 : 0, Date.now(), projectId);
+  console.log("[updateWorkingDirectory] Update result (changes):", updateResult.changes);
+
+  // Verify the update worked
+  const verifyStmt = sqlite.prepare("SELECT working_directory, working_directory_confirmed FROM projects WHERE id = ?");
+  const row = verifyStmt.get(projectId);
+  console.log("[updateWorkingDirectory] After update, row:", row);
+
+  return { success: true };
+}
+
+// Get execution with actions
+export async function getExecution(session: Session, executionId: string) {
+  const execution = await db.query.agentExecutions.findFirst({
+    where: eq(schema.agentExecutions.id, executionId),
+  });
+
+  if (!execution) {
+    throw new Error("Execution not found");
+  }
+
+  await verifyProjectAccess(session, execution.projectId);
+
+  const actions = await db.query.agentActions.findMany({
+    where: eq(schema.agentActions.executionId, executionId),
+    orderBy: [asc(schema.agentActions.sequence)],
+  });
+
+  return { execution, actions };
+}
+
+// Get the most recent execution for a task so the agent panel can reattach after a reload or restart
+export async function getLatestTaskExecution(session: Session, projectId: string, taskId: string) {
+  await getTask(session, projectId, taskId);
+
+  const execution = await db.query.agentExecutions.findFirst({
+    where: eq(schema.agentExecutions.taskId, taskId),
+    orderBy: [desc(schema.agentExecutions.createdAt)],
+  });
+
+  if (!execution) {
+    return null;
+  }
+
+  const actions = await db.query.agentActions.findMany({
+    where: eq(schema.agentActions.executionId, execution.id),
+    orderBy: [asc(schema.agentActions.sequence)],
+  });
+
+  return { execution, actions };
+}
+
+// Running and queued executions of a project, with queue positions and estimated waits
+export async function getExecutionQueue(session: Session, projectId: string): Promise<ExecutionQueue> {
+  const project = await verifyProjectAccess(session, projectId);
+
+  const running = getRunningExecutions(projectId);
+  const queued = getQueuedExecutions(projectId);
+  const executionIds = [...running, ...queued].map((e) => e.executionId);
+
+  const rows = executionIds.length
+    ? await db
+        .select({
+          id: schema.agentExecutions.id,
+          taskId: schema.agentExecutions.taskId,
+          taskTitle: schema.tasks.title,
+        })
+        .from(schema.agentExecutions)
+        .innerJoin(schema.tasks, eq(schema.agentExecutions.taskId, schema.tasks.id))
+        .where(inArray(schema.agentExecutions.id, executionIds))
+    : [];
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+  const averageSeconds = await getAverageExecutionSeconds(projectId);
+
+  const toEntry = (
+    executionId: string,
+    position: number | null,
+    since: number
+  ): ExecutionQueueEntry | null => {
+    const row = rowsById.get(executionId);
+    if (!row) {
+      return null;
+    }
+    return {
+      executionId,
+      taskId: row.taskId,
+      taskTitle: row.taskTitle,
+      position,
+      etaSeconds:
+        position === null ? null : estimateQueueWaitSeconds(position, project.maxConcurrentExecutions, averageSeconds),
+      since: new Date(since).toISOString(),
+    };
+  };
+
+  return {
+    maxConcurrentExecutions: project.maxConcurrentExecutions,
+    running: running
+      .map((e) => toEntry(e.executionId, null, e.startedAt))
+      .filter((e): e is ExecutionQueueEntry => e !== null),
+    queued: queued
+      .map((e) => toEntry(e.executionId, e.position, e.enqueuedAt))
+      .filter((e): e is ExecutionQueueEntry => e !== null),
+  };
+}
+
+// Directory an execution operates in: its worktree when isolated, otherwise the project's working directory
+function getExecutionWorkingDirectory(execution: AgentExecution, project: Project): string | null {
+  return execution.workingDirectory ?? project.workingDirectory;
+}
+
+// Create SSE response with proper headers
+export function createSSEResponse(stream: ReadableStream) {
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Send SSE event
+export function sendSSEEvent(
+  controller: ReadableStreamDefaultController,
+  event: string,
+  data: unknown
+) {
+  const encoder = new TextEncoder();
+  controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+}
+
+interface AgentModelRunOptions {
+  executionId: string;
+  // The model of each phase, picked per step so one transcript can switch between them
+  models: Record<AgentStepPhase, LanguageModel>;
+  // Whether the phases run on different models, which limits exploration steps to read-only tools
+  phasedModels: boolean;
+  // Full conversation so far, including the system prompt; already persisted to the transcript
+  messages: ModelMessage[];
+  tools: ToolSet;
+  maxSteps: number;
+  // Stream tokens as they arrive; providers with broken streaming tool calls opt out
+  streaming: boolean;
+  controller: ReadableStreamDefaultController;
+  // Aborted when the execution is cancelled
+  abortSignal: AbortSignal;
+  onStepFinish: (step: StepResult<ToolSet>, phase: AgentStepPhase) => Promise<void>;
+}
+
+// Finish the SSE stream of a cancelled execution, reporting what it used up to that point
+function sendCancelledEvents(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  usage?: ExecutionUsage
+) {
+  console.log(`[Agent] Execution ${executionId} cancelled`);
+  sendSSEEvent(controller, "status", { executionId, status: "cancelled", usage });
+  sendSSEEvent(controller, "done", { executionId });
+  controller.close();
+}
+
+// Keep what the execution used on it, the earlier runs' usage plus the current run's, so history
+// can show it once the stream is gone
+async function saveExecutionUsage(executionId: string, previousUsage: ExecutionUsage | null, usage: ExecutionUsage) {
+  try {
+    await db
+      .update(schema.agentExecutions)
+      .set({ usage: JSON.stringify(addExecutionUsage(previousUsage, usage)) })
+      .where(eq(schema.agentExecutions.id, executionId));
+  } catch (error) {
+    console.error(`[Agent] Failed to save usage of execution ${executionId}:`, error);
+  }
+}
+
+// Average wall-clock duration of the project's recent finished executions, used for queue ETAs
+async function getAverageExecutionSeconds(projectId: string): Promise<number | null> {
+  const row = sqlite
+    .prepare(
+      `SELECT AVG(completed_at - created_at) as avgSeconds FROM (
+        SELECT completed_at, created_at FROM agent_executions
+        WHERE project_id = ? AND completed_at IS NOT NULL
+        ORDER BY created_at DESC LIMIT 20
+      )`
+    )
+    .get(projectId) as { avgSeconds: number | null } | undefined;
+  return row?.avgSeconds ?? null;
+}
+
+function estimateQueueWaitSeconds(position: number, limit: number, averageSeconds: number | null): number | null {
+  if (averageSeconds === null) {
+    return null;
+  }
+  return Math.round(Math.ceil(position / Math.max(1, limit)) * averageSeconds);
+}
+
+// Wait until the project and provider have capacity for another execution, reporting the
+// queue position and estimated wait to the client while queued
+async function waitForExecutionSlot(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  project: Project,
+  aiProvider: AIProvider,
+  abortSignal: AbortSignal
+): Promise<void> {
+  const averageSeconds = await getAverageExecutionSeconds(project.id);
+
+  await acquireExecutionSlot(
+    {
+      executionId,
+      projectId: project.id,
+      providerId: aiProvider.id,
+      projectLimit: project.maxConcurrentExecutions,
+      providerLimit: aiProvider.maxConcurrentExecutions,
+      onPositionChange: (position) => {
+        sendSSEEvent(controller, "queue", {
+          executionId,
+          position,
+          etaSeconds: estimateQueueWaitSeconds(position, project.maxConcurrentExecutions, averageSeconds),
+        });
+      },
+    },
+    abortSignal
+  );
+}
+
+// Files a file-changing action touches, a patch can touch several
+function getActionFilePaths(actionType: string, params: unknown): string[] {
+  if (actionType === "applyPatch") {
+    return getPatchFilePaths((params as ActionParams["applyPatch"]).patch);
+  }
+  return [(params as { path: string }).path];
+}
+
+// Claim the files an execution is about to change, all of them or none. Returns an error message
+// for the model when another active execution already changes one of them.
+function checkFileConflict(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  workingDirectory: string,
+  actionType: string,
+  params: unknown
+): string | null {
+  if (!FILE_CHANGE_ACTION_TYPES.includes(actionType)) {
+    return null;
+  }
+
+  const conflict = claimFiles(executionId, workingDirectory, getActionFilePaths(actionType, params));
+  if (!conflict) return null;
+
+  sendSSEEvent(controller, "conflict", { executionId, path: conflict.path, conflictingExecutionId: conflict.executionId });
+  return `${conflict.path} is being changed by another running execution (${conflict.executionId})`;
+}
+
+// Claim again only the files the execution's actions may still change or already changed, so
+// rejected proposals free their files. An execution left with nothing to run frees all of them.
+function refreshFileClaims(executionId: string, workingDirectory: string, actions: AgentAction[]) {
+  releaseFileClaims(executionId);
+  if (!actions.some((action) => action.status === "proposed" || action.status === "approved")) {
+    return;
+  }
+
+  for (const action of actions) {
+    if (!FILE_CHANGE_ACTION_TYPES.includes(action.actionType)) continue;
+    if (!["proposed", "approved", "completed"].includes(action.status)) continue;
+    try {
+      claimFiles(executionId, workingDirectory, getActionFilePaths(action.actionType, JSON.parse(action.actionParams)));
+    } catch {
+      // Malformed patches are reported when they are applied
+    }
+  }
+}
+
+// Add a blocked path to the execution's audit log and tell the client
+async function recordPathBlocked(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  actionType: string,
+  blockedPath: string,
+  reason: PathBlockReason,
+  message: string
+) {
+  const entry = { id: nanoid(), executionId, kind: "path_blocked" as const, actionType, path: blockedPath, reason, message };
+  console.warn(`[Agent] Blocked ${actionType} on ${blockedPath} (${reason}) in execution ${executionId}`);
+  sendSSEEvent(controller, "audit", { ...entry, createdAt: new Date().toISOString() });
+  await db.insert(schema.agentAuditEntries).values(entry);
+}
+
+// Record which provider and model answered a step, what it used and cost, telling the client
+// when the chain had to fail over. Returns the step's cost, null when its model has no price.
+async function recordExecutionStep(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  step: StepResult<ToolSet>,
+  phase: ExecutionStepPhase,
+  tokens: StepTokens
+): Promise<number | null> {
+  const used = getStepProvider(step.providerMetadata);
+  if (!used) return null;
+
+  const provider = await db.query.aiProviders.findFirst({
+    where: eq(schema.aiProviders.id, used.aiProviderId),
+  });
+  const pricing = provider ? parseModelPricing(provider.pricing, provider.id)[used.model] : undefined;
+  const costUsd = getStepCost(pricing, tokens);
+
+  const [last] = await db
+    .select({ step: max(schema.agentSteps.step) })
+    .from(schema.agentSteps)
+    .where(eq(schema.agentSteps.executionId, executionId));
+  const stepNumber = (last?.step ?? 0) + 1;
+
+  await db.insert(schema.agentSteps).values({
+    id: nanoid(),
+    executionId,
+    step: stepNumber,
+    aiProviderId: used.aiProviderId,
+    providerName: used.providerName,
+    model: used.model,
+    phase,
+    inputTokens: step.usage.inputTokens ?? null,
+    cachedInputTokens: step.usage.inputTokenDetails?.cacheReadTokens ?? null,
+    outputTokens: step.usage.outputTokens ?? null,
+    costUsd,
+    failovers: JSON.stringify(used.failovers),
+  });
+
+  if (used.failovers.length > 0) {
+    console.warn(`[Agent] Step ${stepNumber} of execution ${executionId} failed over to ${used.providerName}`);
+    sendSSEEvent(controller, "failover", {
+      executionId,
+      step: stepNumber,
+      providerName: used.providerName,
+      failovers: used.failovers,
+    });
+  }
+
+  return costUsd;
+}
+
+// The model of each agent phase: its routed provider and model first when the project routes the
+// phase, then the project's provider chain
+async function createAgentStepModels(
+  project: Project,
+  providerChain: AIProvider[],
+  abortSignal: AbortSignal
+): Promise<Record<AgentStepPhase, LanguageModel>> {
+  const createPhaseModel = async (phase: AgentStepPhase) =>
+    createFailoverModel(await getRoutedProviderChain(project.userId, project, phase, providerChain), { abortSignal });
+
+  return {
+    exploration: await createPhaseModel("exploration"),
+    editing: await createPhaseModel("editing"),
+  };
+}
+
+// The sandbox limits that apply to each command the agent runs
+function getCommandLimits(sandboxLimits: SandboxLimits): NonNullable<ExecuteOptions["commandLimits"]> {
+  return {
+    timeoutSeconds: sandboxLimits.commandTimeoutSeconds,
+    maxOutputBytes: sandboxLimits.maxCommandOutputBytes,
+    envAllowList: sandboxLimits.commandEnvAllowList,
+    cpuSeconds: sandboxLimits.commandCpuSeconds,
+    memoryMb: sandboxLimits.commandMemoryMb,
+    networkAccess: sandboxLimits.networkAccess,
+  };
+}
+
+// Options for running a tool: cancellation, command limits, the project's path restrictions
+// and auditing of blocked paths
+function createExecuteOptions(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  actionType: string,
+  approvalSettings: ToolApprovalSettings,
+  sandboxLimits: SandboxLimits,
+  signal: AbortSignal
+): ExecuteOptions {
+  return {
+    signal,
+    executionId,
+    commandLimits: getCommandLimits(sandboxLimits),
+    pathRules: approvalSettings.pathRules,
+    protectedPaths: approvalSettings.protectedPaths,
+    onPathBlocked: (error) => {
+      recordPathBlocked(controller, executionId, actionType, error.path, error.reason, error.message).catch((err) =>
+        console.error("[Agent] Failed to record audit entry:", err)
+      );
+    },
+  };
+}
+
+// How long command output is gathered before it goes to the client as one commandOutput event
+const COMMAND_OUTPUT_FLUSH_MS = 100;
+
+// Streams a running command's output to the client as commandOutput events and keeps it for the
+// action result. Output is sent in batches, consecutive output on the same stream is merged, and
+// storage stops at maxBytes since the result's output already keeps the end of long output.
+function createCommandOutputRecorder(
+  controller: ReadableStreamDefaultController,
+  actionId: string,
+  maxBytes: number
+) {
+  const chunks: CommandOutputChunk[] = [];
+  let storedBytes = 0;
+  let truncated = false;
+  let pending: CommandOutputChunk | null = null;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    if (!pending) return;
+
+    const chunk = pending;
+    pending = null;
+    try {
+      sendSSEEvent(controller, "commandOutput", { actionId, ...chunk });
+    } catch {
+      // The client went away, the command keeps running and its output is still stored
+    }
+  };
+
+  return {
+    onCommandOutput: (chunk: CommandOutputChunk) => {
+      if (pending && pending.stream !== chunk.stream) flush();
+      if (pending) {
+        pending.text += chunk.text;
+      } else {
+        pending = { ...chunk };
+        flushTimer = setTimeout(flush, COMMAND_OUTPUT_FLUSH_MS);
+      }
+      if (truncated) return;
+
+      if (maxBytes > 0 && storedBytes + chunk.text.length > maxBytes) {
+        truncated = true;
+        chunks.push({ stream: "stderr", text: "\n... [output truncated] ...\n" });
+        return;
+      }
+      storedBytes += chunk.text.length;
+
+      const last = chunks[chunks.length - 1];
+      if (last?.stream === chunk.stream) {
+        last.text += chunk.text;
+      } else {
+        chunks.push({ ...chunk });
+      }
+    },
+    // Sends what is still pending, call once the command has finished
+    chunks: () => {
+      flush();
+      return chunks;
+    },
+  };
+}
+
+// Runs the project's verification commands each time the agent calls completeTask, streaming each
+// result as a verification event. While a check fails and retries are left, the failure goes back
+// to the model as the completeTask result; once they run out, completion goes ahead anyway.
+function createCompletionVerifier(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  workingDirectory: string,
+  verificationSettings: VerificationSettings,
+  sandboxLimits: SandboxLimits,
+  signal: AbortSignal
+) {
+  return async (): Promise<string | null> => {
+    if (verificationSettings.commands.length === 0) return null;
+
+    const attempt = await getNextVerificationAttempt(executionId);
+    console.log(`[Agent] Running verification attempt ${attempt} for execution ${executionId}`);
+    const runs = await runVerification(executionId, workingDirectory, verificationSettings.commands, attempt, {
+      commandLimits: getCommandLimits(sandboxLimits),
+      signal,
+      onRun: (run) => sendSSEEvent(controller, "verification", run),
+    });
+
+    const failed = runs.find((run) => !run.success);
+    if (!failed) return null;
+
+    const retriesLeft = verificationSettings.maxRetries - attempt;
+    if (retriesLeft < 0) {
+      // Completion goes ahead, the user is told the checks never passed
+      console.warn(`[Agent] Verification still failing after ${verificationSettings.maxRetries} retries, completing execution ${executionId} anyway`);
+      sendSSEEvent(controller, "verificationExhausted", {
+        executionId,
+        command: failed.command,
+        maxRetries: verificationSettings.maxRetries,
+      });
+      return null;
+    }
+    return formatVerificationFailure(failed, retriesLeft);
+  };
+}
+
+// Runs the reviewer pass each time the agent calls completeTask with changes made, streaming the
+// verdict as a review event. A verdict requesting changes goes back to the model while rounds are
+// left; after that, and when the reviewer fails, the verdict is only attached for the human reviewer.
+// The reviewer's model calls are recorded as review steps and count against the token and cost limits.
+function createCompletionReviewer(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  project: Project,
+  task: Task,
+  workingDirectory: string,
+  providerChain: AIProvider[],
+  approvalSettings: ToolApprovalSettings,
+  limitsTracker: SandboxLimitsTracker,
+  previousUsage: ExecutionUsage | null,
+  signal: AbortSignal
+) {
+  const reviewerSettings = parseReviewerSettings(project.reviewerSettings, project.id);
+
+  return async (): Promise<string | null> => {
+    if (!reviewerSettings.enabled) return null;
+
+    const providers = await getReviewerProviderChain(reviewerSettings, project, providerChain);
+    const round = await getNextReviewRound(executionId);
+    console.log(`[Agent] Running review round ${round} for execution ${executionId} with provider ${providers[0]!.name}`);
+
+    let review;
+    try {
+      review = await runCodeReview(executionId, round, {
+        project,
+        task,
+        workingDirectory,
+        providers,
+        pathAccess: { pathRules: approvalSettings.pathRules, protectedPaths: approvalSettings.protectedPaths },
+        onStepFinish: async (step) => {
+          const tokens = getStepTokens(step.usage);
+          const costUsd = await recordExecutionStep(controller, executionId, step, "review", tokens);
+          limitsTracker.trackTokens(tokens.inputTokens, tokens.outputTokens);
+          limitsTracker.trackCost(costUsd ?? 0);
+
+          const usage = limitsTracker.getUsageSummary();
+          await saveExecutionUsage(executionId, previousUsage, usage);
+          sendSSEEvent(controller, "sandboxUsage", usage);
+        },
+        signal,
+      });
+    } catch (error) {
+      // A limit the reviewer went over is reported like the other tools' limits rather than skipped
+      if (signal.aborted || error instanceof LimitExceededError) throw error;
+      console.error(`[Agent] Review failed for execution ${executionId}, completing without it:`, error);
+      return null;
+    }
+    if (!review) return null;
+
+    sendSSEEvent(controller, "review", review);
+    if (review.verdict === "approve" || round > reviewerSettings.maxRounds) return null;
+    return formatReviewForAgent(review, reviewerSettings.maxRounds - round);
+  };
+}
+
+// Checks run in order before completeTask takes effect, the first one handing something back wins
+function chainCompletionChecks(...checks: (() => Promise<string | null>)[]) {
+  return async (): Promise<string | null> => {
+    for (const check of checks) {
+      const result = await check();
+      if (result) return result;
+    }
+    return null;
+  };
+}
+
+// Whether the agent asked a question or submitted a plan, which leaves the execution waiting for the user
+async function isExecutionPausedForUser(executionId: string): Promise<boolean> {
+  const execution = await db.query.agentExecutions.findFirst({
+    where: eq(schema.agentExecutions.id, executionId),
+  });
+  return execution?.status === "awaiting_question" || execution?.status === "awaiting_plan_approval";
+}
+
+// A submitted plan waits for the user, so the loop ends with it instead of running on to maxSteps
+function agentStopConditions(maxSteps: number) {
+  return [stepCountIs(maxSteps), hasToolCall("submitPlan")];
+}
+
+// Tool callbacks of plan_first executions. The plan is read from the execution on every update
+// since the user may have edited it between the planning and execution phases.
+function createPlanCallbacks(controller: ReadableStreamDefaultController, executionId: string) {
+  const savePlan = async (plan: ExecutionPlan, status?: "awaiting_plan_approval") => {
+    await db
+      .update(schema.agentExecutions)
+      .set({
+        plan: JSON.stringify(plan),
+        ...(status && { status }),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.agentExecutions.id, executionId));
+  };
+
+  return {
+    onSubmitPlan: async (params: PlanToolParams["submitPlan"]) => {
+      const plan = createExecutionPlan(params);
+      await savePlan(plan, "awaiting_plan_approval");
+
+      sendSSEEvent(controller, "plan", { executionId, plan });
+      sendSSEEvent(controller, "status", {
+        executionId,
+        status: "awaiting_plan_approval",
+      });
+
+      return `WAITING_FOR_PLAN_APPROVAL: Your plan with ${plan.steps.length} steps has been sent to the user. The execution is now paused until they approve it or ask for changes.`;
+    },
+
+    onUpdatePlanStep: async (params: PlanToolParams["updatePlanStep"]) => {
+      const execution = await db.query.agentExecutions.findFirst({
+        where: eq(schema.agentExecutions.id, executionId),
+      });
+      const plan = parseExecutionPlan(execution?.plan ?? null);
+      if (!plan) {
+        return "Error: This execution has no plan";
+      }
+
+      let updated: ExecutionPlan;
+      try {
+        updated = setPlanStepStatus(plan, params.stepId, params.status);
+      } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      await savePlan(updated);
+
+      sendSSEEvent(controller, "planStep", { executionId, stepId: params.stepId, status: params.status });
+      return `Step ${params.stepId} marked ${params.status.replace("_", " ")}`;
+    },
+  };
+}
+
+// Run the agent loop, forwarding model output to the client as SSE events.
+// Streams incremental text, reasoning and tool calls when enabled, otherwise
+// sends the complete text once generation finishes. Messages generated by each
+// step are appended to the execution's transcript as soon as the step finishes.
+// Each step runs on the model of its phase, decided by what the step before did.
+async function runAgentModel(options: AgentModelRunOptions): Promise<{ text: string; toolCallCount: number }> {
+  const { executionId, models, messages, tools, maxSteps, controller, abortSignal } = options;
+
+  // Phases of the steps started but not finished yet, in order
+  const stepPhases: AgentStepPhase[] = [];
+  const prepareStep = ({ messages: stepMessages }: { messages: ModelMessage[] }) => {
+    const phase = getAgentStepPhase(stepMessages);
+    stepPhases.push(phase);
+    if (phase === "exploration" && options.phasedModels) {
+      return { model: models[phase], activeTools: Object.keys(tools).filter((name) => EXPLORATION_STEP_TOOLS.includes(name)) };
+    }
+    return { model: models[phase] };
+  };
+
+  // step.response.messages is cumulative across steps, so only persist the new tail
+  let persistedCount = 0;
+  const onStepFinish = async (step: StepResult<ToolSet>) => {
+    const newMessages = step.response.messages.slice(persistedCount);
+    persistedCount = step.response.messages.length;
+    await appendAgentMessages(executionId, newMessages);
+    await options.onStepFinish(step, stepPhases.shift() ?? "exploration");
+  };
+
+  if (!options.streaming) {
+    console.log("[Agent] Starting generateText...");
+    const result = await generateText({
+      model: models.exploration,
+      messages,
+      tools,
+      stopWhen: agentStopConditions(maxSteps),
+      prepareStep,
+      abortSignal,
+      onStepFinish,
+    });
+
+    console.log("[Agent] generateText completed");
+    console.log("[Agent] Text:", result.text?.slice(0, 200));
+    console.log("[Agent] Steps:", result.steps?.length);
+    console.log("[Agent] Tool calls:", result.toolCalls?.length);
+
+    if (result.text) {
+      sendSSEEvent(controller, "text", { content: result.text });
+
+      // Parse and send reasoning steps from the text
+      for (const step of parseReasoningFromText(result.text)) {
+        sendSSEEvent(controller, "reasoning", { step });
+      }
+    }
+
+    return { text: result.text, toolCallCount: result.toolCalls?.length ?? 0 };
+  }
+
+  console.log("[Agent] Starting streamText...");
+
+  // Errors thrown from onStepFinish (e.g. exceeded limits) must surface unchanged,
+  // so capture them and stop the stream instead of letting the SDK wrap them
+  let stepError: unknown = null;
+  const abortController = new AbortController();
+
+  const result = streamText({
+    model: models.exploration,
+    messages,
+    tools,
+    stopWhen: agentStopConditions(maxSteps),
+    prepareStep,
+    abortSignal: AbortSignal.any([abortController.signal, abortSignal]),
+    onStepFinish: async (step) => {
+      try {
+        await onStepFinish(step);
+      } catch (error) {
+        stepError = error;
+        abortController.abort();
+      }
+    },
+  });
+
+  // Native reasoning tokens are accumulated per reasoning block and sent as a growing step
+  const reasoningBlocks = new Map<string, AgentReasoningStep>();
+  let stepText = "";
+  let text = "";
+  let toolCallCount = 0;
+
+  try {
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case "text-delta":
+          stepText += part.text;
+          text += part.text;
+          sendSSEEvent(controller, "text", { content: part.text, delta: true });
+          break;
+        case "reasoning-delta": {
+          const block = reasoningBlocks.get(part.id) ?? {
+            id: nanoid(),
+            type: "thinking" as const,
+            content: "",
+            timestamp: new Date().toISOString(),
+          };
+          block.content += part.text;
+          reasoningBlocks.set(part.id, block);
+          sendSSEEvent(controller, "reasoning", { step: block, partial: true });
+          break;
+        }
+        case "reasoning-end": {
+          const block = reasoningBlocks.get(part.id);
+          if (block) {
+            sendSSEEvent(controller, "reasoning", { step: block, partial: false });
+            reasoningBlocks.delete(part.id);
+          }
+          break;
+        }
+        case "tool-call":
+          toolCallCount++;
+          sendSSEEvent(controller, "toolCall", {
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            input: part.input,
+          });
+          break;
+        case "finish-step":
+          // Reasoning markers can only be parsed once the step's text is complete
+          for (const step of parseReasoningFromText(stepText)) {
+            sendSSEEvent(controller, "reasoning", { step });
+          }
+          stepText = "";
+          break;
+        case "error":
+          throw part.error;
+      }
+    }
+  } catch (error) {
+    throw stepError ?? error;
+  }
+
+  if (stepError) {
+    throw stepError;
+  }
+
+  console.log("[Agent] streamText completed");
+  console.log("[Agent] Text:", text.slice(0, 200));
+  console.log("[Agent] Tool calls:", toolCallCount);
+
+  return { text, toolCallCount };
+}
+
+// Action types that can modify the working directory
+const MUTATING_ACTION_TYPES: string[] = ["writeFile", "editFile", "deleteFile", "applyPatch", "executeCommand"];
+
+// Action types that change a single file, checked for conflicts between concurrent executions
+const FILE_CHANGE_ACTION_TYPES: string[] = ["writeFile", "editFile", "deleteFile", "applyPatch"];
+
+// In-flight checkpoint captures, keyed by execution id
+const pendingCheckpoints = new Map<string, Promise<string>>();
+
+// Capture a checkpoint of the working directory before an execution first modifies it.
+// Only one checkpoint is taken per execution, so resumed runs roll back to the original state.
+async function ensureExecutionCheckpoint(
+  executionId: string,
+  projectId: string,
+  workingDirectory: string
+): Promise<string> {
+  const pending = pendingCheckpoints.get(executionId);
+  if (pending) {
+    return pending;
+  }
+
+  const capture = (async () => {
+    const execution = await db.query.agentExecutions.findFirst({
+      where: eq(schema.agentExecutions.id, executionId),
+    });
+    if (execution?.checkpointId) {
+      return execution.checkpointId;
+    }
+
+    const checkpoint = await createCheckpoint(workingDirectory);
+    const checkpointId = nanoid();
+    await db.insert(schema.agentCheckpoints).values({
+      id: checkpointId,
+      projectId,
+      workingDirectory,
+      kind: checkpoint.kind,
+      ref: checkpoint.ref,
+    });
+
+    await db
+      .update(schema.agentExecutions)
+      .set({ checkpointId, updatedAt: new Date() })
+      .where(eq(schema.agentExecutions.id, executionId));
+
+    console.log(`[Agent] Created ${checkpoint.kind} checkpoint ${checkpoint.ref} for execution ${executionId}`);
+    return checkpointId;
+  })();
+
+  pendingCheckpoints.set(executionId, capture);
+  try {
+    return await capture;
+  } finally {
+    pendingCheckpoints.delete(executionId);
+  }
+}
+
+interface AgentLoopOptions {
+  controller: ReadableStreamDefaultController;
+  executionId: string;
+  project: Project;
+  task: Task;
+  workingDirectory: string;
+  providerChain: AIProvider[];
+  models: Record<AgentStepPhase, LanguageModel>;
+  // Full conversation so far, including the system prompt; already persisted to the transcript
+  messages: ModelMessage[];
+  approvalSettings: ToolApprovalSettings;
+  sandboxLimits: SandboxLimits;
+  limitsTracker: SandboxLimitsTracker;
+  // Usage of the execution's earlier runs, this run's usage is added to it when saved
+  previousUsage: ExecutionUsage | null;
+  // plan_first executions explore read-only until their plan is approved
+  planPhase?: "planning" | "executing";
+  // Number of actions the execution recorded in earlier runs, new ones are numbered after them
+  actionSequence: number;
+  abortSignal: AbortSignal;
+}
+
+// Run the agent on an execution, starting it or resuming it. Builds the tools whose callbacks
+// record each action and stream it to the client, and tracks the run against the sandbox limits.
+// Returns the number of actions recorded, earlier runs included.
+async function runAgentLoop(options: AgentLoopOptions): Promise<{ text: string; toolCallCount: number; actionSequence: number }> {
+  const {
+    controller,
+    executionId,
+    project,
+    task,
+    workingDirectory,
+    providerChain,
+    models,
+    approvalSettings,
+    sandboxLimits,
+    limitsTracker,
+    previousUsage,
+    abortSignal,
+  } = options;
+  let actionSequence = options.actionSequence;
+
+  // Helper to create an immediate execution callback with sandbox limit tracking
+  const createImmediateCallback = <T extends keyof ActionParams>(
+    actionType: T,
+    executeFn: (workingDir: string, params: ActionParams[T], options?: ExecuteOptions) => Promise<{ success: boolean; output?: string; error?: string }>
+  ) => async (params: ActionParams[T]) => {
+    // Check time limit before execution
+    limitsTracker.checkTimeLimit();
+
+    // Track file operations
+    if (["readFile", "writeFile", "editFile", "deleteFile", "applyPatch", "listDirectory", "searchFiles"].includes(actionType)) {
+      limitsTracker.trackFileOperation();
+    }
+
+    // Track commands, background processes count as commands too
+    if (actionType === "executeCommand" || actionType === "startProcess") {
+      limitsTracker.trackCommand();
+    }
+
+    // Validate file size for write operations
+    if (actionType === "writeFile" && "content" in params) {
+      const content = (params as ActionParams["writeFile"]).content;
+      limitsTracker.validateFileSize(new TextEncoder().encode(content).length);
+    }
+
+    // Don't change a file another running execution is changing
+    const conflict = checkFileConflict(controller, executionId, workingDirectory, actionType, params);
+    if (conflict) {
+      return `Error: ${conflict}. Wait for it to finish or work on other files.`;
+    }
+
+    // Snapshot the working directory before the first change
+    if (MUTATING_ACTION_TYPES.includes(actionType)) {
+      await ensureExecutionCheckpoint(executionId, project.id, workingDirectory);
+    }
+
+    const result = await executeFn(
+      workingDirectory,
+      params,
+      createExecuteOptions(controller, executionId, actionType, approvalSettings, sandboxLimits, abortSignal)
+    );
+
+    // Store action as completed
+    const actionId = nanoid();
+    actionSequence++;
+    await db.insert(schema.agentActions).values({
+      id: actionId,
+      executionId,
+      actionType,
+      actionParams: JSON.stringify(params),
+      status: "completed",
+      result: JSON.stringify(result),
+      sequence: actionSequence,
+    });
+
+    sendSSEEvent(controller, "action", {
+      id: actionId,
+      type: actionType,
+      params,
+      status: "completed",
+      result,
+    });
+
+    // Send updated usage info
+    sendSSEEvent(controller, "sandboxUsage", limitsTracker.getUsageSummary());
+
+    return result.success ? result.output! : `Error: ${result.error}`;
+  };
+
+  // Create tools with callbacks
+  const phasedModels = hasAgentPhaseRoutes(project);
+  const tools = createAgentTools({
+    // All tool callbacks - will be called based on approval settings
+    onReadFile: createImmediateCallback("readFile", executeReadFile),
+    onListDirectory: createImmediateCallback("listDirectory", executeListDirectory),
+    onSearchFiles: createImmediateCallback("searchFiles", executeSearchFiles),
+    onWriteFile: createImmediateCallback("writeFile", executeWriteFile),
+    onEditFile: createImmediateCallback("editFile", executeEditFile),
+    onDeleteFile: createImmediateCallback("deleteFile", executeDeleteFile),
+    onApplyPatch: createImmediateCallback("applyPatch", executeApplyPatch),
+    onExecuteCommand: createImmediateCallback("executeCommand", executeCommand),
+    onStartProcess: createImmediateCallback("startProcess", executeStartProcess),
+    onReadProcessOutput: createImmediateCallback("readProcessOutput", executeReadProcessOutput),
+    onStopProcess: createImmediateCallback("stopProcess", executeStopProcess),
+    onActionDenied: async (actionType, params, error, blocked) => {
+      if (blocked) {
+        await recordPathBlocked(controller, executionId, actionType, blocked.path, blocked.reason, error);
+      }
+
+      const actionId = nanoid();
+      actionSequence++;
+      const result = { success: false, error };
+      await db.insert(schema.agentActions).values({
+        id: actionId,
+        executionId,
+        actionType,
+        actionParams: JSON.stringify(params),
+        status: "rejected",
+        result: JSON.stringify(result),
+        sequence: actionSequence,
+      });
+
+      sendSSEEvent(controller, "action", {
+        id: actionId,
+        type: actionType,
+        params,
+        status: "rejected",
+        result,
+      });
+    },
+    onCompleteTask: async (params) => {
+      // For completeTask, we need to update the task status immediately
+      const actionId = nanoid();
+      actionSequence++;
+      await db.insert(schema.agentActions).values({
+        id: actionId,
+        executionId,
+        actionType: "completeTask",
+        actionParams: JSON.stringify(params),
+        status: "completed",
+        result: JSON.stringify({ success: true, output: params.summary }),
+        sequence: actionSequence,
+      });
+
+      // Update task status to validation (user needs to review agent's work)
+      await db
+        .update(schema.tasks)
+        .set({
+          status: "validation",
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.tasks.id, task.id));
+
+      sendSSEEvent(controller, "action", {
+        id: actionId,
+        type: "completeTask",
+        params,
+        status: "completed",
+        result: { success: true, output: params.summary },
+      });
+
+      sendSSEEvent(controller, "taskCompleted", { taskId: task.id });
+
+      return `Task moved to validation: ${params.summary}`;
+    },
+
+    // Handle askQuestion - pauses execution until user responds
+    onAskQuestion: async (params) => {
+      const questionId = nanoid();
+      actionSequence++;
+
+      // Store the question in the database
+      await db.insert(schema.agentQuestions).values({
+        id: questionId,
+        executionId,
+        question: params.question,
+        context: params.context || null,
+        status: "pending",
+      });
+
+      // Also store as an action for the activity log
+      await db.insert(schema.agentActions).values({
+        id: nanoid(),
+        executionId,
+        actionType: "askQuestion",
+        actionParams: JSON.stringify(params),
+        status: "completed",
+        result: JSON.stringify({ success: true, output: `Question asked: ${params.question}` }),
+        sequence: actionSequence,
+      });
+
+      // Update execution status to awaiting_question
+      await db
+        .update(schema.agentExecutions)
+        .set({
+          status: "awaiting_question",
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.agentExecutions.id, executionId));
+
+      // Send question event to the client
+      sendSSEEvent(controller, "question", {
+        id: questionId,
+        question: params.question,
+        context: params.context,
+      });
+
+      sendSSEEvent(controller, "status", {
+        executionId,
+        status: "awaiting_question",
+      });
+
+      // Return a message that will be used by the AI to know it needs to wait
+      // The AI will receive this as the tool result
+      return `WAITING_FOR_USER_RESPONSE: Your question "${params.question}" has been sent to the user. The execution is now paused. Once the user responds, the conversation will continue with their answer.`;
+    },
 
-  // Verify the update worked
-  const verifyStmt = sqlite.prepare("SELECT working_directory, working_directory_confirmed FROM projects WHERE id = ?");
-  const row = verifyStmt.get(projectId);
-  console.log("[updateWorkingDirectory] After update, row:", row);
+    // Propose action - for tools that require approval
+    onProposeAction: async (actionType, params) => {
+      // Flag proposals touching files another execution is changing, the user decides on approval
+      checkFileConflict(controller, executionId, workingDirectory, actionType, params);
+
+      const actionId = nanoid();
+      actionSequence++;
+      await db.insert(schema.agentActions).values({
+        id: actionId,
+        executionId,
+        actionType,
+        actionParams: JSON.stringify(params),
+        status: "proposed",
+        sequence: actionSequence,
+      });
 
-  return { success: true };
-}
+      sendSSEEvent(controller, "action", {
+        id: actionId,
+        type: actionType,
+        params,
+        status: "proposed",
+      });
+    },
 
-// Get execution with actions
-export async function getExecution(session: Session, executionId: string) {
-  const execution = await db.query.agentExecutions.findFirst({
-    where: eq(schema.agentExecutions.id, executionId),
-  });
+    onVerifyCompletion: chainCompletionChecks(
+      createCompletionVerifier(
+        controller,
+        executionId,
+        workingDirectory,
+        parseVerificationSettings(project.verificationSettings, project.id),
+        sandboxLimits,
+        abortSignal
+      ),
+      createCompletionReviewer(
+        controller,
+        executionId,
+        project,
+        task,
+        workingDirectory,
+        providerChain,
+        approvalSettings,
+        limitsTracker,
+        previousUsage,
+        abortSignal
+      )
+    ),
 
-  if (!execution) {
-    throw new Error("Execution not found");
-  }
+    planPhase: options.planPhase,
+    ...createPlanCallbacks(controller, executionId),
 
-  await verifyProjectAccess(session, execution.projectId);
+    phasedModels,
 
-  const actions = await db.query.agentActions.findMany({
-    where: eq(schema.agentActions.executionId, executionId),
-    orderBy: [asc(schema.agentActions.sequence)],
+    // Pass approval settings
+    approvalSettings,
+    commandPolicy: parseCommandPolicy(project.commandPolicy, project.id).rules,
   });
 
-  return { execution, actions };
-}
-
-// Create SSE response with proper headers
-function createSSEResponse(stream: ReadableStream) {
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
+  // Use sandbox limits for max steps, default to 20 if not configured
+  const maxSteps = sandboxLimits.maxSteps > 0 ? sandboxLimits.maxSteps : 20;
+
+  // Run the agent, streaming unless the provider is marked as not supporting it
+  const result = await runAgentModel({
+    executionId,
+    models,
+    phasedModels,
+    messages: options.messages,
+    tools,
+    maxSteps,
+    streaming: providerChain[0].streaming !== false,
+    controller,
+    abortSignal,
+    onStepFinish: async (step, phase) => {
+      // Record the step before any limit check can end the execution
+      const tokens = getStepTokens(step.usage);
+      const costUsd = await recordExecutionStep(controller, executionId, step, phase, tokens);
+
+      // Track each AI interaction step
+      limitsTracker.trackStep();
+
+      // Check time limit after each step
+      limitsTracker.checkTimeLimit();
+
+      limitsTracker.trackTokens(tokens.inputTokens, tokens.outputTokens);
+      limitsTracker.trackCost(costUsd ?? 0);
+
+      // Keep and send updated usage info
+      const usage = limitsTracker.getUsageSummary();
+      await saveExecutionUsage(executionId, previousUsage, usage);
+      sendSSEEvent(controller, "sandboxUsage", usage);
     },
   });
-}
 
-// Send SSE event
-function sendSSEEvent(
-  controller: ReadableStreamDefaultController,
-  event: string,
-  data: unknown
-) {
-  const encoder = new TextEncoder();
-  controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+  return { ...result, actionSequence };
 }
 
 // Start agent execution - streams progress via SSE
 export async function startAgentExecution(
   session: Session,
   projectId: string,
-  taskId: string
+  taskId: string,
+  mode: ExecutionMode = "default"
 ): Promise<Response> {
   const project = await verifyProjectAccess(session, projectId);
   const task = await getTask(session, projectId, taskId);
@@ -213,46 +1417,95 @@ export async function startAgentExecution(
     );
   }
 
-  const aiProvider = await db.query.aiProviders.findFirst({
-    where: and(
-      eq(schema.aiProviders.id, project.aiProviderId),
-      eq(schema.aiProviders.userId, session.user.id)
-    ),
-  });
+  // The project's provider comes first, the fallbacks take over when it fails
+  const providerChain = await getProjectProviderChain(session.user.id, project);
+  const aiProvider = providerChain[0];
 
   if (!aiProvider) {
     return Response.json({ error: "AI provider not found" }, { status: 400 });
   }
 
-  // Create execution record
   const executionId = nanoid();
+
+  // Isolate the execution in its own worktree and branch when the project opts in
+  let worktree: ExecutionWorktree | null = null;
+  if (project.useWorktrees) {
+    if (!(await isGitRepository(project.workingDirectory))) {
+      return Response.json(
+        { error: "Worktree isolation requires the working directory to be a git repository" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      worktree = await createExecutionWorktree(project.workingDirectory, taskId, executionId);
+    } catch (error) {
+      return Response.json(
+        { error: `Failed to create worktree: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const workingDirectory = worktree?.workingDirectory ?? project.workingDirectory;
+
+  // The new execution supersedes the task's paused ones, they only change files again if resumed
+  const pausedExecutions = await db.query.agentExecutions.findMany({
+    where: and(
+      eq(schema.agentExecutions.taskId, taskId),
+      inArray(schema.agentExecutions.status, ["awaiting_approval", "awaiting_question", "awaiting_plan_approval"])
+    ),
+  });
+  for (const paused of pausedExecutions) {
+    releaseFileClaims(paused.id);
+  }
+
+  // Create execution record
   await db.insert(schema.agentExecutions).values({
     id: executionId,
     taskId,
     projectId,
-    status: "analyzing",
+    status: "queued",
+    mode,
+    workingDirectory: worktree?.workingDirectory,
+    worktreeBranch: worktree?.branch,
+    worktreeBaseCommit: worktree?.baseCommit,
+    worktreeStatus: worktree ? "active" : null,
   });
 
-  let actionSequence = 0;
-
   // Parse sandbox limits from project (with safe fallback)
-  let sandboxLimits: SandboxLimits = DEFAULT_SANDBOX_LIMITS;
-  try {
-    if (project.sandboxLimits) {
-      sandboxLimits = JSON.parse(project.sandboxLimits);
-    }
-  } catch {
-    console.warn(`Invalid sandboxLimits JSON for project ${projectId}`);
-  }
+  const sandboxLimits = parseSandboxLimits(project.sandboxLimits, project.id);
 
   // Create sandbox limits tracker
   const limitsTracker = new SandboxLimitsTracker(sandboxLimits);
+  const previousUsage = null;
 
   // Create SSE stream
   const stream = new ReadableStream({
     async start(controller) {
+      // Let recovery know this loop is alive
+      const stopHeartbeat = startExecutionHeartbeat(executionId);
+      // Cancelling the execution aborts the model call, provider requests and running commands
+      const abortSignal = registerExecution(executionId);
+
       try {
         // Send initial status
+        sendSSEEvent(controller, "status", {
+          executionId,
+          status: "queued",
+        });
+
+        await waitForExecutionSlot(controller, executionId, project, aiProvider, abortSignal);
+        limitsTracker.resetClock();
+
+        await db
+          .update(schema.agentExecutions)
+          .set({
+            status: "analyzing",
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.agentExecutions.id, executionId));
+
         sendSSEEvent(controller, "status", {
           executionId,
           status: "analyzing",
@@ -264,250 +1517,59 @@ export async function startAgentExecution(
           usage: limitsTracker.getUsage(),
         });
 
-        // Create AI model
-        const model = createAIProvider(aiProvider);
-        const systemPrompt = createAgentSystemPrompt(project, task);
+        // Create the AI models, one per phase when the project routes them
+        const models = await createAgentStepModels(project, providerChain, abortSignal);
+        const systemPrompt = mode === "plan_first"
+          ? `${createAgentSystemPrompt(project, task)}\n\n${PLAN_FIRST_INSTRUCTIONS}`
+          : createAgentSystemPrompt(project, task);
 
         // Parse tool approval settings from project (with safe fallback)
-        let approvalSettings: ToolApprovalSettings = DEFAULT_TOOL_APPROVAL_SETTINGS;
-        try {
-          if (project.toolApprovalSettings) {
-            approvalSettings = JSON.parse(project.toolApprovalSettings);
-          }
-        } catch {
-          console.warn(`Invalid toolApprovalSettings JSON for project ${projectId}`);
-        }
-
-        // Helper to create an immediate execution callback with sandbox limit tracking
-        const createImmediateCallback = <T extends keyof ActionParams>(
-          actionType: T,
-          executeFn: (workingDir: string, params: ActionParams[T]) => Promise<{ success: boolean; output?: string; error?: string }>
-        ) => async (params: ActionParams[T]) => {
-          // Check time limit before execution
-          limitsTracker.checkTimeLimit();
-
-          // Track file operations
-          if (["readFile", "writeFile", "editFile", "deleteFile", "listDirectory"].includes(actionType)) {
-            limitsTracker.trackFileOperation();
-          }
-
-          // Track commands
-          if (actionType === "executeCommand") {
-            limitsTracker.trackCommand();
-          }
-
-          // Validate file size for write operations
-          if (actionType === "writeFile" && "content" in params) {
-            const content = (params as ActionParams["writeFile"]).content;
-            limitsTracker.validateFileSize(new TextEncoder().encode(content).length);
-          }
-
-          const result = await executeFn(project.workingDirectory!, params);
-
-          // Store action as completed
-          const actionId = nanoid();
-          actionSequence++;
-          await db.insert(schema.agentActions).values({
-            id: actionId,
-            executionId,
-            actionType,
-            actionParams: JSON.stringify(params),
-            status: "completed",
-            result: JSON.stringify(result),
-            sequence: actionSequence,
-          });
-
-          sendSSEEvent(controller, "action", {
-            id: actionId,
-            type: actionType,
-            params,
-            status: "completed",
-            result,
-          });
-
-          // Send updated usage info
-          sendSSEEvent(controller, "sandboxUsage", limitsTracker.getUsageSummary());
-
-          return result.success ? result.output! : `Error: ${result.error}`;
-        };
-
-        // Create tools with callbacks
-        const tools = createAgentTools({
-          // All tool callbacks - will be called based on approval settings
-          onReadFile: createImmediateCallback("readFile", executeReadFile),
-          onListDirectory: createImmediateCallback("listDirectory", executeListDirectory),
-          onWriteFile: createImmediateCallback("writeFile", executeWriteFile),
-          onEditFile: createImmediateCallback("editFile", executeEditFile),
-          onDeleteFile: createImmediateCallback("deleteFile", executeDeleteFile),
-          onExecuteCommand: createImmediateCallback("executeCommand", executeCommand),
-          onCompleteTask: async (params) => {
-            // For completeTask, we need to update the task status immediately
-            const actionId = nanoid();
-            actionSequence++;
-            await db.insert(schema.agentActions).values({
-              id: actionId,
-              executionId,
-              actionType: "completeTask",
-              actionParams: JSON.stringify(params),
-              status: "completed",
-              result: JSON.stringify({ success: true, output: params.summary }),
-              sequence: actionSequence,
-            });
-
-            // Update task status to validation (user needs to review agent's work)
-            await db
-              .update(schema.tasks)
-              .set({
-                status: "validation",
-                updatedAt: new Date(),
-              })
-              .where(eq(schema.tasks.id, task.id));
-
-            sendSSEEvent(controller, "action", {
-              id: actionId,
-              type: "completeTask",
-              params,
-              status: "completed",
-              result: { success: true, output: params.summary },
-            });
-
-            sendSSEEvent(controller, "taskCompleted", { taskId: task.id });
-
-            return `Task moved to validation: ${params.summary}`;
-          },
-
-          // Handle askQuestion - pauses execution until user responds
-          onAskQuestion: async (params) => {
-            const questionId = nanoid();
-            actionSequence++;
-
-            // Store the question in the database
-            await db.insert(schema.agentQuestions).values({
-              id: questionId,
-              executionId,
-              question: params.question,
-              context: params.context || null,
-              status: "pending",
-            });
-
-            // Also store as an action for the activity log
-            await db.insert(schema.agentActions).values({
-              id: nanoid(),
-              executionId,
-              actionType: "askQuestion",
-              actionParams: JSON.stringify(params),
-              status: "completed",
-              result: JSON.stringify({ success: true, output: `Question asked: ${params.question}` }),
-              sequence: actionSequence,
-            });
-
-            // Update execution status to awaiting_question
-            await db
-              .update(schema.agentExecutions)
-              .set({
-                status: "awaiting_question",
-                updatedAt: new Date(),
-              })
-              .where(eq(schema.agentExecutions.id, executionId));
-
-            // Send question event to the client
-            sendSSEEvent(controller, "question", {
-              id: questionId,
-              question: params.question,
-              context: params.context,
-            });
-
-            sendSSEEvent(controller, "status", {
-              executionId,
-              status: "awaiting_question",
-            });
-
-            // Return a message that will be used by the AI to know it needs to wait
-            // The AI will receive this as the tool result
-            return `WAITING_FOR_USER_RESPONSE: Your question "${params.question}" has been sent to the user. The execution is now paused. Once the user responds, the conversation will continue with their answer.`;
-          },
+        const approvalSettings = parseToolApprovalSettings(project.toolApprovalSettings, projectId);
 
-          // Propose action - for tools that require approval
-          onProposeAction: async (actionType, params) => {
-            const actionId = nanoid();
-            actionSequence++;
-            await db.insert(schema.agentActions).values({
-              id: actionId,
-              executionId,
-              actionType,
-              actionParams: JSON.stringify(params),
-              status: "proposed",
-              sequence: actionSequence,
-            });
-
-            sendSSEEvent(controller, "action", {
-              id: actionId,
-              type: actionType,
-              params,
-              status: "proposed",
-            });
+        // Record the opening of the transcript so it can be replayed on resume or retry
+        const initialMessages: ModelMessage[] = [
+          { role: "system", content: systemPrompt },
+          {
+            role: "user",
+            content: `Please complete this task: ${task.title}\n\n${task.description || ""}`,
           },
+        ];
+        await appendAgentMessages(executionId, initialMessages);
 
-          // Pass approval settings
+        const result = await runAgentLoop({
+          controller,
+          executionId,
+          project,
+          task,
+          workingDirectory,
+          providerChain,
+          models,
+          messages: initialMessages,
           approvalSettings,
+          sandboxLimits,
+          limitsTracker,
+          previousUsage,
+          planPhase: mode === "plan_first" ? "planning" : undefined,
+          actionSequence: 0,
+          abortSignal,
         });
 
-        // Run the agent (non-streaming for better LM Studio compatibility)
-        console.log("[Agent] Starting generateText...");
-
-        // Use sandbox limits for max steps, default to 20 if not configured
-        const maxSteps = sandboxLimits.maxSteps > 0 ? sandboxLimits.maxSteps : 20;
-
-        const result = await generateText({
-          model,
-          system: systemPrompt,
-          messages: [
-            {
-              role: "user",
-              content: `Please complete this task: ${task.title}\n\n${task.description || ""}`,
-            },
-          ],
-          tools,
-          stopWhen: stepCountIs(maxSteps),
-          onStepFinish: async (step) => {
-            // Track each AI interaction step
-            limitsTracker.trackStep();
-
-            // Check time limit after each step
-            limitsTracker.checkTimeLimit();
-
-            // Track token usage if available
-            if (step.usage) {
-              limitsTracker.trackTokens(step.usage.promptTokens || 0, step.usage.completionTokens || 0);
-            }
-
-            // Send updated usage info
-            sendSSEEvent(controller, "sandboxUsage", limitsTracker.getUsageSummary());
-          },
-        });
-
-        console.log("[Agent] generateText completed");
-        console.log("[Agent] Text:", result.text?.slice(0, 200));
-        console.log("[Agent] Steps:", result.steps?.length);
-        console.log("[Agent] Tool calls:", result.toolCalls?.length);
-
-        // Send text response if any
-        if (result.text) {
-          sendSSEEvent(controller, "text", { content: result.text });
-
-          // Parse and send reasoning steps from the text
-          const reasoningSteps = parseReasoningFromText(result.text);
-          for (const step of reasoningSteps) {
-            sendSSEEvent(controller, "reasoning", { step });
-          }
-        }
+        // A cancel that landed after the last step must not be overwritten
+        abortSignal.throwIfAborted();
 
         // Check if we got any response
-        const hasContent = result.text || (result.toolCalls && result.toolCalls.length > 0) || actionSequence > 0;
+        const hasContent = result.text || result.toolCallCount > 0 || result.actionSequence > 0;
         if (!hasContent) {
           throw new Error("No response from AI model - the model may not support tool calling or there was an API error");
         }
 
+        // A question or a submitted plan leaves the execution paused rather than awaiting approval
+        if (await isExecutionPausedForUser(executionId)) {
+          sendSSEEvent(controller, "done", { executionId });
+          controller.close();
+          return;
+        }
+
         // Update execution status
         await db
           .update(schema.agentExecutions)
@@ -525,6 +1587,14 @@ export async function startAgentExecution(
         sendSSEEvent(controller, "done", { executionId });
         controller.close();
       } catch (error) {
+        // A failed or cancelled run won't change any more files
+        releaseFileClaims(executionId);
+
+        if (abortSignal.aborted) {
+          sendCancelledEvents(controller, executionId, limitsTracker.getUsageSummary());
+          return;
+        }
+
         console.error("Agent execution error:", error);
 
         // Check if this is a limit exceeded error
@@ -557,6 +1627,16 @@ export async function startAgentExecution(
         sendSSEEvent(controller, "sandboxUsage", limitsTracker.getUsageSummary());
 
         controller.close();
+      } finally {
+        // A run that never reached the model leaves the previous run's usage in place
+        if (limitsTracker.getUsage().stepsCount > 0) {
+          await saveExecutionUsage(executionId, previousUsage, limitsTracker.getUsageSummary());
+        }
+        // Background processes belong to the run that started them, however it ended
+        stopExecutionProcesses(executionId);
+        stopHeartbeat();
+        unregisterExecution(executionId, abortSignal);
+        releaseExecutionSlot(executionId);
       }
     },
   });
@@ -592,10 +1672,91 @@ export async function updateActionStatus(
       );
   }
 
+  if (status === "rejected") {
+    const project = await verifyProjectAccess(session, execution.projectId);
+    const workingDirectory = getExecutionWorkingDirectory(execution, project);
+    if (workingDirectory) {
+      const { actions } = await getExecution(session, executionId);
+      refreshFileClaims(executionId, workingDirectory, actions);
+    } else {
+      releaseFileClaims(executionId);
+    }
+  }
+
   return { success: true };
 }
 
-// Execute approved actions - streams progress via SSE
+// Run one approved action and store its result, streaming executing and actionComplete events.
+// completeTask only records the agent's summary, the caller moves the task on.
+async function runApprovedAction(
+  controller: ReadableStreamDefaultController,
+  executionId: string,
+  workingDirectory: string,
+  action: AgentAction,
+  approvalSettings: ToolApprovalSettings,
+  sandboxLimits: SandboxLimits,
+  signal: AbortSignal
+): Promise<ExecutionResult> {
+  sendSSEEvent(controller, "executing", { actionId: action.id });
+
+  await db
+    .update(schema.agentActions)
+    .set({
+      status: "executing",
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.agentActions.id, action.id));
+
+  const params = JSON.parse(action.actionParams);
+
+  let result: ExecutionResult & { outputChunks?: CommandOutputChunk[] };
+  if (action.actionType === "completeTask") {
+    result = { success: true, output: params.summary };
+  } else {
+    // Execute the action, unless another running execution is changing the same file
+    const conflict = checkFileConflict(controller, executionId, workingDirectory, action.actionType, params);
+    // Stream command output while it runs, the client shows it in the action's terminal
+    const output = action.actionType === "executeCommand"
+      ? createCommandOutputRecorder(controller, action.id, sandboxLimits.maxCommandOutputBytes * 2)
+      : null;
+    const executed = conflict
+      ? { success: false, error: conflict }
+      : await executeAction(workingDirectory, action.actionType, params, {
+          ...createExecuteOptions(controller, executionId, action.actionType, approvalSettings, sandboxLimits, signal),
+          onCommandOutput: output?.onCommandOutput,
+        });
+    result = output ? { ...executed, outputChunks: output.chunks() } : executed;
+  }
+
+  await db
+    .update(schema.agentActions)
+    .set({
+      status: result.success ? "completed" : "failed",
+      result: JSON.stringify(result),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.agentActions.id, action.id));
+
+  sendSSEEvent(controller, "actionComplete", {
+    actionId: action.id,
+    success: result.success,
+    result,
+  });
+
+  return result;
+}
+
+// The user turn that hands the results of approved actions back to the agent
+function createApprovedActionsMessage(results: { action: AgentAction; result: ExecutionResult }[]): string {
+  const lines = results.map(({ action, result }) =>
+    `- ${action.actionType} ${action.actionParams}: ${result.success ? `succeeded\n${result.output ?? ""}` : `failed: ${result.error}`}`
+  );
+  return `The user approved your proposed actions and they were run:\n\n${lines.join("\n\n")}\n\n` +
+    "Background processes keep running only until you stop working, so check them with readProcessOutput now. Continue with the task.";
+}
+
+// Execute approved actions - streams progress via SSE. Background processes outlive a batch only
+// inside an agent loop, so approved startProcess actions continue the agent instead.
 export async function executeApprovedActions(
   session: Session,
   executionId: string
@@ -610,24 +1771,39 @@ export async function executeApprovedActions(
     );
   }
 
-  if (!project.workingDirectory) {
+  const workingDirectory = getExecutionWorkingDirectory(execution, project);
+
+  if (!workingDirectory) {
     return Response.json(
       { error: "Working directory not configured" },
       { status: 400 }
     );
   }
 
+  const approvalSettings = parseToolApprovalSettings(project.toolApprovalSettings, project.id);
+  const sandboxLimits = parseSandboxLimits(project.sandboxLimits, project.id);
   const approvedActions = actions.filter((a) => a.status === "approved");
 
   if (approvedActions.length === 0) {
     return Response.json({ error: "No approved actions to execute" }, { status: 400 });
   }
 
+  if (approvedActions.some((a) => a.actionType === "startProcess")) {
+    return resumeAgentExecution(session, executionId, "approval");
+  }
+
+  // Approved actions change files like a running agent does, so they wait for a slot too
+  const [aiProvider] = await getProjectProviderChain(session.user.id, project);
+  if (!aiProvider) {
+    return Response.json({ error: "AI provider not found" }, { status: 400 });
+  }
+
   // Update execution status
   await db
     .update(schema.agentExecutions)
     .set({
       status: "executing",
+      errorMessage: null,
       updatedAt: new Date(),
     })
     .where(eq(schema.agentExecutions.id, executionId));
@@ -635,7 +1811,14 @@ export async function executeApprovedActions(
   // Create SSE stream
   const stream = new ReadableStream({
     async start(controller) {
+      // Let recovery know this loop is alive
+      const stopHeartbeat = startExecutionHeartbeat(executionId);
+      // Cancelling the execution aborts the model call, provider requests and running commands
+      const abortSignal = registerExecution(executionId);
+
       try {
+        await waitForExecutionSlot(controller, executionId, project, aiProvider, abortSignal);
+
         sendSSEEvent(controller, "status", {
           executionId,
           status: "executing",
@@ -644,67 +1827,33 @@ export async function executeApprovedActions(
         let allSucceeded = true;
         let hasCompleteTask = false;
 
-        for (const action of approvedActions) {
-          sendSSEEvent(controller, "executing", { actionId: action.id });
-
-          // Update action status
-          await db
-            .update(schema.agentActions)
-            .set({
-              status: "executing",
-              updatedAt: new Date(),
-            })
-            .where(eq(schema.agentActions.id, action.id));
-
-          const params = JSON.parse(action.actionParams);
+        // Snapshot the working directory before applying any changes
+        if (approvedActions.some((a) => MUTATING_ACTION_TYPES.includes(a.actionType))) {
+          await ensureExecutionCheckpoint(executionId, execution.projectId, workingDirectory);
+        }
 
+        for (const action of approvedActions) {
+          abortSignal.throwIfAborted();
           if (action.actionType === "completeTask") {
             hasCompleteTask = true;
-            // Mark as completed
-            await db
-              .update(schema.agentActions)
-              .set({
-                status: "completed",
-                result: JSON.stringify({ success: true, output: params.summary }),
-                updatedAt: new Date(),
-              })
-              .where(eq(schema.agentActions.id, action.id));
-
-            sendSSEEvent(controller, "actionComplete", {
-              actionId: action.id,
-              success: true,
-              result: { success: true, output: params.summary },
-            });
-          } else {
-            // Execute the action
-            const result = await executeAction(
-              project.workingDirectory!,
-              action.actionType,
-              params
-            );
-
-            // Update action with result
-            await db
-              .update(schema.agentActions)
-              .set({
-                status: result.success ? "completed" : "failed",
-                result: JSON.stringify(result),
-                updatedAt: new Date(),
-              })
-              .where(eq(schema.agentActions.id, action.id));
-
-            sendSSEEvent(controller, "actionComplete", {
-              actionId: action.id,
-              success: result.success,
-              result,
-            });
+          }
 
-            if (!result.success) {
-              allSucceeded = false;
-            }
+          const result = await runApprovedAction(
+            controller,
+            executionId,
+            workingDirectory,
+            action,
+            approvalSettings,
+            sandboxLimits,
+            abortSignal
+          );
+          if (!result.success) {
+            allSucceeded = false;
           }
         }
 
+        abortSignal.throwIfAborted();
+
         // Update task status if completeTask was approved and executed
         // Move to validation instead of done - user needs to review agent's work
         if (hasCompleteTask && allSucceeded) {
@@ -738,6 +1887,12 @@ export async function executeApprovedActions(
         sendSSEEvent(controller, "done", { executionId });
         controller.close();
       } catch (error) {
+        if (abortSignal.aborted) {
+          // The batch runs no model steps, so the usage the execution's runs stored is what it used
+          sendCancelledEvents(controller, executionId, parseExecutionUsage(execution.usage, executionId) ?? undefined);
+          return;
+        }
+
         console.error("Action execution error:", error);
 
         await db
@@ -755,6 +1910,12 @@ export async function executeApprovedActions(
         });
 
         controller.close();
+      } finally {
+        stopHeartbeat();
+        unregisterExecution(executionId, abortSignal);
+        releaseExecutionSlot(executionId);
+        releaseFileClaims(executionId);
+        stopExecutionProcesses(executionId);
       }
     },
   });
@@ -776,64 +1937,15 @@ export async function getExecutionHistory(
 ): Promise<ExecutionHistoryItem[]> {
   await verifyProjectAccess(session, projectId);
 
-  const { status, limit = 50, offset = 0 } = filters;
-
-  // Build query with joins to get task title and action counts
-  const queryStr = status
-    ? `
-    SELECT
-      e.id,
-      e.task_id as taskId,
-      t.title as taskTitle,
-      e.project_id as projectId,
-      e.status,
-      e.error_message as errorMessage,
-      e.created_at as createdAt,
-      e.updated_at as updatedAt,
-      e.completed_at as completedAt,
-      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id) as actionsCount,
-      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id AND a.status = 'completed') as completedActionsCount,
-      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id AND a.status = 'failed') as failedActionsCount
-    FROM agent_executions e
-    LEFT JOIN tasks t ON e.task_id = t.id
-    WHERE e.project_id = ? AND e.status = ?
-    ORDER BY e.created_at DESC
-    LIMIT ?
-    OFFSET ?
-  `
-    : `
-    SELECT
-      e.id,
-      e.task_id as taskId,
-      t.title as taskTitle,
-      e.project_id as projectId,
-      e.status,
-      e.error_message as errorMessage,
-      e.created_at as createdAt,
-      e.updated_at as updatedAt,
-      e.completed_at as completedAt,
-      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id) as actionsCount,
-      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id AND a.status = 'completed') as completedActionsCount,
-      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id AND a.status = 'failed') as failedActionsCount
-    FROM agent_executions e
-    LEFT JOIN tasks t ON e.task_id = t.id
-    WHERE e.project_id = ?
-    ORDER BY e.created_at DESC
-    LIMIT ?
-    OFFSET ?
-  `;
-
-  const params = status
-    ? [projectId, status, limit, offset]
-    : [projectId, limit, offset];
-
-  const results = sqlite.prepare(queryStr).all(...params) as Array<{
+  const query = buildExecutionHistoryQuery(projectId, filters);
+  const results = sqlite.prepare(query.sql).all(...query.params) as Array<{
     id: string;
     taskId: string;
     taskTitle: string;
     projectId: string;
     status: string;
     errorMessage: string | null;
+    usage: string | null;
     createdAt: number;
     updatedAt: number;
     completedAt: number | null;
@@ -855,6 +1967,7 @@ export async function getExecutionHistory(
     actionsCount: row.actionsCount,
     completedActionsCount: row.completedActionsCount,
     failedActionsCount: row.failedActionsCount,
+    usage: parseExecutionUsage(row.usage, row.id),
   }));
 }
 
@@ -893,8 +2006,13 @@ export async function getExecutionHistoryDetail(
     writeFile: 0,
     editFile: 0,
     deleteFile: 0,
+    applyPatch: 0,
     listDirectory: 0,
+    searchFiles: 0,
     executeCommand: 0,
+    startProcess: 0,
+    readProcessOutput: 0,
+    stopProcess: 0,
     completeTask: 0,
   };
 
@@ -916,6 +2034,32 @@ export async function getExecutionHistoryDetail(
 
   const duration = completedAt ? completedAt - createdAt : null;
 
+  const checkpoint = execution.checkpointId
+    ? await db.query.agentCheckpoints.findFirst({
+        where: eq(schema.agentCheckpoints.id, execution.checkpointId),
+      })
+    : undefined;
+
+  const auditEntries = await db.query.agentAuditEntries.findMany({
+    where: eq(schema.agentAuditEntries.executionId, executionId),
+    orderBy: [asc(schema.agentAuditEntries.createdAt)],
+  });
+
+  const verificationRuns = await db.query.agentVerificationRuns.findMany({
+    where: eq(schema.agentVerificationRuns.executionId, executionId),
+    orderBy: [asc(schema.agentVerificationRuns.attempt), asc(schema.agentVerificationRuns.createdAt)],
+  });
+
+  const steps = await db.query.agentSteps.findMany({
+    where: eq(schema.agentSteps.executionId, executionId),
+    orderBy: [asc(schema.agentSteps.step)],
+  });
+
+  const reviews = await db.query.agentReviews.findMany({
+    where: eq(schema.agentReviews.executionId, executionId),
+    orderBy: [asc(schema.agentReviews.round)],
+  });
+
   return {
     execution: {
       id: execution.id,
@@ -948,6 +2092,55 @@ export async function getExecutionHistoryDetail(
       duration,
       actionBreakdown,
     },
+    checkpoint: checkpoint
+      ? {
+          id: checkpoint.id,
+          kind: checkpoint.kind,
+          createdAt: checkpoint.createdAt instanceof Date
+            ? checkpoint.createdAt.toISOString()
+            : new Date(checkpoint.createdAt).toISOString(),
+          restoredAt: checkpoint.restoredAt
+            ? (checkpoint.restoredAt instanceof Date
+                ? checkpoint.restoredAt.toISOString()
+                : new Date(checkpoint.restoredAt).toISOString())
+            : null,
+        }
+      : null,
+    worktree: execution.worktreeBranch && execution.worktreeBaseCommit && execution.worktreeStatus
+      ? {
+          branch: execution.worktreeBranch,
+          baseCommit: execution.worktreeBaseCommit,
+          status: execution.worktreeStatus,
+        }
+      : null,
+    auditEntries: auditEntries.map((entry) => ({
+      id: entry.id,
+      executionId: entry.executionId,
+      kind: entry.kind,
+      actionType: entry.actionType as AgentActionType,
+      path: entry.path,
+      reason: entry.reason,
+      message: entry.message,
+      createdAt: entry.createdAt instanceof Date
+        ? entry.createdAt.toISOString()
+        : new Date(entry.createdAt).toISOString(),
+    })),
+    verificationRuns: verificationRuns.map((run) => ({
+      ...run,
+      createdAt: run.createdAt instanceof Date
+        ? run.createdAt.toISOString()
+        : new Date(run.createdAt).toISOString(),
+    })),
+    plan: parseExecutionPlan(execution.plan),
+    reviews: reviews.map(toExecutionReview),
+    usage: parseExecutionUsage(execution.usage, execution.id),
+    steps: steps.map((step) => ({
+      ...step,
+      failovers: JSON.parse(step.failovers) as ProviderFailover[],
+      createdAt: step.createdAt instanceof Date
+        ? step.createdAt.toISOString()
+        : new Date(step.createdAt).toISOString(),
+    })),
   };
 }
 
@@ -999,8 +2192,13 @@ export async function getExecutionHistoryStats(
     writeFile: 0,
     editFile: 0,
     deleteFile: 0,
+    applyPatch: 0,
     listDirectory: 0,
+    searchFiles: 0,
     executeCommand: 0,
+    startProcess: 0,
+    readProcessOutput: 0,
+    stopProcess: 0,
     completeTask: 0,
   };
 
@@ -1008,6 +2206,30 @@ export async function getExecutionHistoryStats(
     actionBreakdown[row.actionType as AgentActionType] = row.count;
   }
 
+  // Spend of the priced steps, per task and per day
+  const costByTask = sqlite
+    .prepare(
+      `SELECT e.task_id as taskId, t.title as taskTitle, SUM(s.cost_usd) as costUsd
+      FROM agent_steps s
+      JOIN agent_executions e ON s.execution_id = e.id
+      JOIN tasks t ON e.task_id = t.id
+      WHERE e.project_id = ? AND s.cost_usd IS NOT NULL
+      GROUP BY e.task_id
+      ORDER BY costUsd DESC`
+    )
+    .all(projectId) as ExecutionHistoryStats["costByTask"];
+
+  const costByDay = sqlite
+    .prepare(
+      `SELECT date(s.created_at, 'unixepoch') as date, SUM(s.cost_usd) as costUsd
+      FROM agent_steps s
+      JOIN agent_executions e ON s.execution_id = e.id
+      WHERE e.project_id = ? AND s.cost_usd IS NOT NULL
+      GROUP BY date
+      ORDER BY date`
+    )
+    .all(projectId) as ExecutionHistoryStats["costByDay"];
+
   return {
     totalExecutions: statusResult.total || 0,
     completedExecutions: statusResult.completed || 0,
@@ -1015,9 +2237,23 @@ export async function getExecutionHistoryStats(
     cancelledExecutions: statusResult.cancelled || 0,
     avgDuration: statusResult.avgDuration,
     actionBreakdown,
+    totalCostUsd: costByDay.reduce((total, day) => total + day.costUsd, 0),
+    costByTask,
+    costByDay,
   };
 }
 
+function parseToolApprovalSettings(toolApprovalSettings: string | null, projectId: string): ToolApprovalSettings {
+  try {
+    if (toolApprovalSettings) {
+      return JSON.parse(toolApprovalSettings);
+    }
+  } catch {
+    console.warn(`Invalid toolApprovalSettings JSON for project ${projectId}`);
+  }
+  return DEFAULT_TOOL_APPROVAL_SETTINGS;
+}
+
 // Update tool approval settings
 export async function updateToolApprovalSettings(
   session: Session,
@@ -1028,6 +2264,11 @@ export async function updateToolApprovalSettings(
 
   await verifyProjectAccess(session, projectId);
 
+  const invalid = validatePathRules(settings.pathRules ?? []);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
   const result = await db
     .update(schema.projects)
     .set({
@@ -1052,17 +2293,243 @@ export async function getToolApprovalSettings(
   projectId: string
 ) {
   const project = await verifyProjectAccess(session, projectId);
+  return parseToolApprovalSettings(project.toolApprovalSettings, projectId);
+}
 
-  let settings: ToolApprovalSettings = DEFAULT_TOOL_APPROVAL_SETTINGS;
+function parseCommandPolicy(commandPolicy: string | null, projectId: string): CommandPolicy {
   try {
-    if (project.toolApprovalSettings) {
-      settings = JSON.parse(project.toolApprovalSettings);
+    if (commandPolicy) {
+      const parsed = JSON.parse(commandPolicy);
+      return { rules: Array.isArray(parsed.rules) ? parsed.rules : [] };
     }
   } catch {
-    console.warn(`Invalid toolApprovalSettings JSON for project ${projectId}`);
+    console.warn(`Invalid commandPolicy JSON for project ${projectId}`);
+  }
+  return { rules: [] };
+}
+
+// Get the project's ordered command rules
+export async function getCommandPolicy(session: Session, projectId: string): Promise<CommandPolicy> {
+  const project = await verifyProjectAccess(session, projectId);
+  return parseCommandPolicy(project.commandPolicy, projectId);
+}
+
+// Replace the project's command rules
+export async function updateCommandPolicy(session: Session, projectId: string, policy: CommandPolicy) {
+  await verifyProjectAccess(session, projectId);
+
+  const rules = policy.rules ?? [];
+  const invalid = validateCommandPolicy(rules);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  await db
+    .update(schema.projects)
+    .set({
+      commandPolicy: JSON.stringify({ rules }),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.projects.id, projectId));
+
+  return { success: true };
+}
+
+// Show what the policy decides for a command; tests the given rules, or the saved ones if omitted
+export async function testCommandPolicy(
+  session: Session,
+  projectId: string,
+  command: string,
+  rules?: CommandPolicyRule[]
+): Promise<CommandPolicyDecision> {
+  const project = await verifyProjectAccess(session, projectId);
+  const candidateRules = rules ?? parseCommandPolicy(project.commandPolicy, projectId).rules;
+
+  const invalid = validateCommandPolicy(candidateRules);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  return evaluateCommandPolicy(command, candidateRules);
+}
+
+function parseVerificationSettings(verificationSettings: string | null, projectId: string): VerificationSettings {
+  try {
+    if (verificationSettings) {
+      return { ...DEFAULT_VERIFICATION_SETTINGS, ...JSON.parse(verificationSettings) };
+    }
+  } catch {
+    console.warn(`Invalid verificationSettings JSON for project ${projectId}`);
+  }
+  return DEFAULT_VERIFICATION_SETTINGS;
+}
+
+// Get the checks run when the agent completes a task
+export async function getVerificationSettings(session: Session, projectId: string): Promise<VerificationSettings> {
+  const project = await verifyProjectAccess(session, projectId);
+  return parseVerificationSettings(project.verificationSettings, projectId);
+}
+
+// Replace the project's verification commands and retry count
+export async function updateVerificationSettings(
+  session: Session,
+  projectId: string,
+  settings: Partial<VerificationSettings>
+) {
+  const project = await verifyProjectAccess(session, projectId);
+  const current = parseVerificationSettings(project.verificationSettings, projectId);
+
+  const commands = settings.commands ?? current.commands;
+  if (!Array.isArray(commands) || commands.some((command) => typeof command !== "string")) {
+    throw new Error("Invalid verification commands: must be a list of commands");
+  }
+  const maxRetries = settings.maxRetries ?? current.maxRetries;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error("Invalid maxRetries: must be a non-negative whole number");
+  }
+
+  const newSettings: VerificationSettings = {
+    commands: commands.map((command) => command.trim()).filter(Boolean),
+    maxRetries,
+  };
+
+  await db
+    .update(schema.projects)
+    .set({
+      verificationSettings: JSON.stringify(newSettings),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.projects.id, projectId));
+
+  return { success: true, settings: newSettings };
+}
+
+function parseReviewerSettings(reviewerSettings: string | null, projectId: string): ReviewerSettings {
+  try {
+    if (reviewerSettings) {
+      return { ...DEFAULT_REVIEWER_SETTINGS, ...JSON.parse(reviewerSettings) };
+    }
+  } catch {
+    console.warn(`Invalid reviewerSettings JSON for project ${projectId}`);
+  }
+  return DEFAULT_REVIEWER_SETTINGS;
+}
+
+// The providers the reviewer tries in order: the reviewer's own provider, else the project's
+// review route, followed by the project's provider chain. A provider that was deleted is skipped.
+async function getReviewerProviderChain(
+  reviewerSettings: ReviewerSettings,
+  project: Project,
+  providerChain: AIProvider[]
+): Promise<AIProvider[]> {
+  if (reviewerSettings.aiProviderId) {
+    const provider = await db.query.aiProviders.findFirst({
+      where: and(eq(schema.aiProviders.id, reviewerSettings.aiProviderId), eq(schema.aiProviders.userId, project.userId)),
+    });
+    if (provider) return applyModelRoute(providerChain, { aiProviderId: provider.id, model: null }, provider);
+    console.warn(`[Agent] Reviewer provider ${reviewerSettings.aiProviderId} not found, reviewing with the project's providers`);
+  }
+  return getRoutedProviderChain(project.userId, project, "review", providerChain);
+}
+
+// Get the reviewer pass run when the agent completes a task
+export async function getReviewerSettings(session: Session, projectId: string): Promise<ReviewerSettings> {
+  const project = await verifyProjectAccess(session, projectId);
+  return parseReviewerSettings(project.reviewerSettings, projectId);
+}
+
+// Turn the reviewer pass on or off and choose its provider and rounds
+export async function updateReviewerSettings(
+  session: Session,
+  projectId: string,
+  settings: Partial<ReviewerSettings>
+) {
+  const project = await verifyProjectAccess(session, projectId);
+  const current = parseReviewerSettings(project.reviewerSettings, projectId);
+
+  const enabled = settings.enabled ?? current.enabled;
+  if (typeof enabled !== "boolean") {
+    throw new Error("Invalid enabled: must be true or false");
+  }
+  const aiProviderId = settings.aiProviderId === undefined ? current.aiProviderId : settings.aiProviderId;
+  if (aiProviderId !== null) {
+    const provider = await db.query.aiProviders.findFirst({
+      where: and(eq(schema.aiProviders.id, aiProviderId), eq(schema.aiProviders.userId, session.user.id)),
+    });
+    if (!provider) {
+      throw new Error("AI provider not found");
+    }
+  }
+  const maxRounds = settings.maxRounds ?? current.maxRounds;
+  if (!Number.isInteger(maxRounds) || maxRounds < 0) {
+    throw new Error("Invalid maxRounds: must be a non-negative whole number");
+  }
+
+  const newSettings: ReviewerSettings = { enabled, aiProviderId, maxRounds };
+
+  await db
+    .update(schema.projects)
+    .set({
+      reviewerSettings: JSON.stringify(newSettings),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.projects.id, projectId));
+
+  return { success: true, settings: newSettings };
+}
+
+// Get which provider and model each phase of the project's model calls is routed to
+export async function getModelRouting(session: Session, projectId: string): Promise<ModelRoutingSettings> {
+  const project = await verifyProjectAccess(session, projectId);
+  return parseModelRoutingSettings(project.modelRouting, projectId);
+}
+
+// Route phases to a provider and model, or back to the project's providers with null
+export async function updateModelRouting(
+  session: Session,
+  projectId: string,
+  settings: Partial<Record<ModelRoutingPhase, Partial<ModelRoute> | null>>
+) {
+  const project = await verifyProjectAccess(session, projectId);
+  const newSettings = { ...parseModelRoutingSettings(project.modelRouting, projectId) };
+
+  for (const [phase, route] of Object.entries(settings)) {
+    // Own keys only, so toString or __proto__ never end up in the stored settings
+    if (!Object.hasOwn(DEFAULT_MODEL_ROUTING_SETTINGS, phase)) {
+      throw new Error(`Invalid phase: ${phase}`);
+    }
+    if (route === null || route === undefined) {
+      newSettings[phase as ModelRoutingPhase] = null;
+      continue;
+    }
+
+    if (typeof route.aiProviderId !== "string") {
+      throw new Error(`Invalid ${phase} route: aiProviderId is required`);
+    }
+    const provider = await db.query.aiProviders.findFirst({
+      where: and(eq(schema.aiProviders.id, route.aiProviderId), eq(schema.aiProviders.userId, session.user.id)),
+    });
+    if (!provider) {
+      throw new Error(`AI provider of the ${phase} route not found`);
+    }
+    if (route.model !== undefined && route.model !== null && typeof route.model !== "string") {
+      throw new Error(`Invalid ${phase} route: model must be a string`);
+    }
+    newSettings[phase as ModelRoutingPhase] = {
+      aiProviderId: route.aiProviderId,
+      model: route.model?.trim() || null,
+    };
   }
 
-  return settings;
+  await db
+    .update(schema.projects)
+    .set({
+      modelRouting: JSON.stringify(newSettings),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.projects.id, projectId));
+
+  return { success: true, settings: newSettings };
 }
 
 // Cancel execution
@@ -1081,58 +2548,267 @@ export async function cancelExecution(session: Session, executionId: string) {
     })
     .where(eq(schema.agentExecutions.id, executionId));
 
+  // Stop the running loop, it reports the final status to its own stream
+  abortExecution(executionId);
+  releaseFileClaims(executionId);
+  stopExecutionProcesses(executionId);
+
   return { success: true };
 }
 
+// Roll back the working directory to the checkpoint taken before the execution's first change
+export async function rollbackExecution(
+  session: Session,
+  executionId: string
+): Promise<RollbackResult> {
+  const { execution } = await getExecution(session, executionId);
+
+  if (execution.status === "analyzing" || execution.status === "executing") {
+    throw new Error("Cannot roll back an execution that is still running");
+  }
+
+  if (!execution.checkpointId) {
+    throw new Error("No checkpoint recorded for this execution");
+  }
+
+  if (execution.worktreeStatus && execution.worktreeStatus !== "active") {
+    throw new Error(`Cannot roll back: the execution's worktree has been ${execution.worktreeStatus}`);
+  }
+
+  const checkpoint = await db.query.agentCheckpoints.findFirst({
+    where: eq(schema.agentCheckpoints.id, execution.checkpointId),
+  });
+
+  if (!checkpoint) {
+    throw new Error("Checkpoint not found");
+  }
+
+  const result = await restoreCheckpoint(checkpoint.workingDirectory, {
+    kind: checkpoint.kind,
+    ref: checkpoint.ref,
+  });
+
+  await db
+    .update(schema.agentCheckpoints)
+    .set({ restoredAt: new Date() })
+    .where(eq(schema.agentCheckpoints.id, checkpoint.id));
+
+  console.log(`[Agent] Rolled back execution ${executionId} to ${checkpoint.kind} checkpoint ${checkpoint.ref}`);
+
+  return {
+    success: true,
+    restoredFiles: result.restoredFiles,
+    removedFiles: result.removedFiles,
+  };
+}
+
+// Resolve the directory diff previews read from (an execution's worktree, if given)
+async function getPreviewDirectory(
+  session: Session,
+  project: Project,
+  executionId?: string
+): Promise<string | null> {
+  if (!executionId) {
+    return project.workingDirectory;
+  }
+
+  const { execution } = await getExecution(session, executionId);
+  if (execution.projectId !== project.id) {
+    throw new Error("Execution does not belong to this project");
+  }
+  return getExecutionWorkingDirectory(execution, project);
+}
+
+// Get the diff of an execution's branch against its base commit
+export async function getExecutionWorktreeDiff(
+  session: Session,
+  executionId: string
+): Promise<WorktreeDiff> {
+  const { execution } = await getExecution(session, executionId);
+  const project = await verifyProjectAccess(session, execution.projectId);
+
+  if (!execution.worktreeBranch || !execution.worktreeBaseCommit || !execution.worktreeStatus || !execution.workingDirectory) {
+    throw new Error("Execution does not use a worktree");
+  }
+
+  if (!project.workingDirectory) {
+    throw new Error("Working directory not configured");
+  }
+
+  const diff = await getWorktreeDiff(
+    project.workingDirectory,
+    execution.workingDirectory,
+    execution.worktreeBranch,
+    execution.worktreeBaseCommit,
+    execution.worktreeStatus
+  );
+
+  return {
+    branch: execution.worktreeBranch,
+    baseCommit: execution.worktreeBaseCommit,
+    status: execution.worktreeStatus,
+    diff,
+  };
+}
+
+// Merge, keep or discard the branch an execution worked on
+export async function resolveExecutionWorktree(
+  session: Session,
+  executionId: string,
+  action: WorktreeAction
+) {
+  const { execution } = await getExecution(session, executionId);
+  const project = await verifyProjectAccess(session, execution.projectId);
+
+  if (!execution.worktreeBranch || !execution.workingDirectory) {
+    throw new Error("Execution does not use a worktree");
+  }
+
+  if (execution.worktreeStatus !== "active") {
+    throw new Error(`Worktree has already been ${execution.worktreeStatus}`);
+  }
+
+  if (["analyzing", "executing", "awaiting_question", "awaiting_plan_approval"].includes(execution.status)) {
+    throw new Error("Cannot resolve the worktree of an execution that is still running");
+  }
+
+  if (!project.workingDirectory) {
+    throw new Error("Working directory not configured");
+  }
+
+  const task = await db.query.tasks.findFirst({
+    where: eq(schema.tasks.id, execution.taskId),
+  });
+  const commitMessage = task?.title || `open-dev execution ${executionId}`;
+
+  let worktreeStatus: "merged" | "kept" | "discarded";
+  switch (action) {
+    case "merge":
+      await mergeWorktree(project.workingDirectory, execution.workingDirectory, execution.worktreeBranch, commitMessage);
+      worktreeStatus = "merged";
+      break;
+    case "keep":
+      await keepWorktreeBranch(project.workingDirectory, execution.workingDirectory, commitMessage);
+      worktreeStatus = "kept";
+      break;
+    case "discard":
+      await discardWorktree(project.workingDirectory, execution.workingDirectory, execution.worktreeBranch);
+      worktreeStatus = "discarded";
+      break;
+    default:
+      throw new Error(`Unknown worktree action: ${action}`);
+  }
+
+  await db
+    .update(schema.agentExecutions)
+    .set({
+      worktreeStatus,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.agentExecutions.id, executionId));
+
+  console.log(`[Agent] Worktree branch ${execution.worktreeBranch} ${worktreeStatus}`);
+
+  return { success: true, worktreeStatus };
+}
+
 // Read file content for diff preview
 export async function readFileContent(
   session: Session,
   projectId: string,
-  filePath: string
-): Promise<{ content: string; exists: boolean }> {
+  filePath: string,
+  executionId?: string,
+  range?: FileLineRange
+): Promise<FileContent> {
   const project = await verifyProjectAccess(session, projectId);
+  const workingDirectory = await getPreviewDirectory(session, project, executionId);
 
-  if (!project.workingDirectory) {
+  if (!workingDirectory) {
     throw new Error("Working directory not configured");
   }
 
   // Validate path is within working directory
-  const absolutePath = validatePath(project.workingDirectory, filePath);
-  const file = Bun.file(absolutePath);
+  const absolutePath = validatePath(workingDirectory, filePath);
+  return readPreviewFile(absolutePath, range);
+}
 
-  if (!(await file.exists())) {
+// Read a file for the diff preview: the whole file, or only a line range when one is given
+async function readPreviewFile(absolutePath: string, range?: FileLineRange): Promise<FileContent> {
+  if (!(await Bun.file(absolutePath).exists())) {
     return { content: "", exists: false };
   }
 
-  const content = await file.text();
-  return { content, exists: true };
+  const read = await readFileLines(absolutePath, range);
+  if (read.binary) {
+    return { content: "", exists: true, binary: true, size: read.size };
+  }
+
+  const isRanged = range?.startLine !== undefined || range?.endLine !== undefined;
+  return {
+    content: isRanged ? read.lines.join("\n") : read.text,
+    exists: true,
+    size: read.size,
+    totalLines: read.totalLines,
+    ...(isRanged && { startLine: read.startLine, endLine: read.endLine }),
+  };
+}
+
+// Parse startLine/endLine query or body values into a line range
+function parseLineRange(startLine: unknown, endLine: unknown): FileLineRange | undefined {
+  const start = startLine != null && startLine !== "" ? Number(startLine) : undefined;
+  const end = endLine != null && endLine !== "" ? Number(endLine) : undefined;
+  if (start === undefined && end === undefined) {
+    return undefined;
+  }
+  if ((start !== undefined && !(start >= 1)) || (end !== undefined && !(end >= 1))) {
+    throw new Error("startLine and endLine must be positive line numbers");
+  }
+  return { startLine: start, endLine: end };
+}
+
+// Work out what a proposed patch would do to each file, for the diff preview
+export async function previewPatchChanges(
+  session: Session,
+  projectId: string,
+  patch: string,
+  executionId?: string
+): Promise<PatchPreview> {
+  const project = await verifyProjectAccess(session, projectId);
+  const workingDirectory = await getPreviewDirectory(session, project, executionId);
+
+  if (!workingDirectory) {
+    throw new Error("Working directory not configured");
+  }
+
+  const files = await previewPatch(workingDirectory, patch);
+  return {
+    files,
+    applies: files.every((file) => !file.error && file.hunks.every((hunk) => hunk.applied)),
+  };
 }
 
 // Read multiple files for diff preview (batch)
 export async function readMultipleFileContents(
   session: Session,
   projectId: string,
-  filePaths: string[]
-): Promise<Record<string, { content: string; exists: boolean }>> {
+  filePaths: string[],
+  executionId?: string,
+  ranges?: Record<string, FileLineRange>
+): Promise<Record<string, FileContent>> {
   const project = await verifyProjectAccess(session, projectId);
+  const workingDirectory = await getPreviewDirectory(session, project, executionId);
 
-  if (!project.workingDirectory) {
+  if (!workingDirectory) {
     throw new Error("Working directory not configured");
   }
 
-  const results: Record<string, { content: string; exists: boolean }> = {};
+  const results: Record<string, FileContent> = {};
 
   for (const filePath of filePaths) {
     try {
-      const absolutePath = validatePath(project.workingDirectory, filePath);
-      const file = Bun.file(absolutePath);
-
-      if (!(await file.exists())) {
-        results[filePath] = { content: "", exists: false };
-      } else {
-        const content = await file.text();
-        results[filePath] = { content, exists: true };
-      }
+      const absolutePath = validatePath(workingDirectory, filePath);
+      const range = ranges?.[filePath];
+      results[filePath] = await readPreviewFile(absolutePath, parseLineRange(range?.startLine, range?.endLine));
     } catch (error) {
       // If path validation fails, treat as non-existent
       results[filePath] = { content: "", exists: false };
@@ -1184,37 +2860,132 @@ export async function answerQuestion(
       )
     );
 
-  // Check if there are any more pending questions
-  const pendingQuestions = await db.query.agentQuestions.findMany({
-    where: and(
-      eq(schema.agentQuestions.executionId, executionId),
-      eq(schema.agentQuestions.status, "pending")
-    ),
-  });
+  // Check if there are any more pending questions
+  const pendingQuestions = await db.query.agentQuestions.findMany({
+    where: and(
+      eq(schema.agentQuestions.executionId, executionId),
+      eq(schema.agentQuestions.status, "pending")
+    ),
+  });
+
+  if (pendingQuestions.length === 0) {
+    // No more pending questions - the execution stays awaiting_question until resume picks the
+    // answers up, since no loop or heartbeat runs in between and the recovery sweep would
+    // otherwise mark it interrupted
+    await db
+      .update(schema.agentExecutions)
+      .set({ updatedAt: new Date() })
+      .where(eq(schema.agentExecutions.id, executionId));
+  }
+
+  return { success: true, response };
+}
+
+// Approve the submitted plan, with the user's edits, or send it back with feedback, then resume
+// the agent to carry it out or revise it - streams progress via SSE
+export async function reviewPlan(session: Session, executionId: string, review: PlanReview): Promise<Response> {
+  const { execution } = await getExecution(session, executionId);
+
+  if (execution.status !== "awaiting_plan_approval") {
+    return Response.json({ error: "Execution is not awaiting plan approval" }, { status: 400 });
+  }
+
+  const plan = parseExecutionPlan(execution.plan);
+  if (!plan) {
+    return Response.json({ error: "Execution has no plan" }, { status: 400 });
+  }
+
+  let reviewed: ExecutionPlan;
+  try {
+    reviewed = applyPlanReview(plan, review);
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+  }
+
+  // Only one review of the plan goes through: the status moves on as the reviewed plan is saved
+  const claimed = await db
+    .update(schema.agentExecutions)
+    .set({
+      plan: JSON.stringify(reviewed),
+      status: "queued",
+      updatedAt: new Date(),
+    })
+    .where(and(eq(schema.agentExecutions.id, executionId), eq(schema.agentExecutions.status, "awaiting_plan_approval")))
+    .returning({ id: schema.agentExecutions.id });
+  if (claimed.length === 0) {
+    return Response.json({ error: "Execution is not awaiting plan approval" }, { status: 400 });
+  }
 
-  if (pendingQuestions.length === 0) {
-    // No more pending questions, update execution status back to analyzing
-    // The agent will resume with the answer in context
-    await db
+  // When the execution can't be resumed, e.g. its provider is gone, the plan waits for review again
+  const restorePlan = () =>
+    db
       .update(schema.agentExecutions)
       .set({
-        status: "analyzing",
+        plan: execution.plan,
+        status: "awaiting_plan_approval",
         updatedAt: new Date(),
       })
       .where(eq(schema.agentExecutions.id, executionId));
+
+  let response: Response;
+  try {
+    response = await resumeAgentExecution(session, executionId, "plan");
+  } catch (error) {
+    await restorePlan();
+    throw error;
+  }
+  if (!response.ok) {
+    await restorePlan();
   }
+  return response;
+}
 
-  return { success: true, response };
+// Get the stored model transcript of an execution
+export async function getExecutionTranscript(
+  session: Session,
+  executionId: string
+): Promise<AgentTranscriptMessage[]> {
+  await getExecution(session, executionId);
+  const rows = await getAgentMessageRows(executionId);
+
+  return rows.map((row) => ({
+    id: row.id,
+    role: row.role,
+    message: JSON.parse(row.message),
+    sequence: row.sequence,
+    createdAt: row.createdAt instanceof Date
+      ? row.createdAt.toISOString()
+      : new Date(row.createdAt).toISOString(),
+  }));
 }
 
-// Resume agent execution after question was answered - streams progress via SSE
+// Resume an execution after its questions were answered, its plan was reviewed, its approved actions
+// include a background process or a server restart interrupted it, or retry one that failed or was
+// cancelled. All continue from the stored transcript so the model keeps every earlier tool call and result.
+// Streams progress via SSE.
 export async function resumeAgentExecution(
   session: Session,
-  executionId: string
+  executionId: string,
+  mode: "answer" | "retry" | "plan" | "approval" = "answer"
 ): Promise<Response> {
   const { execution, actions } = await getExecution(session, executionId);
   const project = await verifyProjectAccess(session, execution.projectId);
 
+  const transcript = await getAgentMessageRows(executionId);
+
+  if (mode === "retry") {
+    if (!["failed", "cancelled", "interrupted"].includes(execution.status)) {
+      return Response.json({ error: "Only failed, cancelled or interrupted executions can be retried" }, { status: 400 });
+    }
+    if (transcript.length === 0) {
+      return Response.json({ error: "No transcript recorded for this execution" }, { status: 400 });
+    }
+  }
+
+  if (mode === "approval" && execution.status !== "awaiting_approval") {
+    return Response.json({ error: "Execution is not awaiting approval" }, { status: 400 });
+  }
+
   // Get the task
   const task = await db.query.tasks.findFirst({
     where: eq(schema.tasks.id, execution.taskId),
@@ -1232,275 +3003,239 @@ export async function resumeAgentExecution(
     ),
   });
 
+  // Answers resume an execution whose questions are all answered and whose loop has stopped,
+  // never a running or finished one
+  if (mode === "answer") {
+    const pendingQuestions = await db.query.agentQuestions.findMany({
+      where: and(
+        eq(schema.agentQuestions.executionId, executionId),
+        eq(schema.agentQuestions.status, "pending")
+      ),
+    });
+    const waitingOnAnswers = execution.status === "awaiting_question" ||
+      (execution.status === "analyzing" && answeredQuestions.length > 0 && !isExecutionRunning(executionId));
+    if (!waitingOnAnswers || pendingQuestions.length > 0) {
+      return Response.json({ error: "Execution is not waiting to resume with answers" }, { status: 400 });
+    }
+  }
+
   // Get AI provider
   if (!project.aiProviderId) {
     return Response.json({ error: "No AI provider configured" }, { status: 400 });
   }
 
-  const aiProvider = await db.query.aiProviders.findFirst({
-    where: and(
-      eq(schema.aiProviders.id, project.aiProviderId),
-      eq(schema.aiProviders.userId, session.user.id)
-    ),
-  });
+  const providerChain = await getProjectProviderChain(session.user.id, project);
+  const aiProvider = providerChain[0];
 
   if (!aiProvider) {
     return Response.json({ error: "AI provider not found" }, { status: 400 });
   }
 
-  let actionSequence = actions.length;
+  const workingDirectory = getExecutionWorkingDirectory(execution, project);
 
-  // Parse sandbox limits from project (with safe fallback)
-  let sandboxLimits: SandboxLimits = DEFAULT_SANDBOX_LIMITS;
-  try {
-    if (project.sandboxLimits) {
-      sandboxLimits = JSON.parse(project.sandboxLimits);
-    }
-  } catch {
-    console.warn(`Invalid sandboxLimits JSON for project ${projectId}`);
+  if (!workingDirectory) {
+    return Response.json({ error: "Working directory not configured" }, { status: 400 });
   }
 
-  // Create sandbox limits tracker
+  // plan_first executions stay read-only until the plan is approved
+  const plan = parseExecutionPlan(execution.plan);
+  const planPhase = execution.mode === "plan_first"
+    ? (plan?.status === "approved" ? "executing" : "planning")
+    : undefined;
+
+  // Parse sandbox limits from project (with safe fallback)
+  const sandboxLimits = parseSandboxLimits(project.sandboxLimits, project.id);
+
+  // Create sandbox limits tracker, limits apply per run and the usage adds up over the runs
   const limitsTracker = new SandboxLimitsTracker(sandboxLimits);
+  const previousUsage = parseExecutionUsage(execution.usage, execution.id);
+
+  // Only one resume with the answers goes through: the status moves on as it is claimed
+  if (mode === "answer") {
+    const claimed = await db
+      .update(schema.agentExecutions)
+      .set({
+        status: "queued",
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.agentExecutions.id, executionId), eq(schema.agentExecutions.status, execution.status)))
+      .returning({ id: schema.agentExecutions.id });
+    if (claimed.length === 0) {
+      return Response.json({ error: "Execution is not waiting to resume with answers" }, { status: 400 });
+    }
+  }
 
   // Create SSE stream for resumed execution
   const stream = new ReadableStream({
     async start(controller) {
+      // Let recovery know this loop is alive
+      const stopHeartbeat = startExecutionHeartbeat(executionId);
+      // Cancelling the execution aborts the model call, provider requests and running commands
+      const abortSignal = registerExecution(executionId);
+
       try {
-        // Update status to analyzing
+        // Wait for a free slot before continuing
         await db
           .update(schema.agentExecutions)
           .set({
-            status: "analyzing",
+            status: "queued",
+            errorMessage: null,
+            completedAt: null,
             updatedAt: new Date(),
           })
           .where(eq(schema.agentExecutions.id, executionId));
 
         sendSSEEvent(controller, "status", {
           executionId,
-          status: "analyzing",
+          status: "queued",
         });
 
-        // Build conversation history including previous actions and Q&A
-        const conversationHistory: { role: "user" | "assistant"; content: string }[] = [
-          {
-            role: "user",
-            content: `Please complete this task: ${task.title}\n\n${task.description || ""}`,
-          },
-        ];
+        await waitForExecutionSlot(controller, executionId, project, aiProvider, abortSignal);
+        limitsTracker.resetClock();
 
-        // Add Q&A context
-        if (answeredQuestions.length > 0) {
-          const qaContext = answeredQuestions.map(q =>
-            `Question: ${q.question}\nUser's Answer: ${q.response}`
-          ).join("\n\n");
+        // Update status to analyzing
+        await db
+          .update(schema.agentExecutions)
+          .set({
+            status: "analyzing",
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.agentExecutions.id, executionId));
 
-          conversationHistory.push({
-            role: "assistant",
-            content: `I asked clarifying questions and received the following answers:\n\n${qaContext}\n\nI will now continue with the task based on these clarifications.`,
-          });
-        }
+        sendSSEEvent(controller, "status", {
+          executionId,
+          status: "analyzing",
+        });
 
-        // Create AI model
-        const model = createAIProvider(aiProvider);
+        // Create the AI models, one per phase when the project routes them
+        const models = await createAgentStepModels(project, providerChain, abortSignal);
         const systemPrompt = createAgentSystemPrompt(project, task);
 
         // Parse tool approval settings (with safe fallback)
-        let approvalSettings: ToolApprovalSettings = DEFAULT_TOOL_APPROVAL_SETTINGS;
-        try {
-          if (project.toolApprovalSettings) {
-            approvalSettings = JSON.parse(project.toolApprovalSettings);
-          }
-        } catch {
-          console.warn(`Invalid toolApprovalSettings JSON for project ${projectId}`);
-        }
-
-        // Helper to create an immediate execution callback
-        const createImmediateCallback = <T extends keyof ActionParams>(
-          actionType: T,
-          executeFn: (workingDir: string, params: ActionParams[T]) => Promise<{ success: boolean; output?: string; error?: string }>
-        ) => async (params: ActionParams[T]) => {
-          limitsTracker.checkTimeLimit();
-
-          if (["readFile", "writeFile", "editFile", "deleteFile", "listDirectory"].includes(actionType)) {
-            limitsTracker.trackFileOperation();
-          }
-
-          if (actionType === "executeCommand") {
-            limitsTracker.trackCommand();
-          }
-
-          if (actionType === "writeFile" && "content" in params) {
-            const content = (params as ActionParams["writeFile"]).content;
-            limitsTracker.validateFileSize(new TextEncoder().encode(content).length);
+        const approvalSettings = parseToolApprovalSettings(project.toolApprovalSettings, project.id);
+
+        // Run the approved actions in this run, so the processes they start live while the agent works
+        let approvalContinuation: string | null = null;
+        if (mode === "approval") {
+          const approvedActions = actions.filter((a) => a.status === "approved");
+          if (approvedActions.some((a) => MUTATING_ACTION_TYPES.includes(a.actionType))) {
+            await ensureExecutionCheckpoint(executionId, execution.projectId, workingDirectory);
           }
 
-          const result = await executeFn(project.workingDirectory!, params);
-
-          const actionId = nanoid();
-          actionSequence++;
-          await db.insert(schema.agentActions).values({
-            id: actionId,
-            executionId,
-            actionType,
-            actionParams: JSON.stringify(params),
-            status: "completed",
-            result: JSON.stringify(result),
-            sequence: actionSequence,
-          });
-
-          sendSSEEvent(controller, "action", {
-            id: actionId,
-            type: actionType,
-            params,
-            status: "completed",
-            result,
-          });
-
-          sendSSEEvent(controller, "sandboxUsage", limitsTracker.getUsageSummary());
-
-          return result.success ? result.output! : `Error: ${result.error}`;
-        };
-
-        // Create tools with callbacks
-        const tools = createAgentTools({
-          onReadFile: createImmediateCallback("readFile", executeReadFile),
-          onListDirectory: createImmediateCallback("listDirectory", executeListDirectory),
-          onWriteFile: createImmediateCallback("writeFile", executeWriteFile),
-          onEditFile: createImmediateCallback("editFile", executeEditFile),
-          onDeleteFile: createImmediateCallback("deleteFile", executeDeleteFile),
-          onExecuteCommand: createImmediateCallback("executeCommand", executeCommand),
-          onCompleteTask: async (params) => {
-            const actionId = nanoid();
-            actionSequence++;
-            await db.insert(schema.agentActions).values({
-              id: actionId,
+          const results: { action: AgentAction; result: ExecutionResult }[] = [];
+          for (const action of approvedActions) {
+            abortSignal.throwIfAborted();
+            if (action.actionType === "executeCommand" || action.actionType === "startProcess") {
+              limitsTracker.trackCommand();
+            }
+            const result = await runApprovedAction(
+              controller,
               executionId,
-              actionType: "completeTask",
-              actionParams: JSON.stringify(params),
-              status: "completed",
-              result: JSON.stringify({ success: true, output: params.summary }),
-              sequence: actionSequence,
-            });
+              workingDirectory,
+              action,
+              approvalSettings,
+              sandboxLimits,
+              abortSignal
+            );
+            results.push({ action, result });
+          }
 
+          if (results.some(({ action }) => action.actionType === "completeTask") && results.every(({ result }) => result.success)) {
             await db
               .update(schema.tasks)
               .set({
                 status: "validation",
                 updatedAt: new Date(),
               })
-              .where(eq(schema.tasks.id, task.id));
-
-            sendSSEEvent(controller, "action", {
-              id: actionId,
-              type: "completeTask",
-              params,
-              status: "completed",
-              result: { success: true, output: params.summary },
-            });
-
-            sendSSEEvent(controller, "taskCompleted", { taskId: task.id });
+              .where(eq(schema.tasks.id, execution.taskId));
 
-            return `Task moved to validation: ${params.summary}`;
-          },
-
-          onAskQuestion: async (params) => {
-            const questionId = nanoid();
-            actionSequence++;
+            sendSSEEvent(controller, "taskCompleted", { taskId: execution.taskId });
+          }
 
-            await db.insert(schema.agentQuestions).values({
-              id: questionId,
-              executionId,
-              question: params.question,
-              context: params.context || null,
-              status: "pending",
-            });
+          approvalContinuation = createApprovedActionsMessage(results);
+        }
 
-            await db.insert(schema.agentActions).values({
-              id: nanoid(),
-              executionId,
-              actionType: "askQuestion",
-              actionParams: JSON.stringify(params),
-              status: "completed",
-              result: JSON.stringify({ success: true, output: `Question asked: ${params.question}` }),
-              sequence: actionSequence,
-            });
+        let conversation: ModelMessage[];
+        if (transcript.length > 0) {
+          // Replay the exact transcript and continue it with a new user turn
+          conversation = transcript.map((row) => JSON.parse(row.message) as ModelMessage);
+
+          let continuation: string;
+          if (mode === "retry" && execution.status === "interrupted") {
+            continuation = "The server restarted while you were working on this task. Continue from where you left off.";
+          } else if (mode === "retry") {
+            continuation = `The previous attempt stopped with an error: ${execution.errorMessage || "unknown error"}\n\nContinue the task from where you left off.`;
+          } else if (approvalContinuation) {
+            continuation = approvalContinuation;
+          } else if (mode === "plan" && plan) {
+            continuation = plan.status === "approved"
+              ? createPlanApprovedMessage(plan)
+              : createPlanRevisionMessage(plan.feedback ?? "");
+          } else {
+            // Only answers to questions asked since the last user turn are new to the model
+            const lastUserTurn = [...transcript].reverse().find((row) => row.role === "user");
+            const newAnswers = answeredQuestions.filter(
+              (q) => !lastUserTurn || q.createdAt.getTime() >= lastUserTurn.createdAt.getTime()
+            );
+            const qaContext = newAnswers.map(q =>
+              `Question: ${q.question}\nAnswer: ${q.response}`
+            ).join("\n\n");
+            continuation = `Here are the answers to your questions:\n\n${qaContext}\n\nContinue with the task based on these clarifications.`;
+          }
 
-            await db
-              .update(schema.agentExecutions)
-              .set({
-                status: "awaiting_question",
-                updatedAt: new Date(),
-              })
-              .where(eq(schema.agentExecutions.id, executionId));
+          const continuationMessage: ModelMessage = { role: "user", content: continuation };
+          await appendAgentMessages(executionId, [continuationMessage]);
+          conversation.push(continuationMessage);
+        } else {
+          // Executions started before transcripts were recorded: rebuild a summary of the conversation
+          conversation = [
+            { role: "system", content: systemPrompt },
+            {
+              role: "user",
+              content: `Please complete this task: ${task.title}\n\n${task.description || ""}`,
+            },
+          ];
 
-            sendSSEEvent(controller, "question", {
-              id: questionId,
-              question: params.question,
-              context: params.context,
-            });
+          if (answeredQuestions.length > 0) {
+            const qaContext = answeredQuestions.map(q =>
+              `Question: ${q.question}\nUser's Answer: ${q.response}`
+            ).join("\n\n");
 
-            sendSSEEvent(controller, "status", {
-              executionId,
-              status: "awaiting_question",
+            conversation.push({
+              role: "assistant",
+              content: `I asked clarifying questions and received the following answers:\n\n${qaContext}\n\nI will now continue with the task based on these clarifications.`,
             });
+          }
 
-            return `WAITING_FOR_USER_RESPONSE: Your question "${params.question}" has been sent to the user. The execution is now paused.`;
-          },
-
-          onProposeAction: async (actionType, params) => {
-            const actionId = nanoid();
-            actionSequence++;
-            await db.insert(schema.agentActions).values({
-              id: actionId,
-              executionId,
-              actionType,
-              actionParams: JSON.stringify(params),
-              status: "proposed",
-              sequence: actionSequence,
-            });
+          if (approvalContinuation) {
+            conversation.push({ role: "user", content: approvalContinuation });
+          }
 
-            sendSSEEvent(controller, "action", {
-              id: actionId,
-              type: actionType,
-              params,
-              status: "proposed",
-            });
-          },
+          await appendAgentMessages(executionId, conversation);
+        }
 
+        await runAgentLoop({
+          controller,
+          executionId,
+          project,
+          task,
+          workingDirectory,
+          providerChain,
+          models,
+          messages: conversation,
           approvalSettings,
+          sandboxLimits,
+          limitsTracker,
+          previousUsage,
+          planPhase,
+          actionSequence: actions.length,
+          abortSignal,
         });
 
-        const maxSteps = sandboxLimits.maxSteps > 0 ? sandboxLimits.maxSteps : 20;
-
-        const result = await generateText({
-          model,
-          system: systemPrompt,
-          messages: conversationHistory,
-          tools,
-          stopWhen: stepCountIs(maxSteps),
-          onStepFinish: async (step) => {
-            limitsTracker.trackStep();
-            limitsTracker.checkTimeLimit();
-
-            if (step.usage) {
-              limitsTracker.trackTokens(step.usage.promptTokens || 0, step.usage.completionTokens || 0);
-            }
-
-            sendSSEEvent(controller, "sandboxUsage", limitsTracker.getUsageSummary());
-          },
-        });
-
-        if (result.text) {
-          sendSSEEvent(controller, "text", { content: result.text });
-        }
-
-        // If we're now awaiting a question, don't mark as complete
-        const currentExecution = await db.query.agentExecutions.findFirst({
-          where: eq(schema.agentExecutions.id, executionId),
-        });
+        abortSignal.throwIfAborted();
 
-        if (currentExecution?.status === "awaiting_question") {
+        // If we're now awaiting an answer or plan approval, don't mark as complete
+        if (await isExecutionPausedForUser(executionId)) {
           sendSSEEvent(controller, "done", { executionId });
           controller.close();
           return;
@@ -1523,6 +3258,14 @@ export async function resumeAgentExecution(
         sendSSEEvent(controller, "done", { executionId });
         controller.close();
       } catch (error) {
+        // A failed or cancelled run won't change any more files
+        releaseFileClaims(executionId);
+
+        if (abortSignal.aborted) {
+          sendCancelledEvents(controller, executionId, limitsTracker.getUsageSummary());
+          return;
+        }
+
         console.error("Resume agent execution error:", error);
 
         await db
@@ -1540,6 +3283,16 @@ export async function resumeAgentExecution(
         });
 
         controller.close();
+      } finally {
+        // A run that never reached the model leaves the previous run's usage in place
+        if (limitsTracker.getUsage().stepsCount > 0) {
+          await saveExecutionUsage(executionId, previousUsage, limitsTracker.getUsageSummary());
+        }
+        // Background processes belong to the run that started them, however it ended
+        stopExecutionProcesses(executionId);
+        stopHeartbeat();
+        unregisterExecution(executionId, abortSignal);
+        releaseExecutionSlot(executionId);
       }
     },
   });
@@ -1547,23 +3300,27 @@ export async function resumeAgentExecution(
   return createSSEResponse(stream);
 }
 
-// Get sandbox limits for a project
-export async function getSandboxLimits(
-  session: Session,
-  projectId: string
-): Promise<SandboxLimits> {
-  const project = await verifyProjectAccess(session, projectId);
+const NETWORK_ACCESS_MODES: NetworkAccess[] = ["full", "none", "localhost"];
 
-  let limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS;
+// Stored limits may predate newer settings, so missing fields fall back to the defaults
+function parseSandboxLimits(sandboxLimits: string | null, projectId: string): SandboxLimits {
   try {
-    if (project.sandboxLimits) {
-      limits = JSON.parse(project.sandboxLimits);
+    if (sandboxLimits) {
+      return { ...DEFAULT_SANDBOX_LIMITS, ...JSON.parse(sandboxLimits) };
     }
   } catch {
     console.warn(`Invalid sandboxLimits JSON for project ${projectId}`);
   }
+  return DEFAULT_SANDBOX_LIMITS;
+}
 
-  return limits;
+// Get sandbox limits for a project
+export async function getSandboxLimits(
+  session: Session,
+  projectId: string
+): Promise<SandboxLimits> {
+  const project = await verifyProjectAccess(session, projectId);
+  return parseSandboxLimits(project.sandboxLimits, project.id);
 }
 
 // Update sandbox limits for a project
@@ -1589,6 +3346,12 @@ export async function updateSandboxLimits(
       throw new Error(`Invalid limit value for ${key}: must be non-negative`);
     }
   }
+  if (!Array.isArray(newLimits.commandEnvAllowList) || newLimits.commandEnvAllowList.some((name) => typeof name !== "string")) {
+    throw new Error("Invalid limit value for commandEnvAllowList: must be a list of variable names");
+  }
+  if (!NETWORK_ACCESS_MODES.includes(newLimits.networkAccess)) {
+    throw new Error(`Invalid limit value for networkAccess: must be one of ${NETWORK_ACCESS_MODES.join(", ")}`);
+  }
 
   const result = await db
     .update(schema.projects)
@@ -1653,6 +3416,97 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
     }
   }
 
+  // POST /api/projects/:projectId/command-policy/test
+  const commandPolicyTestMatch = path.match(/^\/api\/projects\/([^/]+)\/command-policy\/test$/);
+  if (commandPolicyTestMatch && method === "POST") {
+    const projectId = commandPolicyTestMatch[1]!;
+    return req.json().then((data) =>
+      testCommandPolicy(session, projectId, data.command ?? "", data.rules)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+    );
+  }
+
+  // GET/POST /api/projects/:projectId/command-policy
+  const commandPolicyMatch = path.match(/^\/api\/projects\/([^/]+)\/command-policy$/);
+  if (commandPolicyMatch) {
+    const projectId = commandPolicyMatch[1]!;
+
+    if (method === "GET") {
+      return getCommandPolicy(session, projectId)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+    }
+
+    if (method === "POST") {
+      return req.json().then((data) =>
+        updateCommandPolicy(session, projectId, data)
+          .then((result) => Response.json(result))
+          .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+      );
+    }
+  }
+
+  // GET/POST /api/projects/:projectId/verification-settings
+  const verificationSettingsMatch = path.match(/^\/api\/projects\/([^/]+)\/verification-settings$/);
+  if (verificationSettingsMatch) {
+    const projectId = verificationSettingsMatch[1]!;
+
+    if (method === "GET") {
+      return getVerificationSettings(session, projectId)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+    }
+
+    if (method === "POST") {
+      return req.json().then((data) =>
+        updateVerificationSettings(session, projectId, data)
+          .then((result) => Response.json(result))
+          .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+      );
+    }
+  }
+
+  // GET/POST /api/projects/:projectId/reviewer-settings
+  const reviewerSettingsMatch = path.match(/^\/api\/projects\/([^/]+)\/reviewer-settings$/);
+  if (reviewerSettingsMatch) {
+    const projectId = reviewerSettingsMatch[1]!;
+
+    if (method === "GET") {
+      return getReviewerSettings(session, projectId)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+    }
+
+    if (method === "POST") {
+      return req.json().then((data) =>
+        updateReviewerSettings(session, projectId, data)
+          .then((result) => Response.json(result))
+          .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+      );
+    }
+  }
+
+  // GET/POST /api/projects/:projectId/model-routing
+  const modelRoutingMatch = path.match(/^\/api\/projects\/([^/]+)\/model-routing$/);
+  if (modelRoutingMatch) {
+    const projectId = modelRoutingMatch[1]!;
+
+    if (method === "GET") {
+      return getModelRouting(session, projectId)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+    }
+
+    if (method === "POST") {
+      return req.json().then((data) =>
+        updateModelRouting(session, projectId, data)
+          .then((result) => Response.json(result))
+          .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+      );
+    }
+  }
+
   // GET/POST /api/projects/:projectId/sandbox-limits
   const sandboxLimitsMatch = path.match(/^\/api\/projects\/([^/]+)\/sandbox-limits$/);
   if (sandboxLimitsMatch) {
@@ -1680,7 +3534,30 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
   if (startMatch && method === "POST") {
     const projectId = startMatch[1]!;
     const taskId = startMatch[2]!;
-    return startAgentExecution(session, projectId, taskId);
+    // The body is optional, { mode: "plan_first" } starts with a planning phase
+    return req
+      .json()
+      .catch(() => ({}))
+      .then((data) => startAgentExecution(session, projectId, taskId, data.mode === "plan_first" ? "plan_first" : "default"));
+  }
+
+  // GET /api/projects/:projectId/tasks/:taskId/agent/latest
+  const latestMatch = path.match(/^\/api\/projects\/([^/]+)\/tasks\/([^/]+)\/agent\/latest$/);
+  if (latestMatch && method === "GET") {
+    const projectId = latestMatch[1]!;
+    const taskId = latestMatch[2]!;
+    return getLatestTaskExecution(session, projectId, taskId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 404 }));
+  }
+
+  // GET /api/projects/:projectId/queue - Running and queued executions
+  const queueMatch = path.match(/^\/api\/projects\/([^/]+)\/queue$/);
+  if (queueMatch && method === "GET") {
+    const projectId = queueMatch[1]!;
+    return getExecutionQueue(session, projectId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 400 }));
   }
 
   // GET /api/agent/executions/:executionId
@@ -1719,6 +3596,35 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
       .catch((err) => Response.json({ error: err.message }, { status: 400 }));
   }
 
+  // POST /api/agent/executions/:executionId/rollback
+  const rollbackMatch = path.match(/^\/api\/agent\/executions\/([^/]+)\/rollback$/);
+  if (rollbackMatch && method === "POST") {
+    const executionId = rollbackMatch[1]!;
+    return rollbackExecution(session, executionId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+  }
+
+  // GET /api/agent/executions/:executionId/worktree/diff
+  const worktreeDiffMatch = path.match(/^\/api\/agent\/executions\/([^/]+)\/worktree\/diff$/);
+  if (worktreeDiffMatch && method === "GET") {
+    const executionId = worktreeDiffMatch[1]!;
+    return getExecutionWorktreeDiff(session, executionId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+  }
+
+  // POST /api/agent/executions/:executionId/worktree - Merge, keep or discard the execution branch
+  const worktreeMatch = path.match(/^\/api\/agent\/executions\/([^/]+)\/worktree$/);
+  if (worktreeMatch && method === "POST") {
+    const executionId = worktreeMatch[1]!;
+    return req.json().then((data) =>
+      resolveExecutionWorktree(session, executionId, data.action)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+    );
+  }
+
   // GET /api/projects/:projectId/file-content - Read single file content for diff preview
   const fileContentMatch = path.match(/^\/api\/projects\/([^/]+)\/file-content$/);
   if (fileContentMatch && method === "GET") {
@@ -1729,7 +3635,9 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
         Response.json({ error: "path parameter required" }, { status: 400 })
       );
     }
-    return readFileContent(session, projectId, filePath)
+    return Promise.resolve()
+      .then(() => parseLineRange(url.searchParams.get("startLine"), url.searchParams.get("endLine")))
+      .then((range) => readFileContent(session, projectId, filePath, url.searchParams.get("executionId") || undefined, range))
       .then((result) => Response.json(result))
       .catch((err) => Response.json({ error: err.message }, { status: 400 }));
   }
@@ -1742,7 +3650,21 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
       if (!data.paths || !Array.isArray(data.paths)) {
         return Response.json({ error: "paths array required" }, { status: 400 });
       }
-      return readMultipleFileContents(session, projectId, data.paths)
+      return readMultipleFileContents(session, projectId, data.paths, data.executionId, data.ranges)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+    });
+  }
+
+  // POST /api/projects/:projectId/patch-preview - Preview the files a unified diff changes
+  const patchPreviewMatch = path.match(/^\/api\/projects\/([^/]+)\/patch-preview$/);
+  if (patchPreviewMatch && method === "POST") {
+    const projectId = patchPreviewMatch[1]!;
+    return req.json().then((data) => {
+      if (typeof data.patch !== "string") {
+        return Response.json({ error: "patch required" }, { status: 400 });
+      }
+      return previewPatchChanges(session, projectId, data.patch, data.executionId)
         .then((result) => Response.json(result))
         .catch((err) => Response.json({ error: err.message }, { status: 400 }));
     });
@@ -1752,12 +3674,12 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
   const historyMatch = path.match(/^\/api\/projects\/([^/]+)\/executions$/);
   if (historyMatch && method === "GET") {
     const projectId = historyMatch[1]!;
-    const params = url.searchParams;
-    const filters: ExecutionHistoryFilters = {
-      status: params.get("status") as ExecutionHistoryFilters["status"] || undefined,
-      limit: params.get("limit") ? parseInt(params.get("limit")!, 10) : undefined,
-      offset: params.get("offset") ? parseInt(params.get("offset")!, 10) : undefined,
-    };
+    let filters: ExecutionHistoryFilters;
+    try {
+      filters = parseExecutionHistoryFilters(url.searchParams);
+    } catch (error) {
+      return Promise.resolve(Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 }));
+    }
     return getExecutionHistory(session, projectId, filters)
       .then((result) => Response.json(result))
       .catch((err) => Response.json({ error: err.message }, { status: 400 }));
@@ -1802,6 +3724,13 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
     );
   }
 
+  // POST /api/agent/executions/:executionId/plan - Approve or send back the submitted plan and resume
+  const planMatch = path.match(/^\/api\/agent\/executions\/([^/]+)\/plan$/);
+  if (planMatch && method === "POST") {
+    const executionId = planMatch[1]!;
+    return req.json().then((data) => reviewPlan(session, executionId, data));
+  }
+
   // POST /api/agent/executions/:executionId/resume - Resume execution after answering questions
   const resumeMatch = path.match(/^\/api\/agent\/executions\/([^/]+)\/resume$/);
   if (resumeMatch && method === "POST") {
@@ -1809,5 +3738,21 @@ export function handleAgentRoutes(req: Request, session: Session): Promise<Respo
     return resumeAgentExecution(session, executionId);
   }
 
+  // POST /api/agent/executions/:executionId/retry
+  const retryMatch = path.match(/^\/api\/agent\/executions\/([^/]+)\/retry$/);
+  if (retryMatch && method === "POST") {
+    const executionId = retryMatch[1]!;
+    return resumeAgentExecution(session, executionId, "retry");
+  }
+
+  // GET /api/agent/executions/:executionId/messages - Stored model transcript for auditing
+  const messagesMatch = path.match(/^\/api\/agent\/executions\/([^/]+)\/messages$/);
+  if (messagesMatch && method === "GET") {
+    const executionId = messagesMatch[1]!;
+    return getExecutionTranscript(session, executionId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+  }
+
   return null;
 }
@@ -1,7 +1,16 @@
 import { db, schema } from "../db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import {
+  DEFAULT_MODEL_ROUTING_SETTINGS,
+  type ModelPricingTable,
+  type ModelRoutingPhase,
+  type ModelRoutingSettings,
+} from "@open-dev/shared";
 import type { Session } from "../auth";
+import type { AIProvider, Project } from "../db/schema";
+import { applyModelRoute } from "../ai/model-routing";
+import { validateModelPricing } from "../ai/model-pricing";
 
 interface ModelInfo {
   id: string;
@@ -80,17 +89,97 @@ export async function getAIProvider(session: Session, providerId: string) {
   });
 }
 
+function parseFallbackProviderIds(fallbackAiProviderIds: string | null, projectId: string): string[] {
+  try {
+    if (fallbackAiProviderIds) {
+      const ids = JSON.parse(fallbackAiProviderIds);
+      if (Array.isArray(ids)) return ids.filter((id): id is string => typeof id === "string");
+    }
+  } catch {
+    console.warn(`Invalid fallbackAiProviderIds JSON for project ${projectId}`);
+  }
+  return [];
+}
+
+/**
+ * The project's providers in the order they are tried: its own provider, then the fallbacks.
+ * Providers that were deleted or belong to someone else are left out.
+ */
+export async function getProjectProviderChain(userId: string, project: Project): Promise<AIProvider[]> {
+  const ids = [...new Set([project.aiProviderId, ...parseFallbackProviderIds(project.fallbackAiProviderIds, project.id)])]
+    .filter((id): id is string => !!id);
+  if (ids.length === 0) return [];
+
+  const providers = await db.query.aiProviders.findMany({
+    where: and(inArray(schema.aiProviders.id, ids), eq(schema.aiProviders.userId, userId)),
+  });
+  return ids
+    .map((id) => providers.find((provider) => provider.id === id))
+    .filter((provider): provider is AIProvider => !!provider);
+}
+
+export function parseModelRoutingSettings(modelRouting: string | null, projectId: string): ModelRoutingSettings {
+  try {
+    if (modelRouting) {
+      return { ...DEFAULT_MODEL_ROUTING_SETTINGS, ...JSON.parse(modelRouting) };
+    }
+  } catch {
+    console.warn(`Invalid modelRouting JSON for project ${projectId}`);
+  }
+  return DEFAULT_MODEL_ROUTING_SETTINGS;
+}
+
+/**
+ * The providers a phase of the project's model calls tries in order: the phase's routed provider
+ * and model first when the project routes it, then the project's chain
+ */
+export async function getRoutedProviderChain(
+  userId: string,
+  project: Project,
+  phase: ModelRoutingPhase,
+  projectChain: AIProvider[]
+): Promise<AIProvider[]> {
+  const route = parseModelRoutingSettings(project.modelRouting, project.id)[phase];
+  if (!route) return projectChain;
+
+  const provider = await db.query.aiProviders.findFirst({
+    where: and(eq(schema.aiProviders.id, route.aiProviderId), eq(schema.aiProviders.userId, userId)),
+  });
+  if (!provider) {
+    console.warn(`[Routing] ${phase} provider ${route.aiProviderId} of project ${project.id} not found, using the project's providers`);
+  }
+  return applyModelRoute(projectChain, route, provider);
+}
+
+// Whether the agent's exploration and editing steps may run on different models
+export function hasAgentPhaseRoutes(project: Project): boolean {
+  const routing = parseModelRoutingSettings(project.modelRouting, project.id);
+  return routing.exploration !== null || routing.editing !== null;
+}
+
+function serializePricing(pricing: ModelPricingTable): string {
+  const invalid = validateModelPricing(pricing);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return JSON.stringify(pricing);
+}
+
 export async function createAIProvider(
   session: Session,
-  data: { name: string; baseUrl: string; apiKey?: string; model?: string }
+  data: { name: string; baseUrl: string; apiKey?: string; model?: string; streaming?: boolean; maxConcurrentExecutions?: number; pricing?: ModelPricingTable }
 ) {
   const id = nanoid();
+  const pricing = data.pricing === undefined ? undefined : serializePricing(data.pricing);
   await db.insert(schema.aiProviders).values({
     id,
     name: data.name,
     baseUrl: data.baseUrl,
     apiKey: data.apiKey,
     model: data.model || "gpt-4",
+    streaming: data.streaming,
+    maxConcurrentExecutions: data.maxConcurrentExecutions,
+    pricing,
     userId: session.user.id,
   });
   return { id };
@@ -99,17 +188,19 @@ export async function createAIProvider(
 export async function updateAIProvider(
   session: Session,
   providerId: string,
-  data: { name?: string; baseUrl?: string; apiKey?: string; model?: string }
+  data: { name?: string; baseUrl?: string; apiKey?: string; model?: string; streaming?: boolean; maxConcurrentExecutions?: number; pricing?: ModelPricingTable }
 ) {
   const provider = await getAIProvider(session, providerId);
   if (!provider) {
     throw new Error("AI Provider not found");
   }
 
+  const { pricing, ...fields } = data;
   await db
     .update(schema.aiProviders)
     .set({
-      ...data,
+      ...fields,
+      ...(pricing !== undefined && { pricing: serializePricing(pricing) }),
       updatedAt: new Date(),
     })
     .where(eq(schema.aiProviders.id, providerId));
@@ -147,9 +238,9 @@ export function handleAIProviderRoutes(req: Request, session: Session): Promise<
   // POST /api/ai-providers
   if (path === "/api/ai-providers" && method === "POST") {
     return req.json().then((data) =>
-      createAIProvider(session, data).then((result) =>
-        Response.json(result, { status: 201 })
-      )
+      createAIProvider(session, data)
+        .then((result) => Response.json(result, { status: 201 }))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }))
     );
   }
 
@@ -170,13 +261,18 @@ export function handleAIProviderRoutes(req: Request, session: Session): Promise<
   // PUT /api/ai-providers/:id
   if (providerMatch && method === "PUT") {
     const providerId = providerMatch[1]!;
-    return req.json().then((data) =>
-      updateAIProvider(session, providerId, data)
+    return req.json().then((data) => {
+      // Invalid pricing is a bad request, not a missing provider
+      const invalidPricing = data.pricing === undefined ? null : validateModelPricing(data.pricing);
+      if (invalidPricing) {
+        return Response.json({ error: invalidPricing }, { status: 400 });
+      }
+      return updateAIProvider(session, providerId, data)
         .then((result) => Response.json(result))
         .catch((err) =>
           Response.json({ error: err.message }, { status: 404 })
-        )
-    );
+        );
+    });
   }
 
   // DELETE /api/ai-providers/:id
@@ -189,6 +285,20 @@ export function handleAIProviderRoutes(req: Request, session: Session): Promise<
       );
   }
 
+  // POST /api/ai-providers/:id/test - Test a saved provider's connection with its stored API key
+  const providerTestMatch = path.match(/^\/api\/ai-providers\/([^/]+)\/test$/);
+  if (providerTestMatch && method === "POST") {
+    const providerId = providerTestMatch[1]!;
+    return getAIProvider(session, providerId).then((provider) => {
+      if (!provider) {
+        return Response.json({ error: "AI Provider not found" }, { status: 404 });
+      }
+      return testProviderConnection(provider.baseUrl, provider.apiKey || undefined).then((result) =>
+        Response.json(result)
+      );
+    });
+  }
+
   // POST /api/ai-providers/test - Test provider connection and get models
   if (path === "/api/ai-providers/test" && method === "POST") {
     return req.json().then((data) =>
@@ -0,0 +1,646 @@
+import { db, schema } from "../db";
+import { eq, and, desc } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { Session } from "../auth";
+import type { AutopilotRun as DbAutopilotRun } from "../db/schema";
+import type {
+  AgentStatusEvent,
+  AutoApprovalPolicy,
+  AutopilotExecutionEvent,
+  AutopilotRun,
+  AutopilotRunStatus,
+  Task,
+} from "@open-dev/shared";
+import { DEFAULT_AUTO_APPROVAL_POLICY, getSuggestedExecutionOrder, canTaskStart } from "@open-dev/shared";
+import { getTasks } from "./tasks";
+import {
+  startAgentExecution,
+  executeApprovedActions,
+  updateActionStatus,
+  cancelExecution,
+  getExecution,
+  createSSEResponse,
+  sendSSEEvent,
+} from "./agent";
+import { isExecutionRunning } from "../services/execution-registry";
+
+type AutopilotListener = (event: string, data: unknown) => void;
+
+// SSE subscribers per run
+const listeners = new Map<string, Set<AutopilotListener>>();
+
+// Runs whose loop is running in this server process
+const activeRuns = new Set<string>();
+
+const TERMINAL_RUN_STATUSES: AutopilotRunStatus[] = ["completed", "failed", "cancelled"];
+
+// Agent events relayed to autopilot subscribers; token-level output is left out
+const FORWARDED_AGENT_EVENTS = ["status", "action", "actionComplete", "taskCompleted", "limitExceeded", "error"];
+
+const FILE_CHANGE_ACTIONS: string[] = ["writeFile", "editFile", "deleteFile", "applyPatch"];
+
+async function verifyProjectAccess(session: Session, projectId: string) {
+  const project = await db.query.projects.findFirst({
+    where: and(
+      eq(schema.projects.id, projectId),
+      eq(schema.projects.userId, session.user.id)
+    ),
+  });
+  if (!project) {
+    throw new Error("Project not found");
+  }
+  return project;
+}
+
+function transformRun(run: DbAutopilotRun): AutopilotRun {
+  return {
+    ...run,
+    taskIds: run.taskIds ? (JSON.parse(run.taskIds) as string[]) : null,
+    completedTaskIds: JSON.parse(run.completedTaskIds) as string[],
+    createdAt: run.createdAt.toISOString(),
+    updatedAt: run.updatedAt.toISOString(),
+    completedAt: run.completedAt?.toISOString() ?? null,
+  };
+}
+
+function emit(runId: string, event: string, data: unknown) {
+  for (const listener of listeners.get(runId) ?? []) {
+    listener(event, data);
+  }
+}
+
+function subscribe(runId: string, listener: AutopilotListener): () => void {
+  const runListeners = listeners.get(runId) ?? new Set();
+  runListeners.add(listener);
+  listeners.set(runId, runListeners);
+
+  return () => {
+    runListeners.delete(listener);
+    if (runListeners.size === 0) {
+      listeners.delete(runId);
+    }
+  };
+}
+
+async function getRunRow(runId: string): Promise<DbAutopilotRun> {
+  const run = await db.query.autopilotRuns.findFirst({
+    where: eq(schema.autopilotRuns.id, runId),
+  });
+  if (!run) {
+    throw new Error("Autopilot run not found");
+  }
+  return run;
+}
+
+// Update a run and broadcast its new state. Only running runs are touched unless `force` is set,
+// so a run cancelled by the user is never flipped back to paused or completed by its loop.
+async function updateRun(
+  runId: string,
+  values: Partial<Omit<DbAutopilotRun, "id" | "projectId" | "createdAt">>,
+  force = false
+): Promise<void> {
+  await db
+    .update(schema.autopilotRuns)
+    .set({ ...values, updatedAt: new Date() })
+    .where(
+      force
+        ? eq(schema.autopilotRuns.id, runId)
+        : and(eq(schema.autopilotRuns.id, runId), eq(schema.autopilotRuns.status, "running"))
+    );
+
+  const run = transformRun(await getRunRow(runId));
+  emit(runId, "run", run);
+  if (TERMINAL_RUN_STATUSES.includes(run.status)) {
+    emit(runId, "done", { runId });
+  }
+}
+
+function parseAutoApprovalPolicy(autoApprovalPolicy: string | null, projectId: string): AutoApprovalPolicy {
+  try {
+    if (autoApprovalPolicy) {
+      return { ...DEFAULT_AUTO_APPROVAL_POLICY, ...JSON.parse(autoApprovalPolicy) };
+    }
+  } catch {
+    console.warn(`Invalid autoApprovalPolicy JSON for project ${projectId}`);
+  }
+  return DEFAULT_AUTO_APPROVAL_POLICY;
+}
+
+// Whether the policy lets autopilot approve an action of this type on its own
+function isActionCovered(policy: AutoApprovalPolicy, actionType: string): boolean {
+  if (FILE_CHANGE_ACTIONS.includes(actionType)) {
+    return policy.approveFileChanges;
+  }
+  if (actionType === "executeCommand" || actionType === "startProcess") {
+    return policy.approveCommands;
+  }
+  if (actionType === "completeTask") {
+    return policy.approveTaskCompletion;
+  }
+  // Reads never change anything
+  return true;
+}
+
+// Read an agent SSE response to the end, handing each event to a callback
+async function drainAgentStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+    const body = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(body.error || `Agent request failed with status ${response.status}`);
+  }
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+
+    for (const message of messages) {
+      const event = message.match(/^event: (.*)$/m)?.[1];
+      const data = message.match(/^data: (.*)$/m)?.[1];
+      if (event && data) {
+        onEvent(event, JSON.parse(data) as unknown);
+      }
+    }
+  }
+}
+
+// Relay an execution's progress to the run's subscribers
+function forwardAgentEvents(runId: string, taskId: string, executionId: () => string | null) {
+  return (event: string, data: unknown) => {
+    const id = executionId();
+    if (id && FORWARDED_AGENT_EVENTS.includes(event)) {
+      const payload: AutopilotExecutionEvent = { runId, taskId, executionId: id, event, data };
+      emit(runId, "execution", payload);
+    }
+  };
+}
+
+async function markTaskCompleted(runId: string, task: Task, executionId: string | null) {
+  const run = await getRunRow(runId);
+  const completedTaskIds = JSON.parse(run.completedTaskIds) as string[];
+  await updateRun(runId, {
+    completedTaskIds: JSON.stringify([...completedTaskIds, task.id]),
+    currentTaskId: null,
+    currentExecutionId: null,
+  });
+  emit(runId, "task", { runId, taskId: task.id, taskTitle: task.title, executionId, status: "completed" });
+}
+
+/**
+ * Drive an execution that has finished analysing: approve and execute its proposals when the
+ * policy allows it, then look at where the task landed.
+ * Returns the reason to pause the run, or null to move on to the next task.
+ */
+async function settleExecution(
+  runId: string,
+  session: Session,
+  task: Task,
+  executionId: string
+): Promise<string | null> {
+  const forward = forwardAgentEvents(runId, task.id, () => executionId);
+
+  while (true) {
+    const run = await getRunRow(runId);
+    if (run.status !== "running") {
+      return null;
+    }
+
+    const { execution, actions } = await getExecution(session, executionId);
+
+    if (execution.status === "awaiting_question") {
+      return "The agent asked a question";
+    }
+    if (execution.status === "failed") {
+      return `Execution failed: ${execution.errorMessage ?? "unknown error"}`;
+    }
+    if (execution.status === "cancelled") {
+      return "Execution was cancelled";
+    }
+    if (execution.status === "interrupted") {
+      return "Execution was interrupted by a server restart";
+    }
+    if (execution.status !== "awaiting_approval") {
+      break;
+    }
+
+    const proposed = actions.filter((a) => a.status === "proposed");
+    const approved = actions.filter((a) => a.status === "approved");
+    if (proposed.length === 0 && approved.length === 0) {
+      break;
+    }
+
+    const project = await verifyProjectAccess(session, run.projectId);
+    const policy = parseAutoApprovalPolicy(project.autoApprovalPolicy, project.id);
+    const uncovered = proposed.filter((a) => !isActionCovered(policy, a.actionType));
+    if (uncovered.length > 0) {
+      return `Waiting for approval of ${uncovered.length} proposed action(s)`;
+    }
+
+    if (proposed.length > 0) {
+      await updateActionStatus(session, executionId, proposed.map((a) => a.id), "approved");
+    }
+    await drainAgentStream(await executeApprovedActions(session, executionId), forward);
+  }
+
+  const current = await db.query.tasks.findFirst({
+    where: eq(schema.tasks.id, task.id),
+  });
+
+  if (current?.status === "done") {
+    await markTaskCompleted(runId, task, executionId);
+    return null;
+  }
+
+  if (current?.status === "validation") {
+    const project = await verifyProjectAccess(session, task.projectId);
+    if (!parseAutoApprovalPolicy(project.autoApprovalPolicy, project.id).acceptValidation) {
+      return "Task is waiting for validation";
+    }
+
+    await db
+      .update(schema.tasks)
+      .set({ status: "done", updatedAt: new Date() })
+      .where(eq(schema.tasks.id, task.id));
+    await markTaskCompleted(runId, task, executionId);
+    return null;
+  }
+
+  return "The agent finished without completing the task";
+}
+
+// Start the agent on a task and follow it until it completes or needs a human.
+// Returns the reason to pause the run, or null to move on.
+async function runTask(runId: string, session: Session, task: Task): Promise<string | null> {
+  console.log(`[Autopilot] Run ${runId} starting task ${task.id}`);
+
+  await db
+    .update(schema.tasks)
+    .set({ status: "in_progress", updatedAt: new Date() })
+    .where(eq(schema.tasks.id, task.id));
+
+  await updateRun(runId, { currentTaskId: task.id, currentExecutionId: null });
+  emit(runId, "task", { runId, taskId: task.id, taskTitle: task.title, executionId: null, status: "started" });
+
+  // A task the agent never started on goes back to where it was
+  const revertTaskStatus = () =>
+    db
+      .update(schema.tasks)
+      .set({ status: task.status, updatedAt: new Date() })
+      .where(eq(schema.tasks.id, task.id));
+
+  let executionId: string | null = null;
+  let linked: Promise<unknown> = Promise.resolve();
+  const forward = forwardAgentEvents(runId, task.id, () => executionId);
+
+  try {
+    const response = await startAgentExecution(session, task.projectId, task.id);
+    await drainAgentStream(response, (event, data) => {
+      const status = event === "status" ? (data as AgentStatusEvent) : null;
+      if (status?.executionId && !executionId) {
+        executionId = status.executionId;
+        // Record the execution right away so cancelling the run can stop it
+        linked = Promise.all([
+          updateRun(runId, { currentExecutionId: executionId }),
+          db
+            .update(schema.agentExecutions)
+            .set({ autopilotRunId: runId })
+            .where(eq(schema.agentExecutions.id, executionId)),
+        ]);
+      }
+      forward(event, data);
+    });
+  } catch (error) {
+    if (!executionId) {
+      await revertTaskStatus();
+    }
+    return `Could not start the agent: ${error instanceof Error ? error.message : String(error)}`;
+  } finally {
+    await linked;
+  }
+
+  if (!executionId) {
+    await revertTaskStatus();
+    return "The agent did not start an execution";
+  }
+
+  return settleExecution(runId, session, task, executionId);
+}
+
+// Walk the project's tasks in dependency order until everything is done or a task needs a human
+async function driveRun(runId: string, session: Session): Promise<void> {
+  activeRuns.add(runId);
+
+  const pause = async (reason: string, taskId: string | null) => {
+    console.log(`[Autopilot] Run ${runId} paused: ${reason}`);
+    await updateRun(runId, { status: "paused", pauseReason: reason });
+    if (taskId) {
+      const task = await db.query.tasks.findFirst({ where: eq(schema.tasks.id, taskId) });
+      const run = await getRunRow(runId);
+      emit(runId, "task", {
+        runId,
+        taskId,
+        taskTitle: task?.title ?? "",
+        executionId: run.currentExecutionId,
+        status: "paused",
+        message: reason,
+      });
+    }
+  };
+
+  try {
+    let run = await getRunRow(runId);
+
+    // A paused execution still waiting on approvals or answers is picked up where it stopped
+    if (run.currentTaskId && run.currentExecutionId) {
+      const { execution } = await getExecution(session, run.currentExecutionId);
+      if (execution.status === "awaiting_approval" || execution.status === "awaiting_question") {
+        const tasks = await getTasks(session, run.projectId);
+        const task = tasks.find((t) => t.id === run.currentTaskId);
+        if (task) {
+          const reason = await settleExecution(runId, session, task, execution.id);
+          if (reason) {
+            await pause(reason, task.id);
+            return;
+          }
+        }
+      }
+    }
+
+    while (true) {
+      run = await getRunRow(runId);
+      if (run.status !== "running") {
+        return;
+      }
+
+      const tasks = await getTasks(session, run.projectId);
+      const scope = run.taskIds ? (JSON.parse(run.taskIds) as string[]) : null;
+      const remaining = tasks.filter((t) => t.status !== "done" && (!scope || scope.includes(t.id)));
+
+      if (remaining.length === 0) {
+        console.log(`[Autopilot] Run ${runId} completed`);
+        await updateRun(runId, {
+          status: "completed",
+          currentTaskId: null,
+          currentExecutionId: null,
+          completedAt: new Date(),
+        });
+        return;
+      }
+
+      // Tasks under review are skipped; they block their dependents until someone accepts them
+      const next = getSuggestedExecutionOrder(tasks)
+        .map((id: string) => remaining.find((t) => t.id === id))
+        .find((t: Task | undefined): t is Task => !!t && t.status !== "validation" && canTaskStart(t, tasks));
+
+      if (!next) {
+        await pause("The remaining tasks are waiting for validation or blocked by unfinished dependencies", null);
+        return;
+      }
+
+      const reason = await runTask(runId, session, next);
+      if (reason) {
+        await pause(reason, next.id);
+        return;
+      }
+    }
+  } catch (error) {
+    console.error(`[Autopilot] Run ${runId} failed:`, error);
+    await updateRun(runId, {
+      status: "failed",
+      pauseReason: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    });
+  } finally {
+    activeRuns.delete(runId);
+  }
+}
+
+// Start an autopilot run over a project's tasks, optionally limited to some of them
+export async function startAutopilotRun(
+  session: Session,
+  projectId: string,
+  data: { taskIds?: string[] }
+): Promise<AutopilotRun> {
+  await verifyProjectAccess(session, projectId);
+
+  const running = await db.query.autopilotRuns.findFirst({
+    where: and(
+      eq(schema.autopilotRuns.projectId, projectId),
+      eq(schema.autopilotRuns.status, "running")
+    ),
+  });
+  if (running) {
+    throw new Error("An autopilot run is already in progress for this project");
+  }
+
+  const runId = nanoid();
+  await db.insert(schema.autopilotRuns).values({
+    id: runId,
+    projectId,
+    status: "running",
+    taskIds: data.taskIds?.length ? JSON.stringify(data.taskIds) : null,
+  });
+
+  void driveRun(runId, session);
+
+  return transformRun(await getRunRow(runId));
+}
+
+export async function getAutopilotRun(session: Session, runId: string): Promise<AutopilotRun> {
+  const run = await getRunRow(runId);
+  await verifyProjectAccess(session, run.projectId);
+  return transformRun(run);
+}
+
+export async function getAutopilotRuns(session: Session, projectId: string): Promise<AutopilotRun[]> {
+  await verifyProjectAccess(session, projectId);
+  const runs = await db.query.autopilotRuns.findMany({
+    where: eq(schema.autopilotRuns.projectId, projectId),
+    orderBy: [desc(schema.autopilotRuns.createdAt)],
+    limit: 20,
+  });
+  return runs.map(transformRun);
+}
+
+// Continue a paused run, e.g. after approving its proposals or reviewing a task
+export async function resumeAutopilotRun(session: Session, runId: string): Promise<AutopilotRun> {
+  const run = await getAutopilotRun(session, runId);
+
+  if (run.status !== "paused" || activeRuns.has(runId)) {
+    throw new Error("Only paused runs can be resumed");
+  }
+
+  await updateRun(runId, { status: "running", pauseReason: null }, true);
+  void driveRun(runId, session);
+
+  return transformRun(await getRunRow(runId));
+}
+
+// Cancel a run and stop the execution it is currently driving
+export async function cancelAutopilotRun(session: Session, runId: string): Promise<AutopilotRun> {
+  const run = await getAutopilotRun(session, runId);
+
+  if (TERMINAL_RUN_STATUSES.includes(run.status)) {
+    throw new Error(`Run is already ${run.status}`);
+  }
+
+  await updateRun(runId, { status: "cancelled", completedAt: new Date() }, true);
+
+  if (run.currentExecutionId && isExecutionRunning(run.currentExecutionId)) {
+    await cancelExecution(session, run.currentExecutionId);
+  }
+
+  return transformRun(await getRunRow(runId));
+}
+
+// Stream a run's progress via SSE: its current state first, then every change until it finishes
+export async function streamAutopilotRun(session: Session, runId: string): Promise<Response> {
+  const run = await getAutopilotRun(session, runId);
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      sendSSEEvent(controller, "run", run);
+
+      if (TERMINAL_RUN_STATUSES.includes(run.status)) {
+        sendSSEEvent(controller, "done", { runId });
+        controller.close();
+        return;
+      }
+
+      unsubscribe = subscribe(runId, (event, data) => {
+        try {
+          sendSSEEvent(controller, event, data);
+          if (event === "done") {
+            unsubscribe();
+            controller.close();
+          }
+        } catch {
+          // Client went away
+          unsubscribe();
+        }
+      });
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return createSSEResponse(stream);
+}
+
+export async function getAutoApprovalPolicy(session: Session, projectId: string): Promise<AutoApprovalPolicy> {
+  const project = await verifyProjectAccess(session, projectId);
+  return parseAutoApprovalPolicy(project.autoApprovalPolicy, projectId);
+}
+
+export async function updateAutoApprovalPolicy(
+  session: Session,
+  projectId: string,
+  policy: Partial<AutoApprovalPolicy>
+) {
+  await verifyProjectAccess(session, projectId);
+
+  await db
+    .update(schema.projects)
+    .set({
+      autoApprovalPolicy: JSON.stringify({ ...DEFAULT_AUTO_APPROVAL_POLICY, ...policy }),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.projects.id, projectId));
+
+  return { success: true };
+}
+
+export function handleAutopilotRoutes(req: Request, session: Session): Promise<Response> | null {
+  const url = new URL(req.url);
+  const path = url.pathname;
+  const method = req.method;
+
+  // GET/POST /api/projects/:projectId/auto-approval-policy
+  const policyMatch = path.match(/^\/api\/projects\/([^/]+)\/auto-approval-policy$/);
+  if (policyMatch) {
+    const projectId = policyMatch[1]!;
+
+    if (method === "GET") {
+      return getAutoApprovalPolicy(session, projectId)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+    }
+
+    if (method === "POST") {
+      return req.json().then((data) =>
+        updateAutoApprovalPolicy(session, projectId, data)
+          .then((result) => Response.json(result))
+          .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+      );
+    }
+  }
+
+  // GET/POST /api/projects/:projectId/autopilot/runs
+  const runsMatch = path.match(/^\/api\/projects\/([^/]+)\/autopilot\/runs$/);
+  if (runsMatch) {
+    const projectId = runsMatch[1]!;
+
+    if (method === "GET") {
+      return getAutopilotRuns(session, projectId)
+        .then((result) => Response.json(result))
+        .catch((err) => Response.json({ error: err.message }, { status: 404 }));
+    }
+
+    if (method === "POST") {
+      return req.json().then((data) =>
+        startAutopilotRun(session, projectId, data)
+          .then((result) => Response.json(result, { status: 201 }))
+          .catch((err) => Response.json({ error: err.message }, { status: 400 }))
+      );
+    }
+  }
+
+  // GET /api/autopilot/runs/:runId
+  const runMatch = path.match(/^\/api\/autopilot\/runs\/([^/]+)$/);
+  if (runMatch && method === "GET") {
+    const runId = runMatch[1]!;
+    return getAutopilotRun(session, runId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 404 }));
+  }
+
+  // GET /api/autopilot/runs/:runId/events - Progress stream
+  const eventsMatch = path.match(/^\/api\/autopilot\/runs\/([^/]+)\/events$/);
+  if (eventsMatch && method === "GET") {
+    const runId = eventsMatch[1]!;
+    return streamAutopilotRun(session, runId).catch((err) =>
+      Response.json({ error: err.message }, { status: 404 })
+    );
+  }
+
+  // POST /api/autopilot/runs/:runId/resume
+  const resumeMatch = path.match(/^\/api\/autopilot\/runs\/([^/]+)\/resume$/);
+  if (resumeMatch && method === "POST") {
+    const runId = resumeMatch[1]!;
+    return resumeAutopilotRun(session, runId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+  }
+
+  // POST /api/autopilot/runs/:runId/cancel
+  const cancelMatch = path.match(/^\/api\/autopilot\/runs\/([^/]+)\/cancel$/);
+  if (cancelMatch && method === "POST") {
+    const runId = cancelMatch[1]!;
+    return cancelAutopilotRun(session, runId)
+      .then((result) => Response.json(result))
+      .catch((err) => Response.json({ error: err.message }, { status: 400 }));
+  }
+
+  return null;
+}
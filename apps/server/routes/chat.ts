@@ -3,10 +3,11 @@ import { eq, and, asc } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { streamText, convertToModelMessages, type UIMessage } from "ai";
 import type { Session } from "../auth";
-import { createAIProvider } from "../ai";
+import { createFailoverModel } from "../ai/provider-failover";
 import { createTaskTools, type TaskToolCall } from "../ai/tools";
 import { buildSystemPrompt } from "../ai/prompts";
 import { createTask, updateTask, deleteTask, getTasks } from "./tasks";
+import { getProjectProviderChain, getRoutedProviderChain } from "./ai-providers";
 
 async function verifyProjectAccess(session: Session, projectId: string) {
   const project = await db.query.projects.findFirst({
@@ -75,22 +76,20 @@ export async function handleChat(
     );
   }
 
-  const aiProvider = await db.query.aiProviders.findFirst({
-    where: and(
-      eq(schema.aiProviders.id, project.aiProviderId),
-      eq(schema.aiProviders.userId, session.user.id)
-    ),
-  });
+  // The project's provider comes first, the fallbacks take over when it fails
+  const providerChain = await getProjectProviderChain(session.user.id, project);
 
-  if (!aiProvider) {
+  if (providerChain.length === 0) {
     return Response.json({ error: "AI provider not found" }, { status: 400 });
   }
 
   // Get tasks for context
   const tasks = await getTasks(session, projectId);
 
-  // Create AI provider and stream
-  const model = createAIProvider(aiProvider);
+  // Create AI provider and stream, on the chat route when the project has one
+  const model = createFailoverModel(await getRoutedProviderChain(session.user.id, project, "chat", providerChain), {
+    onFailover: (failover) => console.warn(`[Chat] ${failover.providerName} failed (${failover.error}), trying the next provider`),
+  });
   const systemPrompt = buildSystemPrompt(project.guidelines, tasks);
 
   // Create tools with execute functions bound to this session/project
@@ -4,6 +4,7 @@ import { handleTaskTemplateRoutes } from "./task-templates";
 import { handleAIProviderRoutes } from "./ai-providers";
 import { handleChatRoutes } from "./chat";
 import { handleAgentRoutes } from "./agent";
+import { handleAutopilotRoutes } from "./autopilot";
 import { handleFilesystemRoutes } from "./filesystem";
 import { handleFileWatcherRoutes } from "./file-watcher";
 import { handleGuidelinesRoutes } from "./guidelines";
@@ -22,6 +23,7 @@ export function handleAPIRoutes(req: Request, session: Session): Promise<Respons
     handleAIProviderRoutes(req, session) ||
     handleChatRoutes(req, session) ||
     handleAgentRoutes(req, session) ||
+    handleAutopilotRoutes(req, session) ||
     handleFilesystemRoutes(req, session) ||
     handleFileWatcherRoutes(req, session) ||
     handleGuidelinesRoutes(req, session) ||
@@ -19,9 +19,25 @@ export async function getProject(session: Session, projectId: string) {
   });
 }
 
+// The problem with a project's fallback provider ids, null when they're a list of ids
+function validateFallbackProviderIds(ids: unknown): string | null {
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) {
+    return "Invalid fallbackAiProviderIds: must be a list of provider ids";
+  }
+  return null;
+}
+
+function serializeFallbackProviderIds(ids: string[]): string {
+  const invalid = validateFallbackProviderIds(ids);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return JSON.stringify(ids);
+}
+
 export async function createProject(
   session: Session,
-  data: { name: string; description?: string; guidelines?: string; aiProviderId?: string }
+  data: { name: string; description?: string; guidelines?: string; aiProviderId?: string; fallbackAiProviderIds?: string[]; useWorktrees?: boolean; maxConcurrentExecutions?: number }
 ) {
   const id = nanoid();
   await db.insert(schema.projects).values({
@@ -30,6 +46,9 @@ export async function createProject(
     description: data.description,
     guidelines: data.guidelines,
     aiProviderId: data.aiProviderId,
+    fallbackAiProviderIds: data.fallbackAiProviderIds === undefined ? undefined : serializeFallbackProviderIds(data.fallbackAiProviderIds),
+    useWorktrees: data.useWorktrees,
+    maxConcurrentExecutions: data.maxConcurrentExecutions,
     userId: session.user.id,
   });
   return { id };
@@ -38,17 +57,19 @@ export async function createProject(
 export async function updateProject(
   session: Session,
   projectId: string,
-  data: { name?: string; description?: string; guidelines?: string; aiProviderId?: string }
+  data: { name?: string; description?: string; guidelines?: string; aiProviderId?: string; fallbackAiProviderIds?: string[]; useWorktrees?: boolean; maxConcurrentExecutions?: number }
 ) {
   const project = await getProject(session, projectId);
   if (!project) {
     throw new Error("Project not found");
   }
 
+  const { fallbackAiProviderIds, ...fields } = data;
   await db
     .update(schema.projects)
     .set({
-      ...data,
+      ...fields,
+      ...(fallbackAiProviderIds !== undefined && { fallbackAiProviderIds: serializeFallbackProviderIds(fallbackAiProviderIds) }),
       updatedAt: new Date(),
     })
     .where(eq(schema.projects.id, projectId));
@@ -81,9 +102,9 @@ export function handleProjectRoutes(req: Request, session: Session): Promise<Res
   // POST /api/projects
   if (path === "/api/projects" && method === "POST") {
     return req.json().then((data) =>
-      createProject(session, data).then((result) =>
-        Response.json(result, { status: 201 })
-      )
+      createProject(session, data)
+        .then((result) => Response.json(result, { status: 201 }))
+        .catch((err) => Response.json({ error: err.message }, { status: 400 }))
     );
   }
 
@@ -102,13 +123,18 @@ export function handleProjectRoutes(req: Request, session: Session): Promise<Res
   // PUT /api/projects/:id
   if (projectMatch && method === "PUT") {
     const projectId = projectMatch[1]!;
-    return req.json().then((data) =>
-      updateProject(session, projectId, data)
+    return req.json().then((data) => {
+      // Invalid fallback providers are a bad request, not a missing project
+      const invalidFallbacks = data.fallbackAiProviderIds === undefined ? null : validateFallbackProviderIds(data.fallbackAiProviderIds);
+      if (invalidFallbacks) {
+        return Response.json({ error: invalidFallbacks }, { status: 400 });
+      }
+      return updateProject(session, projectId, data)
         .then((result) => Response.json(result))
         .catch((err) =>
           Response.json({ error: err.message }, { status: 404 })
-        )
-    );
+        );
+    });
   }
 
   // DELETE /api/projects/:id
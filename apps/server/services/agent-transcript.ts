@@ -0,0 +1,41 @@
+import { db, schema } from "../db";
+import { eq, asc, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { ModelMessage } from "ai";
+import type { AgentMessage } from "../db/schema";
+
+/**
+ * Append messages to an execution's transcript, preserving their order
+ */
+export async function appendAgentMessages(executionId: string, messages: ModelMessage[]): Promise<void> {
+  if (messages.length === 0) {
+    return;
+  }
+
+  const [row] = await db
+    .select({ maxSequence: sql<number | null>`max(${schema.agentMessages.sequence})` })
+    .from(schema.agentMessages)
+    .where(eq(schema.agentMessages.executionId, executionId));
+
+  let sequence = row?.maxSequence ?? 0;
+
+  await db.insert(schema.agentMessages).values(
+    messages.map((message) => ({
+      id: nanoid(),
+      executionId,
+      role: message.role,
+      message: JSON.stringify(message),
+      sequence: ++sequence,
+    }))
+  );
+}
+
+/**
+ * Load the stored transcript rows for an execution in order
+ */
+export async function getAgentMessageRows(executionId: string): Promise<AgentMessage[]> {
+  return db.query.agentMessages.findMany({
+    where: eq(schema.agentMessages.executionId, executionId),
+    orderBy: [asc(schema.agentMessages.sequence)],
+  });
+}
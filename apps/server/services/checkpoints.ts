@@ -0,0 +1,291 @@
+import { $ } from "bun";
+import * as path from "path";
+import * as os from "os";
+import { rm, mkdir } from "node:fs/promises";
+import { nanoid } from "nanoid";
+import { DEFAULT_IGNORE_PATTERNS, matchesIgnorePattern } from "./file-watcher";
+
+export type CheckpointKind = "git" | "snapshot";
+
+export interface Checkpoint {
+  kind: CheckpointKind;
+  // Commit SHA for git checkpoints, snapshot id for plain directories
+  ref: string;
+}
+
+export interface RestoreResult {
+  restoredFiles: number;
+  removedFiles: string[];
+}
+
+// Snapshot store relative to workspace root (next to the database)
+const SNAPSHOT_ROOT = path.resolve("../../data/checkpoints");
+
+// Largest plain directory a snapshot copies, bigger ones need git to be rolled back
+const MAX_SNAPSHOT_BYTES = 200 * 1024 * 1024;
+
+// Snapshots copy every file the agent's tools and commands can change, lock files and build
+// output included. Only a .git directory is left out.
+const SNAPSHOT_IGNORE_PATTERNS = [".git"];
+
+// Largest total of gitignored files (.env, build output, ...) a git checkpoint captures. Above it
+// they are left out of the checkpoint and rollback leaves them alone.
+const MAX_IGNORED_BYTES = 200 * 1024 * 1024;
+
+// Trailer on checkpoint commits whose tree includes the gitignored files
+const IGNORED_FILES_TRAILER = "Ignored-Files: captured";
+
+// Identity used for checkpoint commits so capture works without a configured git user
+export const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "open-dev",
+  GIT_AUTHOR_EMAIL: "open-dev@localhost",
+  GIT_COMMITTER_NAME: "open-dev",
+  GIT_COMMITTER_EMAIL: "open-dev@localhost",
+};
+
+/**
+ * Check whether a directory is inside a git work tree
+ */
+export async function isGitRepository(workingDirectory: string): Promise<boolean> {
+  const result = await $`git rev-parse --is-inside-work-tree`.cwd(workingDirectory).quiet().nothrow();
+  return result.exitCode === 0 && result.stdout.toString().trim() === "true";
+}
+
+/**
+ * Resolve the top-level directory of the repository containing a working directory.
+ * Git paths (diff output, index entries) are relative to it.
+ */
+async function getGitTopLevel(workingDirectory: string): Promise<string> {
+  return (await $`git rev-parse --show-toplevel`.cwd(workingDirectory).quiet().text()).trim();
+}
+
+/**
+ * Run a callback with a throwaway git index so the user's staging area is never touched
+ */
+export async function withTemporaryIndex<T>(
+  fn: (env: Record<string, string | undefined>) => Promise<T>
+): Promise<T> {
+  const indexFile = path.join(os.tmpdir(), `open-dev-index-${nanoid()}`);
+  try {
+    return await fn({ ...process.env, ...GIT_IDENTITY, GIT_INDEX_FILE: indexFile });
+  } finally {
+    await rm(indexFile, { force: true });
+  }
+}
+
+/**
+ * Stage the full working tree (tracked, modified and untracked files, minus ignored ones)
+ * into the given index
+ */
+async function stageWorkingTree(
+  repoRoot: string,
+  env: Record<string, string | undefined>
+): Promise<void> {
+  // Seed from HEAD so tracked files that match .gitignore are still captured
+  const head = await $`git rev-parse --verify -q HEAD`.cwd(repoRoot).quiet().nothrow();
+  if (head.exitCode === 0) {
+    await $`git read-tree HEAD`.cwd(repoRoot).env(env).quiet();
+  }
+  await $`git add -A`.cwd(repoRoot).env(env).quiet();
+}
+
+/**
+ * List the gitignored files missing from a staged index, relative to the repository root.
+ * Nested repositories are skipped.
+ */
+async function listIgnoredFiles(
+  repoRoot: string,
+  env: Record<string, string | undefined>,
+  pathspec: string[] = []
+): Promise<string[]> {
+  const files = await $`git ls-files -z --others --ignored --exclude-standard ${pathspec}`
+    .cwd(repoRoot)
+    .env(env)
+    .quiet()
+    .text();
+  return files.split("\0").filter((file) => file && !file.endsWith("/"));
+}
+
+async function createGitCheckpoint(workingDirectory: string): Promise<Checkpoint> {
+  const repoRoot = await getGitTopLevel(workingDirectory);
+  return withTemporaryIndex(async (env) => {
+    await stageWorkingTree(repoRoot, env);
+
+    // Ignored files are captured as well when they fit, the agent's commands rewrite them too
+    const ignoredFiles = await listIgnoredFiles(repoRoot, env);
+    const ignoredBytes = ignoredFiles.reduce((total, file) => total + Bun.file(path.join(repoRoot, file)).size, 0);
+    const captureIgnored = ignoredBytes <= MAX_IGNORED_BYTES;
+    if (!captureIgnored) {
+      console.warn(
+        `[Checkpoints] Ignored files in ${repoRoot} are too large to capture (${Math.round(ignoredBytes / 1024 / 1024)} MB), ` +
+        "rolling back will leave them alone"
+      );
+    } else if (ignoredFiles.length > 0) {
+      await $`git add -f --pathspec-from-file=- --pathspec-file-nul < ${Buffer.from(ignoredFiles.join("\0"))}`
+        .cwd(repoRoot)
+        .env({ ...env, GIT_LITERAL_PATHSPECS: "1" })
+        .quiet();
+    }
+
+    const tree = (await $`git write-tree`.cwd(repoRoot).env(env).quiet().text()).trim();
+
+    const head = await $`git rev-parse --verify -q HEAD`.cwd(repoRoot).quiet().nothrow();
+    const parentArgs = head.exitCode === 0 ? ["-p", head.stdout.toString().trim()] : [];
+    const message = captureIgnored ? `open-dev checkpoint\n\n${IGNORED_FILES_TRAILER}` : "open-dev checkpoint";
+
+    const commit = (
+      await $`git commit-tree ${tree} ${parentArgs} -m ${message}`
+        .cwd(repoRoot)
+        .env(env)
+        .quiet()
+        .text()
+    ).trim();
+
+    // Keep the commit reachable so `git gc` doesn't prune it
+    await $`git update-ref ${`refs/open-dev/checkpoints/${commit}`} ${commit}`.cwd(repoRoot).quiet();
+
+    return { kind: "git", ref: commit };
+  });
+}
+
+async function restoreGitCheckpoint(workingDirectory: string, commit: string): Promise<RestoreResult> {
+  const repoRoot = await getGitTopLevel(workingDirectory);
+  // Only the working directory is restored when it is a subdirectory of the repository
+  const prefix = path.relative(repoRoot, workingDirectory);
+  const pathspec = prefix ? ["--", prefix] : [];
+
+  // Checkpoints from before ignored files were captured, or with too many of them, leave them alone
+  const message = await $`git show -s --format=%B ${commit}`.cwd(repoRoot).quiet().text();
+  const capturedIgnored = message.includes(IGNORED_FILES_TRAILER);
+
+  // Remove files that were created after the checkpoint
+  const removedFiles = await withTemporaryIndex(async (env) => {
+    await stageWorkingTree(repoRoot, env);
+    const currentTree = (await $`git write-tree`.cwd(repoRoot).env(env).quiet().text()).trim();
+    const diff = await $`git diff-tree -r -z --no-renames --name-only --diff-filter=A ${commit} ${currentTree} ${pathspec}`
+      .cwd(repoRoot)
+      .quiet()
+      .text();
+    const added = diff.split("\0").filter(Boolean);
+
+    if (capturedIgnored) {
+      const captured = await $`git ls-tree -r -z --name-only ${commit} ${prefix ? [prefix] : []}`.cwd(repoRoot).quiet().text();
+      const capturedFiles = new Set(captured.split("\0").filter(Boolean));
+      for (const file of await listIgnoredFiles(repoRoot, env, pathspec)) {
+        if (!capturedFiles.has(file)) {
+          added.push(file);
+        }
+      }
+    }
+    return added;
+  });
+
+  for (const file of removedFiles) {
+    await rm(path.join(repoRoot, file), { force: true });
+  }
+
+  // Write every file of the working directory from the checkpoint back, ls-files and
+  // checkout-index both take paths relative to the directory they run in
+  const restoredFiles = await withTemporaryIndex(async (env) => {
+    await $`git read-tree ${commit}`.cwd(repoRoot).env(env).quiet();
+    const files = await $`git ls-files -z`.cwd(workingDirectory).env(env).quiet().text();
+    if (files) {
+      await $`git checkout-index -f -z --stdin < ${Buffer.from(files)}`.cwd(workingDirectory).env(env).quiet();
+    }
+    return files.split("\0").filter(Boolean).length;
+  });
+
+  return { restoredFiles, removedFiles };
+}
+
+/**
+ * List files in a plain directory, skipping the given ignore patterns
+ */
+async function listSnapshotFiles(workingDirectory: string, ignorePatterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+  const glob = new Bun.Glob("**/*");
+  for await (const entry of glob.scan({ cwd: workingDirectory, onlyFiles: true, dot: true })) {
+    if (!matchesIgnorePattern(entry, ignorePatterns)) {
+      files.push(entry);
+    }
+  }
+  return files.sort();
+}
+
+async function createSnapshotCheckpoint(workingDirectory: string): Promise<Checkpoint> {
+  const id = nanoid();
+  const snapshotDir = path.join(SNAPSHOT_ROOT, id);
+  const files = await listSnapshotFiles(workingDirectory, SNAPSHOT_IGNORE_PATTERNS);
+
+  const totalBytes = files.reduce((total, file) => total + Bun.file(path.join(workingDirectory, file)).size, 0);
+  if (totalBytes > MAX_SNAPSHOT_BYTES) {
+    throw new Error(
+      `Working directory is too large to snapshot for rollback (${Math.round(totalBytes / 1024 / 1024)} MB, ` +
+      `the limit is ${MAX_SNAPSHOT_BYTES / 1024 / 1024} MB). Make it a git repository to roll back changes there.`
+    );
+  }
+
+  await mkdir(path.join(snapshotDir, "files"), { recursive: true });
+  for (const file of files) {
+    await Bun.write(path.join(snapshotDir, "files", file), Bun.file(path.join(workingDirectory, file)));
+  }
+  await Bun.write(
+    path.join(snapshotDir, "manifest.json"),
+    JSON.stringify({ workingDirectory, files, ignorePatterns: SNAPSHOT_IGNORE_PATTERNS })
+  );
+
+  return { kind: "snapshot", ref: id };
+}
+
+async function restoreSnapshotCheckpoint(workingDirectory: string, id: string): Promise<RestoreResult> {
+  const snapshotDir = path.join(SNAPSHOT_ROOT, id);
+  const manifestFile = Bun.file(path.join(snapshotDir, "manifest.json"));
+
+  if (!(await manifestFile.exists())) {
+    throw new Error(`Snapshot ${id} not found`);
+  }
+
+  const manifest = (await manifestFile.json()) as { files: string[]; ignorePatterns?: string[] };
+  const snapshotFiles = new Set(manifest.files);
+
+  // Remove files that were created after the snapshot, among the files it covered. Older
+  // snapshots skipped the file watcher's ignore patterns, so files there are left alone.
+  const removedFiles: string[] = [];
+  for (const file of await listSnapshotFiles(workingDirectory, manifest.ignorePatterns ?? DEFAULT_IGNORE_PATTERNS)) {
+    if (!snapshotFiles.has(file)) {
+      await rm(path.join(workingDirectory, file), { force: true });
+      removedFiles.push(file);
+    }
+  }
+
+  for (const file of manifest.files) {
+    await Bun.write(path.join(workingDirectory, file), Bun.file(path.join(snapshotDir, "files", file)));
+  }
+
+  return { restoredFiles: manifest.files.length, removedFiles };
+}
+
+/**
+ * Capture the current state of a working directory.
+ * Uses git commit objects when the directory is a repository and falls back to
+ * a file-level snapshot store for plain directories.
+ */
+export async function createCheckpoint(workingDirectory: string): Promise<Checkpoint> {
+  if (await isGitRepository(workingDirectory)) {
+    return createGitCheckpoint(workingDirectory);
+  }
+  return createSnapshotCheckpoint(workingDirectory);
+}
+
+/**
+ * Restore a working directory to exactly the state captured by a checkpoint
+ */
+export async function restoreCheckpoint(
+  workingDirectory: string,
+  checkpoint: Checkpoint
+): Promise<RestoreResult> {
+  if (checkpoint.kind === "git") {
+    return restoreGitCheckpoint(workingDirectory, checkpoint.ref);
+  }
+  return restoreSnapshotCheckpoint(workingDirectory, checkpoint.ref);
+}
@@ -0,0 +1,114 @@
+import { nanoid } from "nanoid";
+import { asc, eq, max } from "drizzle-orm";
+import { generateText, hasToolCall, stepCountIs, type StepResult, type ToolSet } from "ai";
+import type { ExecutionReview, ReviewIssue } from "@open-dev/shared";
+import { db, schema } from "../db";
+import type { AgentReview, AIProvider, Project, Task } from "../db/schema";
+import { createFailoverModel, getStepProvider } from "../ai/provider-failover";
+import { createReviewerTools, type SubmitReviewParams } from "../ai/agent-tools";
+import { createReviewerSystemPrompt } from "../ai/agent-prompts";
+import { createExecutionReview, formatChangesForReview } from "../ai/code-review";
+import {
+  executeListDirectory,
+  executeReadFile,
+  executeSearchFiles,
+  type ExecutionResult,
+  type PathAccessOptions,
+} from "../ai/agent-executor";
+
+// Model rounds the reviewer gets to look around before it has to submit its verdict
+const MAX_REVIEW_STEPS = 15;
+
+export interface CodeReviewOptions {
+  project: Project;
+  task: Task;
+  workingDirectory: string;
+  // The reviewer's provider chain, later providers take over when one fails
+  providers: AIProvider[];
+  // The project's path rules and protected paths, which apply to the reviewer's reads too
+  pathAccess?: PathAccessOptions;
+  // Called with each of the reviewer's model calls, so they are recorded and charged to the execution
+  onStepFinish?: (step: StepResult<ToolSet>) => Promise<void>;
+  signal?: AbortSignal;
+}
+
+export function toExecutionReview(row: AgentReview): ExecutionReview {
+  return {
+    ...row,
+    issues: JSON.parse(row.issues) as ReviewIssue[],
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * The round number for the next review of an execution, counted from the stored reviews so it
+ * carries over when the execution is resumed
+ */
+export async function getNextReviewRound(executionId: string): Promise<number> {
+  const [row] = await db
+    .select({ round: max(schema.agentReviews.round) })
+    .from(schema.agentReviews)
+    .where(eq(schema.agentReviews.executionId, executionId));
+  return (row?.round ?? 0) + 1;
+}
+
+/**
+ * Have the reviewer model check the execution's file changes against the task and the project
+ * guidelines, reading the working directory as needed, and store its verdict. Returns null when
+ * there are no changes to review or the reviewer finished without submitting a verdict.
+ */
+export async function runCodeReview(
+  executionId: string,
+  round: number,
+  options: CodeReviewOptions
+): Promise<ExecutionReview | null> {
+  const actions = await db
+    .select()
+    .from(schema.agentActions)
+    .where(eq(schema.agentActions.executionId, executionId))
+    .orderBy(asc(schema.agentActions.sequence));
+  const changes = formatChangesForReview(actions);
+  if (!changes) return null;
+
+  const toToolResult = (result: ExecutionResult) => (result.success ? result.output! : `Error: ${result.error}`);
+  const executeOptions = { ...options.pathAccess, signal: options.signal };
+  let submitted = null as SubmitReviewParams | null;
+
+  const tools = createReviewerTools({
+    onReadFile: async (params) => toToolResult(await executeReadFile(options.workingDirectory, params, executeOptions)),
+    onListDirectory: async (params) =>
+      toToolResult(await executeListDirectory(options.workingDirectory, params, executeOptions)),
+    onSearchFiles: async (params) =>
+      toToolResult(await executeSearchFiles(options.workingDirectory, params, executeOptions)),
+    onSubmitReview: async (params) => {
+      submitted = params;
+      return "Review submitted.";
+    },
+  });
+
+  const result = await generateText({
+    model: createFailoverModel(options.providers, { abortSignal: options.signal }),
+    system: createReviewerSystemPrompt(options.project, options.task),
+    prompt: `Review these changes:\n\n${changes}`,
+    tools,
+    stopWhen: [stepCountIs(MAX_REVIEW_STEPS), hasToolCall("submitReview")],
+    abortSignal: options.signal,
+    onStepFinish: options.onStepFinish,
+  });
+
+  if (!submitted) return null;
+
+  // The verdict is credited to the provider that answered the last call
+  const answeredBy = getStepProvider(result.providerMetadata)?.aiProviderId ?? options.providers[0]!.id;
+  const review: ExecutionReview = {
+    id: nanoid(),
+    ...createExecutionReview(executionId, round, answeredBy, submitted),
+    createdAt: new Date().toISOString(),
+  };
+  await db.insert(schema.agentReviews).values({
+    ...review,
+    issues: JSON.stringify(review.issues),
+    createdAt: new Date(review.createdAt),
+  });
+  return review;
+}
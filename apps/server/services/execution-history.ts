@@ -0,0 +1,120 @@
+import type { ExecutionHistoryFilters, ExecutionHistorySortKey, ExecutionUsage } from "@open-dev/shared";
+
+// SQL of each history sort key; duration is the run time limits count, or the wall-clock time
+// of executions from before usage was kept
+const HISTORY_SORT_COLUMNS: Record<ExecutionHistorySortKey, string> = {
+  createdAt: "e.created_at",
+  tokens: "json_extract(e.usage, '$.tokensUsed')",
+  steps: "json_extract(e.usage, '$.stepsCount')",
+  commands: "json_extract(e.usage, '$.commandsCount')",
+  duration: "COALESCE(json_extract(e.usage, '$.elapsedTimeSeconds'), e.completed_at - e.created_at)",
+};
+
+type UsageFilterKey = Extract<keyof ExecutionHistoryFilters, `min${string}`>;
+
+const USAGE_FILTERS: [UsageFilterKey, ExecutionHistorySortKey][] = [
+  ["minTokens", "tokens"],
+  ["minSteps", "steps"],
+  ["minCommands", "commands"],
+  ["minDurationSeconds", "duration"],
+];
+
+// A non-negative number from a query parameter, undefined when it's missing
+function parseCount(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+
+  const count = Number(value);
+  if (!Number.isFinite(count) || count < 0) {
+    throw new Error(`Invalid ${name}: must be a non-negative number`);
+  }
+  return count;
+}
+
+/**
+ * Read history filters from a request's query parameters. Throws for an unknown sort key or a
+ * count that isn't a non-negative number.
+ */
+export function parseExecutionHistoryFilters(params: URLSearchParams): ExecutionHistoryFilters {
+  const sortBy = params.get("sortBy") || undefined;
+  if (sortBy !== undefined && !Object.hasOwn(HISTORY_SORT_COLUMNS, sortBy)) {
+    throw new Error(`Invalid sortBy: ${sortBy}`);
+  }
+
+  const filters: ExecutionHistoryFilters = {
+    status: params.get("status") as ExecutionHistoryFilters["status"] || undefined,
+    limit: parseCount(params, "limit"),
+    offset: parseCount(params, "offset"),
+    sortBy: sortBy as ExecutionHistorySortKey | undefined,
+    sortOrder: params.get("sortOrder") === "asc" ? "asc" : undefined,
+  };
+  for (const [filterKey] of USAGE_FILTERS) {
+    filters[filterKey] = parseCount(params, filterKey);
+  }
+  return filters;
+}
+
+/**
+ * The query listing a project's executions with their task title and action counts. Executions
+ * without usage go last whichever way the usage is sorted.
+ */
+export function buildExecutionHistoryQuery(
+  projectId: string,
+  filters: ExecutionHistoryFilters = {}
+): { sql: string; params: (string | number)[] } {
+  const { status, limit = 50, offset = 0, sortBy = "createdAt", sortOrder = "desc" } = filters;
+
+  const conditions = ["e.project_id = ?"];
+  const params: (string | number)[] = [projectId];
+  if (status) {
+    conditions.push("e.status = ?");
+    params.push(status);
+  }
+  for (const [filterKey, sortKey] of USAGE_FILTERS) {
+    const minimum = filters[filterKey];
+    if (minimum !== undefined) {
+      conditions.push(`${HISTORY_SORT_COLUMNS[sortKey]} >= ?`);
+      params.push(minimum);
+    }
+  }
+
+  const sortColumn = HISTORY_SORT_COLUMNS[sortBy];
+  const direction = sortOrder === "asc" ? "ASC" : "DESC";
+
+  const sql = `
+    SELECT
+      e.id,
+      e.task_id as taskId,
+      t.title as taskTitle,
+      e.project_id as projectId,
+      e.status,
+      e.error_message as errorMessage,
+      e.usage,
+      e.created_at as createdAt,
+      e.updated_at as updatedAt,
+      e.completed_at as completedAt,
+      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id) as actionsCount,
+      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id AND a.status = 'completed') as completedActionsCount,
+      (SELECT COUNT(*) FROM agent_actions a WHERE a.execution_id = e.id AND a.status = 'failed') as failedActionsCount
+    FROM agent_executions e
+    LEFT JOIN tasks t ON e.task_id = t.id
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY ${sortColumn} IS NULL, ${sortColumn} ${direction}, e.created_at DESC
+    LIMIT ?
+    OFFSET ?
+  `;
+  params.push(limit, offset);
+
+  return { sql, params };
+}
+
+export function parseExecutionUsage(usage: string | null | undefined, executionId: string): ExecutionUsage | null {
+  try {
+    if (usage) {
+      return JSON.parse(usage);
+    }
+  } catch {
+    console.warn(`Invalid usage JSON for execution ${executionId}`);
+  }
+  return null;
+}
@@ -0,0 +1,188 @@
+import * as path from "path";
+
+export interface ExecutionSlotRequest {
+  executionId: string;
+  projectId: string;
+  providerId: string;
+  // Maximum executions running at once for the project and for the AI provider
+  projectLimit: number;
+  providerLimit: number;
+  // Called with the 1-based queue position whenever it changes while waiting
+  onPositionChange?: (position: number) => void;
+}
+
+interface QueueEntry extends ExecutionSlotRequest {
+  enqueuedAt: number;
+  position: number;
+  start: () => void;
+}
+
+interface RunningEntry {
+  projectId: string;
+  providerId: string;
+  startedAt: number;
+}
+
+export interface QueuedExecution {
+  executionId: string;
+  position: number;
+  enqueuedAt: number;
+}
+
+export interface RunningExecution {
+  executionId: string;
+  startedAt: number;
+}
+
+// Executions waiting for a slot, in arrival order
+const waiting: QueueEntry[] = [];
+
+// Executions holding a slot
+const running = new Map<string, RunningEntry>();
+
+// Files each active execution has written or proposed to write, by absolute path
+const fileClaims = new Map<string, Set<string>>();
+
+function countRunning(predicate: (entry: RunningEntry) => boolean): number {
+  let count = 0;
+  for (const entry of running.values()) {
+    if (predicate(entry)) count++;
+  }
+  return count;
+}
+
+function hasCapacity(entry: QueueEntry): boolean {
+  const projectLimit = Math.max(1, entry.projectLimit);
+  const providerLimit = Math.max(1, entry.providerLimit);
+  return (
+    countRunning((r) => r.projectId === entry.projectId) < projectLimit &&
+    countRunning((r) => r.providerId === entry.providerId) < providerLimit
+  );
+}
+
+// Position among the waiting executions competing for the same project or provider
+function positionOf(entry: QueueEntry): number {
+  const ahead = waiting
+    .slice(0, waiting.indexOf(entry))
+    .filter((w) => w.projectId === entry.projectId || w.providerId === entry.providerId);
+  return ahead.length + 1;
+}
+
+// Start every waiting execution that fits, oldest first, then tell the rest where they stand
+function dispatch() {
+  for (const entry of [...waiting]) {
+    if (hasCapacity(entry)) {
+      waiting.splice(waiting.indexOf(entry), 1);
+      running.set(entry.executionId, {
+        projectId: entry.projectId,
+        providerId: entry.providerId,
+        startedAt: Date.now(),
+      });
+      entry.start();
+    }
+  }
+
+  for (const entry of waiting) {
+    const position = positionOf(entry);
+    if (position !== entry.position) {
+      entry.position = position;
+      entry.onPositionChange?.(position);
+    }
+  }
+}
+
+/**
+ * Wait until the execution may run under its project's and provider's concurrency limits.
+ * Resolves immediately when there is capacity; rejects if the signal is aborted while waiting.
+ * Every acquired slot must be given back with releaseExecutionSlot.
+ */
+export function acquireExecutionSlot(request: ExecutionSlotRequest, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      const index = waiting.indexOf(entry);
+      if (index !== -1) {
+        waiting.splice(index, 1);
+        dispatch();
+      }
+      reject(signal.reason);
+    };
+
+    const entry: QueueEntry = {
+      ...request,
+      enqueuedAt: Date.now(),
+      position: 0,
+      start: () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      },
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    waiting.push(entry);
+    dispatch();
+  });
+}
+
+/**
+ * Give back an execution's slot so the next queued execution can start
+ */
+export function releaseExecutionSlot(executionId: string): void {
+  if (running.delete(executionId)) {
+    dispatch();
+  }
+}
+
+export function getQueuedExecutions(projectId: string): QueuedExecution[] {
+  return waiting
+    .filter((entry) => entry.projectId === projectId)
+    .map((entry) => ({
+      executionId: entry.executionId,
+      position: positionOf(entry),
+      enqueuedAt: entry.enqueuedAt,
+    }));
+}
+
+export function getRunningExecutions(projectId: string): RunningExecution[] {
+  return [...running.entries()]
+    .filter(([, entry]) => entry.projectId === projectId)
+    .map(([executionId, entry]) => ({ executionId, startedAt: entry.startedAt }));
+}
+
+export interface FileClaimConflict {
+  // As passed to claimFiles
+  path: string;
+  executionId: string;
+}
+
+/**
+ * Record that an execution is about to change some files. Either every file is claimed, or none
+ * is and the first file another active execution already claimed is returned.
+ */
+export function claimFiles(executionId: string, workingDirectory: string, relativePaths: string[]): FileClaimConflict | null {
+  const files = relativePaths.map((relativePath) => path.resolve(workingDirectory, relativePath));
+
+  for (const [otherId, claimed] of fileClaims) {
+    if (otherId === executionId) continue;
+    const index = files.findIndex((file) => claimed.has(file));
+    if (index !== -1) {
+      return { path: relativePaths[index]!, executionId: otherId };
+    }
+  }
+
+  const claims = fileClaims.get(executionId) ?? new Set<string>();
+  for (const file of files) claims.add(file);
+  fileClaims.set(executionId, claims);
+  return null;
+}
+
+/**
+ * Drop an execution's file claims once it can no longer change anything
+ */
+export function releaseFileClaims(executionId: string): void {
+  fileClaims.delete(executionId);
+}
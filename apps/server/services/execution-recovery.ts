@@ -0,0 +1,147 @@
+import { db, schema } from "../db";
+import { eq, and, inArray } from "drizzle-orm";
+import { isExecutionRunning } from "./execution-registry";
+
+// How often a running agent loop records that it is still alive
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// A running execution whose heartbeat is older than this is considered dead
+export const HEARTBEAT_TIMEOUT_MS = 60_000;
+
+// Actions that only read state and can safely run again after an interruption
+const IDEMPOTENT_ACTION_TYPES: string[] = ["readFile", "listDirectory", "searchFiles"];
+
+// Statuses in which a server-side loop is expected to be driving the execution
+const RUNNING_STATUSES = ["queued", "analyzing", "executing"] as const;
+
+const INTERRUPTED_MESSAGE = "Interrupted by a server restart";
+
+/**
+ * Record a heartbeat for an execution now and on an interval until the returned function is called
+ */
+export function startExecutionHeartbeat(executionId: string): () => void {
+  const beat = () =>
+    db
+      .update(schema.agentExecutions)
+      .set({ heartbeatAt: new Date() })
+      .where(eq(schema.agentExecutions.id, executionId))
+      .catch((error) => console.warn(`[Recovery] Failed to record heartbeat for ${executionId}:`, error));
+
+  beat();
+  const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Find executions whose loop died (e.g. the server restarted mid-run) and move them to a state
+ * the user can act on. Half-executed reads are re-queued, half-executed writes and commands are
+ * marked failed since their effect on the working directory is unknown.
+ */
+export async function recoverOrphanedExecutions(): Promise<number> {
+  const running = await db.query.agentExecutions.findMany({
+    where: inArray(schema.agentExecutions.status, [...RUNNING_STATUSES]),
+  });
+
+  const cutoff = Date.now() - HEARTBEAT_TIMEOUT_MS;
+  const orphaned = running.filter((execution) => {
+    if (isExecutionRunning(execution.id)) {
+      return false;
+    }
+    const lastSeen = execution.heartbeatAt ?? execution.updatedAt;
+    return lastSeen.getTime() < cutoff;
+  });
+
+  for (const execution of orphaned) {
+    const interruptedActions = await db.query.agentActions.findMany({
+      where: and(
+        eq(schema.agentActions.executionId, execution.id),
+        eq(schema.agentActions.status, "executing")
+      ),
+    });
+
+    for (const action of interruptedActions) {
+      const idempotent = IDEMPOTENT_ACTION_TYPES.includes(action.actionType);
+      await db
+        .update(schema.agentActions)
+        .set(
+          idempotent
+            ? { status: "approved", updatedAt: new Date() }
+            : {
+                status: "failed",
+                result: JSON.stringify({ success: false, error: INTERRUPTED_MESSAGE }),
+                updatedAt: new Date(),
+              }
+        )
+        .where(eq(schema.agentActions.id, action.id));
+    }
+
+    let status: "awaiting_approval" | "interrupted" | "failed";
+    if (execution.status === "queued" || execution.status === "analyzing") {
+      // The model loop can be restarted from the persisted transcript
+      status = "interrupted";
+    } else {
+      // Approved actions that never ran (or were re-queued) can be executed again
+      const pendingActions = await db.query.agentActions.findMany({
+        where: and(
+          eq(schema.agentActions.executionId, execution.id),
+          eq(schema.agentActions.status, "approved")
+        ),
+      });
+      status = pendingActions.length > 0 ? "awaiting_approval" : "failed";
+    }
+
+    await db
+      .update(schema.agentExecutions)
+      .set({
+        status,
+        errorMessage: INTERRUPTED_MESSAGE,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.agentExecutions.id, execution.id));
+
+    console.log(`[Recovery] Execution ${execution.id} was ${execution.status}, now ${status}`);
+  }
+
+  return orphaned.length;
+}
+
+/**
+ * Pause autopilot runs left running by a previous server process. Their loop is gone,
+ * so they wait for the user to resume them.
+ */
+export async function pauseOrphanedAutopilotRuns(): Promise<number> {
+  const orphaned = await db
+    .update(schema.autopilotRuns)
+    .set({ status: "paused", pauseReason: INTERRUPTED_MESSAGE, updatedAt: new Date() })
+    .where(eq(schema.autopilotRuns.status, "running"))
+    .returning({ id: schema.autopilotRuns.id });
+
+  return orphaned.length;
+}
+
+/**
+ * Run a recovery pass now and keep sweeping periodically, so executions whose heartbeat was
+ * still fresh when the server came back up are recovered once it goes stale
+ */
+export function startExecutionRecovery(): void {
+  const sweep = () =>
+    recoverOrphanedExecutions()
+      .then((count) => {
+        if (count > 0) {
+          console.log(`[Recovery] Recovered ${count} orphaned execution(s)`);
+        }
+      })
+      .catch((error) => console.error("[Recovery] Failed to recover executions:", error));
+
+  // Nothing is running yet at boot, so every running autopilot run is orphaned
+  pauseOrphanedAutopilotRuns()
+    .then((count) => {
+      if (count > 0) {
+        console.log(`[Recovery] Paused ${count} interrupted autopilot run(s)`);
+      }
+    })
+    .catch((error) => console.error("[Recovery] Failed to pause autopilot runs:", error));
+
+  sweep();
+  setInterval(sweep, HEARTBEAT_TIMEOUT_MS);
+}
@@ -0,0 +1,43 @@
+// AbortControllers for executions whose loop is running in this server process
+const runningExecutions = new Map<string, AbortController>();
+
+/**
+ * Register a running execution loop. The returned signal is aborted when the execution is cancelled
+ * and should be passed to everything the loop starts (model calls, provider requests, commands).
+ */
+export function registerExecution(executionId: string): AbortSignal {
+  // A stale controller means an earlier loop is still winding down, stop it before taking over
+  runningExecutions.get(executionId)?.abort(new Error("Superseded by a new run"));
+
+  const controller = new AbortController();
+  runningExecutions.set(executionId, controller);
+  return controller.signal;
+}
+
+/**
+ * Remove an execution from the registry once its loop has finished
+ */
+export function unregisterExecution(executionId: string, signal: AbortSignal): void {
+  // Only remove our own controller, a newer run may have replaced it
+  if (runningExecutions.get(executionId)?.signal === signal) {
+    runningExecutions.delete(executionId);
+  }
+}
+
+/**
+ * Abort the in-flight work of an execution. Returns false when no loop is running for it.
+ */
+export function abortExecution(executionId: string): boolean {
+  const controller = runningExecutions.get(executionId);
+  if (!controller) {
+    return false;
+  }
+
+  controller.abort(new Error("Execution cancelled"));
+  runningExecutions.delete(executionId);
+  return true;
+}
+
+export function isExecutionRunning(executionId: string): boolean {
+  return runningExecutions.has(executionId);
+}
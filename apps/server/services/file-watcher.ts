@@ -14,24 +14,63 @@ export interface FileWatcherOptions {
   maxEventsPerSecond?: number;
 }
 
+export const DEFAULT_IGNORE_PATTERNS = [
+  "node_modules",
+  ".git",
+  ".DS_Store",
+  "*.log",
+  "*.lock",
+  ".turbo",
+  "dist",
+  "build",
+  ".next",
+  ".cache",
+  "coverage",
+];
+
 const DEFAULT_OPTIONS: Required<FileWatcherOptions> = {
   debounceMs: 100,
-  ignorePatterns: [
-    "node_modules",
-    ".git",
-    ".DS_Store",
-    "*.log",
-    "*.lock",
-    ".turbo",
-    "dist",
-    "build",
-    ".next",
-    ".cache",
-    "coverage",
-  ],
+  ignorePatterns: DEFAULT_IGNORE_PATTERNS,
   maxEventsPerSecond: 50,
 };
 
+/**
+ * Check whether a path (relative to the watched directory) matches any ignore pattern.
+ * Plain patterns match whole path segments; patterns with * are matched as globs
+ * against the file name and each path segment.
+ */
+export function matchesIgnorePattern(relativePath: string, ignorePatterns: string[]): boolean {
+  const pathParts = relativePath.split(path.sep);
+  const fileName = pathParts[pathParts.length - 1] || "";
+
+  for (const pattern of ignorePatterns) {
+    // Check directory patterns (no wildcards)
+    if (!pattern.includes("*")) {
+      if (pathParts.some((part) => part === pattern)) {
+        return true;
+      }
+    } else {
+      // Handle glob patterns like *.log
+      // First escape special regex chars except *, then replace * with .*
+      const escapedPattern = pattern
+        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*");
+      const regex = new RegExp("^" + escapedPattern + "$");
+
+      // Match against the filename (for patterns like *.log)
+      if (regex.test(fileName)) {
+        return true;
+      }
+      // Also match against any path part (for patterns like *test*)
+      if (pathParts.some((part) => regex.test(part))) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
 type EventCallback = (event: FileChangeEvent) => void;
 
 interface PendingEvent {
@@ -56,35 +95,7 @@ export class FileWatcher {
 
   private shouldIgnore(filePath: string): boolean {
     const relativePath = path.relative(this.workingDirectory, filePath);
-    const pathParts = relativePath.split(path.sep);
-    const fileName = pathParts[pathParts.length - 1] || "";
-
-    for (const pattern of this.options.ignorePatterns) {
-      // Check directory patterns (no wildcards)
-      if (!pattern.includes("*")) {
-        if (pathParts.some((part) => part === pattern)) {
-          return true;
-        }
-      } else {
-        // Handle glob patterns like *.log
-        // First escape special regex chars except *, then replace * with .*
-        const escapedPattern = pattern
-          .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
-          .replace(/\*/g, ".*");
-        const regex = new RegExp("^" + escapedPattern + "$");
-
-        // Match against the filename (for patterns like *.log)
-        if (regex.test(fileName)) {
-          return true;
-        }
-        // Also match against any path part (for patterns like *test*)
-        if (pathParts.some((part) => regex.test(part))) {
-          return true;
-        }
-      }
-    }
-
-    return false;
+    return matchesIgnorePattern(relativePath, this.options.ignorePatterns);
   }
 
   private emitEvent(event: FileChangeEvent): void {
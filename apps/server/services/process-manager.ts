@@ -0,0 +1,187 @@
+import { spawnCommand, killProcessGroup, type CommandSpawnOptions } from "../ai/command-runner";
+
+export interface ProcessStartOptions extends CommandSpawnOptions {
+  // Output kept per process, older output is dropped once it's exceeded
+  maxOutputChars: number;
+}
+
+export interface ProcessInfo {
+  id: string;
+  command: string;
+  pid: number;
+  startedAt: number;
+  // null while the process is running
+  exitCode: number | null;
+}
+
+export interface ProcessOutput extends ProcessInfo {
+  // Output since the previous read, stdout and stderr interleaved as they arrived
+  output: string;
+  // Characters of unread output that were dropped because the buffer was full
+  droppedChars: number;
+}
+
+interface ManagedProcess extends ProcessInfo {
+  exited: Promise<number>;
+  maxOutputChars: number;
+  // Buffered output and the absolute offsets of its start and of the read position
+  buffer: string;
+  bufferStart: number;
+  readOffset: number;
+  // Resolved whenever output arrives or the process exits, for reads that wait
+  notify: () => void;
+  changed: Promise<void>;
+}
+
+// How long a stopped process gets to exit after SIGTERM before it is killed
+const STOP_GRACE_MS = 3000;
+
+// Background processes per execution, by process id
+const executionProcesses = new Map<string, Map<string, ManagedProcess>>();
+let nextProcessNumber = 1;
+
+function resetNotify(entry: ManagedProcess): void {
+  entry.changed = new Promise((resolve) => {
+    entry.notify = () => {
+      resetNotify(entry);
+      resolve();
+    };
+  });
+}
+
+function appendOutput(entry: ManagedProcess, text: string): void {
+  entry.buffer += text;
+  const excess = entry.buffer.length - entry.maxOutputChars;
+  if (excess > 0) {
+    entry.buffer = entry.buffer.slice(excess);
+    entry.bufferStart += excess;
+  }
+  entry.notify();
+}
+
+async function pipeOutput(entry: ManagedProcess, stream: ReadableStream<Uint8Array>): Promise<void> {
+  const decoder = new TextDecoder();
+  for await (const chunk of stream) {
+    appendOutput(entry, decoder.decode(chunk, { stream: true }));
+  }
+  appendOutput(entry, decoder.decode());
+}
+
+function getProcess(executionId: string, processId: string): ManagedProcess {
+  const entry = executionProcesses.get(executionId)?.get(processId);
+  if (!entry) {
+    const ids = listProcesses(executionId).map((info) => info.id);
+    throw new Error(
+      `No process with id "${processId}" in this execution${ids.length > 0 ? `, its processes are ${ids.join(", ")}` : ""}`
+    );
+  }
+  return entry;
+}
+
+function toInfo(entry: ManagedProcess): ProcessInfo {
+  return {
+    id: entry.id,
+    command: entry.command,
+    pid: entry.pid,
+    startedAt: entry.startedAt,
+    exitCode: entry.exitCode,
+  };
+}
+
+/**
+ * Start a long-running command such as a dev server in the background. It keeps running,
+ * with its output buffered, until it exits, is stopped or the execution ends.
+ */
+export function startProcess(executionId: string, command: string, options: ProcessStartOptions): ProcessInfo {
+  const proc = spawnCommand(command, options);
+  const entry: ManagedProcess = {
+    id: `p${nextProcessNumber++}`,
+    command,
+    pid: proc.pid,
+    startedAt: Date.now(),
+    exitCode: null,
+    exited: proc.exited,
+    maxOutputChars: options.maxOutputChars,
+    buffer: "",
+    bufferStart: 0,
+    readOffset: 0,
+    notify: () => {},
+    changed: Promise.resolve(),
+  };
+  resetNotify(entry);
+
+  const output = Promise.all([pipeOutput(entry, proc.stdout), pipeOutput(entry, proc.stderr)]);
+  proc.exited.then(async (exitCode) => {
+    await output.catch(() => {});
+    entry.exitCode = exitCode;
+    entry.notify();
+  });
+
+  const processes = executionProcesses.get(executionId) ?? new Map<string, ManagedProcess>();
+  processes.set(entry.id, entry);
+  executionProcesses.set(executionId, processes);
+
+  console.log(`[Agent] Started process ${entry.id} (pid ${proc.pid}) for execution ${executionId}: ${command}`);
+  return toInfo(entry);
+}
+
+/**
+ * Read a process's output since the previous read. With waitMs, waits up to that long for
+ * new output or for the process to exit when there is nothing to return yet.
+ */
+export async function readProcessOutput(executionId: string, processId: string, waitMs = 0): Promise<ProcessOutput> {
+  const entry = getProcess(executionId, processId);
+  const bufferEnd = () => entry.bufferStart + entry.buffer.length;
+
+  if (waitMs > 0 && entry.readOffset >= bufferEnd() && entry.exitCode === null) {
+    await Promise.race([entry.changed, Bun.sleep(waitMs)]);
+  }
+
+  const droppedChars = Math.max(0, entry.bufferStart - entry.readOffset);
+  const output = entry.buffer.slice(Math.max(0, entry.readOffset - entry.bufferStart));
+  entry.readOffset = bufferEnd();
+
+  return { ...toInfo(entry), output, droppedChars };
+}
+
+/**
+ * Stop a process and everything it started: SIGTERM first, SIGKILL if it hasn't exited after a grace period
+ */
+export async function stopProcess(executionId: string, processId: string): Promise<ProcessInfo> {
+  const entry = getProcess(executionId, processId);
+
+  if (entry.exitCode === null) {
+    killProcessGroup(entry.pid, "SIGTERM");
+    const exited = await Promise.race([entry.exited.then(() => true), Bun.sleep(STOP_GRACE_MS).then(() => false)]);
+    if (!exited) {
+      killProcessGroup(entry.pid);
+      await entry.exited;
+    }
+    // The exit handler sets exitCode after the output is drained
+    entry.exitCode ??= await entry.exited;
+  }
+
+  return toInfo(entry);
+}
+
+export function listProcesses(executionId: string): ProcessInfo[] {
+  return [...(executionProcesses.get(executionId)?.values() ?? [])].map(toInfo);
+}
+
+/**
+ * Kill every process an execution started, once it has ended or was cancelled
+ */
+export function stopExecutionProcesses(executionId: string): void {
+  const processes = executionProcesses.get(executionId);
+  if (!processes) return;
+
+  // Also when the shell has exited, something it started in the background may still be running
+  for (const entry of processes.values()) {
+    killProcessGroup(entry.pid);
+  }
+  executionProcesses.delete(executionId);
+
+  if (processes.size > 0) {
+    console.log(`[Agent] Stopped ${processes.size} background process(es) of execution ${executionId}`);
+  }
+}
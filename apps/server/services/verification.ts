@@ -0,0 +1,84 @@
+import { nanoid } from "nanoid";
+import { eq, max } from "drizzle-orm";
+import type { VerificationRun } from "@open-dev/shared";
+import { db, schema } from "../db";
+import { runCommand, type CommandRunOptions } from "../ai/command-runner";
+
+export interface VerificationOptions {
+  // Timeout, output cap, environment and resource limits, the same as for agent commands
+  commandLimits?: Omit<CommandRunOptions, "cwd" | "signal" | "onOutput">;
+  signal?: AbortSignal;
+  // Called with each result as soon as its command finishes
+  onRun?: (run: VerificationRun) => void;
+}
+
+/**
+ * The attempt number for the next verification of an execution, counted from the stored
+ * runs so it carries over when the execution is resumed
+ */
+export async function getNextVerificationAttempt(executionId: string): Promise<number> {
+  const [row] = await db
+    .select({ attempt: max(schema.agentVerificationRuns.attempt) })
+    .from(schema.agentVerificationRuns)
+    .where(eq(schema.agentVerificationRuns.executionId, executionId));
+  return (row?.attempt ?? 0) + 1;
+}
+
+/**
+ * Run the verification commands in order, storing each result. Stops at the first failing
+ * command, like a CI job, so the agent gets the first problem to fix without waiting for the rest.
+ */
+export async function runVerification(
+  executionId: string,
+  workingDirectory: string,
+  commands: string[],
+  attempt: number,
+  options: VerificationOptions = {}
+): Promise<VerificationRun[]> {
+  const runs: VerificationRun[] = [];
+
+  for (const command of commands) {
+    const startedAt = Date.now();
+    const result = await runCommand(command, { ...options.commandLimits, cwd: workingDirectory, signal: options.signal })
+      .catch((error: unknown) => ({
+        exitCode: null,
+        stdout: "",
+        stderr: error instanceof Error ? error.message : String(error),
+        timedOut: false,
+      }));
+    options.signal?.throwIfAborted();
+
+    const notes = result.timedOut ? `\n(timed out after ${options.commandLimits?.timeoutSeconds}s and was killed)` : "";
+    const run: VerificationRun = {
+      id: nanoid(),
+      executionId,
+      attempt,
+      command,
+      success: result.exitCode === 0,
+      exitCode: result.exitCode,
+      output: [result.stdout, result.stderr].filter(Boolean).join("\n") + notes,
+      durationMs: Date.now() - startedAt,
+      createdAt: new Date().toISOString(),
+    };
+
+    await db.insert(schema.agentVerificationRuns).values({ ...run, createdAt: new Date(run.createdAt) });
+    options.onRun?.(run);
+    runs.push(run);
+
+    if (!run.success) break;
+  }
+
+  return runs;
+}
+
+/**
+ * Tool result telling the agent which check failed, so it can fix it and call completeTask again
+ */
+export function formatVerificationFailure(run: VerificationRun, retriesLeft: number): string {
+  const exit = run.exitCode === null ? "could not finish" : `exited with code ${run.exitCode}`;
+  return [
+    `Error: The task is not complete yet, verification failed. \`${run.command}\` ${exit}:`,
+    run.output.trim() || "(no output)",
+    `Fix the problems and call completeTask again. ${retriesLeft} ${retriesLeft === 1 ? "retry is" : "retries are"} left before completion goes ahead without passing checks.`,
+  ].join("\n\n");
+}
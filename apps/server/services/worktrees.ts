@@ -0,0 +1,172 @@
+import { $ } from "bun";
+import * as path from "path";
+import { mkdir } from "node:fs/promises";
+import { GIT_IDENTITY, withTemporaryIndex } from "./checkpoints";
+
+export type WorktreeStatus = "active" | "merged" | "kept" | "discarded";
+
+export interface ExecutionWorktree {
+  branch: string;
+  baseCommit: string;
+  // Directory the agent operates in: the project's working directory mapped into the worktree
+  workingDirectory: string;
+}
+
+// Worktrees live next to the database, outside the user's repository
+const WORKTREE_ROOT = path.resolve("../../data/worktrees");
+
+async function getGitTopLevel(directory: string): Promise<string> {
+  return (await $`git rev-parse --show-toplevel`.cwd(directory).quiet().text()).trim();
+}
+
+/**
+ * Environment for commits made on the user's behalf.
+ * Falls back to a placeholder identity when the repository has no user configured.
+ */
+async function getCommitEnv(repoRoot: string): Promise<Record<string, string | undefined>> {
+  const email = await $`git config user.email`.cwd(repoRoot).quiet().nothrow();
+  if (email.exitCode === 0 && email.stdout.toString().trim()) {
+    return { ...process.env };
+  }
+  return { ...process.env, ...GIT_IDENTITY };
+}
+
+/**
+ * Commit everything the agent changed in a worktree so the branch carries its work
+ */
+async function commitPendingChanges(worktreeRoot: string, message: string): Promise<void> {
+  await $`git add -A`.cwd(worktreeRoot).quiet();
+  const staged = await $`git diff --cached --quiet`.cwd(worktreeRoot).quiet().nothrow();
+  if (staged.exitCode === 0) {
+    return;
+  }
+  const env = await getCommitEnv(worktreeRoot);
+  await $`git commit -q -m ${message}`.cwd(worktreeRoot).env(env).quiet();
+}
+
+async function removeWorktree(repoRoot: string, worktreeDirectory: string): Promise<void> {
+  const worktreeRoot = await getGitTopLevel(worktreeDirectory).catch(() => null);
+  if (worktreeRoot && worktreeRoot !== repoRoot) {
+    await $`git worktree remove --force ${worktreeRoot}`.cwd(repoRoot).quiet();
+  }
+  await $`git worktree prune`.cwd(repoRoot).quiet().nothrow();
+}
+
+export function getWorktreeBranchName(taskId: string, executionId: string): string {
+  return `open-dev/${taskId}-${executionId}`;
+}
+
+/**
+ * Create a dedicated worktree and branch for an execution, based on the current HEAD
+ * of the repository containing the project's working directory
+ */
+export async function createExecutionWorktree(
+  projectWorkingDirectory: string,
+  taskId: string,
+  executionId: string
+): Promise<ExecutionWorktree> {
+  const repoRoot = await getGitTopLevel(projectWorkingDirectory);
+
+  const head = await $`git rev-parse --verify -q HEAD`.cwd(repoRoot).quiet().nothrow();
+  if (head.exitCode !== 0) {
+    throw new Error("Worktree isolation requires a repository with at least one commit");
+  }
+  const baseCommit = head.stdout.toString().trim();
+
+  const branch = getWorktreeBranchName(taskId, executionId);
+  const worktreeRoot = path.join(WORKTREE_ROOT, executionId);
+
+  await $`git worktree add -q -b ${branch} ${worktreeRoot} ${baseCommit}`.cwd(repoRoot).quiet();
+
+  // The working directory may be an untracked subdirectory that the checkout doesn't contain
+  const workingDirectory = path.join(worktreeRoot, path.relative(repoRoot, projectWorkingDirectory));
+  await mkdir(workingDirectory, { recursive: true });
+
+  return { branch, baseCommit, workingDirectory };
+}
+
+/**
+ * Unified diff of an execution branch against its base commit.
+ * Active worktrees include uncommitted and untracked changes.
+ */
+export async function getWorktreeDiff(
+  projectWorkingDirectory: string,
+  worktreeDirectory: string,
+  branch: string,
+  baseCommit: string,
+  status: WorktreeStatus
+): Promise<string> {
+  if (status === "active") {
+    const worktreeRoot = await getGitTopLevel(worktreeDirectory);
+    // Untracked files are recorded as intent-to-add so they show up in the diff, in a throwaway
+    // index so reading the diff doesn't stage anything
+    return withTemporaryIndex(async (env) => {
+      await $`git read-tree HEAD`.cwd(worktreeRoot).env(env).quiet();
+      await $`git add -A -N`.cwd(worktreeRoot).env(env).quiet();
+      return $`git diff ${baseCommit}`.cwd(worktreeRoot).env(env).quiet().text();
+    });
+  }
+
+  if (status === "kept") {
+    const repoRoot = await getGitTopLevel(projectWorkingDirectory);
+    return $`git diff ${baseCommit} ${branch}`.cwd(repoRoot).quiet().text();
+  }
+
+  throw new Error(`Branch ${branch} has been ${status}`);
+}
+
+/**
+ * Commit the execution's changes and merge its branch into the repository's current branch.
+ * The worktree and branch are removed once the merge succeeds.
+ */
+export async function mergeWorktree(
+  projectWorkingDirectory: string,
+  worktreeDirectory: string,
+  branch: string,
+  commitMessage: string
+): Promise<void> {
+  const repoRoot = await getGitTopLevel(projectWorkingDirectory);
+  await commitPendingChanges(await getGitTopLevel(worktreeDirectory), commitMessage);
+
+  const env = await getCommitEnv(repoRoot);
+  const merge = await $`git merge --no-ff -m ${`Merge branch '${branch}'`} ${branch}`
+    .cwd(repoRoot)
+    .env(env)
+    .quiet()
+    .nothrow();
+
+  if (merge.exitCode !== 0) {
+    await $`git merge --abort`.cwd(repoRoot).quiet().nothrow();
+    const output = (merge.stderr.toString() || merge.stdout.toString()).trim();
+    throw new Error(`Merge failed: ${output}`);
+  }
+
+  await removeWorktree(repoRoot, worktreeDirectory);
+  await $`git branch -D ${branch}`.cwd(repoRoot).quiet();
+}
+
+/**
+ * Commit the execution's changes and remove the worktree, leaving the branch in place
+ */
+export async function keepWorktreeBranch(
+  projectWorkingDirectory: string,
+  worktreeDirectory: string,
+  commitMessage: string
+): Promise<void> {
+  const repoRoot = await getGitTopLevel(projectWorkingDirectory);
+  await commitPendingChanges(await getGitTopLevel(worktreeDirectory), commitMessage);
+  await removeWorktree(repoRoot, worktreeDirectory);
+}
+
+/**
+ * Throw away the execution's worktree and branch
+ */
+export async function discardWorktree(
+  projectWorkingDirectory: string,
+  worktreeDirectory: string,
+  branch: string
+): Promise<void> {
+  const repoRoot = await getGitTopLevel(projectWorkingDirectory);
+  await removeWorktree(repoRoot, worktreeDirectory);
+  await $`git branch -D ${branch}`.cwd(repoRoot).quiet().nothrow();
+}
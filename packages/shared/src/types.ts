@@ -29,9 +29,19 @@ export interface Project {
   userId: string;
   guidelines: string | null;
   aiProviderId: string | null;
+  // JSON array of provider ids tried in order when aiProviderId's provider fails
+  fallbackAiProviderIds: string | null;
   workingDirectory: string | null;
   workingDirectoryConfirmed: boolean | null;
   toolApprovalSettings: string | null;
+  commandPolicy: string | null;
+  verificationSettings: string | null;
+  reviewerSettings: string | null;
+  // JSON object routing phases like exploration or chat to their own provider and model
+  modelRouting: string | null;
+  useWorktrees: boolean | null;
+  autoApprovalPolicy: string | null;
+  maxConcurrentExecutions: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -41,6 +51,9 @@ export interface CreateProject {
   description?: string;
   guidelines?: string;
   aiProviderId?: string;
+  fallbackAiProviderIds?: string[];
+  useWorktrees?: boolean;
+  maxConcurrentExecutions?: number;
 }
 
 // AI Provider types
@@ -49,6 +62,10 @@ export interface AIProvider {
   name: string;
   baseUrl: string;
   model: string;
+  streaming: boolean;
+  maxConcurrentExecutions: number;
+  // JSON object of ModelPricing per model name
+  pricing: string | null;
   hasApiKey: boolean;
   createdAt: string;
   updatedAt: string;
@@ -59,8 +76,22 @@ export interface CreateAIProvider {
   baseUrl: string;
   apiKey?: string;
   model?: string;
+  streaming?: boolean;
+  maxConcurrentExecutions?: number;
+  pricing?: ModelPricingTable;
 }
 
+// USD per million tokens of one model
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Input tokens read from the provider's prompt cache
+  cachedInputPerMillion: number;
+}
+
+// Prices per model name, since routing can use several models of one provider
+export type ModelPricingTable = Record<string, ModelPricing>;
+
 // Chat types
 export interface ChatMessage {
   id: string;
@@ -89,22 +120,64 @@ export interface ToolResult {
 // Agent types
 export type AgentExecutionStatus =
   | "pending"
+  | "queued"
   | "analyzing"
   | "awaiting_approval"
+  | "awaiting_question"
+  | "awaiting_plan_approval"
   | "executing"
   | "completed"
   | "failed"
-  | "cancelled";
+  | "cancelled"
+  | "interrupted";
 
 export type AgentActionType =
   | "readFile"
   | "writeFile"
   | "editFile"
   | "deleteFile"
+  | "applyPatch"
   | "listDirectory"
+  | "searchFiles"
   | "executeCommand"
+  | "startProcess"
+  | "readProcessOutput"
+  | "stopProcess"
   | "completeTask";
 
+// plan_first: the agent explores with read-only tools and submits a plan, which the user approves before any change
+export type ExecutionMode = "default" | "plan_first";
+
+export type PlanStepStatus = "pending" | "in_progress" | "completed" | "skipped" | "rejected";
+
+export interface PlanStep {
+  id: string;
+  description: string;
+  // Files the step will create, change or delete
+  files: string[];
+  // Commands the step will run
+  commands: string[];
+  status: PlanStepStatus;
+}
+
+// The plan a plan_first execution submits, stored as JSON on the execution
+export interface ExecutionPlan {
+  summary: string;
+  steps: PlanStep[];
+  risks: string[];
+  // revising: the user sent the plan back with feedback and the agent is working on a new one
+  status: "awaiting_approval" | "approved" | "revising";
+  feedback: string | null;
+}
+
+// The user's decision on a submitted plan. Approval can come with edited, reordered or rejected steps,
+// otherwise feedback sends the plan back to the agent to revise.
+export interface PlanReview {
+  approved: boolean;
+  steps?: PlanStep[];
+  feedback?: string;
+}
+
 export type AgentActionStatus =
   | "proposed"
   | "approved"
@@ -122,6 +195,12 @@ export interface AgentExecution {
   createdAt: string;
   updatedAt: string;
   completedAt: string | null;
+  autopilotRunId?: string | null;
+  mode?: ExecutionMode;
+  // JSON ExecutionPlan, set once a plan_first execution submits its plan
+  plan?: string | null;
+  // JSON ExecutionUsage totalled over all of the execution's runs
+  usage?: string | null;
 }
 
 export interface AgentAction {
@@ -136,32 +215,295 @@ export interface AgentAction {
   updatedAt: string;
 }
 
+// Lines a running command printed, streamed as commandOutput events and kept on the action result
+export interface CommandOutputChunk {
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
 export interface AgentActionParsed extends Omit<AgentAction, 'actionParams' | 'result'> {
   actionParams: Record<string, unknown>;
-  result: { success: boolean; output?: string; error?: string } | null;
+  // networkAccess and outputChunks are recorded for executeCommand actions
+  result: {
+    success: boolean;
+    output?: string;
+    error?: string;
+    networkAccess?: NetworkAccess;
+    outputChunks?: CommandOutputChunk[];
+  } | null;
 }
 
 // Tool approval settings
 export interface ToolApprovalSettings {
   readFile?: boolean;
   listDirectory?: boolean;
+  searchFiles?: boolean;
   writeFile?: boolean;
   editFile?: boolean;
   deleteFile?: boolean;
+  applyPatch?: boolean;
   executeCommand?: boolean;
   completeTask?: boolean;
+  // Ordered glob rules for file paths, checked before the per-tool settings above
+  pathRules?: PathApprovalRule[];
+  // Globs no file tool may read or change; DEFAULT_PROTECTED_PATHS when not set
+  protectedPaths?: string[];
+}
+
+export const DEFAULT_PROTECTED_PATHS: string[] = [
+  ".git/**",
+  ".env",
+  ".env.*",
+  ".ssh/**",
+  ".npmrc",
+  ".netrc",
+  "*.pem",
+  "*.key",
+  "id_rsa*",
+  "id_ed25519*",
+];
+
+// Glob rule for paths relative to the working directory, the first matching rule decides.
+// allow/require_approval apply to file changes, deny blocks reads too.
+export interface PathApprovalRule {
+  id: string;
+  pattern: string;
+  action: CommandPolicyAction;
+  reason?: string;
 }
 
 export const DEFAULT_TOOL_APPROVAL_SETTINGS: ToolApprovalSettings = {
   readFile: false,
   listDirectory: false,
+  searchFiles: false,
   writeFile: true,
   editFile: true,
   deleteFile: true,
+  applyPatch: true,
   executeCommand: true,
   completeTask: true,
 };
 
+// Network reachable from agent commands: unrestricted, nothing, or only the command's own
+// loopback interface (a fresh network namespace, so services on the host's localhost are unreachable)
+export type NetworkAccess = "full" | "none" | "localhost";
+
+// Sandbox limits for agent executions, a limit of 0 disables it
+export interface SandboxLimits {
+  maxExecutionTimeSeconds: number;
+  maxTokens: number;
+  maxFileOperations: number;
+  maxCommands: number;
+  // Wall-clock time a single command may run before its process group is killed
+  commandTimeoutSeconds: number;
+  // Bytes of stdout and of stderr kept per command, the start and end are kept when it's exceeded
+  maxCommandOutputBytes: number;
+  // Environment variables passed through to commands, everything else (e.g. API keys) is dropped
+  commandEnvAllowList: string[];
+  // Linux only: CPU seconds and address space (MB) per command, set with ulimit
+  commandCpuSeconds: number;
+  commandMemoryMb: number;
+  // Linux only, enforced with network namespaces (unshare -n); commands fail when they're unavailable
+  networkAccess: NetworkAccess;
+  maxFileSizeBytes: number;
+  maxSteps: number;
+  // Spend on model calls, priced with the providers' pricing tables; steps of unpriced models cost nothing
+  maxCostUsd: number;
+}
+
+// What a run of an execution used against its sandbox limits, limits apply to each run on its own.
+// Streamed as sandboxUsage events and kept on the execution.
+export interface ExecutionUsage {
+  elapsedTimeSeconds: number;
+  tokensUsed: number;
+  costUsd: number;
+  fileOperationsCount: number;
+  commandsCount: number;
+  stepsCount: number;
+  limits: SandboxLimits;
+  // Of each limit, 0 when the limit is off
+  percentages: {
+    time: number;
+    tokens: number;
+    cost: number;
+    fileOperations: number;
+    commands: number;
+    steps: number;
+  };
+}
+
+export interface SandboxUsage {
+  executionStartTime: number;
+  tokensUsed: number;
+  costUsd: number;
+  fileOperationsCount: number;
+  commandsCount: number;
+  stepsCount: number;
+}
+
+// Command policy types
+export type CommandPolicyAction = "allow" | "require_approval" | "deny";
+
+// One rule of a project's ordered command policy, the first rule matching a command decides
+export interface CommandPolicyRule {
+  id: string;
+  pattern: string;
+  matchType: "glob" | "regex";
+  action: CommandPolicyAction;
+  reason?: string;
+}
+
+export interface CommandPolicy {
+  rules: CommandPolicyRule[];
+}
+
+export interface CommandPolicyDecision {
+  // null when no rule decides and the executeCommand approval setting applies
+  action: CommandPolicyAction | null;
+  rule: CommandPolicyRule | null;
+  // The command, or the part of a chained command, the deciding rule matched
+  matchedText: string | null;
+}
+
+// Checks run when the agent calls completeTask, e.g. ["bun run typecheck", "bun test"]
+export interface VerificationSettings {
+  commands: string[];
+  // How many times failures are handed back to the agent to fix before completion goes ahead anyway
+  maxRetries: number;
+}
+
+export const DEFAULT_VERIFICATION_SETTINGS: VerificationSettings = {
+  commands: [],
+  maxRetries: 2,
+};
+
+// One verification command run, attempt counts the completeTask calls of the execution
+export interface VerificationRun {
+  id: string;
+  executionId: string;
+  attempt: number;
+  command: string;
+  success: boolean;
+  exitCode: number | null;
+  output: string;
+  durationMs: number;
+  createdAt: string;
+}
+
+// Second model pass that reviews an execution's file changes before the task completes
+export interface ReviewerSettings {
+  enabled: boolean;
+  // null reviews on the project's review route, or its own provider without one
+  aiProviderId: string | null;
+  // How many times a verdict asking for changes is handed back to the agent, 0 only attaches it
+  maxRounds: number;
+}
+
+export const DEFAULT_REVIEWER_SETTINGS: ReviewerSettings = {
+  enabled: false,
+  aiProviderId: null,
+  maxRounds: 1,
+};
+
+// Phases of an agent execution's model calls, told apart by the tools of the step before
+export type AgentStepPhase = "exploration" | "editing";
+
+// Kinds of model calls a project can route to their own provider and model
+export type ModelRoutingPhase = "chat" | AgentStepPhase | "review";
+
+// Model calls recorded as an execution's steps: the agent's own and the reviewer pass's
+export type ExecutionStepPhase = AgentStepPhase | "review";
+
+export interface ModelRoute {
+  aiProviderId: string;
+  // null uses the provider's own model
+  model: string | null;
+}
+
+// null leaves a phase on the project's provider chain. Routed calls still fail over to the chain.
+export type ModelRoutingSettings = Record<ModelRoutingPhase, ModelRoute | null>;
+
+export const DEFAULT_MODEL_ROUTING_SETTINGS: ModelRoutingSettings = {
+  chat: null,
+  exploration: null,
+  editing: null,
+  review: null,
+};
+
+export type ReviewVerdict = "approve" | "request_changes";
+
+export type ReviewIssueSeverity = "blocker" | "major" | "minor";
+
+export interface ReviewIssue {
+  file: string;
+  // null when the issue concerns the file as a whole
+  line: number | null;
+  severity: ReviewIssueSeverity;
+  message: string;
+}
+
+// The reviewer's verdict on one completeTask call, round counts the reviews of the execution
+export interface ExecutionReview {
+  id: string;
+  executionId: string;
+  round: number;
+  aiProviderId: string | null;
+  verdict: ReviewVerdict;
+  summary: string;
+  issues: ReviewIssue[];
+  createdAt: string;
+}
+
+// Which proposed actions an autopilot run approves without a human
+export interface AutoApprovalPolicy {
+  approveFileChanges: boolean; // writeFile, editFile, deleteFile, applyPatch
+  approveCommands: boolean; // executeCommand, startProcess
+  approveTaskCompletion: boolean; // completeTask
+  acceptValidation: boolean; // Move tasks that reach validation to done instead of pausing for review
+}
+
+export const DEFAULT_AUTO_APPROVAL_POLICY: AutoApprovalPolicy = {
+  approveFileChanges: false,
+  approveCommands: false,
+  approveTaskCompletion: false,
+  acceptValidation: false,
+};
+
+// Autopilot types
+export type AutopilotRunStatus = "running" | "paused" | "completed" | "failed" | "cancelled";
+
+export interface AutopilotRun {
+  id: string;
+  projectId: string;
+  status: AutopilotRunStatus;
+  taskIds: string[] | null;
+  completedTaskIds: string[];
+  currentTaskId: string | null;
+  currentExecutionId: string | null;
+  pauseReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+// Autopilot SSE event types
+export interface AutopilotTaskEvent {
+  runId: string;
+  taskId: string;
+  taskTitle: string;
+  executionId: string | null;
+  status: "started" | "completed" | "paused" | "failed";
+  message?: string;
+}
+
+export interface AutopilotExecutionEvent {
+  runId: string;
+  taskId: string;
+  executionId: string;
+  event: string;
+  data: unknown;
+}
+
 // Agent SSE event types
 export interface AgentStatusEvent {
   executionId: string;
@@ -178,6 +520,41 @@ export interface AgentActionEvent {
 
 export interface AgentTextEvent {
   content: string;
+  // Set when content is an incremental chunk of a streamed response
+  delta?: boolean;
+}
+
+export type ReasoningStepType = "thinking" | "planning" | "decision" | "observation" | "reflection";
+
+export interface AgentReasoningStep {
+  id: string;
+  type: ReasoningStepType;
+  content: string;
+  timestamp: string;
+}
+
+export interface AgentReasoningEvent {
+  step: AgentReasoningStep;
+  // Set while a streamed reasoning step is still growing; later events with the same id replace it
+  partial?: boolean;
+}
+
+// Stored model transcript entry; message is the serialized ModelMessage sent to or received from the model
+export interface AgentTranscriptMessage {
+  id: string;
+  role: "system" | "user" | "assistant" | "tool";
+  message: {
+    role: string;
+    content: string | Array<{ type: string; [key: string]: unknown }>;
+  };
+  sequence: number;
+  createdAt: string;
+}
+
+export interface AgentToolCallEvent {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
 }
 
 export interface AgentExecutingEvent {
@@ -203,6 +580,204 @@ export interface AgentErrorEvent {
   error: string;
 }
 
+// Execution history types
+export interface ExecutionHistoryItem {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  status: AgentExecutionStatus;
+  errorMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  actionsCount: number;
+  completedActionsCount: number;
+  failedActionsCount: number;
+  // null for executions that never ran or ran before usage was kept
+  usage: ExecutionUsage | null;
+}
+
+// Usage measures the history can be sorted and filtered by, besides the default createdAt
+export type ExecutionHistorySortKey = "createdAt" | "tokens" | "steps" | "commands" | "duration";
+
+export interface ExecutionHistoryFilters {
+  status?: AgentExecutionStatus;
+  limit?: number;
+  offset?: number;
+  sortBy?: ExecutionHistorySortKey;
+  sortOrder?: "asc" | "desc";
+  // Only executions that used at least this much; executions without usage are left out
+  minTokens?: number;
+  minSteps?: number;
+  minCommands?: number;
+  minDurationSeconds?: number;
+}
+
+export interface ExecutionCheckpoint {
+  id: string;
+  kind: "git" | "snapshot";
+  createdAt: string;
+  restoredAt: string | null;
+}
+
+export type WorktreeStatus = "active" | "merged" | "kept" | "discarded";
+
+export type WorktreeAction = "merge" | "keep" | "discard";
+
+export interface ExecutionWorktree {
+  branch: string;
+  baseCommit: string;
+  status: WorktreeStatus;
+}
+
+export interface WorktreeDiff extends ExecutionWorktree {
+  diff: string;
+}
+
+// A provider of the project's chain that failed a model call before the next one was tried
+export interface ProviderFailover {
+  aiProviderId: string;
+  providerName: string;
+  error: string;
+}
+
+// One model call of an execution, with the provider that answered it
+export interface ExecutionStep {
+  id: string;
+  executionId: string;
+  step: number;
+  aiProviderId: string;
+  providerName: string;
+  model: string;
+  // null for steps recorded before model routing
+  phase: ExecutionStepPhase | null;
+  inputTokens: number | null;
+  // Part of inputTokens read from the provider's prompt cache
+  cachedInputTokens: number | null;
+  outputTokens: number | null;
+  // null when the provider has no price for the model
+  costUsd: number | null;
+  failovers: ProviderFailover[];
+  createdAt: string;
+}
+
+export interface ExecutionHistoryDetail {
+  execution: AgentExecution;
+  task: {
+    id: string;
+    title: string;
+    description: string | null;
+  };
+  actions: AgentActionParsed[];
+  summary: {
+    totalActions: number;
+    completedActions: number;
+    failedActions: number;
+    duration: number | null;
+    actionBreakdown: Record<AgentActionType, number>;
+  };
+  checkpoint: ExecutionCheckpoint | null;
+  worktree: ExecutionWorktree | null;
+  auditEntries: AgentAuditEntry[];
+  verificationRuns: VerificationRun[];
+  plan: ExecutionPlan | null;
+  reviews: ExecutionReview[];
+  steps: ExecutionStep[];
+  usage: ExecutionUsage | null;
+}
+
+// Why a file tool was refused access to a path
+export type PathBlockReason = "outside_working_directory" | "symlink_escape" | "protected" | "denied_by_rule";
+
+// Security events recorded in an execution's log
+export interface AgentAuditEntry {
+  id: string;
+  executionId: string;
+  kind: "path_blocked";
+  actionType: AgentActionType;
+  path: string;
+  reason: PathBlockReason;
+  message: string;
+  createdAt: string;
+}
+
+export interface ExecutionHistoryStats {
+  totalExecutions: number;
+  completedExecutions: number;
+  failedExecutions: number;
+  cancelledExecutions: number;
+  avgDuration: number | null;
+  actionBreakdown: Record<AgentActionType, number>;
+  // Spend of the project's priced steps, in USD
+  totalCostUsd: number;
+  // Most expensive tasks first
+  costByTask: { taskId: string; taskTitle: string; costUsd: number }[];
+  // Oldest day first, YYYY-MM-DD in UTC
+  costByDay: { date: string; costUsd: number }[];
+}
+
+export interface ExecutionQueueEntry {
+  executionId: string;
+  taskId: string;
+  taskTitle: string;
+  // 1-based position among waiting executions, null while running
+  position: number | null;
+  etaSeconds: number | null;
+  since: string;
+}
+
+export interface ExecutionQueue {
+  maxConcurrentExecutions: number;
+  running: ExecutionQueueEntry[];
+  queued: ExecutionQueueEntry[];
+}
+
+// A file read for the diff preview, optionally only a line range of it
+export interface FileContent {
+  content: string;
+  exists: boolean;
+  // Binary files come back without content
+  binary?: boolean;
+  size?: number;
+  totalLines?: number;
+  // Set when a line range was requested, clamped to the file
+  startLine?: number;
+  endLine?: number;
+}
+
+// What a proposed applyPatch action would do to each file
+export interface PatchHunkResult {
+  index: number;
+  header: string;
+  applied: boolean;
+  offset: number;
+  fuzz: number;
+  error?: string;
+}
+
+export interface PatchFilePreview {
+  path: string;
+  oldPath?: string;
+  operation: "create" | "modify" | "delete";
+  originalContent: string;
+  newContent: string;
+  hunks: PatchHunkResult[];
+  error?: string;
+}
+
+export interface PatchPreview {
+  files: PatchFilePreview[];
+  // Whether every hunk of every file applies cleanly
+  applies: boolean;
+}
+
+export interface RollbackResult {
+  success: boolean;
+  restoredFiles: number;
+  removedFiles: string[];
+}
+
 // Filesystem types
 export interface StartingPath {
   name: string;